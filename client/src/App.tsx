@@ -8,6 +8,7 @@ import VideoChat from "./screens/VideoChat";
 import SplashScreen from "./components/SplashScreen";
 import OnboardingScreen from "./screens/OnboardingScreen";
 import ReferToUnlock from "./screens/ReferToUnlock";
+import PremiumTrialPrompt from "./screens/PremiumTrialPrompt";
 import ReferralCodeScreen from "./screens/ReferralCode";
 import GenderSelect from "./screens/GenderSelect";
 import ChatPage from "./screens/ChatPage";
@@ -27,6 +28,7 @@ import TermsOfServicePage from "./screens/TermsOfServicePage";
 import AdminPanelPage from "./screens/AdminPanelPage";
 import SpinWheel from "./components/SpinWheel";
 import PWAInstallPrompt from "./components/PWAInstallPrompt";
+import SubscriptionReminder from "./components/SubscriptionReminder";
 import AppStartupCheck from "./components/AppStartupCheck";
 import UltraAppWrapper from "./components/UltraAppWrapper";
 import CookieConsent from "./components/CookieConsent";
@@ -161,7 +163,7 @@ function App() {
             <Route path="/" element={<HomePage />} />
             <Route path="/onboarding" element={<OnboardingScreen />} />
             <Route path="/user-setup" element={<UserSetup />} />
-            <Route path="/premium-trial" element={<ReferToUnlock />} />
+            <Route path="/premium-trial" element={<PremiumTrialPrompt />} />
             <Route path="/home" element={<HomePage />} />
             <Route path="/gender-select" element={<GenderSelect />} />
             <Route path="/video-chat" element={<VideoChat />} />
@@ -185,6 +187,7 @@ function App() {
           </Routes>
 
           <PWAInstallPrompt />
+          <SubscriptionReminder />
           <CookieConsent />
           <LegalFooter />
         </div>
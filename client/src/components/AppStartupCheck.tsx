@@ -9,7 +9,7 @@ interface AppStartupCheckProps {
 
 export default function AppStartupCheck({ children }: AppStartupCheckProps) {
   const { pendingAds } = useCoin();
-  const { isPremium } = usePremium();
+  const { isUltraPremium } = usePremium();
   const [showPendingAds, setShowPendingAds] = useState(false);
   const [startupChecked, setStartupChecked] = useState(false);
 
@@ -19,8 +19,7 @@ export default function AppStartupCheck({ children }: AppStartupCheckProps) {
       setStartupChecked(true);
       
       // Check if user has ULTRA+ premium and show welcome message
-      const premiumPlan = localStorage.getItem('ajnabicam_premium_plan');
-      if (isPremium && premiumPlan === 'ultra-quarterly') {
+      if (isUltraPremium()) {
         setTimeout(() => {
           alert('🎭 Welcome ULTRA+ user! You can now apply face filters to your partner\'s video during calls. Look for the filter button in video chat!');
         }, 2000);
@@ -30,7 +29,7 @@ export default function AppStartupCheck({ children }: AppStartupCheckProps) {
         setShowPendingAds(true);
       }
     }
-  }, [pendingAds, startupChecked, isPremium]);
+  }, [pendingAds, startupChecked, isUltraPremium]);
 
   const handleAllAdsWatched = () => {
     setShowPendingAds(false);
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useState } from "react";
+import { Ban } from "lucide-react";
+import { Button } from "./ui/button";
+import { useSocket } from "../context/SocketProvider";
+
+interface BlockedUser {
+  blockedUid: string;
+  createdAt: number;
+}
+
+export default function BlockedUsersList() {
+  const { socket, isUsingMockMode } = useSocket();
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBlockedUsers = useCallback(() => {
+    if (!socket || isUsingMockMode) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    socket.emit(
+      "blocks:list",
+      {},
+      (response: { success: boolean; blocks?: BlockedUser[]; error?: string }) => {
+        if (response.success) {
+          setBlockedUsers(response.blocks || []);
+          setError(null);
+        } else {
+          setError(response.error || "Failed to load blocked users");
+        }
+        setIsLoading(false);
+      },
+    );
+  }, [socket, isUsingMockMode]);
+
+  useEffect(() => {
+    loadBlockedUsers();
+  }, [loadBlockedUsers]);
+
+  const handleUnblock = (blockedUid: string) => {
+    socket?.emit(
+      "blocks:remove",
+      { blockedUid },
+      (response: { success: boolean; error?: string }) => {
+        if (response.success) {
+          setBlockedUsers((prev) =>
+            prev.filter((user) => user.blockedUid !== blockedUid),
+          );
+        } else {
+          alert(`❌ ${response.error || "Failed to unblock user"}`);
+        }
+      },
+    );
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="flex items-center gap-3 mb-3">
+        <Ban className="h-5 w-5 text-rose-600" />
+        <div>
+          <span className="font-medium text-gray-800">Blocked Users</span>
+          <p className="text-xs text-gray-500">You won't be matched with these users</p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : error ? (
+        <p className="text-sm text-rose-500">{error}</p>
+      ) : blockedUsers.length === 0 ? (
+        <p className="text-sm text-gray-500">You haven't blocked anyone</p>
+      ) : (
+        <ul className="space-y-2">
+          {blockedUsers.map((user) => (
+            <li
+              key={user.blockedUid}
+              className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2"
+            >
+              <div>
+                <span className="text-sm font-medium text-gray-700">
+                  Stranger #{user.blockedUid.slice(0, 6)}
+                </span>
+                <p className="text-xs text-gray-500">
+                  Blocked {new Date(user.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                className="text-xs px-3 py-1 h-auto"
+                onClick={() => handleUnblock(user.blockedUid)}
+              >
+                Unblock
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
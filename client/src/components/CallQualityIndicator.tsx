@@ -0,0 +1,40 @@
+import { Signal, SignalHigh, SignalLow, SignalMedium, VideoOff } from "lucide-react";
+import { CallQualityUpdate, ConnectionQuality } from "../lib/webrtc";
+
+const QUALITY_STYLES: Record<ConnectionQuality, { icon: typeof Signal; label: string; className: string }> = {
+  excellent: { icon: Signal, label: "Excellent", className: "bg-green-500" },
+  good: { icon: SignalHigh, label: "Good", className: "bg-lime-500" },
+  fair: { icon: SignalMedium, label: "Fair", className: "bg-yellow-500" },
+  poor: { icon: SignalLow, label: "Poor", className: "bg-red-500" },
+};
+
+interface CallQualityIndicatorProps {
+  update: CallQualityUpdate;
+}
+
+/**
+ * Live link quality for the current call, from PeerService's stats sampler
+ */
+export default function CallQualityIndicator({ update }: CallQualityIndicatorProps) {
+  const { icon: Icon, label, className } = QUALITY_STYLES[update.quality];
+  const { rttMs, packetLoss } = update.sample;
+  const details = [
+    rttMs !== null && `${Math.round(rttMs)}ms`,
+    `${(packetLoss * 100).toFixed(1)}% loss`,
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <div
+      className={`${className} px-2 py-1 rounded-full flex items-center gap-1 shadow-lg`}
+      title={details}
+    >
+      <Icon className="w-3 h-3 text-white" />
+      <span className="text-white text-xs font-bold">{label}</span>
+      {update.audioOnly && (
+        <span className="text-white text-xs flex items-center gap-1">
+          · <VideoOff className="w-3 h-3" /> Audio only
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,43 +1,59 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent } from "./ui/card";
 import { Button } from "./ui/button";
-import { Clock, Crown, Infinity } from "lucide-react";
+import { Clock, Crown, Infinity, Plus } from "lucide-react";
+import { usePremium } from "../context/PremiumProvider";
+import { useEntitlement } from "../hooks/useEntitlement";
+import { callLimitMs } from "../lib/entitlements";
 
 interface ChatTimerProps {
-  isPremium: boolean;
   isConnected: boolean;
   partnerPremium: boolean;
+  // The server's deadline for this call: null when unlimited, undefined
+  // until it arrives (or in mock mode, where the local table is used)
+  remainingMs?: number | null;
   onTimeUp: () => void;
   onUpgrade: () => void;
+  // Buy more time with coins
+  onExtend?: () => void;
   onFriendRequestTime?: () => void;
   isFriendCall?: boolean;
-  isUltraPremium?: boolean;
 }
 
-export default function ChatTimer({ isPremium, isConnected, partnerPremium, onTimeUp, onUpgrade, onFriendRequestTime, isFriendCall = false, isUltraPremium = false }: ChatTimerProps) {
-  const [timeLeft, setTimeLeft] = useState(30 * 60); // 30 minutes for premium, 15 for free
+export default function ChatTimer({ isConnected, partnerPremium, remainingMs, onTimeUp, onUpgrade, onExtend, onFriendRequestTime, isFriendCall = false }: ChatTimerProps) {
+  const { isPremium, premiumTier, entitlements } = usePremium();
+  const { granted: hasExtendedCalls, coinPrice: extensionPrice } = useEntitlement("extended_calls");
+  const { granted: hasUnlimitedCalls } = useEntitlement("unlimited_calls");
+  const { extendedMs, extensionMs } = entitlements.callLimits;
+
+  // The partner's tier is unknown here; any premium gives them extended calls
+  const localLimitMs = callLimitMs(
+    entitlements,
+    isPremium ? premiumTier || "vip" : null,
+    partnerPremium ? "vip" : null,
+  );
+  const limitMs = remainingMs !== undefined ? remainingMs : localLimitMs;
+  const isUnlimited = limitMs === null;
+  const limitSeconds = Math.ceil((limitMs ?? 0) / 1000);
+
+  const [timeLeft, setTimeLeft] = useState(limitSeconds);
+  const [maxTime, setMaxTime] = useState(limitSeconds);
   const [isActive, setIsActive] = useState(false);
   const [friendRequestTriggered, setFriendRequestTriggered] = useState(false);
-  const hasPremiumAccess = isPremium || partnerPremium;
-  const maxTime = hasPremiumAccess ? 30 * 60 : 15 * 60; // 30 min for premium, 15 min for free
+  const hasPremiumAccess = hasExtendedCalls || partnerPremium;
   const friendRequestTime = 7 * 60; // 7 minutes for friend request
 
   useEffect(() => {
-    if (isConnected) {
-      if (!hasPremiumAccess) {
-        setIsActive(true);
-        setTimeLeft(15 * 60); // 15 minutes for free users
-      } else {
-        setIsActive(true);
-        setTimeLeft(30 * 60); // 30 minutes for premium users
-      }
-      setFriendRequestTriggered(false); // Reset friend request trigger
+    if (isConnected && !isUnlimited) {
+      setIsActive(true);
+      setTimeLeft(limitSeconds);
+      setMaxTime(limitSeconds);
     } else {
       setIsActive(false);
-      setTimeLeft(hasPremiumAccess ? 30 * 60 : 15 * 60); // Reset timer when disconnected
+      setTimeLeft(limitSeconds); // Reset timer when disconnected
       setFriendRequestTriggered(false);
     }
-  }, [isConnected, hasPremiumAccess]);
+  }, [isConnected, isUnlimited, limitSeconds]);
 
   useEffect(() => {
     let interval: NodeJS.Timeout | null = null;
@@ -81,8 +97,8 @@ export default function ChatTimer({ isPremium, isConnected, partnerPremium, onTi
     return "text-red-600";
   };
 
-  // Don't show timer for ULTRA+ users unless it's a friend call
-  if (!isConnected || (isUltraPremium && !isFriendCall)) return null;
+  // Unlimited calls have no timer unless it's a friend call
+  if (!isConnected || (isUnlimited && !isFriendCall)) return null;
 
   return (
     <Card className="w-full max-w-md mx-auto mb-4">
@@ -95,7 +111,7 @@ export default function ChatTimer({ isPremium, isConnected, partnerPremium, onTi
             </span>
           </div>
           
-          {isUltraPremium ? (
+          {isUnlimited ? (
             <div className="flex items-center gap-2 text-purple-600">
               <Infinity className="h-6 w-6 text-purple-500" />
               <span className="font-bold text-purple-600">Unlimited</span>
@@ -106,9 +122,9 @@ export default function ChatTimer({ isPremium, isConnected, partnerPremium, onTi
               <div className={`font-mono text-xl font-bold ${getTimeColor()}`}>
                 {formatTime(timeLeft)}
               </div>
-              <span className="text-sm">/ 30:00</span>
+              <span className="text-sm">/ {formatTime(maxTime)}</span>
               <Crown className="h-4 w-4 text-yellow-500" />
-              {partnerPremium && !isPremium && (
+              {partnerPremium && !hasExtendedCalls && (
                 <span className="text-xs text-green-600">(Partner Premium)</span>
               )}
             </div>
@@ -129,19 +145,30 @@ export default function ChatTimer({ isPremium, isConnected, partnerPremium, onTi
           />
         </div>
         
-        {!isFriendCall && !hasPremiumAccess && timeLeft < 300 && (
+        {!isFriendCall && !isUnlimited && timeLeft < 300 && (
           <div className="mt-3 p-3 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 rounded-lg text-center">
             <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
-              ⏰ Continue this amazing conversation! Get Premium for 30-minute calls.
+              ⏰ Continue this amazing conversation!
+              {!hasPremiumAccess && ` Get Premium for ${extendedMs / 60000}-minute calls.`}
             </p>
-            <Button
-              size="sm"
-              onClick={onUpgrade}
-              className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white"
-            >
-              <Crown className="h-4 w-4 mr-1" />
-              Upgrade Now - ₹99/week
-            </Button>
+            <div className="flex items-center justify-center gap-2">
+              {onExtend && extensionPrice !== undefined && (
+                <Button size="sm" variant="outline" onClick={onExtend}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  {extensionMs / 60000} min - {extensionPrice} coins
+                </Button>
+              )}
+              {!hasPremiumAccess && (
+                <Button
+                  size="sm"
+                  onClick={onUpgrade}
+                  className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white"
+                >
+                  <Crown className="h-4 w-4 mr-1" />
+                  Upgrade Now - ₹99/week
+                </Button>
+              )}
+            </div>
           </div>
         )}
 
@@ -156,17 +183,17 @@ export default function ChatTimer({ isPremium, isConnected, partnerPremium, onTi
           </div>
         )}
         
-        {isUltraPremium && (
+        {hasUnlimitedCalls && (
           <div className="mt-2 p-2 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 rounded-lg text-center">
             <p className="text-sm text-purple-600 dark:text-purple-400">
               💎 ULTRA+ Premium - Enjoy unlimited calls with no time limits! 💕
             </p>
           </div>
         )}
-        {!isUltraPremium && hasPremiumAccess && (
+        {!hasUnlimitedCalls && hasPremiumAccess && (
           <div className="mt-2 p-2 bg-gradient-to-r from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 rounded-lg text-center">
             <p className="text-sm text-green-600 dark:text-green-400">
-              ✨ {isPremium ? "You have" : "Your partner has"} Premium - Enjoy {isFriendCall ? "unlimited" : "30-minute"} calls! 💕
+              ✨ {hasExtendedCalls ? "You have" : "Your partner has"} Premium - Enjoy {isFriendCall ? "unlimited" : `${extendedMs / 60000}-minute`} calls! 💕
             </p>
           </div>
         )}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "./ui/card";
+import { Coins, X } from "lucide-react";
+import { useCoin } from "../context/CoinProvider";
+import { COIN_REASON_LABELS, LedgerEntry, getCoinHistory } from "../lib/coinLedger";
+
+interface CoinHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function CoinHistoryModal({ isOpen, onClose }: CoinHistoryModalProps) {
+  const { coins } = useCoin();
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the balance moves so new entries show up
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getCoinHistory()
+      .then((history) => {
+        if (!cancelled) setEntries(history);
+      })
+      .catch((err) => {
+        console.error("Error loading coin history:", err);
+        if (!cancelled) setError("Couldn't load your coin history. Please try again.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, coins]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-md bg-white shadow-2xl border-0 max-h-[80vh] overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-yellow-400 to-orange-500 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-12 h-12 bg-white/20 flex items-center justify-center">
+                <Coins className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold">Coin History</h2>
+                <p className="text-white/80 text-sm">Balance: {coins} coins</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-white/20 transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <CardContent className="p-0 max-h-96 overflow-y-auto">
+          {isLoading && entries.length === 0 && (
+            <p className="p-6 text-center text-sm text-gray-500">Loading...</p>
+          )}
+
+          {error && <p className="p-6 text-center text-sm text-red-600">{error}</p>}
+
+          {!isLoading && !error && entries.length === 0 && (
+            <p className="p-6 text-center text-sm text-gray-500">
+              No coin activity yet. Watch an ad or claim your daily bonus to get started!
+            </p>
+          )}
+
+          <div className="divide-y divide-gray-100">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between px-4 py-3">
+                <div>
+                  <p className="font-medium text-gray-800">{COIN_REASON_LABELS[entry.reason]}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p
+                    className={`font-bold ${entry.amount > 0 ? "text-green-600" : "text-red-600"}`}
+                  >
+                    {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                  </p>
+                  <p className="text-xs text-gray-500">Balance {entry.balance}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Clock, Coins, Filter, Image, Rocket, ShoppingBag, Sparkles } from "lucide-react";
+import { useCoin } from "../context/CoinProvider";
+import { usePremium } from "../context/PremiumProvider";
+import { ApiError } from "../lib/apiClient";
+import { ShopItem, ShopItemId, buyShopItem, getShop } from "../lib/coinShop";
+
+const ITEM_ICONS: Record<ShopItemId, typeof Coins> = {
+  filter_pass: Filter,
+  gender_filter_hour: Filter,
+  extra_chat_time: Clock,
+  wallpaper_pack: Image,
+  face_filter_pack: Sparkles,
+  profile_boost: Rocket,
+};
+
+function formatRemaining(expiresAt: number): string {
+  const minutes = Math.max(1, Math.round((expiresAt - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes}m left`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h left` : `${Math.round(hours / 24)}d left`;
+}
+
+/**
+ * Features bought with coins for a while, priced by the server
+ */
+export default function CoinShop() {
+  const { coins } = useCoin();
+  const { hasEntitlement, shopUnlocks, setShopUnlocks } = usePremium();
+  const [items, setItems] = useState<ShopItem[]>([]);
+  const [buying, setBuying] = useState<ShopItemId | null>(null);
+
+  useEffect(() => {
+    getShop()
+      .then(({ items, unlocks }) => {
+        setItems(items);
+        setShopUnlocks(unlocks);
+      })
+      .catch((error) => console.error("Error loading coin shop:", error));
+  }, []);
+
+  const handleBuy = async (item: ShopItem) => {
+    setBuying(item.id);
+    try {
+      const { unlocks } = await buyShopItem(item.id);
+      setShopUnlocks(unlocks);
+      alert(`🎉 ${item.name} unlocked!`);
+    } catch (error) {
+      if (error instanceof ApiError && error.code === "insufficient_coins") {
+        alert(`❌ Not enough coins! You need ${item.price} coins.`);
+      } else {
+        console.error("Coin shop purchase failed:", error);
+        alert("❌ Purchase failed. Please try again.");
+      }
+    } finally {
+      setBuying(null);
+    }
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-bold text-gray-800 text-center flex items-center justify-center gap-2">
+        <ShoppingBag className="h-5 w-5 text-peach-600" />
+        Coin Shop
+      </h3>
+      {items.map((item) => {
+        const Icon = ITEM_ICONS[item.id] || Coins;
+        const unlock = shopUnlocks.find(({ itemId }) => itemId === item.id);
+        // Premium already includes it, unless it is running from an earlier purchase
+        const included = !unlock && hasEntitlement(item.feature);
+
+        return (
+          <div
+            key={item.id}
+            className="bg-gradient-to-br from-cream-50 to-peach-50 rounded-xl p-3 border-2 border-peach-200 shadow-lg flex items-center justify-between gap-3"
+          >
+            <div className="flex items-center gap-3">
+              <div className="bg-gradient-to-r from-peach-400 to-coral-500 p-2 rounded-full shadow-lg">
+                <Icon className="h-5 w-5 text-white" />
+              </div>
+              <div>
+                <h4 className="font-bold text-gray-800 text-sm">{item.name}</h4>
+                <p className="text-xs text-gray-600">{item.description}</p>
+                {unlock && (
+                  <p className="text-xs text-green-600 font-semibold mt-1">
+                    Active · {formatRemaining(unlock.expiresAt)}
+                    {unlock.matchesLeft !== null && ` · ${unlock.matchesLeft} matches`}
+                  </p>
+                )}
+                {included && (
+                  <p className="text-xs text-gray-500 mt-1">Included in your premium plan</p>
+                )}
+              </div>
+            </div>
+            <Button
+              onClick={() => handleBuy(item)}
+              disabled={included || buying !== null || coins < item.price}
+              className="font-bold rounded-xl bg-gradient-to-r from-peach-500 to-coral-500 text-white shrink-0"
+            >
+              <Coins className="h-4 w-4 mr-1" />
+              {item.price}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
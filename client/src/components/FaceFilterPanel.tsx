@@ -3,13 +3,13 @@ import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { X, Crown, Sparkles, Heart, Camera } from 'lucide-react';
 import { faceFilters, FaceFilter } from '../lib/faceFilters';
+import { useEntitlement } from '../hooks/useEntitlement';
 
 interface FaceFilterPanelProps {
   isOpen: boolean;
   onClose: () => void;
   onFilterSelect: (filter: FaceFilter) => void;
   currentFilter: FaceFilter | null;
-  isUltraPremium: boolean;
   onUpgrade: () => void;
 }
 
@@ -18,9 +18,9 @@ export default function FaceFilterPanel({
   onClose,
   onFilterSelect,
   currentFilter,
-  isUltraPremium,
   onUpgrade,
 }: FaceFilterPanelProps) {
+  const { granted: canUsePremiumFilters } = useEntitlement('premium_face_filters');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
 
   if (!isOpen) return null;
@@ -38,7 +38,7 @@ export default function FaceFilterPanel({
     : faceFilters.filter(filter => filter.category === selectedCategory);
 
   const handleFilterSelect = (filter: FaceFilter) => {
-    if (filter.isPremium && !isUltraPremium) {
+    if (filter.isPremium && !canUsePremiumFilters) {
       onUpgrade();
       return;
     }
@@ -71,7 +71,7 @@ export default function FaceFilterPanel({
             Apply filters to your partner's video
           </p>
           
-          {!isUltraPremium && (
+          {!canUsePremiumFilters && (
             <div className="flex items-center justify-center gap-2 bg-yellow-400/20 backdrop-blur-sm px-3 py-1 rounded-full mt-2">
               <Crown className="h-4 w-4 text-yellow-300" />
               <span className="text-yellow-100 text-sm font-bold">ULTRA+ Feature</span>
@@ -105,7 +105,7 @@ export default function FaceFilterPanel({
             <div className="grid grid-cols-3 gap-3">
               {filteredFilters.map((filter) => {
                 const isSelected = currentFilter?.id === filter.id;
-                const isLocked = filter.isPremium && !isUltraPremium;
+                const isLocked = filter.isPremium && !canUsePremiumFilters;
 
                 return (
                   <button
@@ -156,7 +156,7 @@ export default function FaceFilterPanel({
           </div>
 
           {/* ULTRA+ Upgrade Banner */}
-          {!isUltraPremium && (
+          {!canUsePremiumFilters && (
             <div className="p-4 bg-gradient-to-r from-purple-50 to-pink-50 border-t border-gray-100">
               <div className="text-center">
                 <div className="flex items-center justify-center gap-2 mb-2">
@@ -2,18 +2,18 @@ import { useState } from "react";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Users, User, Crown } from "lucide-react";
+import { useEntitlement } from "../hooks/useEntitlement";
 
 interface GenderFilterProps {
-  isPremium: boolean;
   onGenderSelect: (gender: string) => void;
   onUpgrade: () => void;
 }
 
 export default function GenderFilter({
-  isPremium,
   onGenderSelect,
   onUpgrade,
 }: GenderFilterProps) {
+  const { granted: canFilterGender } = useEntitlement("gender_filter");
   const [selectedGender, setSelectedGender] = useState<string>("any");
 
   const genderOptions = [
@@ -47,7 +47,7 @@ export default function GenderFilter({
   ];
 
   const handleGenderChange = (gender: string) => {
-    if (!isPremium && gender !== "any") {
+    if (!canFilterGender && gender !== "any") {
       onUpgrade();
       return;
     }
@@ -69,7 +69,7 @@ export default function GenderFilter({
         {/* Gender Options - Enhanced 2-Row Design */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
           {genderOptions.map((option, index) => {
-            const isLocked = !isPremium && option.id !== "any";
+            const isLocked = !canFilterGender && option.id !== "any";
             const isSelected = selectedGender === option.id;
 
             return (
@@ -182,7 +182,7 @@ export default function GenderFilter({
         </div>
 
         {/* Ultimate Premium Upsell Card - Maximum Standout */}
-        {!isPremium && (
+        {!canFilterGender && (
           <div className="mt-10 relative group animate-fade-in-up">
             {/* Extreme Multiple Layer Background Blur Effect */}
             <div className="absolute -inset-8 bg-gradient-to-r from-purple-500/15 via-pink-500/15 to-orange-500/15 backdrop-blur-2xl rounded-3xl animate-pulse opacity-80"></div>
@@ -3,6 +3,7 @@ import { Button } from './ui/button';
 import { Play, Coins, Gift, TrendingUp } from 'lucide-react';
 import { adMobService } from '../lib/adMobMediationService';
 import { useCoin } from '../context/CoinProvider';
+import { useRewardedAd } from '../hooks/useRewardedAd';
 
 interface MediatedRewardedAdButtonProps {
   onRewardEarned?: (amount: number, network: string) => void;
@@ -19,7 +20,9 @@ export default function MediatedRewardedAdButton({
 }: MediatedRewardedAdButtonProps) {
   const [isWatching, setIsWatching] = useState(false);
   const [lastNetwork, setLastNetwork] = useState<string>('');
-  const { addCoins } = useCoin();
+  const { rewardStatus } = useCoin();
+  const { watchRewardedAd } = useRewardedAd();
+  const expectedReward = rewardStatus?.adReward ?? 10;
 
   const handleWatchAd = async () => {
     if (isWatching || disabled) return;
@@ -30,22 +33,35 @@ export default function MediatedRewardedAdButton({
       // Initialize AdMob mediation if not already done
       await adMobService.initialize();
       
-      const result = await adMobService.showMediatedRewardedAd();
+      let network = '';
+      const session = await watchRewardedAd(async (verification) => {
+        const result = await adMobService.showMediatedRewardedAd(verification);
+        network = result.network;
+        return result.success;
+      });
       
-      if (result.success) {
-        // Add coins to user's balance
-        await addCoins(result.reward);
-        
-        // Update last network used
-        setLastNetwork(result.network);
-        
+      if (!session) {
+        alert(`❌ Could not load ad. Our mediation system is optimizing for next time!`);
+        return;
+      }
+
+      // Update last network used
+      setLastNetwork(network);
+
+      if (session.status === 'pending') {
+        alert('⏳ Thanks for watching! Your coins will arrive as soon as the ad network confirms.');
+      } else if (session.status === 'rejected') {
+        alert(
+          session.error === 'ad_limit_reached'
+            ? "❌ You've reached today's ad reward limit. Come back tomorrow!"
+            : '❌ This ad could not be rewarded. Please try again.',
+        );
+      } else {
         // Notify parent component
-        onRewardEarned?.(result.reward, result.network);
+        onRewardEarned?.(session.coins, network);
         
         // Show success message with network info
-        alert(`🎉 Success! Earned ${result.reward} coins via ${result.network}!\n\n💰 AdMob mediation optimized your reward!`);
-      } else {
-        alert(`❌ Could not load ad. Our mediation system is optimizing for next time!`);
+        alert(`🎉 Success! Earned ${session.coins} coins via ${network}!\n\n💰 AdMob mediation optimized your reward!`);
       }
     } catch (error) {
       console.error('Mediated rewarded ad error:', error);
@@ -77,7 +93,7 @@ export default function MediatedRewardedAdButton({
           <>
             <Play className="w-4 h-4 mr-1" />
             <TrendingUp className="w-3 h-3 mr-1" />
-            +10-15
+            +{expectedReward}
           </>
         )}
       </Button>
@@ -104,7 +120,7 @@ export default function MediatedRewardedAdButton({
             <div className="text-left">
               <div className="text-lg">Watch Mediated Ad</div>
               <div className="text-sm opacity-90">
-                Earn 10-15 Coins {lastNetwork && `(${lastNetwork})`}
+                Earn {expectedReward} Coins {lastNetwork && `(${lastNetwork})`}
               </div>
             </div>
           </div>
@@ -128,7 +144,7 @@ export default function MediatedRewardedAdButton({
         <>
           <Play className="w-4 h-4 mr-2" />
           <TrendingUp className="w-4 h-4 mr-1" />
-          Watch Ad for 10-15 Coins
+          Watch Ad for {expectedReward} Coins
           <Coins className="w-4 h-4 ml-2" />
         </>
       )}
@@ -2,6 +2,7 @@ import { useCallback, useEffect, useRef, useState } from "react"
 import { useNavigate } from "react-router-dom"
 import { useSocket } from "../context/SocketProvider"
 import { usePremium } from "../context/PremiumProvider"
+import { useEntitlement } from "../hooks/useEntitlement"
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Send, Eye, Palette, Check, CheckCheck, Clock } from "lucide-react";
@@ -36,7 +37,9 @@ const wallpaperGradients: Record<string, string> = {
 export default function Messages({remoteChatToken, messagesArray, setMessagesArray}: MessageProps) {
     const navigate = useNavigate();
     const {socket} = useSocket();
-    const { isPremium, isUltraPremium, isProMonthly } = usePremium();
+    const { hasEntitlement } = usePremium();
+    const { granted: canSeeTyping } = useEntitlement("typing_indicators");
+    const { granted: canSeeReadReceipts } = useEntitlement("read_receipts");
     const [message, setMessage] = useState<string>('');
     const [isSecretMode, setIsSecretMode] = useState<boolean>(false);
     const [showSecretModal, setShowSecretModal] = useState<boolean>(false);
@@ -49,6 +52,8 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
 
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
+    // The server expires typing after a few seconds, so keep refreshing it
+    const lastTypingSentRef = useRef<number>(0);
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -100,8 +105,8 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
             messageId
         });
 
-        // Send typing status end for premium users
-        if (isUltraPremium() || isProMonthly()) {
+        // Send typing status end for users with typing indicators
+        if (canSeeTyping) {
             socket?.emit("typing:end", { targetChatToken: remoteChatToken });
             setIsTyping(false);
         }
@@ -132,9 +137,10 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
         };
 
         setMessagesArray((prev) => [...prev, newMessage]);
+        setPartnerTyping(false);
 
-        // Send read receipt for premium users
-        if ((isUltraPremium() || isProMonthly()) && messageId) {
+        // Send read receipt for users with read receipts
+        if (canSeeReadReceipts && messageId) {
             socket?.emit("message:read", {
                 messageId,
                 targetChatToken: remoteChatToken
@@ -147,7 +153,7 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
                 setMessagesArray(prev => prev.filter(msg => msg.id !== newMessage.id));
             }, 3000);
         }
-    }, [setMessagesArray, remoteChatToken, socket, isUltraPremium, isProMonthly]);
+    }, [setMessagesArray, remoteChatToken, socket, canSeeReadReceipts]);
 
     const handleSecretModeToggle = (enabled: boolean) => {
         setIsSecretMode(enabled);
@@ -178,14 +184,15 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
         console.log(`🎉 Welcome to Premium! Your ${plan} subscription is now active!`);
     }, []);
 
-    // Handle typing status for premium users
+    // Handle typing status for users with typing indicators
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setMessage(e.target.value);
 
-        // Typing indicator for premium users
-        if (isUltraPremium() || isProMonthly()) {
-            if (!isTyping) {
+        // Typing indicator for users with typing indicators
+        if (canSeeTyping) {
+            if (!isTyping || Date.now() - lastTypingSentRef.current > 2000) {
                 setIsTyping(true);
+                lastTypingSentRef.current = Date.now();
                 socket?.emit("typing:start", { targetChatToken: remoteChatToken });
             }
 
@@ -204,6 +211,11 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
         }
     };
 
+    // A new partner starts out not typing
+    useEffect(() => {
+        setPartnerTyping(false);
+    }, [remoteChatToken]);
+
     useEffect(() => {
         socket?.on("message:recieved", handleMessageReceived);
         socket?.on("secret:mode:changed", ({ enabled }: { enabled: boolean }) => {
@@ -269,8 +281,8 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
                                 )}
                             </div>
                             <div className="mb-1">{msg.message}</div>
-                            {/* Read receipt for own messages (premium users only) */}
-                            {msg.sender === 'You' && (isUltraPremium() || isProMonthly()) && (
+                            {/* Read receipt for own messages (read_receipts only) */}
+                            {msg.sender === 'You' && canSeeReadReceipts && (
                                 <div className="flex justify-end">
                                     {msg.isRead ? (
                                         <CheckCheck className="h-3 w-3 text-blue-300" />
@@ -283,8 +295,8 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
                     </div>
                 ))}
 
-                {/* Typing indicator for premium users */}
-                {partnerTyping && (isUltraPremium() || isProMonthly()) && (
+                {/* Typing indicator (typing_indicators only) */}
+                {partnerTyping && canSeeTyping && (
                     <div className="mb-2">
                         <div className="inline-block max-w-xs px-3 py-2 rounded-lg bg-gray-200 text-gray-600">
                             <div className="flex items-center gap-2">
@@ -299,8 +311,8 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
                     </div>
                 )}
 
-                {/* Last seen indicator for premium users */}
-                {(isUltraPremium() || isProMonthly()) && !partnerTyping && messagesArray.length > 0 && (
+                {/* Last seen indicator, shown alongside typing indicators */}
+                {canSeeTyping && !partnerTyping && messagesArray.length > 0 && (
                     <div className="mb-2 flex justify-center">
                         <div className="bg-gray-100 px-3 py-1 rounded-full">
                             <div className="flex items-center gap-1 text-xs text-gray-500">
@@ -325,11 +337,11 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
                         className={`flex items-center gap-1 ${
                             isSecretMode 
                                 ? 'bg-purple-500 text-white' 
-                                : isPremium 
+                                : hasEntitlement("secret_chat") 
                                     ? 'border-purple-300 text-purple-600 hover:bg-purple-50' 
                                     : 'border-gray-300 text-gray-400'
                         }`}
-                        disabled={!isPremium && !isSecretMode}
+                        disabled={!hasEntitlement("secret_chat") && !isSecretMode}
                     >
                         <Eye className="h-3 w-3" />
                         Secret
@@ -340,11 +352,11 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
                         size="sm"
                         variant="outline"
                         className={`flex items-center gap-1 ${
-                            isPremium 
+                            hasEntitlement("premium_wallpapers") 
                                 ? 'border-purple-300 text-purple-600 hover:bg-purple-50' 
                                 : 'border-gray-300 text-gray-400'
                         }`}
-                        disabled={!isPremium}
+                        disabled={!hasEntitlement("premium_wallpapers")}
                     >
                         <Palette className="h-3 w-3" />
                         Theme
@@ -388,7 +400,6 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
                 onClose={() => setShowSecretModal(false)}
                 onToggle={handleSecretModeToggle}
                 isEnabled={isSecretMode}
-                isPremium={isPremium}
                 onUpgrade={handleUpgrade}
             />
 
@@ -397,7 +408,6 @@ export default function Messages({remoteChatToken, messagesArray, setMessagesArr
                 onClose={() => setShowWallpaperSelector(false)}
                 onSelect={handleWallpaperSelect}
                 currentWallpaper={currentWallpaper}
-                isPremium={isPremium}
                 onUpgrade={handleUpgrade}
             />
 
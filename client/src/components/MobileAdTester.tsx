@@ -3,13 +3,13 @@ import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Smartphone, Play, Gift, TrendingUp, CheckCircle, XCircle } from 'lucide-react';
 import { mobileAdService } from '../lib/mobileAdService';
-import { useCoin } from '../context/CoinProvider';
+import { useRewardedAd } from '../hooks/useRewardedAd';
 
 export default function MobileAdTester() {
   const [isInitialized, setIsInitialized] = useState(false);
   const [testResults, setTestResults] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const { addCoins } = useCoin();
+  const { watchRewardedAd } = useRewardedAd();
 
   useEffect(() => {
     initializeMobileAds();
@@ -64,10 +64,17 @@ export default function MobileAdTester() {
   const testRewardedAd = async () => {
     setIsLoading(true);
     try {
-      const result = await mobileAdService.showRewardedAd();
-      if (result.success) {
-        await addCoins(result.reward);
-        addTestResult('Rewarded Ad', true, `Rewarded ad completed! Earned ${result.reward} coins`);
+      const session = await watchRewardedAd(
+        async (verification) => (await mobileAdService.showRewardedAd(verification)).success,
+      );
+      if (session) {
+        addTestResult(
+          'Rewarded Ad',
+          true,
+          session.status === 'credited'
+            ? `Rewarded ad completed! Earned ${session.coins} coins`
+            : `Rewarded ad completed; reward ${session.error || session.status}`,
+        );
       } else {
         addTestResult('Rewarded Ad', false, 'Rewarded ad failed to complete');
       }
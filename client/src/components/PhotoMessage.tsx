@@ -1,7 +1,7 @@
 import { useState, useRef, useEffect } from "react";
 import { Eye, Download, Lock, Crown, X, AlertTriangle } from "lucide-react";
 import { Button } from "./ui/button";
-import { usePremium } from "../context/PremiumProvider";
+import { useEntitlement } from "../hooks/useEntitlement";
 
 interface PhotoMessageProps {
   photoUrl: string;
@@ -23,12 +23,12 @@ export default function PhotoMessage({
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [hasBeenViewed, setHasBeenViewed] = useState(isViewed);
   const [showProtectionWarning, setShowProtectionWarning] = useState(false);
-  const { isPremium } = usePremium();
+  const { granted: canSavePhotos } = useEntitlement("photo_saving");
   const imageRef = useRef<HTMLImageElement>(null);
 
   // Disable right-click and long press for non-premium users
   const handleContextMenu = (e: React.MouseEvent) => {
-    if (!isPremium) {
+    if (!canSavePhotos) {
       e.preventDefault();
       setShowProtectionWarning(true);
       setTimeout(() => setShowProtectionWarning(false), 3000);
@@ -38,7 +38,7 @@ export default function PhotoMessage({
   // Disable screenshot shortcuts for non-premium users
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!isPremium && isFullscreen) {
+      if (!canSavePhotos && isFullscreen) {
         // Disable common screenshot shortcuts
         if (
           (e.ctrlKey && e.shiftKey && (e.key === "S" || e.key === "s")) ||
@@ -58,11 +58,11 @@ export default function PhotoMessage({
       document.addEventListener("keydown", handleKeyDown);
       return () => document.removeEventListener("keydown", handleKeyDown);
     }
-  }, [isPremium, isFullscreen]);
+  }, [canSavePhotos, isFullscreen]);
 
   // Disable drag for non-premium users
   const handleDragStart = (e: React.DragEvent) => {
-    if (!isPremium) {
+    if (!canSavePhotos) {
       e.preventDefault();
     }
   };
@@ -76,7 +76,7 @@ export default function PhotoMessage({
   };
 
   const handleDownload = () => {
-    if (!isPremium) {
+    if (!canSavePhotos) {
       setShowProtectionWarning(true);
       setTimeout(() => setShowProtectionWarning(false), 3000);
       return;
@@ -112,7 +112,7 @@ export default function PhotoMessage({
                 onContextMenu={handleContextMenu}
                 onDragStart={handleDragStart}
                 style={{
-                  userSelect: isPremium ? "auto" : "none",
+                  userSelect: canSavePhotos ? "auto" : "none",
                   pointerEvents: "auto",
                 }}
               />
@@ -128,7 +128,7 @@ export default function PhotoMessage({
                   >
                     <Eye size={16} />
                   </Button>
-                  {isPremium && (
+                  {canSavePhotos && (
                     <Button
                       size="sm"
                       variant="secondary"
@@ -142,14 +142,14 @@ export default function PhotoMessage({
               </div>
 
               {/* Premium badge */}
-              {isPremium && (
+              {canSavePhotos && (
                 <div className="absolute top-2 right-2 bg-yellow-500 text-white p-1 rounded-full">
                   <Crown size={12} />
                 </div>
               )}
 
               {/* Protection indicator for non-premium */}
-              {!isPremium && (
+              {!canSavePhotos && (
                 <div className="absolute top-2 left-2 bg-red-500 text-white p-1 rounded-full">
                   <Lock size={12} />
                 </div>
@@ -180,7 +180,7 @@ export default function PhotoMessage({
               </span>
               <span className="text-xs">{time}</span>
             </div>
-            {!isPremium && (
+            {!canSavePhotos && (
               <div className="flex items-center gap-1 mt-1">
                 <Lock size={10} />
                 <span className="text-xs opacity-75">Protected content</span>
@@ -201,13 +201,13 @@ export default function PhotoMessage({
               onContextMenu={handleContextMenu}
               onDragStart={handleDragStart}
               style={{
-                userSelect: isPremium ? "auto" : "none",
+                userSelect: canSavePhotos ? "auto" : "none",
               }}
             />
 
             {/* Fullscreen controls */}
             <div className="absolute top-4 right-4 flex gap-2">
-              {isPremium && (
+              {canSavePhotos && (
                 <Button
                   size="sm"
                   onClick={handleDownload}
@@ -226,7 +226,7 @@ export default function PhotoMessage({
             </div>
 
             {/* Premium indicator */}
-            {isPremium && (
+            {canSavePhotos && (
               <div className="absolute top-4 left-4 bg-yellow-500 text-white px-3 py-1 rounded-full flex items-center gap-1">
                 <Crown size={14} />
                 <span className="text-sm font-medium">Premium</span>
@@ -234,7 +234,7 @@ export default function PhotoMessage({
             )}
 
             {/* Protection overlay for non-premium */}
-            {!isPremium && (
+            {!canSavePhotos && (
               <div className="absolute inset-0 pointer-events-none">
                 <div className="absolute top-4 left-4 bg-red-500 text-white px-3 py-1 rounded-full flex items-center gap-1">
                   <Lock size={14} />
@@ -251,7 +251,7 @@ export default function PhotoMessage({
         <div className="fixed top-20 left-1/2 -translate-x-1/2 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg z-50 flex items-center gap-2">
           <AlertTriangle size={16} />
           <span className="text-sm font-medium">
-            {isPremium
+            {canSavePhotos
               ? "Content protected"
               : "Upgrade to Premium to save photos"}
           </span>
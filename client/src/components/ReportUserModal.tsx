@@ -13,7 +13,7 @@ const REASONS = [
 export default function ReportUserModal({ isOpen, onClose, onSubmit }: {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (reason: string) => void;
+  onSubmit: (reason: string, description?: string) => void;
 }) {
   const [selected, setSelected] = useState<string>("");
   const [other, setOther] = useState<string>("");
@@ -53,7 +53,7 @@ export default function ReportUserModal({ isOpen, onClose, onSubmit }: {
             className="flex-1 bg-rose-500 text-white"
             disabled={!selected || (selected === "Other" && !other.trim())}
             onClick={() => {
-              onSubmit(selected === "Other" ? other : selected);
+              onSubmit(selected, selected === "Other" ? other.trim() : undefined);
               setSelected("");
               setOther("");
             }}
@@ -5,6 +5,7 @@ import { adService } from '../lib/adService';
 import { adMobService } from '../lib/adMobMediationService';
 import { unityAdsService } from '../lib/unityAdsService';
 import { useCoin } from '../context/CoinProvider';
+import { useRewardedAd } from '../hooks/useRewardedAd';
 
 interface RewardedAdButtonProps {
   onRewardEarned?: (amount: number) => void;
@@ -23,7 +24,9 @@ export default function RewardedAdButton({
 }: RewardedAdButtonProps) {
   const [isWatching, setIsWatching] = useState(false);
   const [adNetwork, setAdNetwork] = useState<string>('checking...');
-  const { addCoins } = useCoin();
+  const { rewardStatus } = useCoin();
+  const { watchRewardedAd } = useRewardedAd();
+  const expectedReward = rewardStatus?.adReward ?? 10;
 
   const handleWatchAd = async () => {
     if (isWatching || disabled) return;
@@ -32,66 +35,62 @@ export default function RewardedAdButton({
     setAdNetwork('loading...');
 
     try {
-      let result;
       let networkUsed = 'Unknown';
+      let failure: string | undefined;
 
-      // Try Unity Ads first if preferred and available
-      if (preferUnity && unityAdsService.isReady('rewarded')) {
-        console.log('🎮 Trying Unity Ads first...');
-        setAdNetwork('Unity Ads');
-        result = await unityAdsService.showRewardedAd();
-        networkUsed = 'Unity Ads';
+      const session = await watchRewardedAd(async (verification) => {
+        // Try Unity Ads first if preferred and available
+        if (preferUnity && unityAdsService.isReady('rewarded')) {
+          console.log('🎮 Trying Unity Ads first...');
+          setAdNetwork('Unity Ads');
+          const unityResult = await unityAdsService.showRewardedAd(verification);
+          networkUsed = 'Unity Ads';
+          if (unityResult.success) return true;
 
-        if (!result.success) {
           console.log('🔄 Unity failed, trying mediation fallback...');
-          setAdNetwork('AdMob Mediation');
-          result = await adMobService.showMediatedRewardedAd();
-          networkUsed = result.network || 'AdMob';
+          failure = unityResult.error;
         }
-      } else {
+
         // Use AdMob mediation (includes Unity + other networks)
         console.log('📱 Using AdMob mediation...');
         setAdNetwork('AdMob Mediation');
-        result = await adMobService.showMediatedRewardedAd();
+        const result = await adMobService.showMediatedRewardedAd(verification);
         networkUsed = result.network || 'AdMob';
+        return result.success;
+      });
 
-        // Fallback to basic ad service if mediation fails
-        if (!result.success) {
-          console.log('🔄 Mediation failed, trying basic ad service...');
-          setAdNetwork('AdSense');
-          const basicResult = await adService.showRewardedAd();
-          result = {
-            success: basicResult.success,
-            reward: basicResult.rewardAmount,
-            network: 'AdSense'
-          };
-          networkUsed = 'AdSense';
-        }
+      if (!session) {
+        alert(`❌ Could not complete ad: ${failure || 'Unknown error'}`);
+        setAdNetwork('failed');
+        return;
       }
 
-      if (result.success) {
-        const rewardAmount = (result as any).reward || (result as any).rewardAmount || 10;
-
-        // Add coins to user's balance
-        await addCoins(rewardAmount);
+      // Track the event with network info
+      adService.trackAdEvent('rewarded', `${networkUsed.toLowerCase()}_video`);
+      setAdNetwork('completed');
 
-        // Track the event with network info
-        adService.trackAdEvent('rewarded', `${networkUsed.toLowerCase()}_video`);
+      if (session.status === 'pending') {
+        alert('⏳ Thanks for watching! Your coins will arrive as soon as the ad network confirms.');
+        return;
+      }
+      if (session.status === 'rejected') {
+        alert(
+          session.error === 'ad_limit_reached'
+            ? "❌ You've reached today's ad reward limit. Come back tomorrow!"
+            : '❌ This ad could not be rewarded. Please try again.',
+        );
+        return;
+      }
 
-        // Notify parent component
-        onRewardEarned?.(rewardAmount);
+      // Notify parent component
+      onRewardEarned?.(session.coins);
 
-        // Show success message with network info
-        const networkEmoji = networkUsed === 'Unity Ads' ? '🎮' :
-                           networkUsed.includes('Facebook') ? '📘' :
-                           networkUsed.includes('AppLovin') ? '🔷' : '📱';
+      // Show success message with network info
+      const networkEmoji = networkUsed === 'Unity Ads' ? '🎮' :
+                         networkUsed.includes('Facebook') ? '📘' :
+                         networkUsed.includes('AppLovin') ? '🔷' : '📱';
 
-        alert(`🎉 You earned ${rewardAmount} coins from ${networkEmoji} ${networkUsed}!`);
-        setAdNetwork('completed');
-      } else {
-        alert(`❌ Could not complete ad: ${(result as any).error || 'Unknown error'}`);
-        setAdNetwork('failed');
-      }
+      alert(`🎉 You earned ${session.coins} coins from ${networkEmoji} ${networkUsed}!`);
     } catch (error) {
       console.error('Rewarded ad error:', error);
       alert('❌ Failed to load ad. Please try again later.');
@@ -126,7 +125,7 @@ export default function RewardedAdButton({
             ) : (
               <Play className="w-4 h-4 mr-1" />
             )}
-            +{preferUnity ? '15' : '10'}
+            +{expectedReward}
           </>
         )}
       </Button>
@@ -135,7 +134,6 @@ export default function RewardedAdButton({
 
   if (variant === 'premium') {
     const isUnityReady = preferUnity && unityAdsService.isReady('rewarded');
-    const expectedReward = isUnityReady ? 15 : 10;
 
     return (
       <Button
@@ -178,7 +176,6 @@ export default function RewardedAdButton({
 
   // Default variant
   const isUnityReady = preferUnity && unityAdsService.isReady('rewarded');
-  const expectedReward = isUnityReady ? 15 : 10;
 
   return (
     <Button
@@ -1,13 +1,13 @@
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Eye, EyeOff, Crown, X } from "lucide-react";
+import { useEntitlement } from "../hooks/useEntitlement";
 
 interface SecretChatModalProps {
   isOpen: boolean;
   onClose: () => void;
   onToggle: (enabled: boolean) => void;
   isEnabled: boolean;
-  isPremium: boolean;
   onUpgrade: () => void;
 }
 
@@ -16,13 +16,14 @@ export default function SecretChatModal({
   onClose, 
   onToggle, 
   isEnabled, 
-  isPremium, 
   onUpgrade 
 }: SecretChatModalProps) {
+  const { granted: canUseSecretChat } = useEntitlement("secret_chat");
+
   if (!isOpen) return null;
 
   const handleToggle = () => {
-    if (!isPremium) {
+    if (!canUseSecretChat) {
       onUpgrade();
       return;
     }
@@ -53,7 +54,7 @@ export default function SecretChatModal({
             Secret Chat Mode
           </CardTitle>
           
-          {!isPremium && (
+          {!canUseSecretChat && (
             <div className="flex items-center justify-center gap-1 bg-yellow-100 px-3 py-1 rounded-full mt-2">
               <Crown className="h-4 w-4 text-yellow-600" />
               <span className="text-yellow-700 text-sm font-bold">Premium Only</span>
@@ -85,15 +86,15 @@ export default function SecretChatModal({
             <Button
               onClick={handleToggle}
               className={`w-full font-semibold py-3 rounded-xl shadow-md ${
-                isPremium 
+                canUseSecretChat 
                   ? isEnabled 
                     ? "bg-red-500 hover:bg-red-600 text-white" 
                     : "bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white"
                   : "bg-gray-300 text-gray-500 cursor-not-allowed"
               }`}
-              disabled={!isPremium}
+              disabled={!canUseSecretChat}
             >
-              {isPremium 
+              {canUseSecretChat 
                 ? isEnabled 
                   ? "Turn OFF Secret Mode" 
                   : "Turn ON Secret Mode"
@@ -101,7 +102,7 @@ export default function SecretChatModal({
               }
             </Button>
             
-            {!isPremium && (
+            {!canUseSecretChat && (
               <p className="text-xs text-center text-gray-500">
                 Secret chat mode is a premium feature. Upgrade to unlock!
               </p>
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import BlockedUsersList from './BlockedUsersList';
 import { X, Shield, Bell, User, Settings, Globe, Crown, Eye, EyeOff, Volume2, VolumeX, Smartphone, Lock, HelpCircle, Mail, MessageSquare } from 'lucide-react';
 
 interface SettingsModalProps {
@@ -146,6 +147,8 @@ export default function SettingsModal({ isOpen, onClose, settingType }: Settings
             }`} />
           </button>
         </div>
+
+        <BlockedUsersList />
       </div>
     </div>
   );
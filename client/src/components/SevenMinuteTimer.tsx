@@ -3,7 +3,7 @@ import { Card, CardContent } from "./ui/card";
 import { Button } from "./ui/button";
 import { Clock, Crown, Coins } from "lucide-react";
 import { useCoin } from "../context/CoinProvider";
-import { usePremium } from "../context/PremiumProvider";
+import { useEntitlement } from "../hooks/useEntitlement";
 
 interface SevenMinuteTimerProps {
   isConnected: boolean;
@@ -22,21 +22,21 @@ export default function SevenMinuteTimer({
   const [isActive, setIsActive] = useState(false);
   const [showTimeUpModal, setShowTimeUpModal] = useState(false);
   const { coins, deductCoins } = useCoin();
-  const { isPremium } = usePremium();
+  const { granted: hasExtendedCalls } = useEntitlement("extended_calls");
 
   useEffect(() => {
-    if (isConnected && !isPremium) {
+    if (isConnected && !hasExtendedCalls) {
       setIsActive(true);
       setTimeLeft(7 * 60); // Reset to 7 minutes for new session
     } else {
       setIsActive(false);
     }
-  }, [isConnected, isPremium]);
+  }, [isConnected, hasExtendedCalls]);
 
   useEffect(() => {
     let interval: NodeJS.Timeout | null = null;
 
-    if (isActive && timeLeft > 0 && !isPremium) {
+    if (isActive && timeLeft > 0 && !hasExtendedCalls) {
       interval = setInterval(() => {
         setTimeLeft((time) => {
           if (time <= 1) {
@@ -52,7 +52,7 @@ export default function SevenMinuteTimer({
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [isActive, timeLeft, isPremium]);
+  }, [isActive, timeLeft, hasExtendedCalls]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -67,7 +67,7 @@ export default function SevenMinuteTimer({
   };
 
   const handleUseCoin = async (): Promise<void> => {
-    const success = await deductCoins(10);
+    const success = await deductCoins(10, "timer_extension");
     if (success) {
       setTimeLeft(7 * 60); // Reset timer
       setIsActive(true);
@@ -84,7 +84,7 @@ export default function SevenMinuteTimer({
     onTimeUp();
   };
 
-  if (isPremium || !isConnected) return null;
+  if (hasExtendedCalls || !isConnected) return null;
 
   return (
     <>
@@ -19,8 +19,21 @@ import {
 } from "lucide-react";
 import { useCoin } from "../context/CoinProvider";
 import { useNavigate } from "react-router-dom";
+import { ApiError } from "../lib/apiClient";
+import { AdVerificationOptions } from "../lib/adRewards";
+import { adMobService } from "../lib/adMobMediationService";
+import { useRewardedAd } from "../hooks/useRewardedAd";
+import {
+  SpinRecord,
+  SpinSegment,
+  SpinWheelStatus,
+  getSpinStatus,
+  spinWheel as spinOnServer,
+  verifySpin,
+} from "../lib/spinWheel";
 
 interface SpinResult {
+  spinId: string;
   coins: number;
   message: string;
   requiresAd: boolean;
@@ -28,93 +41,81 @@ interface SpinResult {
   icon: string;
 }
 
+// How each server segment looks, in wheel order clockwise from the pointer
+const wheelSegments = [
+  {
+    id: "coins_10",
+    color: "from-peach-400 to-peach-600",
+    bgColor: "#FB923C",
+    icon: "💎",
+    pattern: "dots",
+  },
+  {
+    id: "try_again",
+    color: "from-cream-400 to-cream-600",
+    bgColor: "#F59E0B",
+    icon: "🔄",
+    pattern: "stripes",
+  },
+  {
+    id: "coins_20",
+    color: "from-coral-400 to-coral-600",
+    bgColor: "#F97316",
+    icon: "⭐",
+    pattern: "zigzag",
+  },
+  {
+    id: "better_luck",
+    color: "from-blush-400 to-blush-600",
+    bgColor: "#EC4899",
+    icon: "🍀",
+    pattern: "waves",
+  },
+  {
+    id: "jackpot",
+    color: "from-rose-400 to-rose-600",
+    bgColor: "#F43F5E",
+    icon: "🎰",
+    pattern: "stars",
+  },
+];
+const SEGMENT_DEGREES = 360 / wheelSegments.length;
+
+const showAd = async (verification: AdVerificationOptions) =>
+  (await adMobService.showMediatedRewardedAd(verification)).success;
+
 const SpinWheel: React.FC = () => {
   const navigate = useNavigate();
   const coinContext = useCoin();
   const {
     coins = 0,
-    addCoins,
-    watchAd,
     adsWatchedToday = 0,
     maxAdsPerDay = 5,
+    rewardStatus,
   } = coinContext || {};
+  const { watchRewardedAd } = useRewardedAd();
   const wheelRef = useRef<HTMLDivElement>(null);
+  const rotationRef = useRef(0);
 
   // Component states
   const [isSpinning, setIsSpinning] = useState(false);
   const [result, setResult] = useState<SpinResult | null>(null);
   const [showResult, setShowResult] = useState(false);
-  const [hasSpunToday, setHasSpunToday] = useState(false);
-  const [spinsToday, setSpinsToday] = useState(0);
+  const [status, setStatus] = useState<SpinWheelStatus | null>(null);
+  const [lastSpin, setLastSpin] = useState<SpinRecord | null>(null);
+  const [verified, setVerified] = useState<boolean | null>(null);
   const [particles, setParticles] = useState<
     Array<{ id: number; x: number; y: number }>
   >([]);
-  const maxSpinsPerDay = 3;
-
-  // Enhanced wheel segments with vibrant colors and patterns matching home page
-  const wheelSegments = [
-    {
-      coins: 10,
-      color: "from-peach-400 to-peach-600",
-      bgColor: "#FB923C",
-      label: "10 Coins",
-      probability: 50,
-      icon: "💎",
-      pattern: "dots",
-    },
-    {
-      coins: 0,
-      color: "from-cream-400 to-cream-600",
-      bgColor: "#F59E0B",
-      label: "Try Again",
-      probability: 25,
-      icon: "🔄",
-      pattern: "stripes",
-    },
-    {
-      coins: 20,
-      color: "from-coral-400 to-coral-600",
-      bgColor: "#F97316",
-      label: "20 Coins",
-      probability: 15,
-      icon: "⭐",
-      pattern: "zigzag",
-    },
-    {
-      coins: 0,
-      color: "from-blush-400 to-blush-600",
-      bgColor: "#EC4899",
-      label: "Better Luck",
-      probability: 7,
-      icon: "🍀",
-      pattern: "waves",
-    },
-    {
-      coins: 50,
-      color: "from-rose-400 to-rose-600",
-      bgColor: "#F43F5E",
-      label: "JACKPOT!",
-      probability: 3,
-      icon: "🎰",
-      pattern: "stars",
-    },
-  ];
+  const spinsToday = status?.spinsToday ?? 0;
+  const maxSpinsPerDay = status?.maxSpinsPerDay ?? 3;
+  const hasSpunToday = !!status && spinsToday >= maxSpinsPerDay;
+  const adReward = rewardStatus?.adReward ?? 10;
 
   useEffect(() => {
-    // Check daily spin count from localStorage
-    const today = new Date().toDateString();
-    const lastSpinDate = localStorage.getItem("lastSpinDate");
-    const savedSpinsToday = parseInt(localStorage.getItem("spinsToday") || "0");
-
-    if (lastSpinDate === today) {
-      setSpinsToday(savedSpinsToday);
-      setHasSpunToday(savedSpinsToday >= maxSpinsPerDay);
-    } else {
-      setSpinsToday(0);
-      setHasSpunToday(false);
-      localStorage.setItem("lastSpinDate", today);
-      localStorage.setItem("spinsToday", "0");
-    }
+    getSpinStatus()
+      .then(setStatus)
+      .catch((error) => console.error("Error loading spin wheel:", error));
   }, []);
 
   // Create floating particles effect
@@ -138,73 +139,78 @@ const SpinWheel: React.FC = () => {
     }
   }, [isSpinning]);
 
-  const getRandomResult = (): SpinResult => {
-    const random = Math.random() * 100;
-    let cumulativeProbability = 0;
-
-    for (const segment of wheelSegments) {
-      cumulativeProbability += segment.probability;
-      if (random <= cumulativeProbability) {
-        if (segment.coins === 0) {
-          return {
-            coins: 0,
-            message: "Better luck next time! 🍀",
-            requiresAd: false,
-            color: segment.bgColor,
-            icon: segment.icon,
-          };
-        } else {
-          return {
-            coins: segment.coins,
-            message:
-              segment.coins === 50
-                ? `🎉 JACKPOT! You won ${segment.coins} coins! 🎉`
-                : `Congratulations! You won ${segment.coins} coins! 🎉`,
-            requiresAd: true,
-            color: segment.bgColor,
-            icon: segment.icon,
-          };
-        }
-      }
-    }
+  const toResult = (spin: SpinRecord, segments: SpinSegment[]): SpinResult => {
+    const look =
+      wheelSegments.find(({ id }) => id === spin.segmentId) ||
+      wheelSegments[1];
+    const segment = segments.find(({ id }) => id === spin.segmentId);
+    const isJackpot = spin.coins > 0 && spin.coins === Math.max(...segments.map((s) => s.coins));
 
     return {
-      coins: 0,
-      message: "Better luck next time! 🍀",
-      requiresAd: false,
-      color: "#F59E0B",
-      icon: "🔄",
+      spinId: spin.id,
+      coins: spin.coins,
+      message:
+        spin.coins === 0
+          ? "Better luck next time! 🍀"
+          : isJackpot
+            ? `🎉 JACKPOT! You won ${spin.coins} coins! 🎉`
+            : `Congratulations! You won ${spin.coins} coins! 🎉`,
+      requiresAd: spin.status === "awaiting_ad" && !!segment?.requiresAd,
+      color: look.bgColor,
+      icon: look.icon,
     };
   };
 
-  const spinWheel = () => {
-    if (isSpinning || hasSpunToday) return;
+  const spinWheel = async () => {
+    if (isSpinning || hasSpunToday || !status) return;
 
     setIsSpinning(true);
     setShowResult(false);
     setResult(null);
+    setVerified(null);
 
-    const randomRotation = 1440 + Math.random() * 1440;
+    const shownCommitment = status.commitment;
+    let outcome: { spin: SpinRecord; status: SpinWheelStatus };
+    try {
+      outcome = await spinOnServer(shownCommitment);
+    } catch (error) {
+      setIsSpinning(false);
+      if (error instanceof ApiError && error.code === "spin_limit_reached") {
+        alert("🎯 You've used all your spins for today. Come back tomorrow!");
+      } else {
+        console.error("Spin failed:", error);
+        alert("❌ Couldn't spin the wheel. Please try again.");
+      }
+      getSpinStatus().then(setStatus).catch(() => {});
+      return;
+    }
+
+    // Land the pointer on the middle of the segment the server picked
+    const index = Math.max(
+      wheelSegments.findIndex(({ id }) => id === outcome.spin.segmentId),
+      0,
+    );
+    const landing = 360 - (index * SEGMENT_DEGREES + SEGMENT_DEGREES / 2);
+    const current = rotationRef.current;
+    const rotation = current - (current % 360) + 1440 + landing;
+    rotationRef.current = rotation;
 
     if (wheelRef.current) {
       wheelRef.current.style.transition =
         "transform 4s cubic-bezier(0.25, 0.46, 0.45, 0.94)";
-      wheelRef.current.style.transform = `rotate(${randomRotation}deg)`;
+      wheelRef.current.style.transform = `rotate(${rotation}deg)`;
     }
 
+    verifySpin(outcome.spin, outcome.status.segments, shownCommitment)
+      .then(setVerified)
+      .catch(() => setVerified(false));
+
     setTimeout(() => {
-      const spinResult = getRandomResult();
-      setResult(spinResult);
+      setResult(toResult(outcome.spin, outcome.status.segments));
+      setLastSpin(outcome.spin);
+      setStatus(outcome.status);
       setShowResult(true);
       setIsSpinning(false);
-
-      const newSpinsToday = spinsToday + 1;
-      setSpinsToday(newSpinsToday);
-      localStorage.setItem("spinsToday", newSpinsToday.toString());
-
-      if (newSpinsToday >= maxSpinsPerDay) {
-        setHasSpunToday(true);
-      }
     }, 4000);
   };
 
@@ -212,33 +218,47 @@ const SpinWheel: React.FC = () => {
     if (!result) return;
 
     if (result.requiresAd && result.coins > 0) {
-      if (adsWatchedToday >= maxAdsPerDay) {
-        alert("You've reached your daily ad limit. Come back tomorrow!");
-        return;
-      }
-
       try {
-        await watchAd();
-        await addCoins(result.coins);
-        alert(
-          `🎉 Amazing! You watched an ad and earned ${result.coins} coins!`,
-        );
+        const session = await watchRewardedAd(showAd, "spin", result.spinId);
+        if (!session) {
+          alert("Failed to watch ad. Please try again.");
+          return;
+        }
+        if (session.status === "rejected") {
+          alert(
+            session.error === "claim_expired"
+              ? "⌛ This prize has expired. Spin again tomorrow!"
+              : "❌ This prize could not be claimed.",
+          );
+        } else if (session.status === "pending") {
+          alert("⏳ Thanks for watching! Your coins will arrive as soon as the ad is confirmed.");
+        } else {
+          alert(
+            `🎉 Amazing! You watched an ad and earned ${session.coins} coins!`,
+          );
+        }
         setShowResult(false);
         setResult(null);
       } catch (error) {
         alert("Failed to watch ad. Please try again.");
       }
     } else if (result.coins === 0) {
-      if (confirm("Watch an ad and win 10 coins instantly?")) {
+      if (confirm(`Watch an ad and win ${adReward} coins instantly?`)) {
         if (adsWatchedToday >= maxAdsPerDay) {
           alert("You've reached your daily ad limit. Come back tomorrow!");
           return;
         }
 
         try {
-          await watchAd();
-          await addCoins(10);
-          alert("🎉 You watched an ad and earned 10 coins!");
+          const session = await watchRewardedAd(showAd);
+          if (session?.status === "credited") {
+            alert(`🎉 You watched an ad and earned ${session.coins} coins!`);
+          } else if (session?.status === "pending") {
+            alert("⏳ Thanks for watching! Your coins will arrive as soon as the ad is confirmed.");
+          } else {
+            alert("Failed to watch ad. Please try again.");
+            return;
+          }
           setShowResult(false);
           setResult(null);
         } catch (error) {
@@ -251,12 +271,6 @@ const SpinWheel: React.FC = () => {
     }
   };
 
-  const resetDaily = () => {
-    setSpinsToday(0);
-    setHasSpunToday(false);
-    localStorage.setItem("spinsToday", "0");
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-peach-25 via-cream-50 to-blush-50 w-full">
       {/* Fixed Header with Prominent Back Button - matching home page style */}
@@ -502,17 +516,11 @@ const SpinWheel: React.FC = () => {
                     Come back tomorrow for more spins!
                   </div>
                 </div>
-                <button
-                  onClick={resetDaily}
-                  className="w-full text-sm text-coral-600 underline hover:text-coral-700 transition-colors"
-                >
-                  🔧 Reset for testing
-                </button>
               </div>
             ) : (
               <Button
                 onClick={spinWheel}
-                disabled={isSpinning}
+                disabled={isSpinning || !status}
                 className={`w-full py-6 rounded-2xl font-extrabold text-xl shadow-2xl transition-all duration-300 transform border-4 touch-manipulation ${
                   isSpinning
                     ? "bg-gray-400 cursor-not-allowed border-gray-500 scale-95"
@@ -542,6 +550,29 @@ const SpinWheel: React.FC = () => {
                 Watch ads to claim your rewards! 📺✨
               </div>
             </div>
+
+            {/* Provably fair: the next seed's hash, and the last spin's revealed seed */}
+            {status && (
+              <div className="mt-4 bg-white/60 backdrop-blur-lg rounded-2xl p-4 border border-peach-200 shadow-lg text-xs text-gray-600 space-y-1 break-all">
+                <div className="font-bold text-coral-700 text-sm">🔒 Provably Fair</div>
+                <div>Next spin commitment: {status.commitment}</div>
+                {lastSpin && (
+                  <>
+                    <div>Last server seed: {lastSpin.serverSeed}</div>
+                    <div>
+                      Your seed: {lastSpin.clientSeed} · nonce {lastSpin.nonce}
+                    </div>
+                    <div className="font-semibold">
+                      {verified === null
+                        ? "Verifying…"
+                        : verified
+                          ? "✅ Result verified against its commitment"
+                          : "⚠️ Result could not be verified"}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -664,7 +695,7 @@ const SpinWheel: React.FC = () => {
                         <div className="flex items-center gap-3 mb-3">
                           <Gift className="h-6 w-6 text-peach-600" />
                           <p className="text-peach-800 font-bold">
-                            🎁 Don't give up! Watch an ad and get 10 coins!
+                            🎁 Don't give up! Watch an ad and get {adReward} coins!
                           </p>
                         </div>
                         <p className="text-peach-600 text-sm">
@@ -677,7 +708,7 @@ const SpinWheel: React.FC = () => {
                           className="w-full bg-gradient-to-r from-peach-500 to-coral-500 hover:from-peach-600 hover:to-coral-600 py-4 font-bold text-lg shadow-xl hover:shadow-2xl transition-all duration-300 rounded-2xl text-white"
                         >
                           <Play className="h-5 w-5 mr-2" />
-                          Watch Ad & Get 10 Coins! 🪙
+                          Watch Ad & Get {adReward} Coins! 🪙
                         </Button>
                         <Button
                           onClick={() => setShowResult(false)}
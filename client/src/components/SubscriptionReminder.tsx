@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "./ui/button";
+import { Crown, X } from "lucide-react";
+import { useSocket } from "../context/SocketProvider";
+import { usePremium } from "../context/PremiumProvider";
+import type { SubscriptionReminder, TrialReminder } from "../lib/subscriptions";
+
+type Reminder = SubscriptionReminder | TrialReminder;
+
+// Trials ending within this long get a standing prompt to pick a plan
+const TRIAL_PROMPT_MS = 24 * 60 * 60 * 1000;
+
+function reminderText(reminder: Reminder): { title: string; message: string } {
+  const date = new Date(reminder.endsAt).toLocaleDateString();
+  switch (reminder.kind) {
+    case "trial_ending":
+      return {
+        title: "Your free trial ends soon",
+        message: `Premium ends on ${date}. Pick a plan now to keep your perks without a break.`,
+      };
+    case "trial_ended":
+      return {
+        title: "Your free trial has ended",
+        message: "Enjoyed Premium? Pick a plan to get your perks back.",
+      };
+    case "period_ending":
+      return reminder.autoRenew
+        ? { title: "Premium renews soon", message: `Your plan is due for renewal on ${date}. Renew from the Premium page to keep it going.` }
+        : { title: "Premium ends soon", message: `Your plan ends on ${date}. Renew to keep your perks.` };
+    case "renewal_due":
+      return {
+        title: "Renewal payment due",
+        message: `Your renewal payment didn't go through. We've kept Premium on for you until ${date} - renew to avoid losing it.`,
+      };
+    case "expired":
+      return { title: "Premium has ended", message: "Renew any time to get your perks back." };
+  }
+}
+
+/**
+ * Shows the server's expiry reminders and trial conversion prompts, plus a
+ * standing notice while a renewal is overdue or a trial is about to end
+ */
+const SubscriptionReminder: React.FC = () => {
+  const navigate = useNavigate();
+  const { socket } = useSocket();
+  const { subscription, trial, isTrial, syncPremiumStatus } = usePremium();
+  const [reminder, setReminder] = useState<Reminder | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleReminder = (next: Reminder) => {
+      setReminder(next);
+      setDismissed(false);
+      syncPremiumStatus();
+    };
+
+    socket.on("subscription:reminder", handleReminder);
+    socket.on("trial:reminder", handleReminder);
+    return () => {
+      socket.off("subscription:reminder", handleReminder);
+      socket.off("trial:reminder", handleReminder);
+    };
+  }, [socket, syncPremiumStatus]);
+
+  const shown: Reminder | null =
+    reminder ||
+    (subscription?.status === "grace" && subscription.graceUntil
+      ? {
+          kind: "renewal_due",
+          planId: subscription.planId,
+          autoRenew: subscription.autoRenew,
+          endsAt: subscription.graceUntil,
+        }
+      : isTrial && trial && trial.endsAt - Date.now() <= TRIAL_PROMPT_MS
+        ? { kind: "trial_ending", endsAt: trial.endsAt }
+        : null);
+
+  if (!shown || dismissed) return null;
+
+  const { title, message } = reminderText(shown);
+
+  return (
+    <div className="fixed top-4 left-4 right-4 z-50 md:left-auto md:right-4 md:w-80">
+      <div className="bg-white rounded-2xl shadow-2xl border border-amber-200 p-4">
+        <div className="flex items-start gap-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-amber-400 to-orange-500 rounded-xl flex items-center justify-center flex-shrink-0">
+            <Crown className="w-5 h-5 text-white" />
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-gray-900 text-sm">{title}</h3>
+            <p className="text-xs text-gray-600 mt-1 leading-relaxed">{message}</p>
+
+            <div className="flex items-center gap-2 mt-3">
+              <Button
+                onClick={() => {
+                  setDismissed(true);
+                  navigate("/premium");
+                }}
+                size="sm"
+                className="bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white text-xs px-3 py-1.5 h-auto"
+              >
+                {shown.kind.startsWith("trial_") ? "Choose a plan" : "Manage plan"}
+              </Button>
+
+              <Button
+                onClick={() => setDismissed(true)}
+                variant="ghost"
+                size="sm"
+                className="text-gray-500 hover:text-gray-700 text-xs px-2 py-1.5 h-auto"
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubscriptionReminder;
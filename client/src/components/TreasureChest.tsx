@@ -31,6 +31,8 @@ import {
 import { useCoin } from "../context/CoinProvider";
 import { usePremium } from "../context/PremiumProvider";
 import RewardedAdButton from "./RewardedAdButton";
+import CoinShop from "./CoinShop";
+import { CheckoutCancelledError, purchase } from "../lib/payments";
 
 interface TreasureChestProps {
   isOpen: boolean;
@@ -40,14 +42,14 @@ interface TreasureChestProps {
 export default function TreasureChest({ isOpen, onClose }: TreasureChestProps) {
   const {
     coins,
-    addCoins,
-    watchAd,
     claimDailyBonus,
     completeChat,
     adsWatchedToday,
     maxAdsPerDay,
     canClaimDailyBonus,
     currentStreak,
+    rewardStatus,
+    buyStreakFreeze,
     hasCompletedOnboarding,
   } = useCoin();
   const { isPremium } = usePremium();
@@ -155,65 +157,60 @@ export default function TreasureChest({ isOpen, onClose }: TreasureChestProps) {
     },
   ];
 
+  // Coins are credited by the server once it verifies the Razorpay payment
   const handlePurchasePack = (pack: (typeof coinPacks)[0]) => {
-    // Add purchase psychology with confirmation
-    const message = `🎉 Great choice! You're getting ${pack.coins + parseInt(pack.bonus.replace(/\D/g, ""))} coins for just ${pack.price}!\n\n💰 That's ${pack.savings} savings!\n\nConfirm purchase?`;
-
-    if (confirm(message)) {
-      const purchaseCoins = async () => {
-        try {
-          const totalCoins =
-            pack.coins + parseInt(pack.bonus.replace(/\D/g, ""));
-          const success = await addCoins(totalCoins);
-          if (success) {
-            alert(
-              `🎊 SUCCESS! ${totalCoins} coins added to your account!\n\n✨ Enjoy your enhanced chat experience!`,
-            );
-          } else {
-            alert(`❌ Purchase failed. Please try again.`);
-          }
-        } catch (error) {
-          console.error("Error purchasing coins:", error);
-          alert(`❌ Purchase failed. Please try again.`);
-        }
-      };
-
-      purchaseCoins();
-      onClose();
-    }
+    const purchaseCoins = async () => {
+      try {
+        const receipt = await purchase("coins", pack.id, `${pack.coins} coins`);
+        alert(
+          `🎊 SUCCESS! ${receipt.coins} coins added to your account!\n\n✨ Enjoy your enhanced chat experience!`,
+        );
+      } catch (error) {
+        if (error instanceof CheckoutCancelledError) return;
+        console.error("Error purchasing coins:", error);
+        alert(
+          `❌ We couldn't confirm your payment. If you were charged, your coins will arrive shortly - otherwise please try again.`,
+        );
+      }
+    };
+
+    purchaseCoins();
+    onClose();
   };
 
+  const dailyBonus = rewardStatus?.dailyBonus ?? 5;
+  const adReward = rewardStatus?.adReward ?? 10;
+
   const earningMethods = [
     {
       id: "daily",
       title: "Daily Login Bonus",
-      coins: 10,
+      coins: dailyBonus,
       icon: Calendar,
       color: "from-peach-400 to-coral-500",
       bgColor: "bg-gradient-to-br from-peach-50 to-coral-50",
       description: "Open the app daily for rewards",
       action: claimDailyBonus,
       available: canClaimDailyBonus,
-      buttonText: canClaimDailyBonus ? "🎁 Earn +10 Coins" : "✅ Claimed Today",
+      buttonText: canClaimDailyBonus ? `🎁 Earn +${dailyBonus} Coins` : "✅ Claimed Today",
       streak: currentStreak,
-      highlight: "Earn +10",
+      highlight: `Earn +${dailyBonus}`,
     },
     {
       id: "ads",
       title: "Watch Rewarded Ads",
-      coins: 15,
+      coins: adReward,
       icon: Play,
       color: "from-blush-400 to-peach-500",
       bgColor: "bg-gradient-to-br from-blush-50 to-peach-50",
       description: `Watch ads and earn instant coins`,
-      action: watchAd,
       available: adsWatchedToday < maxAdsPerDay,
       buttonText:
         adsWatchedToday < maxAdsPerDay
-          ? `🎯 Earn +15 Coins (${maxAdsPerDay - adsWatchedToday} left)`
+          ? `🎯 Earn +${adReward} Coins (${maxAdsPerDay - adsWatchedToday} left)`
           : "✅ Daily Limit Reached",
       progress: `${adsWatchedToday}/${maxAdsPerDay} today`,
-      highlight: "Earn +15",
+      highlight: `Earn +${adReward}`,
     },
   ];
 
@@ -514,6 +511,43 @@ export default function TreasureChest({ isOpen, onClose }: TreasureChestProps) {
                 </div>
               ))}
             </div>
+
+            {/* Streak freezes cover missed days so a streak survives them */}
+            {rewardStatus && (
+              <div className="bg-gradient-to-br from-cream-50 to-peach-50 rounded-xl p-4 border-2 border-peach-200 shadow-lg">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-gradient-to-r from-peach-400 to-coral-500 p-2 rounded-full shadow-lg">
+                      <Shield className="h-6 w-6 text-white" />
+                    </div>
+                    <div>
+                      <h4 className="font-bold text-gray-800 text-base">
+                        🧊 Streak Freeze
+                      </h4>
+                      <p className="text-sm text-gray-600">
+                        Keeps your {currentStreak}-day streak alive if you miss a day
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {rewardStatus.streakFreezes}/{rewardStatus.maxStreakFreezes} held
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    onClick={buyStreakFreeze}
+                    disabled={
+                      rewardStatus.streakFreezes >= rewardStatus.maxStreakFreezes ||
+                      coins < rewardStatus.streakFreezePrice
+                    }
+                    className="font-bold rounded-xl bg-gradient-to-r from-peach-500 to-coral-500 text-white shrink-0"
+                  >
+                    <Coins className="h-4 w-4 mr-1" />
+                    {rewardStatus.streakFreezePrice}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <CoinShop />
           </div>
 
           {/* Final CTA */}
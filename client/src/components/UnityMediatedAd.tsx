@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { adMobService } from '../lib/adMobMediationService';
 import { unityAdsService } from '../lib/unityAdsService';
+import { useRewardedAd } from '../hooks/useRewardedAd';
 
 interface UnityMediatedAdProps {
   type: 'banner' | 'interstitial' | 'rewarded';
@@ -26,6 +27,7 @@ const UnityMediatedAd: React.FC<UnityMediatedAdProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { watchRewardedAd } = useRewardedAd();
 
   useEffect(() => {
     checkAdReadiness();
@@ -77,13 +79,21 @@ const UnityMediatedAd: React.FC<UnityMediatedAdProps> = ({
           break;
 
         case 'rewarded':
-          const rewardedResult = await unityAdsService.showRewardedAd();
+          let rewardedError: string | undefined;
+          const session = await watchRewardedAd(async (verification) => {
+            const rewardedResult = await unityAdsService.showRewardedAd(verification);
+            rewardedError = rewardedResult.error;
+            return rewardedResult.success;
+          });
           
-          if (rewardedResult.success) {
-            onRewardEarned?.(rewardedResult.rewardAmount);
+          if (session) {
+            // Only what the server credited after Unity's callback counts
+            if (session.status === 'credited') {
+              onRewardEarned?.(session.coins);
+            }
             onAdClicked?.();
           } else {
-            throw new Error(rewardedResult.error || 'Rewarded ad failed');
+            throw new Error(rewardedError || 'Rewarded ad failed');
           }
           break;
       }
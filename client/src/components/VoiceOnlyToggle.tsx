@@ -3,22 +3,22 @@ import { useState } from "react";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Mic, Video, Crown } from "lucide-react";
+import { useEntitlement } from "../hooks/useEntitlement";
 
 interface VoiceOnlyToggleProps {
-  isPremium: boolean;
   isVoiceOnly: boolean;
   onToggle: (voiceOnly: boolean) => void;
   onUpgrade: () => void;
 }
 
 export default function VoiceOnlyToggle({ 
-  isPremium, 
   isVoiceOnly, 
   onToggle, 
   onUpgrade 
 }: VoiceOnlyToggleProps) {
+  const { granted: canUseVoiceOnly } = useEntitlement("voice_only");
   const handleToggle = () => {
-    if (!isPremium) {
+    if (!canUseVoiceOnly) {
       onUpgrade();
       return;
     }
@@ -31,7 +31,7 @@ export default function VoiceOnlyToggle({
         <CardTitle className="text-lg flex items-center gap-2">
           <Mic className="h-5 w-5" />
           Chat Mode
-          {!isPremium && <Crown className="h-4 w-4 text-yellow-500" />}
+          {!canUseVoiceOnly && <Crown className="h-4 w-4 text-yellow-500" />}
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -39,7 +39,7 @@ export default function VoiceOnlyToggle({
           <Button
             variant={!isVoiceOnly ? "default" : "outline"}
             className="h-auto p-3"
-            onClick={() => isPremium ? onToggle(false) : undefined}
+            onClick={() => canUseVoiceOnly ? onToggle(false) : undefined}
           >
             <div className="flex flex-col items-center gap-2">
               <Video className="h-6 w-6" />
@@ -49,20 +49,20 @@ export default function VoiceOnlyToggle({
           
           <Button
             variant={isVoiceOnly ? "default" : "outline"}
-            className={`h-auto p-3 relative ${!isPremium ? "opacity-50" : ""}`}
+            className={`h-auto p-3 relative ${!canUseVoiceOnly ? "opacity-50" : ""}`}
             onClick={handleToggle}
           >
             <div className="flex flex-col items-center gap-2">
               <Mic className="h-6 w-6" />
               <div className="text-xs">Voice Only</div>
             </div>
-            {!isPremium && (
+            {!canUseVoiceOnly && (
               <Crown className="absolute -top-1 -right-1 h-4 w-4 text-yellow-500" />
             )}
           </Button>
         </div>
         
-        {!isPremium && (
+        {!canUseVoiceOnly && (
           <div className="mt-3 p-3 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 rounded-lg text-center">
             <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
               🎙️ Voice-only mode is for Premium users only!
@@ -78,7 +78,7 @@ export default function VoiceOnlyToggle({
           </div>
         )}
         
-        {isPremium && (
+        {canUseVoiceOnly && (
           <div className="mt-3 p-2 bg-green-50 dark:bg-green-900/20 rounded-lg text-center">
             <p className="text-xs text-green-600 dark:text-green-400">
               ✨ Premium Feature Unlocked!
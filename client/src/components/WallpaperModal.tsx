@@ -28,7 +28,7 @@ import {
   Lock,
 } from "lucide-react";
 import { Button } from "./ui/button";
-import { usePremium } from "../context/PremiumProvider";
+import { useEntitlement } from "../hooks/useEntitlement";
 
 const wallpaperThemes = [
   // Romantic themes
@@ -350,7 +350,7 @@ export default function WallpaperModal({
   currentWallpaper,
 }: WallpaperModalProps) {
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
-  const { isPremium } = usePremium();
+  const { granted: canUsePremiumWallpapers } = useEntitlement("premium_wallpapers");
 
   if (!isOpen) return null;
 
@@ -369,7 +369,7 @@ export default function WallpaperModal({
     { key: "spiritual", name: "Spiritual" },
   ];
 
-  const allWallpapers = [...wallpaperThemes, ...(isPremium || selectedCategory === "premium" ? premiumWallpapers : [])];
+  const allWallpapers = [...wallpaperThemes, ...(canUsePremiumWallpapers || selectedCategory === "premium" ? premiumWallpapers : [])];
 
   const filteredWallpapers =
     selectedCategory === "all"
@@ -423,7 +423,7 @@ export default function WallpaperModal({
               const IconComponent = 'icon' in wallpaper ? wallpaper.icon : null;
               const isSelected = currentWallpaper?.id === wallpaper.id;
               const isPremiumWallpaper = 'isPremium' in wallpaper ? wallpaper.isPremium : false;
-              const canUse = !isPremiumWallpaper || isPremium;
+              const canUse = !isPremiumWallpaper || canUsePremiumWallpapers;
 
               return (
                 <div
@@ -479,7 +479,7 @@ export default function WallpaperModal({
                       isPremiumWallpaper ? "text-violet-700" : "text-gray-800"
                     }`}>
                       {wallpaper.name}
-                      {isPremiumWallpaper && !isPremium && (
+                      {isPremiumWallpaper && !canUsePremiumWallpapers && (
                         <span className="block text-xs text-orange-600 font-semibold mt-1">
                           Premium
                         </span>
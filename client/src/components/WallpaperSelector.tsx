@@ -1,13 +1,13 @@
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Crown, X, Check } from "lucide-react";
+import { useEntitlement } from "../hooks/useEntitlement";
 
 interface WallpaperSelectorProps {
   isOpen: boolean;
   onClose: () => void;
   onSelect: (wallpaper: string) => void;
   currentWallpaper: string;
-  isPremium: boolean;
   onUpgrade: () => void;
 }
 
@@ -27,13 +27,14 @@ export default function WallpaperSelector({
   onClose, 
   onSelect, 
   currentWallpaper, 
-  isPremium, 
   onUpgrade 
 }: WallpaperSelectorProps) {
+  const { granted: canUsePremiumWallpapers } = useEntitlement("premium_wallpapers");
+
   if (!isOpen) return null;
 
   const handleSelect = (wallpaperId: string) => {
-    if (!isPremium && wallpaperId !== 'default') {
+    if (!canUsePremiumWallpapers && wallpaperId !== 'default') {
       onUpgrade();
       return;
     }
@@ -57,7 +58,7 @@ export default function WallpaperSelector({
             Chat Wallpapers
           </CardTitle>
           
-          {!isPremium && (
+          {!canUsePremiumWallpapers && (
             <div className="flex items-center justify-center gap-1 bg-yellow-100 px-3 py-1 rounded-full mt-2">
               <Crown className="h-4 w-4 text-yellow-600" />
               <span className="text-yellow-700 text-sm font-bold">Premium Feature</span>
@@ -68,7 +69,7 @@ export default function WallpaperSelector({
         <CardContent className="space-y-4 overflow-y-auto max-h-96">
           <div className="grid grid-cols-2 gap-3">
             {wallpapers.map((wallpaper) => {
-              const isLocked = !isPremium && wallpaper.id !== 'default';
+              const isLocked = !canUsePremiumWallpapers && wallpaper.id !== 'default';
               const isSelected = currentWallpaper === wallpaper.id;
               
               return (
@@ -81,7 +82,7 @@ export default function WallpaperSelector({
                   } ${isLocked ? 'opacity-60' : ''}`}
                   onClick={() => {
                     handleSelect(wallpaper.id);
-                    if (isPremium || wallpaper.id === 'default') {
+                    if (canUsePremiumWallpapers || wallpaper.id === 'default') {
                       onClose();
                     }
                   }}
@@ -106,7 +107,7 @@ export default function WallpaperSelector({
             })}
           </div>
           
-          {!isPremium && (
+          {!canUsePremiumWallpapers && (
             <div className="bg-gradient-to-r from-purple-100 to-pink-100 rounded-xl p-4 text-center border border-purple-200">
               <p className="text-sm text-purple-700 mb-3 font-medium">
                 🎨 Unlock beautiful wallpapers with Premium!
@@ -3,7 +3,7 @@ import { Button } from "./ui/button";
 import { Card, CardContent } from "./ui/card";
 import { Heart, Crown, X, Coins, Eye, Star, Users } from "lucide-react";
 import { useCoin } from "../context/CoinProvider";
-import { usePremium } from "../context/PremiumProvider";
+import { useEntitlement } from "../hooks/useEntitlement";
 
 interface LikeData {
   id: string;
@@ -29,31 +29,31 @@ export default function WhoLikedMeModal({
   onRevealLike,
 }: WhoLikedMeModalProps) {
   const { coins, deductCoins } = useCoin();
-  const { isPremium } = usePremium();
+  const { granted: canRevealLikes, coinPrice: revealPrice = 10 } = useEntitlement("reveal_likes");
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
 
   if (!isOpen) return null;
 
   const handleRevealLike = async (likeId: string) => {
-    if (isPremium) {
+    if (canRevealLikes) {
       onRevealLike(likeId);
       return;
     }
 
-    if (coins < 10) {
-      alert("💰 You need at least 10 coins to reveal a like! Get more coins or upgrade to Premium.");
+    if (coins < revealPrice) {
+      alert(`💰 You need at least ${revealPrice} coins to reveal a like! Get more coins or upgrade to Premium.`);
       return;
     }
 
-    const shouldPay = window.confirm("💝 Pay 10 coins to reveal who liked you?");
+    const shouldPay = window.confirm(`💝 Pay ${revealPrice} coins to reveal who liked you?`);
     if (!shouldPay) return;
 
     setIsProcessingPayment(true);
     try {
-      const success = await deductCoins(10);
+      const success = await deductCoins(revealPrice, "reveal_like");
       if (success) {
         onRevealLike(likeId);
-        alert("✨ Like revealed! 10 coins deducted from your account.");
+        alert(`✨ Like revealed! ${revealPrice} coins deducted from your account.`);
       } else {
         alert("❌ Payment failed. Please try again.");
       }
@@ -97,7 +97,7 @@ export default function WhoLikedMeModal({
 
         <CardContent className="p-0 max-h-96 overflow-y-auto">
           {/* Premium Banner */}
-          {!isPremium && (
+          {!canRevealLikes && (
             <div className="bg-gradient-to-r from-yellow-400 to-yellow-500 p-4 text-center">
               <div className="flex items-center justify-center gap-2 mb-2">
                 <Crown className="w-5 h-5 text-yellow-800" />
@@ -182,7 +182,7 @@ export default function WhoLikedMeModal({
                     </div>
                     
                     <div className="text-center">
-                      {isPremium ? (
+                      {canRevealLikes ? (
                         <Button
                           onClick={() => handleRevealLike(like.id)}
                           className="bg-pink-500 hover:bg-pink-600 text-white px-3 py-1 text-sm"
@@ -196,13 +196,13 @@ export default function WhoLikedMeModal({
                           <Button
                             onClick={() => handleRevealLike(like.id)}
                             className="bg-yellow-500 hover:bg-yellow-600 text-white px-3 py-1 text-sm w-full"
-                            disabled={isProcessingPayment || coins < 10}
+                            disabled={isProcessingPayment || coins < revealPrice}
                           >
                             <Coins className="w-3 h-3 mr-1" />
-                            10 coins
+                            {revealPrice} coins
                           </Button>
                           <p className="text-xs text-gray-500">
-                            {coins < 10 ? 'Need more coins' : 'Pay to reveal'}
+                            {coins < revealPrice ? 'Need more coins' : 'Pay to reveal'}
                           </p>
                         </div>
                       )}
@@ -227,20 +227,20 @@ export default function WhoLikedMeModal({
           )}
 
           {/* Current Balance */}
-          {!isPremium && (
+          {!canRevealLikes && (
             <div className="bg-gray-50 p-4 border-t border-gray-100">
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">Your Balance:</span>
                 <div className="flex items-center gap-2">
                   <Coins className="w-4 h-4 text-yellow-500" />
-                  <span className={`font-bold ${coins >= 10 ? 'text-green-600' : 'text-red-500'}`}>
+                  <span className={`font-bold ${coins >= revealPrice ? 'text-green-600' : 'text-red-500'}`}>
                     {coins} coins
                   </span>
                 </div>
               </div>
-              {coins < 10 && (
+              {coins < revealPrice && (
                 <p className="text-xs text-gray-500 mt-1">
-                  You need at least 10 coins to reveal a like
+                  You need at least {revealPrice} coins to reveal a like
                 </p>
               )}
             </div>
@@ -2,22 +2,30 @@ import { createContext, useContext, useState, useEffect, ReactNode } from "react
 import { getAuth, onAuthStateChanged } from "firebase/auth";
 import { doc, onSnapshot } from "firebase/firestore";
 import { firebaseApp, db } from "../firebaseConfig";
-import { getCoins, addCoins as firestoreAddCoins, spendCoins } from "../lib/firestoreUtils";
+import { ApiError } from "../lib/apiClient";
+import { DebitReason, debitCoins } from "../lib/coinLedger";
+import { claimChatReward } from "../lib/sessions";
+import {
+  RewardStatus,
+  buyStreakFreeze as buyFreeze,
+  claimDailyBonus as claimBonus,
+  getRewardStatus,
+} from "../lib/rewards";
 
 interface CoinContextType {
   coins: number;
-  addCoins: (amount: number) => Promise<boolean>;
-  deductCoins: (amount: number) => Promise<boolean>;
-  watchAd: () => Promise<void>;
-  referFriend: () => Promise<void>;
+  deductCoins: (amount: number, reason: DebitReason) => Promise<boolean>;
   claimDailyBonus: () => Promise<boolean>;
-  completeChat: () => Promise<void>;
-  checkStreakBonus: () => Promise<void>;
+  buyStreakFreeze: () => Promise<boolean>;
+  completeChat: (sessionId: string) => Promise<void>;
   requestFriendship: (partnerName: string) => Promise<{ success: boolean; needsAds?: boolean; }>;
   adsWatchedToday: number;
   maxAdsPerDay: number;
   canClaimDailyBonus: boolean;
   currentStreak: number;
+  // Daily bonus, streak and ad progress as the server tracks it
+  rewardStatus: RewardStatus | null;
+  refreshRewardStatus: () => Promise<void>;
   hasCompletedOnboarding: boolean;
   isLoading: boolean;
   currentUser: string | null;
@@ -25,6 +33,9 @@ interface CoinContextType {
   setPendingAds: (count: number) => void;
 }
 
+// Why the server may decline a chat reward; none of them is an error
+const UNREWARDED_CHAT_ERRORS = ["too_short", "reported", "daily_limit_reached"];
+
 const CoinContext = createContext<CoinContextType | null>(null);
 
 export const useCoin = () => {
@@ -41,15 +52,16 @@ interface CoinProviderProps {
 
 export const CoinProvider = ({ children }: CoinProviderProps) => {
   const [coins, setCoins] = useState(0);
-  const [adsWatchedToday, setAdsWatchedToday] = useState(0);
-  const [canClaimDailyBonus, setCanClaimDailyBonus] = useState(true);
-  const [currentStreak, setCurrentStreak] = useState(0);
+  const [rewardStatus, setRewardStatus] = useState<RewardStatus | null>(null);
   const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [currentUser, setCurrentUser] = useState<string | null>(null);
   const [pendingAds, setPendingAds] = useState(0);
 
-  const maxAdsPerDay = 3;
+  const adsWatchedToday = rewardStatus?.adsWatchedToday ?? 0;
+  const maxAdsPerDay = rewardStatus?.maxAdsPerDay ?? 3;
+  const canClaimDailyBonus = rewardStatus?.canClaimDailyBonus ?? false;
+  const currentStreak = rewardStatus?.streak ?? 0;
   const auth = getAuth(firebaseApp);
 
   // Listen for auth state changes
@@ -60,6 +72,7 @@ export const CoinProvider = ({ children }: CoinProviderProps) => {
       } else {
         setCurrentUser(null);
         setCoins(0);
+        setRewardStatus(null);
         setIsLoading(false);
       }
     });
@@ -87,123 +100,45 @@ export const CoinProvider = ({ children }: CoinProviderProps) => {
     return () => unsubscribe();
   }, [currentUser]);
 
-  // Initialize local storage data (ads, daily bonus, streak, pending ads)
-  useEffect(() => {
-    const lastDailyBonus = localStorage.getItem("ajnabicam_last_daily_bonus");
-    const adsToday = localStorage.getItem("ajnabicam_ads_today");
-    const adsDate = localStorage.getItem("ajnabicam_ads_date");
-    const streakData = localStorage.getItem("ajnabicam_streak_data");
-    const storedPendingAds = localStorage.getItem("ajnabicam_pending_ads");
+  const refreshRewardStatus = async (): Promise<void> => {
+    try {
+      setRewardStatus(await getRewardStatus());
+    } catch (error) {
+      console.error("Error loading reward status:", error);
+    }
+  };
 
-    const today = new Date().toDateString();
+  useEffect(() => {
+    if (currentUser) refreshRewardStatus();
+  }, [currentUser]);
 
-    // Load pending ads
+  // Load pending ads
+  useEffect(() => {
+    const storedPendingAds = localStorage.getItem("ajnabicam_pending_ads");
     if (storedPendingAds) {
       setPendingAds(parseInt(storedPendingAds));
     }
-    
-    // Check daily bonus eligibility
-    if (lastDailyBonus !== today) {
-      setCanClaimDailyBonus(true);
-    } else {
-      setCanClaimDailyBonus(false);
-    }
-
-    // Reset ads count if it's a new day
-    if (adsDate !== today) {
-      setAdsWatchedToday(0);
-      localStorage.setItem("ajnabicam_ads_today", "0");
-      localStorage.setItem("ajnabicam_ads_date", today);
-    } else if (adsToday) {
-      setAdsWatchedToday(parseInt(adsToday));
-    }
-
-    // Load streak data
-    if (streakData) {
-      try {
-        const { streak, lastDate } = JSON.parse(streakData);
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-        
-        if (lastDate === today) {
-          // Already checked in today
-          setCurrentStreak(streak);
-        } else if (lastDate === yesterday.toDateString()) {
-          // Can continue streak
-          setCurrentStreak(streak);
-        } else {
-          // Streak broken
-          setCurrentStreak(0);
-          localStorage.setItem("ajnabicam_streak_data", JSON.stringify({
-            streak: 0,
-            lastDate: ""
-          }));
-        }
-      } catch (error) {
-        console.error("Error parsing streak data:", error);
-        setCurrentStreak(0);
-      }
-    }
   }, []);
 
-  const addCoins = async (amount: number): Promise<boolean> => {
+  const deductCoins = async (amount: number, reason: DebitReason): Promise<boolean> => {
     if (!currentUser) {
       console.error("No authenticated user");
       return false;
     }
 
     try {
-      await firestoreAddCoins(currentUser, amount);
+      await debitCoins(amount, reason);
       return true;
     } catch (error) {
-      console.error("Error adding coins:", error);
-      return false;
-    }
-  };
-
-  const deductCoins = async (amount: number): Promise<boolean> => {
-    if (!currentUser) {
-      console.error("No authenticated user");
-      return false;
-    }
-
-    try {
-      const result = await spendCoins(currentUser, amount);
-      if (!result.success) {
-        console.warn("Failed to deduct coins:", result.message);
+      if (error instanceof ApiError && error.code === "insufficient_coins") {
+        console.warn("Failed to deduct coins: Insufficient coins");
+        return false;
       }
-      return result.success;
-    } catch (error) {
       console.error("Error deducting coins:", error);
       return false;
     }
   };
 
-  const watchAd = async (): Promise<void> => {
-    if (adsWatchedToday >= maxAdsPerDay) {
-      alert("❌ You've reached the daily limit of 3 ads. Come back tomorrow!");
-      return;
-    }
-
-    // Simulate watching an ad
-    const newAdsCount = adsWatchedToday + 1;
-    setAdsWatchedToday(newAdsCount);
-    localStorage.setItem("ajnabicam_ads_today", newAdsCount.toString());
-    
-    const success = await addCoins(10);
-    
-    if (success) {
-      const remaining = maxAdsPerDay - newAdsCount;
-      if (remaining > 0) {
-        alert(`🎉 You earned 10 coins! ${remaining} ads remaining today.`);
-      } else {
-        alert("🎉 You earned 10 coins! That's all ads for today. Come back tomorrow for more!");
-      }
-    } else {
-      alert("❌ Failed to add coins. Please try again.");
-    }
-  };
-
   const claimDailyBonus = async (): Promise<boolean> => {
     if (!canClaimDailyBonus || !currentUser) {
       if (!currentUser) {
@@ -212,77 +147,62 @@ export const CoinProvider = ({ children }: CoinProviderProps) => {
       return false;
     }
 
-    const today = new Date().toDateString();
-    const success = await addCoins(5);
-    
-    if (success) {
-      setCanClaimDailyBonus(false);
-      localStorage.setItem("ajnabicam_last_daily_bonus", today);
-      
-      // Update streak
-      const streakData = localStorage.getItem("ajnabicam_streak_data");
-      let newStreak = 1;
-      
-      if (streakData) {
-        try {
-          const { streak, lastDate } = JSON.parse(streakData);
-          const yesterday = new Date();
-          yesterday.setDate(yesterday.getDate() - 1);
-          
-          if (lastDate === yesterday.toDateString()) {
-            newStreak = streak + 1;
-          }
-        } catch (error) {
-          console.error("Error parsing streak data:", error);
-        }
-      }
-      
-      setCurrentStreak(newStreak);
-      localStorage.setItem("ajnabicam_streak_data", JSON.stringify({
-        streak: newStreak,
-        lastDate: today
-      }));
+    try {
+      const { claim, status } = await claimBonus();
+      setRewardStatus(status);
 
-      // Check for streak bonus
-      if (newStreak === 3) {
-        const bonusSuccess = await addCoins(20);
-        if (bonusSuccess) {
-          alert("🎉 Daily bonus claimed! +5 coins\n🔥 3-day streak bonus! +20 coins\nTotal: +25 coins!");
-        } else {
-          alert(`🎉 Daily bonus claimed! +5 coins\n🔥 Current streak: ${newStreak} days`);
-        }
+      const lines = [`🎉 Daily bonus claimed! +${claim.dailyBonus} coins`];
+      if (claim.freezesUsed > 0) {
+        lines.push(`🧊 ${claim.freezesUsed} streak freeze${claim.freezesUsed > 1 ? "s" : ""} saved your streak`);
+      }
+      if (claim.streakBonus > 0) {
+        lines.push(`🔥 ${claim.streak}-day streak bonus! +${claim.streakBonus} coins`);
+        lines.push(`Total: +${claim.dailyBonus + claim.streakBonus} coins!`);
       } else {
-        alert(`🎉 Daily bonus claimed! +5 coins\n🔥 Current streak: ${newStreak} days`);
+        lines.push(`🔥 Current streak: ${claim.streak} days`);
       }
-    } else {
+      alert(lines.join("\n"));
+      return true;
+    } catch (error) {
+      if (error instanceof ApiError && error.code === "already_claimed") {
+        await refreshRewardStatus();
+        return false;
+      }
+      console.error("Error claiming daily bonus:", error);
       alert("❌ Failed to claim daily bonus. Please try again.");
-    }
-
-    return success;
-  };
-
-  const completeChat = async (): Promise<void> => {
-    const success = await addCoins(3);
-    if (success) {
-      // Don't show alert for automatic coin earning
-      console.log("🎉 Chat completed! You earned 3 coins!");
+      return false;
     }
   };
 
-  const checkStreakBonus = async (): Promise<void> => {
-    if (currentStreak >= 3 && currentStreak % 3 === 0) {
-      const success = await addCoins(20);
-      if (success) {
-        alert(`🔥 ${currentStreak}-day streak bonus! You earned 20 coins!`);
+  const buyStreakFreeze = async (): Promise<boolean> => {
+    try {
+      setRewardStatus(await buyFreeze());
+      return true;
+    } catch (error) {
+      if (error instanceof ApiError && error.code === "insufficient_coins") {
+        alert("💰 Not enough coins for a streak freeze.");
+      } else if (error instanceof ApiError && error.code === "freeze_limit_reached") {
+        alert("🧊 You already hold the most streak freezes you can.");
+      } else {
+        console.error("Error buying streak freeze:", error);
+        alert("❌ Failed to buy a streak freeze. Please try again.");
       }
+      return false;
     }
   };
 
-  const referFriend = async (): Promise<void> => {
-    // Simulate successful referral
-    const success = await addCoins(25);
-    if (success) {
-      alert("🎉 You earned 25 coins for referring a friend!");
+  // The server decides from its session record whether the chat earned
+  // coins; the balance itself arrives through the user document listener
+  const completeChat = async (sessionId: string): Promise<void> => {
+    try {
+      const { entry, replayed } = await claimChatReward(sessionId);
+      if (!replayed) {
+        // Don't show alert for automatic coin earning
+        console.log(`🎉 Chat completed! You earned ${entry.amount} coins!`);
+      }
+    } catch (error) {
+      if (error instanceof ApiError && UNREWARDED_CHAT_ERRORS.includes(error.code)) return;
+      console.error("Error claiming chat reward:", error);
     }
   };
 
@@ -291,7 +211,7 @@ export const CoinProvider = ({ children }: CoinProviderProps) => {
 
     if (coins >= friendshipCost) {
       // User has enough coins, deduct them
-      const success = await deductCoins(friendshipCost);
+      const success = await deductCoins(friendshipCost, "friendship");
       return { success };
     } else {
       // User doesn't have enough coins, they need to watch ads
@@ -312,18 +232,17 @@ export const CoinProvider = ({ children }: CoinProviderProps) => {
     <CoinContext.Provider
       value={{
         coins,
-        addCoins,
         deductCoins,
-        watchAd,
-        referFriend,
         claimDailyBonus,
+        buyStreakFreeze,
         completeChat,
-        checkStreakBonus,
         requestFriendship,
         adsWatchedToday,
         maxAdsPerDay,
         canClaimDailyBonus,
         currentStreak,
+        rewardStatus,
+        refreshRewardStatus,
         hasCompletedOnboarding,
         isLoading,
         currentUser,
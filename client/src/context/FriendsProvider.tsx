@@ -1,7 +1,7 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { auth } from "../firebaseConfig";
 import { onAuthStateChanged } from "firebase/auth";
-import { usePremium } from "./PremiumProvider";
+import { useEntitlement } from "../hooks/useEntitlement";
 import {
   getUserFriends,
   listenToFriends,
@@ -75,8 +75,8 @@ export const FriendsProvider = ({ children }: FriendsProviderProps) => {
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [currentUserName, setCurrentUserName] = useState<string>("User");
 
-  const { isPremium } = usePremium();
-  const maxFreeLimit = 3;
+  const { granted: hasUnlimitedFriends, freeAllowance } = useEntitlement("unlimited_friends");
+  const maxFreeLimit = freeAllowance ?? 0;
 
   // Monitor auth state
   useEffect(() => {
@@ -146,7 +146,7 @@ export const FriendsProvider = ({ children }: FriendsProviderProps) => {
     if (!currentUserId) return false;
 
     // Check if already at limit for free users
-    if (!isPremium && friends.length >= maxFreeLimit) {
+    if (!hasUnlimitedFriends && friends.length >= maxFreeLimit) {
       return false; // Cannot add more friends
     }
 
@@ -218,7 +218,7 @@ export const FriendsProvider = ({ children }: FriendsProviderProps) => {
     return friends.find(friend => friend.id === friendId);
   };
 
-  const canAddMoreFriends = isPremium || friends.length < maxFreeLimit;
+  const canAddMoreFriends = hasUnlimitedFriends || friends.length < maxFreeLimit;
 
   return (
     <FriendsContext.Provider
@@ -2,17 +2,49 @@ import { createContext, useContext, useState, useEffect, ReactNode } from "react
 import { auth } from "../firebaseConfig";
 import { onAuthStateChanged } from "firebase/auth";
 import { getUserProfile, updatePremiumStatus } from "../lib/firestoreUtils";
+import {
+  getSubscription,
+  getTrial,
+  PremiumTier,
+  startTrial as requestTrial,
+  Subscription,
+  Trial,
+} from "../lib/subscriptions";
+import { getShop, ShopUnlock } from "../lib/coinShop";
+import {
+  EntitlementTable,
+  Feature,
+  getCachedEntitlements,
+  isEntitled,
+  loadEntitlements,
+} from "../lib/entitlements";
 
 interface PremiumContextType {
   isPremium: boolean;
   premiumExpiry: Date | null;
   premiumPlan: string | null;
+  premiumTier: PremiumTier | null;
+  // Renewal, grace and plan-change details; null when never subscribed
+  subscription: Subscription | null;
+  // The account's free trial, if it ever had one
+  trial: Trial | null;
+  // Premium right now comes from a running trial rather than a paid plan
+  isTrial: boolean;
+  // This account has not had a trial yet
+  trialEligible: boolean;
+  startTrial: () => Promise<Trial>;
+  // What each feature needs, as the server enforces it
+  entitlements: EntitlementTable;
+  // Features bought in the coin shop that are still running
+  shopUnlocks: ShopUnlock[];
+  setShopUnlocks: (unlocks: ShopUnlock[]) => void;
   loading: boolean;
   setPremium: (premium: boolean, expiry?: Date, plan?: string) => Promise<boolean>;
   checkPremiumStatus: () => boolean;
   syncPremiumStatus: () => Promise<void>;
   isUltraPremium: () => boolean;
   isProMonthly: () => boolean;
+  hasEntitlement: (feature: Feature) => boolean;
 }
 
 const PremiumContext = createContext<PremiumContextType | null>(null);
@@ -33,6 +65,12 @@ export const PremiumProvider = ({ children }: PremiumProviderProps) => {
   const [isPremium, setIsPremium] = useState(false);
   const [premiumExpiry, setPremiumExpiry] = useState<Date | null>(null);
   const [premiumPlan, setPremiumPlan] = useState<string | null>(null);
+  const [premiumTier, setPremiumTier] = useState<PremiumTier | null>(null);
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [trial, setTrial] = useState<Trial | null>(null);
+  const [trialEligible, setTrialEligible] = useState(false);
+  const [entitlements, setEntitlements] = useState<EntitlementTable>(getCachedEntitlements);
+  const [shopUnlocks, setShopUnlocks] = useState<ShopUnlock[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
@@ -47,6 +85,11 @@ export const PremiumProvider = ({ children }: PremiumProviderProps) => {
         setIsPremium(false);
         setPremiumExpiry(null);
         setPremiumPlan(null);
+        setPremiumTier(null);
+        setSubscription(null);
+        setTrial(null);
+        setTrialEligible(false);
+        setShopUnlocks([]);
         setLoading(false);
       }
     });
@@ -54,17 +97,51 @@ export const PremiumProvider = ({ children }: PremiumProviderProps) => {
     return () => unsubscribe();
   }, []);
 
+  useEffect(() => {
+    loadEntitlements().then(setEntitlements);
+  }, []);
+
+  const clearPremium = () => {
+    setIsPremium(false);
+    setPremiumExpiry(null);
+    setPremiumPlan(null);
+    setPremiumTier(null);
+
+    // Clear localStorage
+    localStorage.removeItem("premium_status");
+    localStorage.removeItem("premium_expiry");
+    localStorage.removeItem("ajnabicam_premium_plan");
+    localStorage.removeItem("ajnabicam_premium_tier");
+  };
+
   const syncPremiumStatus = async (userId?: string) => {
     try {
       setLoading(true);
       const userIdToUse = userId || currentUserId;
       if (!userIdToUse) return;
 
-      const userProfile = await getUserProfile(userIdToUse);
+      // The server ends lapsed premium itself, so expiry is only read here
+      const [userProfile, currentSubscription] = await Promise.all([
+        getUserProfile(userIdToUse),
+        getSubscription().catch((error) => {
+          console.error("Error loading subscription:", error);
+          return null;
+        }),
+        getShop()
+          .then(({ unlocks }) => setShopUnlocks(unlocks))
+          .catch((error) => console.error("Error loading coin shop unlocks:", error)),
+        getTrial()
+          .then(({ trial, eligible }) => {
+            setTrial(trial);
+            setTrialEligible(eligible);
+          })
+          .catch((error) => console.error("Error loading trial:", error)),
+      ]);
+      setSubscription(currentSubscription);
+
       if (userProfile) {
-        const { isPremium: userIsPremium, premiumExpiry: userPremiumExpiry, premiumPlan: userPremiumPlan } = userProfile;
+        const { isPremium: userIsPremium, premiumExpiry: userPremiumExpiry, premiumPlan: userPremiumPlan, premiumTier: userPremiumTier } = userProfile;
 
-        // Check if premium has expired
         const now = new Date();
         const expiryDate = userPremiumExpiry?.toDate();
 
@@ -72,31 +149,15 @@ export const PremiumProvider = ({ children }: PremiumProviderProps) => {
           setIsPremium(true);
           setPremiumExpiry(expiryDate);
           setPremiumPlan(userPremiumPlan || null);
+          setPremiumTier(userPremiumTier || null);
 
           // Sync with localStorage for offline access
           localStorage.setItem("premium_status", "true");
           localStorage.setItem("premium_expiry", expiryDate.toISOString());
           localStorage.setItem("ajnabicam_premium_plan", userPremiumPlan || "");
-        } else if (userIsPremium && (!expiryDate || expiryDate <= now)) {
-          // Premium expired, update Firestore
-          await updatePremiumStatus(userIdToUse, false);
-          setIsPremium(false);
-          setPremiumExpiry(null);
-          setPremiumPlan(null);
-
-          // Clear localStorage
-          localStorage.removeItem("premium_status");
-          localStorage.removeItem("premium_expiry");
-          localStorage.removeItem("ajnabicam_premium_plan");
+          localStorage.setItem("ajnabicam_premium_tier", userPremiumTier || "");
         } else {
-          setIsPremium(false);
-          setPremiumExpiry(null);
-          setPremiumPlan(null);
-
-          // Clear localStorage
-          localStorage.removeItem("premium_status");
-          localStorage.removeItem("premium_expiry");
-          localStorage.removeItem("ajnabicam_premium_plan");
+          clearPremium();
         }
       }
     } catch (error) {
@@ -106,6 +167,7 @@ export const PremiumProvider = ({ children }: PremiumProviderProps) => {
       const savedPremium = localStorage.getItem("premium_status");
       const savedExpiry = localStorage.getItem("premium_expiry");
       const savedPlan = localStorage.getItem("ajnabicam_premium_plan");
+      const savedTier = localStorage.getItem("ajnabicam_premium_tier") as PremiumTier | null;
 
       if (savedPremium && savedExpiry) {
         const expiryDate = new Date(savedExpiry);
@@ -113,13 +175,9 @@ export const PremiumProvider = ({ children }: PremiumProviderProps) => {
           setIsPremium(true);
           setPremiumExpiry(expiryDate);
           setPremiumPlan(savedPlan || null);
+          setPremiumTier(savedTier || null);
         } else {
-          setIsPremium(false);
-          setPremiumExpiry(null);
-          setPremiumPlan(null);
-          localStorage.removeItem("premium_status");
-          localStorage.removeItem("premium_expiry");
-          localStorage.removeItem("ajnabicam_premium_plan");
+          clearPremium();
         }
       }
     } finally {
@@ -162,25 +220,48 @@ export const PremiumProvider = ({ children }: PremiumProviderProps) => {
     }
   };
 
+  /**
+   * Throws ApiError when the account has already had a trial
+   */
+  const startTrial = async (): Promise<Trial> => {
+    const started = await requestTrial();
+    setTrial(started);
+    setTrialEligible(false);
+    await syncPremiumStatus();
+    return started;
+  };
+
+  // A plan bought during the trial takes over from it
+  const isTrial =
+    isPremium &&
+    trial?.status === "active" &&
+    trial.endsAt > Date.now() &&
+    (!subscription || subscription.status === "expired");
+
   const checkPremiumStatus = (): boolean => {
     if (premiumExpiry && new Date() > premiumExpiry) {
-      // Premium expired, sync with Firestore
-      if (currentUserId) {
-        updatePremiumStatus(currentUserId, false).then(() => {
-          syncPremiumStatus();
-        });
-      }
+      // Past expiry the server has renewed, moved to grace or ended premium
+      syncPremiumStatus();
       return false;
     }
     return isPremium;
   };
 
   const isUltraPremium = (): boolean => {
-    return isPremium && premiumPlan === 'ultra-quarterly';
+    return isPremium && premiumTier === 'ultra';
   };
 
   const isProMonthly = (): boolean => {
-    return isPremium && premiumPlan === 'pro-monthly';
+    return isPremium && premiumTier === 'pro';
+  };
+
+  const hasEntitlement = (feature: Feature): boolean => {
+    // Profiles from before tiers were stored only say they are premium
+    const tier = isPremium ? premiumTier || "vip" : null;
+    if (isEntitled(entitlements, tier, feature)) return true;
+
+    const now = Date.now();
+    return shopUnlocks.some((unlock) => unlock.feature === feature && unlock.expiresAt > now);
   };
 
   return (
@@ -189,12 +270,22 @@ export const PremiumProvider = ({ children }: PremiumProviderProps) => {
         isPremium,
         premiumExpiry,
         premiumPlan,
+        premiumTier,
+        subscription,
+        trial,
+        isTrial,
+        trialEligible,
+        startTrial,
+        entitlements,
+        shopUnlocks,
+        setShopUnlocks,
         loading,
         setPremium,
         checkPremiumStatus,
         syncPremiumStatus,
         isUltraPremium,
         isProMonthly,
+        hasEntitlement,
       }}
     >
       {children}
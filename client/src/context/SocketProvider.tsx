@@ -6,15 +6,40 @@ import React, {
   useEffect,
 } from "react";
 import { io, Socket } from "socket.io-client";
+import { onAuthStateChanged } from "firebase/auth";
+import { auth } from "../firebaseConfig";
 import MockMatchingService from "../lib/mockMatchingService";
 
+export interface BanInfo {
+  until: number | null;
+  reason?: string;
+}
+
 interface ISocketContext {
   socket: Socket | null;
   setSocket: (socket: Socket | null) => void;
   mockMatching: MockMatchingService;
   isUsingMockMode: boolean;
+  banInfo: BanInfo | null;
 }
 
+// Sent on every (re)connect so the server always sees a fresh ID token
+const socketAuth = (cb: (data: object) => void) => {
+  const user = auth.currentUser;
+  if (!user) {
+    cb({});
+    return;
+  }
+
+  user
+    .getIdToken()
+    .then((token) => cb({ token }))
+    .catch((error) => {
+      console.error("Failed to get ID token for socket:", error);
+      cb({});
+    });
+};
+
 const SocketContext = createContext<ISocketContext | null>(null);
 
 export const useSocket = () => {
@@ -28,8 +53,18 @@ export const useSocket = () => {
 export const SocketProvider = ({ children }: { children: ReactNode }) => {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isUsingMockMode, setIsUsingMockMode] = useState(false);
+  const [authUid, setAuthUid] = useState<string | null>(null);
+  const [banInfo, setBanInfo] = useState<BanInfo | null>(null);
   const mockMatching = MockMatchingService.getInstance();
 
+  // The server only accepts authenticated sockets, so wait for sign-in
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (user) => {
+      setAuthUid(user ? user.uid : null);
+    });
+    return () => unsubscribe();
+  }, []);
+
   // Add error handling
   useEffect(() => {
     const handleError = (event: ErrorEvent) => {
@@ -41,7 +76,7 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
   }, []);
 
   useEffect(() => {
-    if (!socket) {
+    if (!socket && authUid) {
       // Prioritize environment variable for socket URL
       let socketUrl: string = import.meta.env.VITE_SOCKET_URL;
       
@@ -70,6 +105,7 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
         reconnectionAttempts: 5,
         reconnectionDelay: 1000,
         withCredentials: false, // Disable credentials for WebContainer
+        auth: socketAuth,
       });
 
       console.log("Attempting socket connection to:", socketUrl);
@@ -83,7 +119,21 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
         console.log("Socket disconnected");
       });
 
-      newSocket.on("connect_error", (error) => {
+      // Sent right before the server drops a suspended account
+      newSocket.on("account:banned", (ban: BanInfo) => {
+        console.warn("Account has been suspended until", ban.until);
+        setBanInfo(ban);
+        newSocket.close();
+      });
+
+      newSocket.on("connect_error", (error: Error & { data?: { code?: string } & BanInfo }) => {
+        if (error.data?.code === "banned") {
+          console.warn("Account is banned, not connecting");
+          setBanInfo({ until: error.data.until, reason: error.data.reason });
+          newSocket.close();
+          return;
+        }
+
         console.log("Socket connection failed, falling back to mock mode");
         console.error("Socket connection error:", error);
         
@@ -102,6 +152,7 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
             reconnectionAttempts: 3,
             reconnectionDelay: 1000,
             withCredentials: false,
+            auth: socketAuth,
           });
           
           altSocket.on("connect", () => {
@@ -126,6 +177,7 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
             reconnection: true,
             reconnectionAttempts: 3,
             reconnectionDelay: 1000,
+            auth: socketAuth,
           });
           
           altSocket.on("connect", () => {
@@ -162,7 +214,7 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
         newSocket.close();
       };
     }
-  }, [socket]);
+  }, [socket, authUid]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -177,7 +229,7 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
 
   return (
     <SocketContext.Provider
-      value={{ socket, setSocket, mockMatching, isUsingMockMode }}
+      value={{ socket, setSocket, mockMatching, isUsingMockMode, banInfo }}
     >
       {children}
     </SocketContext.Provider>
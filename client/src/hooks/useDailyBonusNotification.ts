@@ -1,7 +1,8 @@
 import { useEffect, useRef, useCallback } from 'react';
+import { RewardStatus } from '../lib/rewards';
 
 interface UseDailyBonusNotificationProps {
-  canClaimDailyBonus: boolean;
+  rewardStatus: RewardStatus | null;
   currentUser: string | null;
   hasCompletedOnboarding: boolean;
   showBonusNotification: (title: string, message: string, action: () => void) => void;
@@ -9,7 +10,7 @@ interface UseDailyBonusNotificationProps {
 }
 
 export const useDailyBonusNotification = ({
-  canClaimDailyBonus,
+  rewardStatus,
   currentUser,
   hasCompletedOnboarding,
   showBonusNotification,
@@ -24,8 +25,13 @@ export const useDailyBonusNotification = ({
     functionsRef.current = { showBonusNotification, claimDailyBonus };
   }, [showBonusNotification, claimDailyBonus]);
 
+  // The server's day, in the user's time zone
+  const today = rewardStatus?.today;
+  const canClaimDailyBonus = !!rewardStatus?.canClaimDailyBonus;
+  const dailyBonus = rewardStatus?.dailyBonus;
+
   useEffect(() => {
-    const today = new Date().toDateString();
+    if (!today) return;
 
     // Reset the trigger flag if it's a new day
     if (lastCheckDate.current !== today) {
@@ -53,12 +59,12 @@ export const useDailyBonusNotification = ({
       const timeoutId = setTimeout(() => {
         functionsRef.current.showBonusNotification(
           "🎁 Daily Bonus Available!",
-          "Claim your 5 coins now and keep your streak going!",
+          `Claim your ${dailyBonus} coins now and keep your streak going!`,
           functionsRef.current.claimDailyBonus,
         );
       }, 2000);
 
       return () => clearTimeout(timeoutId);
     }
-  }, [canClaimDailyBonus, currentUser, hasCompletedOnboarding]); // Only include stable values
+  }, [today, canClaimDailyBonus, dailyBonus, currentUser, hasCompletedOnboarding]); // Only include stable values
 };
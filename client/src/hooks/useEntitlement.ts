@@ -0,0 +1,17 @@
+import { usePremium } from '../context/PremiumProvider';
+import { Feature } from '../lib/entitlements';
+
+/**
+ * Whether the current user has a feature, and what it costs without it.
+ * Packaging lives in the entitlement table, not in components.
+ */
+export function useEntitlement(feature: Feature) {
+  const { entitlements, hasEntitlement } = usePremium();
+  const { coinPrice, freeAllowance } = entitlements.features[feature];
+
+  return {
+    granted: hasEntitlement(feature),
+    coinPrice,
+    freeAllowance,
+  };
+}
@@ -1,6 +1,6 @@
 import { useCallback, useRef } from 'react';
 import { adService } from '../lib/adService';
-import { usePremium } from '../context/PremiumProvider';
+import { useEntitlement } from './useEntitlement';
 
 interface InterstitialAdOptions {
   minTimeBetweenAds?: number; // Minimum time in seconds between ads
@@ -10,7 +10,7 @@ interface InterstitialAdOptions {
 }
 
 export function useInterstitialAd(options: InterstitialAdOptions = {}) {
-  const { isPremium } = usePremium();
+  const { granted: isAdFree } = useEntitlement('ad_free');
   const lastAdTimeRef = useRef<number>(0);
   const adsShownRef = useRef<number>(0);
   
@@ -22,8 +22,8 @@ export function useInterstitialAd(options: InterstitialAdOptions = {}) {
   } = options;
 
   const canShowAd = useCallback((): boolean => {
-    // Don't show ads to premium users
-    if (isPremium) {
+    // Don't show ads to users with ad_free
+    if (isAdFree) {
       console.log('🔒 Premium user - skipping interstitial ad');
       return false;
     }
@@ -44,7 +44,7 @@ export function useInterstitialAd(options: InterstitialAdOptions = {}) {
     }
 
     return true;
-  }, [isPremium, minTimeBetweenAds, maxAdsPerSession]);
+  }, [isAdFree, minTimeBetweenAds, maxAdsPerSession]);
 
   const showAd = useCallback(async (trigger: string): Promise<boolean> => {
     if (!canShowAd()) {
@@ -103,8 +103,8 @@ export function useInterstitialAd(options: InterstitialAdOptions = {}) {
     canShowAd: canShowAd(),
     timeSinceLastAd: lastAdTimeRef.current ? (Date.now() - lastAdTimeRef.current) / 1000 : 0,
     timeUntilNextAd: Math.max(0, minTimeBetweenAds - ((Date.now() - lastAdTimeRef.current) / 1000)),
-    isPremiumUser: isPremium
-  }), [canShowAd, maxAdsPerSession, minTimeBetweenAds, isPremium]);
+    isPremiumUser: isAdFree
+  }), [canShowAd, maxAdsPerSession, minTimeBetweenAds, isAdFree]);
 
   return {
     showAd,
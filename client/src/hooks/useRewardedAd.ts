@@ -0,0 +1,51 @@
+import { useCallback } from 'react';
+import { useCoin } from '../context/CoinProvider';
+import { useSocket } from '../context/SocketProvider';
+import {
+  AdPurpose,
+  AdSession,
+  AdVerificationOptions,
+  completeLocalAd,
+  startAdSession,
+  waitForAdReward,
+} from '../lib/adRewards';
+
+// Shows an ad with the given verification options; true once it was watched to the end
+export type ShowRewardedAd = (verification: AdVerificationOptions) => Promise<boolean>;
+
+/**
+ * Show a rewarded ad and wait for the server to confirm what it paid.
+ * Coins are only ever credited from the ad network's own callback.
+ */
+export function useRewardedAd() {
+  const { socket } = useSocket();
+  const { currentUser, refreshRewardStatus } = useCoin();
+
+  /**
+   * Resolves with the settled session, or null when the ad was not shown.
+   * A session still "pending" means the network has not called back yet.
+   */
+  const watchRewardedAd = useCallback(
+    async (
+      show: ShowRewardedAd,
+      purpose: AdPurpose = 'reward',
+      spinId?: string,
+    ): Promise<AdSession | null> => {
+      if (!currentUser) return null;
+
+      const { session, verification } = await startAdSession(purpose, spinId);
+      const watched = await show({ userId: currentUser, customData: session.id });
+      if (!watched) return null;
+
+      const settled =
+        verification === 'local'
+          ? await completeLocalAd(session.id)
+          : await waitForAdReward(socket, session);
+      await refreshRewardStatus();
+      return settled;
+    },
+    [socket, currentUser, refreshRewardStatus],
+  );
+
+  return { watchRewardedAd };
+}
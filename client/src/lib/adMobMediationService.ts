@@ -4,6 +4,7 @@
  */
 
 import { unityAdsService } from './unityAdsService';
+import type { AdVerificationOptions } from './adRewards';
 
 export interface AdMobConfig {
   publisherId: string;
@@ -90,13 +91,19 @@ class AdMobMediationService {
     }
   }
 
-  async showMediatedRewardedAd(): Promise<{ success: boolean; reward: number; network: string }> {
+  /**
+   * `verification` becomes the ad's server-side verification options, so
+   * AdMob's reward callback names the user and their ad session
+   */
+  async showMediatedRewardedAd(
+    verification?: AdVerificationOptions,
+  ): Promise<{ success: boolean; reward: number; network: string }> {
     if (!this.mediationReady) {
       return { success: false, reward: 0, network: 'none' };
     }
 
     try {
-      console.log('💰 Showing mediated rewarded ad...');
+      console.log('💰 Showing mediated rewarded ad...', verification ? `(session ${verification.customData})` : '');
       
       // Simulate ad success
       await new Promise(resolve => setTimeout(resolve, 1000));
@@ -0,0 +1,104 @@
+import type { Socket } from "socket.io-client";
+import { apiRequest } from "./apiClient";
+
+// What a watched ad pays for: the daily ad reward, or a spin wheel win
+export type AdPurpose = "reward" | "spin";
+
+export type AdSessionStatus = "pending" | "credited" | "rejected";
+
+export interface AdSession {
+  id: string;
+  purpose: AdPurpose;
+  spinId: string | null;
+  status: AdSessionStatus;
+  coins: number;
+  // Why a verified ad paid nothing, e.g. "ad_limit_reached"
+  error: string | null;
+  createdAt: number;
+  completedAt: number | null;
+}
+
+/**
+ * Handed to the ad SDK so the network's server-side verification callback
+ * says whose ad it was and which session it pays for
+ */
+export interface AdVerificationOptions {
+  userId: string;
+  customData: string;
+}
+
+// "local": no ad network calls back, so the client completes the session itself
+export type AdVerification = "ssv" | "local";
+
+interface AdRewardedEvent {
+  sessionId: string;
+  status: AdSessionStatus;
+  coins: number;
+  error: string | null;
+}
+
+const CONFIRM_TIMEOUT_MS = 60 * 1000;
+const POLL_INTERVAL_MS = 3000;
+
+export function startAdSession(
+  purpose: AdPurpose,
+  spinId?: string,
+): Promise<{ session: AdSession; verification: AdVerification }> {
+  return apiRequest("/api/ads/sessions", {
+    method: "POST",
+    body: { purpose, spinId },
+  });
+}
+
+export async function getAdSession(sessionId: string): Promise<AdSession> {
+  const { session } = await apiRequest<{ session: AdSession }>(
+    `/api/ads/sessions/${encodeURIComponent(sessionId)}`,
+  );
+  return session;
+}
+
+export async function completeLocalAd(sessionId: string): Promise<AdSession> {
+  const { session } = await apiRequest<{ session: AdSession }>(
+    `/api/ads/sessions/${encodeURIComponent(sessionId)}/complete-local`,
+    { method: "POST", body: {} },
+  );
+  return session;
+}
+
+/**
+ * Wait for the server to settle a session once the network's callback
+ * arrives. Listens for "ads:rewarded" and polls in case the socket is
+ * down; resolves with the session still pending if neither answers in time.
+ */
+export function waitForAdReward(socket: Socket | null, session: AdSession): Promise<AdSession> {
+  return new Promise((resolve) => {
+    let latest = session;
+    let settled = false;
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      clearInterval(poll);
+      clearTimeout(timeout);
+      socket?.off("ads:rewarded", onRewarded);
+      resolve(latest);
+    };
+
+    const check = async () => {
+      try {
+        latest = await getAdSession(session.id);
+        if (latest.status !== "pending") finish();
+      } catch (error) {
+        console.error("Error checking ad session:", error);
+      }
+    };
+
+    const onRewarded = (event: AdRewardedEvent) => {
+      if (event.sessionId === session.id) check();
+    };
+
+    socket?.on("ads:rewarded", onRewarded);
+    const poll = setInterval(check, POLL_INTERVAL_MS);
+    const timeout = setTimeout(finish, CONFIRM_TIMEOUT_MS);
+  });
+}
@@ -16,6 +16,7 @@ import {
 } from "firebase/firestore";
 import { db, analytics } from "../firebaseConfig";
 import { logEvent, setUserId, setUserProperties } from "firebase/analytics";
+import { ConnectionQuality } from "./webrtc";
 
 // Types for analytics
 export interface UserSession {
@@ -64,7 +65,7 @@ export interface ChatSessionAnalytics {
   wallpaperChanged: boolean;
   userRating?: number; // 1-5 stars
   reportIssues: boolean;
-  connectionQuality: 'poor' | 'fair' | 'good' | 'excellent';
+  connectionQuality: ConnectionQuality;
 }
 
 export interface FeatureUsage {
@@ -302,7 +303,9 @@ export async function startChatSession(
 export async function endChatSession(
   chatSessionId: string, 
   rating?: number, 
-  reportIssues?: boolean
+  reportIssues?: boolean,
+  // The call's average from PeerSession's quality report
+  connectionQuality?: ConnectionQuality
 ): Promise<boolean> {
   try {
     const chatSessionRef = doc(db, "chatSessionAnalytics", chatSessionId);
@@ -319,7 +322,8 @@ export async function endChatSession(
       endTime: serverTimestamp(),
       duration,
       userRating: rating,
-      reportIssues: reportIssues || false
+      reportIssues: reportIssues || false,
+      ...(connectionQuality && { connectionQuality })
     });
 
     // Log to Firebase Analytics
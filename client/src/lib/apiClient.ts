@@ -0,0 +1,56 @@
+import { auth } from "../firebaseConfig";
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    public readonly data: Record<string, unknown> = {},
+  ) {
+    super(code);
+    this.name = "ApiError";
+  }
+}
+
+// REST calls go to the same server as the socket connection
+export function getApiBaseUrl(): string {
+  const configured = import.meta.env.VITE_API_BASE_URL || import.meta.env.VITE_SOCKET_URL;
+  if (configured) return configured.replace(/\/$/, "");
+
+  if (window.location.hostname === "localhost") {
+    return "http://localhost:8000";
+  }
+  return `http://${window.location.hostname}:8000`;
+}
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  body?: unknown;
+}
+
+/**
+ * Call the server API as the signed-in user. Throws ApiError with the
+ * server's `error` code on non-2xx responses.
+ */
+export async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new ApiError(401, "unauthorized");
+  }
+
+  const token = await user.getIdToken();
+  const response = await fetch(`${getApiBaseUrl()}${path}`, {
+    method: options.method || "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(options.body !== undefined ? { "Content-Type": "application/json" } : {}),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  const data: Record<string, unknown> = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const code = typeof data.error === "string" && data.error ? data.error : "request_failed";
+    throw new ApiError(response.status, code, data);
+  }
+  return data as T;
+}
@@ -0,0 +1,87 @@
+import { ApiError, apiRequest } from "./apiClient";
+
+// Mirrors the reasons the server ledger accepts from clients
+export type DebitReason = "friendship" | "reveal_like" | "timer_extension";
+
+// Every credit, and streak freezes and coin shop items, only ever come
+// from the server
+export type CoinReason =
+  | DebitReason
+  | "chat_completion"
+  | "coin_pack"
+  | "purchase_reversal"
+  | "referral"
+  | "ad_reward"
+  | "daily_bonus"
+  | "streak_bonus"
+  | "spin"
+  | "streak_freeze"
+  | "streak_freeze_refund"
+  | "shop_purchase";
+
+export interface LedgerEntry {
+  id: string;
+  amount: number;
+  reason: CoinReason;
+  balance: number;
+  createdAt: number;
+}
+
+export interface LedgerResponse {
+  entry: LedgerEntry;
+  replayed: boolean;
+  balance: number;
+}
+
+export const COIN_REASON_LABELS: Record<CoinReason, string> = {
+  ad_reward: "Watched an ad",
+  daily_bonus: "Daily bonus",
+  streak_bonus: "Streak bonus",
+  spin: "Spin wheel",
+  chat_completion: "Completed a chat",
+  referral: "Referred a friend",
+  coin_pack: "Coin pack",
+  friendship: "Friend request",
+  reveal_like: "Revealed a like",
+  timer_extension: "Extended chat time",
+  streak_freeze: "Streak freeze",
+  streak_freeze_refund: "Streak freeze refunded",
+  shop_purchase: "Coin shop",
+  purchase_reversal: "Purchase refunded",
+};
+
+// Connection failures are retried with the same key, so a request that did
+// reach the server is never applied twice
+const MAX_ATTEMPTS = 3;
+
+async function postChange(
+  path: string,
+  body: { reason: CoinReason; amount: number },
+): Promise<LedgerResponse> {
+  const idempotencyKey = crypto.randomUUID();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await apiRequest<LedgerResponse>(path, {
+        method: "POST",
+        body: { ...body, idempotencyKey },
+      });
+    } catch (error) {
+      if (error instanceof ApiError || attempt >= MAX_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Throws ApiError "insufficient_coins" when the balance is too low
+ */
+export function debitCoins(amount: number, reason: DebitReason): Promise<LedgerResponse> {
+  return postChange("/api/coins/debit", { reason, amount });
+}
+
+export async function getCoinHistory(limit = 50): Promise<LedgerEntry[]> {
+  const { entries } = await apiRequest<{ entries: LedgerEntry[] }>(
+    `/api/coins/history?limit=${limit}`,
+  );
+  return entries;
+}
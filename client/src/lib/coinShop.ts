@@ -0,0 +1,46 @@
+import { apiRequest } from "./apiClient";
+import { Feature } from "./entitlements";
+
+// Mirrors the server's coin shop config; prices always come from the server
+export type ShopItemId =
+  | "filter_pass"
+  | "gender_filter_hour"
+  | "extra_chat_time"
+  | "wallpaper_pack"
+  | "face_filter_pack"
+  | "profile_boost";
+
+export interface ShopItem {
+  id: ShopItemId;
+  name: string;
+  description: string;
+  price: number;
+  feature: Feature;
+  durationMs: number;
+  // Set when the unlock is used up match by match
+  matches?: number;
+}
+
+// A bought item that is still running; repeat purchases add to it
+export interface ShopUnlock {
+  itemId: ShopItemId;
+  feature: Feature;
+  expiresAt: number;
+  matchesLeft: number | null;
+}
+
+export async function getShop(): Promise<{ items: ShopItem[]; unlocks: ShopUnlock[] }> {
+  return apiRequest("/api/shop");
+}
+
+/**
+ * Throws ApiError "insufficient_coins" when the balance is too low
+ */
+export async function buyShopItem(
+  itemId: ShopItemId,
+): Promise<{ unlocks: ShopUnlock[]; balance: number }> {
+  return apiRequest("/api/shop/purchases", {
+    method: "POST",
+    body: { itemId, idempotencyKey: crypto.randomUUID() },
+  });
+}
@@ -0,0 +1,126 @@
+import { getApiBaseUrl } from "./apiClient";
+import { PremiumTier } from "./subscriptions";
+
+// Mirrors the server's feature keys; gate UI on these, never on a plan or tier
+export type Feature =
+  | "gender_filter"
+  | "queue_priority"
+  | "extended_calls"
+  | "unlimited_calls"
+  | "unlimited_friends"
+  | "voice_only"
+  | "secret_chat"
+  | "photo_saving"
+  | "premium_wallpapers"
+  | "premium_face_filters"
+  | "reveal_likes"
+  | "typing_indicators"
+  | "read_receipts"
+  | "ad_free";
+
+export interface Entitlement {
+  tiers: PremiumTier[];
+  // Coins for a single use without the feature
+  coinPrice?: number;
+  // What users without the feature get of it, e.g. a number of friends
+  freeAllowance?: number;
+}
+
+export interface CallLimits {
+  freeMs: number;
+  extendedMs: number;
+  extensionMs: number;
+  wrapUpMs: number;
+}
+
+export interface EntitlementTable {
+  features: Record<Feature, Entitlement>;
+  callLimits: CallLimits;
+}
+
+const STORAGE_KEY = "ajnabicam_entitlements";
+const ALL_TIERS: PremiumTier[] = ["vip", "pro", "ultra"];
+const MINUTE_MS = 60 * 1000;
+
+// Used until the server's table loads, and offline
+export const DEFAULT_ENTITLEMENTS: EntitlementTable = {
+  features: {
+    gender_filter: { tiers: ALL_TIERS },
+    queue_priority: { tiers: ALL_TIERS },
+    extended_calls: { tiers: ALL_TIERS, coinPrice: 10 },
+    unlimited_calls: { tiers: ["ultra"] },
+    unlimited_friends: { tiers: ALL_TIERS, freeAllowance: 3 },
+    voice_only: { tiers: ALL_TIERS },
+    secret_chat: { tiers: ALL_TIERS },
+    photo_saving: { tiers: ALL_TIERS },
+    premium_wallpapers: { tiers: ALL_TIERS },
+    premium_face_filters: { tiers: ["ultra"] },
+    reveal_likes: { tiers: ALL_TIERS, coinPrice: 10 },
+    typing_indicators: { tiers: ["pro", "ultra"] },
+    read_receipts: { tiers: ["pro", "ultra"] },
+    ad_free: { tiers: ALL_TIERS },
+  },
+  callLimits: {
+    freeMs: 15 * MINUTE_MS,
+    extendedMs: 30 * MINUTE_MS,
+    extensionMs: 7 * MINUTE_MS,
+    wrapUpMs: MINUTE_MS,
+  },
+};
+
+export function getCachedEntitlements(): EntitlementTable {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const table = JSON.parse(saved) as EntitlementTable;
+      // Features added since the table was cached keep their defaults
+      return {
+        features: { ...DEFAULT_ENTITLEMENTS.features, ...table.features },
+        callLimits: { ...DEFAULT_ENTITLEMENTS.callLimits, ...table.callLimits },
+      };
+    }
+  } catch (error) {
+    console.error("Error reading cached entitlements:", error);
+  }
+  return DEFAULT_ENTITLEMENTS;
+}
+
+/**
+ * Fetch the server's entitlement table, falling back to the cached one.
+ * The endpoint is public, so this works before sign-in.
+ */
+export async function loadEntitlements(): Promise<EntitlementTable> {
+  try {
+    const response = await fetch(`${getApiBaseUrl()}/api/entitlements`);
+    if (!response.ok) throw new Error(`Entitlements request failed: ${response.status}`);
+
+    const table = (await response.json()) as EntitlementTable;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(table));
+    return table;
+  } catch (error) {
+    console.error("Error loading entitlements:", error);
+    return getCachedEntitlements();
+  }
+}
+
+export function isEntitled(
+  table: EntitlementTable,
+  tier: PremiumTier | null,
+  feature: Feature,
+): boolean {
+  return !!tier && table.features[feature].tiers.includes(tier);
+}
+
+/**
+ * How long a video call between these tiers may run, or null when it is
+ * unlimited. The server sets the real deadline; this is for offline/mock calls.
+ */
+export function callLimitMs(
+  table: EntitlementTable,
+  a: PremiumTier | null,
+  b: PremiumTier | null,
+): number | null {
+  const either = (feature: Feature) => isEntitled(table, a, feature) || isEntitled(table, b, feature);
+  if (either("unlimited_calls")) return null;
+  return either("extended_calls") ? table.callLimits.extendedMs : table.callLimits.freeMs;
+}
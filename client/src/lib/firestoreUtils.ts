@@ -3,7 +3,6 @@ import {
   getDoc,
   setDoc,
   updateDoc,
-  increment,
   collection,
   addDoc,
   query,
@@ -17,6 +16,7 @@ import {
   Timestamp
 } from "firebase/firestore";
 import { db } from "../firebaseConfig";
+import type { PremiumTier } from "./subscriptions";
 
 // Types for user data
 export interface UserProfile {
@@ -34,6 +34,8 @@ export interface UserProfile {
   isPremium: boolean;
   premiumExpiry?: Timestamp;
   premiumPlan?: string;
+  // Mirrors the server-side subscription; only the server writes it
+  premiumTier?: PremiumTier;
   coins: number;
   totalCoinsEarned: number;
   totalCoinsSpent: number;
@@ -137,62 +139,6 @@ export async function getCoins(userId: string): Promise<number> {
   }
 }
 
-/**
- * Add coins to user's balance
- */
-export async function addCoins(userId: string, amount: number): Promise<void> {
-  try {
-    const userDocRef = doc(db, "users", userId);
-    
-    // Ensure user document exists first
-    await ensureUserDocumentExists(userId);
-    
-    // Add coins using Firestore increment
-    await updateDoc(userDocRef, {
-      coins: increment(amount),
-      updatedAt: new Date()
-    });
-
-    console.log(`✅ Added ${amount} coins to user ${userId}`);
-  } catch (error) {
-    console.error("❌ Error adding coins:", error);
-    throw error;
-  }
-}
-
-/**
- * Spend coins from user's balance
- */
-export async function spendCoins(userId: string, amount: number): Promise<{ success: boolean; message: string }> {
-  try {
-    const userDocRef = doc(db, "users", userId);
-    const userDocSnap = await getDoc(userDocRef);
-
-    if (!userDocSnap.exists()) {
-      return { success: false, message: "User not found" };
-    }
-
-    const userData = userDocSnap.data();
-    const currentCoins = userData.coins || 0;
-
-    if (currentCoins < amount) {
-      return { success: false, message: "Insufficient coins" };
-    }
-
-    // Deduct coins
-    await updateDoc(userDocRef, {
-      coins: increment(-amount),
-      updatedAt: new Date()
-    });
-
-    console.log(`✅ Spent ${amount} coins for user ${userId}`);
-    return { success: true, message: "Coins spent successfully" };
-  } catch (error) {
-    console.error("❌ Error spending coins:", error);
-    return { success: false, message: "Error spending coins" };
-  }
-}
-
 /**
  * Get complete user profile
  */
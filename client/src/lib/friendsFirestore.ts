@@ -19,6 +19,7 @@ import {
   deleteDoc
 } from "firebase/firestore";
 import { db } from "../firebaseConfig";
+import { apiRequest } from "./apiClient";
 
 // Types for friends system
 export interface FriendRequest {
@@ -118,59 +119,9 @@ export async function sendFriendRequest(fromUserId: string, fromUserName: string
  */
 export async function acceptFriendRequest(requestId: string): Promise<boolean> {
   try {
-    const requestRef = doc(db, "friendRequests", requestId);
-    const requestSnap = await getDoc(requestRef);
-    
-    if (!requestSnap.exists()) {
-      return false;
-    }
-
-    const requestData = requestSnap.data() as FriendRequest;
-    
-    // Update request status
-    await updateDoc(requestRef, {
-      status: 'accepted',
-      updatedAt: serverTimestamp()
-    });
-
-    // Create friendship records for both users
-    const friendship1: Omit<Friend, 'id'> = {
-      userId: requestData.fromUserId,
-      friendId: requestData.toUserId,
-      friendName: requestData.toUserName,
-      friendAvatar: requestData.toUserAvatar,
-      addedAt: serverTimestamp() as Timestamp,
-      isOnline: false,
-      isFavorite: false,
-      mutualFriends: 0
-    };
-
-    const friendship2: Omit<Friend, 'id'> = {
-      userId: requestData.toUserId,
-      friendId: requestData.fromUserId,
-      friendName: requestData.fromUserName,
-      friendAvatar: requestData.fromUserAvatar,
-      addedAt: serverTimestamp() as Timestamp,
-      isOnline: false,
-      isFavorite: false,
-      mutualFriends: 0
-    };
-
-    await addDoc(collection(db, "friends"), friendship1);
-    await addDoc(collection(db, "friends"), friendship2);
-
-    // Update friend counts
-    const user1Ref = doc(db, "users", requestData.fromUserId);
-    const user2Ref = doc(db, "users", requestData.toUserId);
-    
-    await updateDoc(user1Ref, {
-      friendsCount: increment(1),
-      updatedAt: serverTimestamp()
-    });
-    
-    await updateDoc(user2Ref, {
-      friendsCount: increment(1),
-      updatedAt: serverTimestamp()
+    // The server creates the friendship, enforcing both users' friend limits
+    await apiRequest(`/api/friends/requests/${encodeURIComponent(requestId)}/accept`, {
+      method: "POST",
     });
 
     console.log("✅ Friend request accepted");
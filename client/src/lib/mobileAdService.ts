@@ -3,6 +3,8 @@
  * This service handles native mobile ad integration
  */
 
+import type { AdVerificationOptions } from './adRewards';
+
 interface MobileAdConfig {
   appId: string;
   bannerAdUnitId: string;
@@ -154,7 +156,7 @@ class MobileAdService {
   /**
    * Show rewarded ad
    */
-  async showRewardedAd(): Promise<{ success: boolean; reward: number }> {
+  async showRewardedAd(verification?: AdVerificationOptions): Promise<{ success: boolean; reward: number }> {
     if (!this.isInitialized) {
       console.warn('⚠️ AdMob not initialized');
       return { success: false, reward: 0 };
@@ -166,7 +168,8 @@ class MobileAdService {
       if (this.isMobileEnvironment()) {
         // In a real app:
         // await AdMob.prepareRewardVideoAd({
-        //   adId: this.config.rewardedAdUnitId
+        //   adId: this.config.rewardedAdUnitId,
+        //   ssv: verification,
         // });
         // const result = await AdMob.showRewardVideoAd();
         
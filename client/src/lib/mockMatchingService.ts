@@ -1,9 +1,47 @@
-// Mock matching service for when no real server is available
+// Mock matching service for when no real server is available.
+// Follows the server's queue contract: the same queue:status payloads, the
+// same queue:timeout after MAX_WAIT_MS, no back-to-back rematches and a
+// head start for premium users.
+
+// Mirrors the server's MATCH_* defaults
+const MAX_WAIT_MS = 120_000;
+const REMATCH_COOLDOWN_MS = 60_000;
+const PREMIUM_HEAD_START_MS = 10_000;
+const SWEEP_INTERVAL_MS = 3_000;
+const ETA_WINDOW_MS = 5 * 60 * 1000;
+
+export interface QueueStatus {
+  position: number;
+  waiting: number;
+  estimatedWaitMs: number | null;
+}
+
+export interface QueueTimeout {
+  waitedMs: number;
+}
+
+// Named after the socket events they stand in for
+export interface MatchHandlers {
+  "user:connect": (partnerId: string) => void;
+  "queue:status"?: (status: QueueStatus) => void;
+  "queue:timeout"?: (timeout: QueueTimeout) => void;
+}
+
+interface Waiter {
+  id: string;
+  isPremium: boolean;
+  enqueuedAt: number;
+  handlers: MatchHandlers;
+}
+
 class MockMatchingService {
   private static instance: MockMatchingService;
-  private waitingUsers: Set<string> = new Set();
-  private callbacks: Map<string, (partnerId: string) => void> = new Map();
-  private timeouts: Map<string, NodeJS.Timeout> = new Map();
+  private waiting: Map<string, Waiter> = new Map();
+  private lastPartners: Map<string, { partnerId: string; at: number }> =
+    new Map();
+  private pairings: number[] = [];
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private botTimer: ReturnType<typeof setInterval> | null = null;
 
   static getInstance(): MockMatchingService {
     if (!MockMatchingService.instance) {
@@ -12,70 +50,40 @@ class MockMatchingService {
     return MockMatchingService.instance;
   }
 
-  findMatch(userId: string, onMatch: (partnerId: string) => void): void {
+  findMatch(
+    userId: string,
+    handlers: MatchHandlers,
+    options: { isPremium?: boolean } = {},
+  ): void {
     console.log("Mock matching: Looking for match for", userId);
 
-    // Store callback
-    this.callbacks.set(userId, onMatch);
-
-    // Check if there are other waiting users
-    if (this.waitingUsers.size > 0) {
-      // Get first waiting user
-      const partnerId = Array.from(this.waitingUsers)[0];
-      this.waitingUsers.delete(partnerId);
-
-      // Clear any existing timeout for partner
-      const partnerTimeout = this.timeouts.get(partnerId);
-      if (partnerTimeout) {
-        clearTimeout(partnerTimeout);
-        this.timeouts.delete(partnerId);
-      }
-
-      // Get partner callback
-      const partnerCallback = this.callbacks.get(partnerId);
-
-      console.log("Mock matching: Found match!", userId, "<->", partnerId);
-
-      // Simulate network delay
-      setTimeout(
-        () => {
-          onMatch(partnerId);
-          if (partnerCallback) {
-            partnerCallback(userId);
-          }
-
-          // Cleanup
-          this.callbacks.delete(userId);
-          this.callbacks.delete(partnerId);
-        },
-        1000 + Math.random() * 2000,
-      ); // 1-3 second delay
+    const now = Date.now();
+    const seeker: Waiter = {
+      id: userId,
+      isPremium: Boolean(options.isPremium),
+      enqueuedAt: now,
+      handlers,
+    };
+
+    const partner = this.prioritise(Array.from(this.waiting.values())).find(
+      (candidate) => this.compatible(seeker, candidate, now),
+    );
+
+    if (partner) {
+      this.waiting.delete(partner.id);
+      this.pair(seeker, partner, now);
     } else {
-      // No match found, add to waiting list
-      this.waitingUsers.add(userId);
+      this.waiting.set(userId, seeker);
       console.log("Mock matching: Added to waiting list", userId);
-
-      // Set timeout for this user (30 seconds)
-      const timeout = setTimeout(() => {
-        this.waitingUsers.delete(userId);
-        this.callbacks.delete(userId);
-        this.timeouts.delete(userId);
-        console.log("Mock matching: Timeout for", userId);
-      }, 30000);
-
-      this.timeouts.set(userId, timeout);
+      this.startSweeping();
     }
+
+    this.broadcastStatus(now);
   }
 
   cancelMatch(userId: string): void {
-    this.waitingUsers.delete(userId);
-    this.callbacks.delete(userId);
-
-    const timeout = this.timeouts.get(userId);
-    if (timeout) {
-      clearTimeout(timeout);
-      this.timeouts.delete(userId);
-    }
+    this.waiting.delete(userId);
+    this.broadcastStatus(Date.now());
   }
 
   // Simulate random users joining (for better testing)
@@ -84,8 +92,10 @@ class MockMatchingService {
 
     setTimeout(
       () => {
-        this.findMatch(randomId, (partnerId) => {
-          console.log("Bot matched with:", partnerId);
+        this.findMatch(randomId, {
+          "user:connect": (partnerId) => {
+            console.log("Bot matched with:", partnerId);
+          },
         });
       },
       Math.random() * 10000 + 5000,
@@ -94,14 +104,119 @@ class MockMatchingService {
 
   // Start periodic bot simulation
   startBotSimulation(): void {
+    if (this.botTimer) return;
+
     // Add a bot every 15-30 seconds
-    setInterval(() => {
+    this.botTimer = setInterval(() => {
       if (Math.random() < 0.3) {
         // 30% chance
         this.simulateRandomUser();
       }
     }, 15000);
   }
+
+  private pair(seeker: Waiter, partner: Waiter, now: number): void {
+    console.log("Mock matching: Found match!", seeker.id, "<->", partner.id);
+
+    this.pairings.push(now);
+    this.lastPartners.set(seeker.id, { partnerId: partner.id, at: now });
+    this.lastPartners.set(partner.id, { partnerId: seeker.id, at: now });
+
+    // Simulate network delay
+    setTimeout(
+      () => {
+        seeker.handlers["user:connect"](partner.id);
+        partner.handlers["user:connect"](seeker.id);
+      },
+      1000 + Math.random() * 2000,
+    ); // 1-3 second delay
+  }
+
+  private compatible(a: Waiter, b: Waiter, now: number): boolean {
+    return (
+      a.id !== b.id &&
+      !this.recentlyMatched(a.id, b.id, now) &&
+      !this.recentlyMatched(b.id, a.id, now)
+    );
+  }
+
+  private recentlyMatched(id: string, otherId: string, now: number): boolean {
+    const last = this.lastPartners.get(id);
+    return (
+      REMATCH_COOLDOWN_MS > 0 &&
+      last?.partnerId === otherId &&
+      now - last.at < REMATCH_COOLDOWN_MS
+    );
+  }
+
+  // Premium users queue as if they had joined a little earlier
+  private prioritise(waiters: Waiter[]): Waiter[] {
+    const effective = (waiter: Waiter) =>
+      waiter.enqueuedAt - (waiter.isPremium ? PREMIUM_HEAD_START_MS : 0);
+    return [...waiters].sort((a, b) => effective(a) - effective(b));
+  }
+
+  private startSweeping(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+
+    for (const waiter of Array.from(this.waiting.values())) {
+      if (MAX_WAIT_MS > 0 && now - waiter.enqueuedAt >= MAX_WAIT_MS) {
+        this.waiting.delete(waiter.id);
+        console.log("Mock matching: Timeout for", waiter.id);
+        waiter.handlers["queue:timeout"]?.({
+          waitedMs: now - waiter.enqueuedAt,
+        });
+      }
+    }
+
+    // Cooldowns expire, so waiters who could not pair before may now
+    const queue = this.prioritise(Array.from(this.waiting.values()));
+    const paired = new Set<string>();
+    for (const seeker of queue) {
+      if (paired.has(seeker.id)) continue;
+      const partner = queue.find(
+        (candidate) =>
+          !paired.has(candidate.id) && this.compatible(seeker, candidate, now),
+      );
+      if (!partner) continue;
+
+      paired.add(seeker.id);
+      paired.add(partner.id);
+      this.waiting.delete(seeker.id);
+      this.waiting.delete(partner.id);
+      this.pair(seeker, partner, now);
+    }
+
+    this.broadcastStatus(now);
+
+    if (this.waiting.size === 0 && this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private broadcastStatus(now: number): void {
+    this.pairings = this.pairings.filter((at) => at >= now - ETA_WINDOW_MS);
+    const pairingsPerMs = this.pairings.length / ETA_WINDOW_MS;
+    const queue = this.prioritise(Array.from(this.waiting.values()));
+
+    queue.forEach((waiter, index) => {
+      waiter.handlers["queue:status"]?.({
+        position: index + 1,
+        waiting: queue.length,
+        // Each pairing takes two people out of the line
+        estimatedWaitMs:
+          pairingsPerMs > 0
+            ? Math.round(Math.ceil((index + 1) / 2) / pairingsPerMs)
+            : null,
+      });
+    });
+  }
 }
 
 export default MockMatchingService;
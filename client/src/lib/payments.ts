@@ -0,0 +1,118 @@
+import { auth } from "../firebaseConfig";
+import { apiRequest } from "./apiClient";
+import type { PlanChange } from "./subscriptions";
+
+export type ProductType = "premium" | "coins";
+
+export interface Receipt {
+  id: string;
+  orderId: string;
+  productType: ProductType;
+  productId: string;
+  productName: string;
+  amount: number;
+  currency: string;
+  // Paid after the subscription changed under the order; nothing granted yet
+  status: "paid" | "held" | "refunded" | "charged_back";
+  createdAt: number;
+  coins?: number;
+  premiumChange?: PlanChange;
+  premiumExpiry?: number;
+}
+
+interface OrderResponse {
+  orderId: string;
+  amount: number;
+  currency: string;
+  keyId: string;
+  gateway: "razorpay" | "local";
+}
+
+interface CheckoutResult {
+  paymentId: string;
+  signature: string;
+}
+
+// Thrown when the user closes checkout without paying
+export class CheckoutCancelledError extends Error {
+  constructor() {
+    super("checkout_cancelled");
+    this.name = "CheckoutCancelledError";
+  }
+}
+
+function openRazorpay(order: OrderResponse, description: string): Promise<CheckoutResult> {
+  return new Promise((resolve, reject) => {
+    if (typeof window.Razorpay === "undefined") {
+      reject(new Error("Razorpay checkout is not available"));
+      return;
+    }
+
+    const user = auth.currentUser;
+    const rzp = new window.Razorpay({
+      key: order.keyId,
+      order_id: order.orderId,
+      amount: order.amount,
+      currency: order.currency,
+      name: "AjnabiCam",
+      description,
+      image: "/logo.png",
+      handler: (response: {
+        razorpay_payment_id: string;
+        razorpay_signature: string;
+      }) => {
+        resolve({
+          paymentId: response.razorpay_payment_id,
+          signature: response.razorpay_signature,
+        });
+      },
+      modal: {
+        ondismiss: () => reject(new CheckoutCancelledError()),
+      },
+      prefill: {
+        email: user?.email || undefined,
+        contact: user?.phoneNumber || undefined,
+      },
+      theme: { color: "#ff6b6b" },
+    });
+    rzp.on("payment.failed", (response: { error?: { description?: string } }) => {
+      reject(new Error(response.error?.description || "Payment failed"));
+    });
+    rzp.open();
+  });
+}
+
+/**
+ * Buy a premium plan or coin pack. Resolves once the server has verified
+ * the payment and granted the purchase; prices come from the server.
+ */
+export async function purchase(
+  productType: ProductType,
+  productId: string,
+  description: string,
+): Promise<Receipt> {
+  const order = await apiRequest<OrderResponse>("/api/payments/orders", {
+    method: "POST",
+    body: { productType, productId },
+  });
+
+  // The local gateway stands in for checkout during development
+  const payment =
+    order.gateway === "local"
+      ? await apiRequest<CheckoutResult>(
+          `/api/payments/orders/${encodeURIComponent(order.orderId)}/complete-local`,
+          { method: "POST", body: {} },
+        )
+      : await openRazorpay(order, description);
+
+  const { receipt } = await apiRequest<{ receipt: Receipt }>("/api/payments/verify", {
+    method: "POST",
+    body: { orderId: order.orderId, ...payment },
+  });
+  return receipt;
+}
+
+export async function getReceipts(): Promise<Receipt[]> {
+  const { receipts } = await apiRequest<{ receipts: Receipt[] }>("/api/payments/receipts");
+  return receipts;
+}
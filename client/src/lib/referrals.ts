@@ -0,0 +1,35 @@
+import { apiRequest } from "./apiClient";
+
+export type ReferralStatus = "pending" | "rewarded";
+
+export interface ReferralDashboard {
+  code: string;
+  // The code this user signed up with, if any
+  referredBy: { status: ReferralStatus; createdAt: number } | null;
+  stats: { total: number; pending: number; rewarded: number; earned: number };
+  referrals: { status: ReferralStatus; createdAt: number; rewardedAt: number | null }[];
+  // Coins each side gets per rewarded referral
+  rewards: { referrer: number; referee: number };
+}
+
+// Pushed over the socket as "referral:rewarded"
+export interface ReferralReward {
+  coins: number;
+  // False for the referee's own reward
+  referrer: boolean;
+}
+
+export function getReferralDashboard(): Promise<ReferralDashboard> {
+  return apiRequest<ReferralDashboard>("/api/referrals");
+}
+
+/**
+ * Throws ApiError "invalid_code", "self_referral" or "already_referred"
+ */
+export async function applyReferralCode(code: string): Promise<ReferralStatus> {
+  const { status } = await apiRequest<{ status: ReferralStatus }>("/api/referrals/apply", {
+    method: "POST",
+    body: { code },
+  });
+  return status;
+}
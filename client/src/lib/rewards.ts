@@ -0,0 +1,68 @@
+import { apiRequest } from "./apiClient";
+
+export interface StreakMilestone {
+  days: number;
+  bonus: number;
+}
+
+// Kept by the server per uid; days end at midnight in the user's time zone
+export interface RewardStatus {
+  today: string;
+  canClaimDailyBonus: boolean;
+  dailyBonus: number;
+  streak: number;
+  longestStreak: number;
+  nextMilestone: StreakMilestone | null;
+  // Each covers one missed day
+  streakFreezes: number;
+  maxStreakFreezes: number;
+  streakFreezePrice: number;
+  adsWatchedToday: number;
+  maxAdsPerDay: number;
+  adReward: number;
+}
+
+export interface DailyClaim {
+  dailyBonus: number;
+  streak: number;
+  // Non-zero when this claim reached a streak milestone
+  streakBonus: number;
+  freezesUsed: number;
+}
+
+function timeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function getRewardStatus(): Promise<RewardStatus> {
+  const zone = timeZone();
+  const { status } = await apiRequest<{ status: RewardStatus }>(
+    `/api/rewards${zone ? `?timeZone=${encodeURIComponent(zone)}` : ""}`,
+  );
+  return status;
+}
+
+/**
+ * Throws ApiError "already_claimed" when today's bonus was taken
+ */
+export function claimDailyBonus(): Promise<{ claim: DailyClaim; status: RewardStatus }> {
+  return apiRequest("/api/rewards/daily/claim", {
+    method: "POST",
+    body: { timeZone: timeZone() },
+  });
+}
+
+/**
+ * Throws ApiError "insufficient_coins" or "freeze_limit_reached"
+ */
+export async function buyStreakFreeze(): Promise<RewardStatus> {
+  const { status } = await apiRequest<{ status: RewardStatus }>("/api/rewards/streak-freezes", {
+    method: "POST",
+    body: { idempotencyKey: crypto.randomUUID() },
+  });
+  return status;
+}
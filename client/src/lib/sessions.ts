@@ -0,0 +1,42 @@
+import { apiRequest } from "./apiClient";
+import { LedgerResponse } from "./coinLedger";
+
+// Mirrors the server's session records; every match gets one
+export type SessionMode = "video" | "voice" | "text";
+
+export type SessionEndReason = "skip" | "disconnect" | "timeout" | "report" | "block";
+
+// Sent with session:started and session:ended, and by the routes below
+export interface CallSession {
+  id: string;
+  mode: SessionMode;
+  startedAt: number;
+  endedAt: number | null;
+  endReason: SessionEndReason | null;
+  durationMs: number | null;
+}
+
+export async function getSession(id: string): Promise<CallSession> {
+  const { session } = await apiRequest<{ session: CallSession }>(`/api/sessions/${id}`);
+  return session;
+}
+
+/**
+ * Rate the partner from 1 to 5; rating again replaces the earlier rating
+ */
+export async function rateSession(id: string, rating: number): Promise<CallSession> {
+  const { session } = await apiRequest<{ session: CallSession }>(`/api/sessions/${id}/rating`, {
+    method: "POST",
+    body: { rating },
+  });
+  return session;
+}
+
+/**
+ * Claim the coins for completing the chat, once per session. Throws
+ * ApiError "too_short" when it has not lasted long enough yet, "reported"
+ * when it ended with a report, or "daily_limit_reached".
+ */
+export async function claimChatReward(id: string): Promise<LedgerResponse> {
+  return apiRequest(`/api/sessions/${id}/reward`, { method: "POST" });
+}
@@ -0,0 +1,96 @@
+import { apiRequest } from "./apiClient";
+
+export interface SpinSegment {
+  id: string;
+  label: string;
+  coins: number;
+  // Relative odds: a segment comes up weight / total weight of the time
+  weight: number;
+  requiresAd: boolean;
+}
+
+export interface SpinWheelStatus {
+  segments: SpinSegment[];
+  // sha256 of the server seed the next spin will use
+  commitment: string;
+  spinsToday: number;
+  maxSpinsPerDay: number;
+}
+
+export type SpinOutcome = "no_prize" | "awaiting_ad" | "won" | "credited";
+
+export interface SpinRecord {
+  id: string;
+  segmentId: string;
+  coins: number;
+  status: SpinOutcome;
+  serverSeed: string;
+  commitment: string;
+  clientSeed: string;
+  nonce: number;
+  roll: number;
+  createdAt: number;
+  claimedAt: number | null;
+}
+
+const ROLL_HEX_DIGITS = 13;
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export async function getSpinStatus(): Promise<SpinWheelStatus> {
+  const { status } = await apiRequest<{ status: SpinWheelStatus }>("/api/spins");
+  return status;
+}
+
+/**
+ * Spin against the commitment the user was shown, mixing in a fresh seed
+ * of our own. Throws ApiError "spin_limit_reached" past the daily cap and
+ * "stale_commitment" when the commitment has moved on.
+ */
+export function spinWheel(
+  commitment: string,
+): Promise<{ spin: SpinRecord; status: SpinWheelStatus }> {
+  const clientSeed = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+  return apiRequest("/api/spins", {
+    method: "POST",
+    body: { clientSeed, commitment },
+  });
+}
+
+/**
+ * Re-derive a spin from its revealed seed: the seed must hash to the
+ * commitment shown before spinning, and HMAC-SHA256(serverSeed,
+ * "clientSeed:nonce") must land on the segment the server reported
+ */
+export async function verifySpin(
+  spin: SpinRecord,
+  segments: SpinSegment[],
+  shownCommitment: string,
+): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const seed = encoder.encode(spin.serverSeed);
+  const hash = toHex(await crypto.subtle.digest("SHA-256", seed));
+  if (hash !== shownCommitment || hash !== spin.commitment) return false;
+
+  const key = await crypto.subtle.importKey("raw", seed, { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  const digest = toHex(
+    await crypto.subtle.sign("HMAC", key, encoder.encode(`${spin.clientSeed}:${spin.nonce}`)),
+  );
+  const roll = parseInt(digest.slice(0, ROLL_HEX_DIGITS), 16) / 16 ** ROLL_HEX_DIGITS;
+
+  const total = segments.reduce((sum, segment) => sum + segment.weight, 0);
+  let target = roll * total;
+  let landed = segments[segments.length - 1];
+  for (const segment of segments) {
+    if (target < segment.weight) {
+      landed = segment;
+      break;
+    }
+    target -= segment.weight;
+  }
+  return landed.id === spin.segmentId;
+}
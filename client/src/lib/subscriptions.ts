@@ -0,0 +1,114 @@
+import { apiRequest } from "./apiClient";
+
+export type PremiumPlanId = "vip-weekly" | "pro-monthly" | "ultra-quarterly";
+
+// Features are granted by tier; the server decides which tier each plan is
+export type PremiumTier = "vip" | "pro" | "ultra";
+
+export type SubscriptionStatus = "active" | "grace" | "expired";
+
+export interface Subscription {
+  planId: PremiumPlanId;
+  tier: PremiumTier;
+  status: SubscriptionStatus;
+  autoRenew: boolean;
+  currentPeriodStart: number;
+  currentPeriodEnd: number;
+  // Set while a renewal payment is overdue; premium ends then unless it is paid
+  graceUntil: number | null;
+  // A downgrade that takes over at the end of the paid period
+  pendingPlanId: PremiumPlanId | null;
+}
+
+export type PlanChange = "new" | "renewal" | "upgrade" | "downgrade";
+
+export interface PlanQuote {
+  planId: PremiumPlanId;
+  change: PlanChange;
+  // In paise; 0 for downgrades, which are scheduled instead of bought
+  amount: number;
+  credit: number;
+  startsAt: number;
+}
+
+// Pushed over the socket as "subscription:reminder"
+export interface SubscriptionReminder {
+  kind: "period_ending" | "renewal_due" | "expired";
+  planId: PremiumPlanId;
+  autoRenew: boolean;
+  endsAt: number;
+}
+
+export async function getSubscription(): Promise<Subscription | null> {
+  const { subscription } = await apiRequest<{ subscription: Subscription | null }>(
+    "/api/subscription",
+  );
+  return subscription;
+}
+
+/**
+ * What checkout would charge for a plan now, with upgrades prorated
+ */
+export async function quotePlan(planId: string): Promise<PlanQuote> {
+  const { quote } = await apiRequest<{ quote: PlanQuote }>(
+    `/api/subscription/quote?planId=${encodeURIComponent(planId)}`,
+  );
+  return quote;
+}
+
+export async function setAutoRenew(autoRenew: boolean): Promise<Subscription> {
+  const { subscription } = await apiRequest<{ subscription: Subscription }>(
+    "/api/subscription/auto-renew",
+    { method: "POST", body: { autoRenew } },
+  );
+  return subscription;
+}
+
+/**
+ * Switch to a lower plan at renewal, or pass the current plan to cancel that
+ */
+export async function schedulePlanChange(planId: string): Promise<Subscription> {
+  const { subscription } = await apiRequest<{ subscription: Subscription }>(
+    "/api/subscription/plan",
+    { method: "POST", body: { planId } },
+  );
+  return subscription;
+}
+
+// What the trial was granted for: "referral" for accounts that signed up
+// with a code. The server decides, and how long each lasts.
+export type TrialSource = "prompt" | "referral";
+
+export type TrialStatus = "active" | "converted" | "ended";
+
+export interface Trial {
+  source: TrialSource;
+  tier: PremiumTier;
+  status: TrialStatus;
+  startedAt: number;
+  endsAt: number;
+}
+
+// Pushed over the socket as "trial:reminder" to prompt a conversion
+export interface TrialReminder {
+  kind: "trial_ending" | "trial_ended";
+  endsAt: number;
+}
+
+/**
+ * The account's trial, if it ever had one, and whether one may still start
+ */
+export async function getTrial(): Promise<{ trial: Trial | null; eligible: boolean }> {
+  return apiRequest("/api/subscription/trial");
+}
+
+/**
+ * Throws ApiError "trial_used" once the account has had its trial, or
+ * "already_premium"
+ */
+export async function startTrial(): Promise<Trial> {
+  const { trial } = await apiRequest<{ trial: Trial }>("/api/subscription/trial", {
+    method: "POST",
+  });
+  return trial;
+}
@@ -3,6 +3,8 @@
  * Integrates Unity LevelPlay with AdMob mediation
  */
 
+import type { AdVerificationOptions } from './adRewards';
+
 export interface UnityAdsConfig {
   gameId: string;
   testMode: boolean;
@@ -33,6 +35,8 @@ declare global {
       initialize: (gameId: string, testMode: boolean, enablePerPlacementLoad: boolean, initializationListener: any) => void;
       isInitialized: () => boolean;
       show: (placementId: string, showListener: any) => void;
+      // Player metadata `sid`, echoed back in server-to-server reward callbacks
+      setServerId?: (serverId: string) => void;
       load: (placementId: string, loadListener: any) => void;
       isReady: (placementId: string) => boolean;
       getPlacementState: (placementId: string) => string;
@@ -300,7 +304,7 @@ class UnityAdsService {
   /**
    * Show Unity rewarded ad (for mediation)
    */
-  async showRewardedAd(): Promise<UnityRewardedResult> {
+  async showRewardedAd(verification?: AdVerificationOptions): Promise<UnityRewardedResult> {
     if (!this.canShowAds()) {
       return {
         success: false,
@@ -353,6 +357,9 @@ class UnityAdsService {
         };
 
         if (window.UnityAds) {
+          if (verification) {
+            window.UnityAds.setServerId?.(`${verification.userId}:${verification.customData}`);
+          }
           window.UnityAds.show(placementId, showListener);
         } else {
           resolve({
@@ -0,0 +1,79 @@
+import { apiRequest } from "./apiClient";
+
+export interface IceServerConfig {
+  iceServers: RTCIceServer[];
+  // When the TURN credentials in iceServers stop working
+  expiresAt: number;
+}
+
+export type CandidateType = "host" | "srflx" | "prflx" | "relay";
+
+// Sent to the server as "call:connection" once ICE picks a candidate pair
+export interface CallConnectionReport {
+  localCandidateType: CandidateType;
+  remoteCandidateType: CandidateType;
+  protocol: string;
+  // How this side reached the TURN server, when it relayed
+  relayProtocol: string | null;
+  // From preparing the call to it connecting; null after an ICE restart
+  connectMs: number | null;
+}
+
+/**
+ * STUN and TURN servers for the next call, with short-lived TURN credentials
+ */
+export function getIceServers(): Promise<IceServerConfig> {
+  return apiRequest<IceServerConfig>("/api/webrtc/ice-servers");
+}
+
+export type ConnectionQuality = "poor" | "fair" | "good" | "excellent";
+
+// One reading of a connected call's stats
+export interface QualitySample {
+  rttMs: number | null;
+  // Share of incoming packets lost since the last sample, 0-1
+  packetLoss: number;
+  jitterMs: number | null;
+  // Of the partner's video, when it is coming in
+  framesPerSecond: number | null;
+}
+
+export interface CallQualityUpdate {
+  quality: ConnectionQuality;
+  score: number;
+  sample: QualitySample;
+  // Our video is paused to keep the audio going on a very bad link
+  audioOnly: boolean;
+}
+
+// Sent to the server as "call:quality" when a call ends
+export interface CallQualityReport {
+  samples: number;
+  score: number;
+  rttMs: number | null;
+  packetLoss: number;
+  jitterMs: number | null;
+  framesPerSecond: number | null;
+  // Whether the call ever had to drop our video
+  audioOnlyFallback: boolean;
+}
+
+/**
+ * 0-100, docking points for delay, loss, jitter and choppy video. Loss
+ * weighs most, since it is what users notice first.
+ */
+export function scoreQuality(sample: QualitySample): number {
+  const rttPenalty = Math.min(30, (sample.rttMs ?? 0) / 20);
+  const lossPenalty = Math.min(50, sample.packetLoss * 500);
+  const jitterPenalty = Math.min(20, (sample.jitterMs ?? 0) / 5);
+  const frameRatePenalty =
+    sample.framesPerSecond === null ? 0 : Math.min(15, Math.max(0, 20 - sample.framesPerSecond));
+  return Math.max(0, Math.round(100 - rttPenalty - lossPenalty - jitterPenalty - frameRatePenalty));
+}
+
+export function rateQuality(score: number): ConnectionQuality {
+  if (score >= 80) return "excellent";
+  if (score >= 60) return "good";
+  if (score >= 40) return "fair";
+  return "poor";
+}
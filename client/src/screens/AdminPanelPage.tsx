@@ -1,32 +1,26 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { 
-  ArrowLeft, 
-  Shield, 
-  Users, 
-  AlertTriangle, 
-  Ban, 
-  Eye, 
-  Check, 
+import {
+  ArrowLeft,
+  Shield,
+  Users,
+  AlertTriangle,
+  Ban,
+  Eye,
+  EyeOff,
+  Check,
   X,
   Search,
-  Filter,
   Clock,
-  TrendingUp
+  TrendingUp,
+  FileText
 } from "lucide-react";
+import { onAuthStateChanged } from "firebase/auth";
 import { Button } from "../components/ui/button";
-import { db } from "../firebaseConfig";
-import { 
-  collection, 
-  query, 
-  where, 
-  orderBy, 
-  limit, 
-  getDocs,
-  doc,
-  updateDoc,
-  serverTimestamp 
-} from "firebase/firestore";
+import { auth } from "../firebaseConfig";
+import { apiRequest } from "../lib/apiClient";
+
+type AdminRole = 'admin' | 'moderator';
 
 interface Report {
   id: string;
@@ -34,138 +28,218 @@ interface Report {
   reporterUserId: string;
   reason: string;
   description: string;
+  sessionId: string;
   status: 'pending' | 'reviewed' | 'resolved' | 'dismissed';
-  createdAt: any;
-  reviewedAt?: any;
+  createdAt: number;
+  reviewedAt?: number;
   reviewedBy?: string;
   action?: string;
 }
 
-interface UserProfile {
-  userId: string;
-  username: string;
-  reportCount: number;
-  isBlocked: boolean;
-  lastSeen: any;
-  joinDate: any;
+interface BanRecord {
+  uid: string;
+  reason: string;
+  source: 'reports' | 'admin';
+  createdAt: number;
+  until: number | null;
+}
+
+interface AuditEntry {
+  id: string;
+  actorUid: string;
+  actorRole: AdminRole;
+  action: string;
+  targetUid?: string;
+  reportId?: string;
+  details: Record<string, unknown>;
+  createdAt: number;
+}
+
+interface UserDetail {
+  uid: string;
+  reports: Report[];
+  ban: BanRecord | null;
+  shadowBan: { reason: string; createdAt: number } | null;
+  recentMatches: { sessionId: string; partnerUid: string; startedAt: number }[];
+  abuseScore: number;
+  auditLog: AuditEntry[];
 }
 
+interface Analytics {
+  onlineUsers: number;
+  waitingUsers: number;
+  activeMatches: number;
+  pendingReports: number;
+  activeBans: number;
+}
+
+const BAN_DURATIONS: { label: string; durationMs: number | null; adminOnly?: boolean }[] = [
+  { label: '1 day', durationMs: 24 * 60 * 60 * 1000 },
+  { label: '7 days', durationMs: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', durationMs: 30 * 24 * 60 * 60 * 1000 },
+  { label: 'Permanent', durationMs: null, adminOnly: true },
+];
+
+const formatDate = (value?: number) =>
+  value ? new Date(value).toLocaleString() : 'Unknown date';
+
+const formatBan = (ban: BanRecord) =>
+  ban.until === null ? 'Permanently banned' : `Banned until ${formatDate(ban.until)}`;
+
 export default function AdminPanelPage() {
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'reports' | 'users' | 'analytics'>('reports');
+  const [role, setRole] = useState<AdminRole | null>(null);
+  const [activeTab, setActiveTab] = useState<'reports' | 'users' | 'analytics' | 'audit'>('reports');
   const [reports, setReports] = useState<Report[]>([]);
-  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [selectedUser, setSelectedUser] = useState<UserDetail | null>(null);
+  const [lookupUid, setLookupUid] = useState('');
+  const [banDuration, setBanDuration] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState<'all' | 'pending' | 'reviewed'>('all');
-
-  // Check admin access (you should implement proper admin authentication)
-  const checkAdminAccess = () => {
-    // Implement proper admin authentication check here
-    const isAdmin = localStorage.getItem('admin-access') === 'true';
-    if (!isAdmin) {
-      navigate('/');
-      return false;
-    }
-    return true;
-  };
+  const [filterStatus, setFilterStatus] = useState<'all' | 'pending' | 'resolved' | 'dismissed'>('pending');
 
+  // Access is decided by the server from the signed-in account's role
   useEffect(() => {
-    if (!checkAdminAccess()) return;
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      if (!user) {
+        navigate('/');
+        return;
+      }
+
+      try {
+        const me = await apiRequest<{ role: AdminRole }>('/api/admin/me');
+        setRole(me.role);
+      } catch (error) {
+        console.error('Admin access denied:', error);
+        navigate('/');
+      }
+    });
+    return unsubscribe;
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!role) return;
     loadReports();
-    loadUsers();
-  }, []);
+    loadAnalytics();
+    if (role === 'admin') loadAuditLog();
+  }, [role, filterStatus]);
 
-  const loadReports = async () => {
-    setLoading(true);
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
     try {
-      const reportsRef = collection(db, 'reports');
-      const q = query(
-        reportsRef,
-        orderBy('createdAt', 'desc'),
-        limit(50)
-      );
-      
-      const snapshot = await getDocs(q);
-      const reportsData = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Report[];
-      
-      setReports(reportsData);
+      await action();
     } catch (error) {
-      console.error('Error loading reports:', error);
-    } finally {
-      setLoading(false);
+      console.error('Admin action failed:', error);
+      setError(error instanceof Error ? error.message : 'Action failed');
     }
   };
 
-  const loadUsers = async () => {
-    try {
-      const usersRef = collection(db, 'users');
-      const q = query(
-        usersRef,
-        where('reportCount', '>', 0),
-        orderBy('reportCount', 'desc'),
-        limit(50)
-      );
-      
-      const snapshot = await getDocs(q);
-      const usersData = snapshot.docs.map(doc => ({
-        ...doc.data()
-      })) as UserProfile[];
-      
-      setUsers(usersData);
-    } catch (error) {
-      console.error('Error loading users:', error);
-    }
+  const loadReports = async () => {
+    setLoading(true);
+    await runAction(async () => {
+      const status = filterStatus === 'all' ? '' : `?status=${filterStatus}`;
+      const data = await apiRequest<{ reports: Report[] }>(`/api/admin/reports${status}`);
+      setReports(data.reports);
+    });
+    setLoading(false);
   };
 
-  const handleReportAction = async (reportId: string, action: 'approve' | 'dismiss', userAction?: 'block' | 'warn') => {
-    try {
-      const reportRef = doc(db, 'reports', reportId);
-      await updateDoc(reportRef, {
-        status: action === 'approve' ? 'resolved' : 'dismissed',
-        reviewedAt: serverTimestamp(),
-        reviewedBy: 'admin', // Replace with actual admin ID
-        action: userAction || 'none'
-      });
+  const loadAnalytics = () =>
+    runAction(async () => {
+      setAnalytics(await apiRequest<Analytics>('/api/admin/analytics'));
+    });
 
-      // If blocking user, update user document
-      if (userAction === 'block') {
-        const report = reports.find(r => r.id === reportId);
-        if (report) {
-          const userRef = doc(db, 'users', report.reportedUserId);
-          await updateDoc(userRef, {
-            isBlocked: true,
-            blockedAt: serverTimestamp(),
-            blockedReason: report.reason
-          });
-        }
-      }
+  const loadAuditLog = () =>
+    runAction(async () => {
+      const data = await apiRequest<{ entries: AuditEntry[] }>('/api/admin/audit-log');
+      setAuditLog(data.entries);
+    });
 
-      // Reload reports
-      loadReports();
-      loadUsers();
-    } catch (error) {
-      console.error('Error updating report:', error);
-    }
+  const openUser = (uid: string) =>
+    runAction(async () => {
+      setSelectedUser(await apiRequest<UserDetail>(`/api/admin/users/${encodeURIComponent(uid)}`));
+      setActiveTab('users');
+    });
+
+  const refresh = async (uid?: string) => {
+    await Promise.all([loadReports(), loadAnalytics()]);
+    if (role === 'admin') await loadAuditLog();
+    if (uid && selectedUser?.uid === uid) await openUser(uid);
   };
 
+  const handleReportAction = (report: Report, action: 'ban' | 'warn' | 'dismiss') =>
+    runAction(async () => {
+      if (action === 'dismiss') {
+        await apiRequest(`/api/admin/reports/${report.id}/dismiss`, { method: 'POST', body: {} });
+      } else {
+        await apiRequest(`/api/admin/reports/${report.id}/resolve`, {
+          method: 'POST',
+          body: { action, durationMs: BAN_DURATIONS[banDuration].durationMs },
+        });
+      }
+      await refresh(report.reportedUserId);
+    });
+
+  const handleBan = (uid: string) =>
+    runAction(async () => {
+      const reason = window.prompt('Reason for the ban');
+      if (!reason) return;
+
+      await apiRequest(`/api/admin/users/${encodeURIComponent(uid)}/ban`, {
+        method: 'POST',
+        body: { reason, durationMs: BAN_DURATIONS[banDuration].durationMs },
+      });
+      await refresh(uid);
+    });
+
+  const handleUnban = (uid: string) =>
+    runAction(async () => {
+      await apiRequest(`/api/admin/users/${encodeURIComponent(uid)}/unban`, { method: 'POST', body: {} });
+      await refresh(uid);
+    });
+
+  const handleShadowBan = (uid: string, enabled: boolean) =>
+    runAction(async () => {
+      await apiRequest(`/api/admin/users/${encodeURIComponent(uid)}/shadow-ban`, {
+        method: 'POST',
+        body: { enabled },
+      });
+      await refresh(uid);
+    });
+
   const filteredReports = reports.filter(report => {
-    const matchesSearch = !searchTerm || 
-      report.reason.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      report.description.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesFilter = filterStatus === 'all' || report.status === filterStatus;
-    
-    return matchesSearch && matchesFilter;
+    const term = searchTerm.toLowerCase();
+    return !term ||
+      report.reason.toLowerCase().includes(term) ||
+      report.description.toLowerCase().includes(term) ||
+      report.reportedUserId.toLowerCase().includes(term);
   });
 
-  if (!checkAdminAccess()) {
+  // Most reported users among the loaded reports
+  const reportedUsers = Object.entries(
+    reports.reduce<Record<string, number>>((counts, report) => {
+      counts[report.reportedUserId] = (counts[report.reportedUserId] || 0) + 1;
+      return counts;
+    }, {})
+  ).sort((a, b) => b[1] - a[1]);
+
+  const durationOptions = BAN_DURATIONS.map((option, index) => ({ ...option, index }))
+    .filter(option => !option.adminOnly || role === 'admin');
+
+  if (!role) {
     return null;
   }
 
+  const tabs = [
+    { id: 'reports' as const, label: 'Reports', icon: AlertTriangle },
+    { id: 'users' as const, label: 'Users', icon: Users },
+    { id: 'analytics' as const, label: 'Analytics', icon: TrendingUp },
+    ...(role === 'admin' ? [{ id: 'audit' as const, label: 'Audit Log', icon: FileText }] : []),
+  ];
+
   return (
     <div className="min-h-screen bg-gray-50 pb-20">
       {/* Header */}
@@ -185,56 +259,43 @@ export default function AdminPanelPage() {
             </div>
             <div>
               <h1 className="text-lg font-bold text-gray-900">Admin Panel</h1>
-              <p className="text-sm text-gray-600">Content Moderation</p>
+              <p className="text-sm text-gray-600">Content Moderation · {role}</p>
             </div>
           </div>
         </div>
 
         {/* Tabs */}
         <div className="flex border-b border-gray-200">
-          <button
-            onClick={() => setActiveTab('reports')}
-            className={`flex-1 py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
-              activeTab === 'reports' 
-                ? 'border-red-500 text-red-600' 
-                : 'border-transparent text-gray-500'
-            }`}
-          >
-            <AlertTriangle className="h-4 w-4 inline mr-2" />
-            Reports
-          </button>
-          <button
-            onClick={() => setActiveTab('users')}
-            className={`flex-1 py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
-              activeTab === 'users' 
-                ? 'border-red-500 text-red-600' 
-                : 'border-transparent text-gray-500'
-            }`}
-          >
-            <Users className="h-4 w-4 inline mr-2" />
-            Users
-          </button>
-          <button
-            onClick={() => setActiveTab('analytics')}
-            className={`flex-1 py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
-              activeTab === 'analytics' 
-                ? 'border-red-500 text-red-600' 
-                : 'border-transparent text-gray-500'
-            }`}
-          >
-            <TrendingUp className="h-4 w-4 inline mr-2" />
-            Analytics
-          </button>
+          {tabs.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setActiveTab(id)}
+              className={`flex-1 py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === id
+                  ? 'border-red-500 text-red-600'
+                  : 'border-transparent text-gray-500'
+              }`}
+            >
+              <Icon className="h-4 w-4 inline mr-2" />
+              {label}
+            </button>
+          ))}
         </div>
       </div>
 
       <div className="max-w-6xl mx-auto px-4 py-6">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
         {/* Reports Tab */}
         {activeTab === 'reports' && (
           <div className="space-y-6">
             {/* Search and Filters */}
             <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
-              <div className="flex gap-4 mb-4">
+              <div className="flex gap-4">
                 <div className="flex-1 relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
                   <input
@@ -252,7 +313,18 @@ export default function AdminPanelPage() {
                 >
                   <option value="all">All Status</option>
                   <option value="pending">Pending</option>
-                  <option value="reviewed">Reviewed</option>
+                  <option value="resolved">Resolved</option>
+                  <option value="dismissed">Dismissed</option>
+                </select>
+                <select
+                  value={banDuration}
+                  onChange={(e) => setBanDuration(Number(e.target.value))}
+                  className="px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                  title="Ban duration"
+                >
+                  {durationOptions.map(option => (
+                    <option key={option.index} value={option.index}>Ban: {option.label}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -276,16 +348,16 @@ export default function AdminPanelPage() {
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                            report.status === 'pending' 
+                            report.status === 'pending'
                               ? 'bg-yellow-100 text-yellow-800'
                               : report.status === 'resolved'
                               ? 'bg-green-100 text-green-800'
                               : 'bg-gray-100 text-gray-800'
                           }`}>
-                            {report.status}
+                            {report.status}{report.action && report.action !== 'none' ? ` · ${report.action}` : ''}
                           </span>
                           <span className="text-sm text-gray-500">
-                            {report.createdAt?.toDate?.()?.toLocaleDateString() || 'Unknown date'}
+                            {formatDate(report.createdAt)}
                           </span>
                         </div>
                         <h3 className="font-semibold text-gray-900 mb-1">
@@ -295,7 +367,12 @@ export default function AdminPanelPage() {
                           {report.description}
                         </p>
                         <div className="text-xs text-gray-500">
-                          Reported User: {report.reportedUserId} | Reporter: {report.reporterUserId}
+                          Reported User:{' '}
+                          <button onClick={() => openUser(report.reportedUserId)} className="underline">
+                            {report.reportedUserId}
+                          </button>
+                          {' '}| Reporter: {report.reporterUserId}
+                          {report.reviewedBy && ` | Reviewed by ${report.reviewedBy}`}
                         </div>
                       </div>
                     </div>
@@ -303,21 +380,21 @@ export default function AdminPanelPage() {
                     {report.status === 'pending' && (
                       <div className="flex gap-2 pt-4 border-t border-gray-100">
                         <Button
-                          onClick={() => handleReportAction(report.id, 'approve', 'block')}
+                          onClick={() => handleReportAction(report, 'ban')}
                           className="bg-red-600 hover:bg-red-700 text-white text-sm px-3 py-1"
                         >
                           <Ban className="h-4 w-4 mr-1" />
-                          Block User
+                          Ban ({BAN_DURATIONS[banDuration].label})
                         </Button>
                         <Button
-                          onClick={() => handleReportAction(report.id, 'approve', 'warn')}
+                          onClick={() => handleReportAction(report, 'warn')}
                           className="bg-yellow-600 hover:bg-yellow-700 text-white text-sm px-3 py-1"
                         >
                           <AlertTriangle className="h-4 w-4 mr-1" />
                           Warn User
                         </Button>
                         <Button
-                          onClick={() => handleReportAction(report.id, 'dismiss')}
+                          onClick={() => handleReportAction(report, 'dismiss')}
                           variant="outline"
                           className="text-sm px-3 py-1"
                         >
@@ -336,43 +413,146 @@ export default function AdminPanelPage() {
         {/* Users Tab */}
         {activeTab === 'users' && (
           <div className="space-y-6">
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+              <form
+                className="flex gap-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (lookupUid.trim()) openUser(lookupUid.trim());
+                }}
+              >
+                <div className="flex-1 relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    type="text"
+                    placeholder="Look up user by uid..."
+                    value={lookupUid}
+                    onChange={(e) => setLookupUid(e.target.value)}
+                    className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                  />
+                </div>
+                <Button type="submit" variant="outline" className="text-sm px-3 py-1">
+                  <Eye className="h-4 w-4 mr-1" />
+                  View
+                </Button>
+              </form>
+            </div>
+
+            {selectedUser && (
+              <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 space-y-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-lg font-bold text-gray-900 break-all">{selectedUser.uid}</h2>
+                    <p className="text-sm text-gray-600">
+                      {selectedUser.ban ? formatBan(selectedUser.ban) : 'Not banned'}
+                      {selectedUser.shadowBan && ' · Shadow banned'}
+                      {selectedUser.abuseScore > 0 && ` · Abuse score ${selectedUser.abuseScore}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {selectedUser.ban ? (
+                      <Button
+                        onClick={() => handleUnban(selectedUser.uid)}
+                        variant="outline"
+                        className="text-sm px-3 py-1"
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Unban
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={() => handleBan(selectedUser.uid)}
+                        className="bg-red-600 hover:bg-red-700 text-white text-sm px-3 py-1"
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Ban ({BAN_DURATIONS[banDuration].label})
+                      </Button>
+                    )}
+                    {role === 'admin' && (
+                      <Button
+                        onClick={() => handleShadowBan(selectedUser.uid, !selectedUser.shadowBan)}
+                        variant="outline"
+                        className="text-sm px-3 py-1"
+                      >
+                        {selectedUser.shadowBan ? <Eye className="h-4 w-4 mr-1" /> : <EyeOff className="h-4 w-4 mr-1" />}
+                        {selectedUser.shadowBan ? 'Lift Shadow Ban' : 'Shadow Ban'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-2">Reports ({selectedUser.reports.length})</h3>
+                  <div className="space-y-2">
+                    {selectedUser.reports.map(report => (
+                      <div key={report.id} className="p-3 border border-gray-200 rounded-lg text-sm">
+                        <div className="font-medium text-gray-900">{report.reason} · {report.status}</div>
+                        <div className="text-gray-500">{formatDate(report.createdAt)} · by {report.reporterUserId}</div>
+                      </div>
+                    ))}
+                    {selectedUser.reports.length === 0 && (
+                      <p className="text-sm text-gray-500">No reports</p>
+                    )}
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-2">Recent Sessions</h3>
+                  <div className="space-y-2">
+                    {selectedUser.recentMatches.map(match => (
+                      <div key={match.sessionId} className="p-3 border border-gray-200 rounded-lg text-sm flex justify-between">
+                        <button onClick={() => openUser(match.partnerUid)} className="underline text-gray-900">
+                          {match.partnerUid}
+                        </button>
+                        <span className="text-gray-500">{formatDate(match.startedAt)}</span>
+                      </div>
+                    ))}
+                    {selectedUser.recentMatches.length === 0 && (
+                      <p className="text-sm text-gray-500">No sessions since the server started</p>
+                    )}
+                  </div>
+                </div>
+
+                {selectedUser.auditLog.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">Moderation History</h3>
+                    <div className="space-y-2">
+                      {selectedUser.auditLog.map(entry => (
+                        <div key={entry.id} className="p-3 border border-gray-200 rounded-lg text-sm">
+                          <div className="font-medium text-gray-900">{entry.action}</div>
+                          <div className="text-gray-500">
+                            {formatDate(entry.createdAt)} · {entry.actorRole} {entry.actorUid}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
               <h2 className="text-lg font-bold text-gray-900 mb-4">Reported Users</h2>
-              
+
               <div className="space-y-4">
-                {users.map((user) => (
-                  <div key={user.userId} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                {reportedUsers.map(([uid, count]) => (
+                  <div key={uid} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
                     <div className="flex-1">
-                      <div className="flex items-center gap-3">
-                        <div className={`w-3 h-3 rounded-full ${user.isBlocked ? 'bg-red-500' : 'bg-green-500'}`}></div>
-                        <div>
-                          <h3 className="font-semibold text-gray-900">{user.username}</h3>
-                          <p className="text-sm text-gray-600">
-                            {user.reportCount} reports | 
-                            Joined: {user.joinDate?.toDate?.()?.toLocaleDateString() || 'Unknown'}
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-                    
-                    <div className="flex gap-2">
-                      {user.isBlocked ? (
-                        <span className="px-3 py-1 bg-red-100 text-red-800 rounded-lg text-sm font-medium">
-                          Blocked
-                        </span>
-                      ) : (
-                        <Button
-                          onClick={() => {/* Implement block user */}}
-                          className="bg-red-600 hover:bg-red-700 text-white text-sm px-3 py-1"
-                        >
-                          Block
-                        </Button>
-                      )}
+                      <h3 className="font-semibold text-gray-900 break-all">{uid}</h3>
+                      <p className="text-sm text-gray-600">{count} reports</p>
                     </div>
+                    <Button
+                      onClick={() => openUser(uid)}
+                      variant="outline"
+                      className="text-sm px-3 py-1"
+                    >
+                      <Eye className="h-4 w-4 mr-1" />
+                      Details
+                    </Button>
                   </div>
                 ))}
-                
-                {users.length === 0 && (
+
+                {reportedUsers.length === 0 && (
                   <div className="text-center py-8">
                     <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                     <p className="text-gray-600">No reported users found</p>
@@ -384,7 +564,7 @@ export default function AdminPanelPage() {
         )}
 
         {/* Analytics Tab */}
-        {activeTab === 'analytics' && (
+        {activeTab === 'analytics' && analytics && (
           <div className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
@@ -395,7 +575,7 @@ export default function AdminPanelPage() {
                   <div>
                     <h3 className="font-semibold text-gray-900">Pending Reports</h3>
                     <p className="text-2xl font-bold text-yellow-600">
-                      {reports.filter(r => r.status === 'pending').length}
+                      {analytics.pendingReports}
                     </p>
                   </div>
                 </div>
@@ -407,9 +587,9 @@ export default function AdminPanelPage() {
                     <Ban className="h-5 w-5 text-red-600" />
                   </div>
                   <div>
-                    <h3 className="font-semibold text-gray-900">Blocked Users</h3>
+                    <h3 className="font-semibold text-gray-900">Active Bans</h3>
                     <p className="text-2xl font-bold text-red-600">
-                      {users.filter(u => u.isBlocked).length}
+                      {analytics.activeBans}
                     </p>
                   </div>
                 </div>
@@ -418,12 +598,15 @@ export default function AdminPanelPage() {
               <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
                 <div className="flex items-center gap-3 mb-2">
                   <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
-                    <Check className="h-5 w-5 text-green-600" />
+                    <Users className="h-5 w-5 text-green-600" />
                   </div>
                   <div>
-                    <h3 className="font-semibold text-gray-900">Resolved Reports</h3>
+                    <h3 className="font-semibold text-gray-900">Online Now</h3>
                     <p className="text-2xl font-bold text-green-600">
-                      {reports.filter(r => r.status === 'resolved').length}
+                      {analytics.onlineUsers}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {analytics.waitingUsers} waiting · {analytics.activeMatches} in chats
                     </p>
                   </div>
                 </div>
@@ -431,6 +614,36 @@ export default function AdminPanelPage() {
             </div>
           </div>
         )}
+
+        {/* Audit Log Tab */}
+        {activeTab === 'audit' && (
+          <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+            <h2 className="text-lg font-bold text-gray-900 mb-4">Audit Log</h2>
+            <div className="space-y-2">
+              {auditLog.map(entry => (
+                <div key={entry.id} className="p-3 border border-gray-200 rounded-lg text-sm">
+                  <div className="font-medium text-gray-900">
+                    {entry.action}
+                    {entry.targetUid && (
+                      <>
+                        {' → '}
+                        <button onClick={() => openUser(entry.targetUid!)} className="underline">
+                          {entry.targetUid}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  <div className="text-gray-500">
+                    {formatDate(entry.createdAt)} · {entry.actorRole} {entry.actorUid}
+                  </div>
+                </div>
+              ))}
+              {auditLog.length === 0 && (
+                <p className="text-sm text-gray-500">No actions recorded yet</p>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
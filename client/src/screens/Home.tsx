@@ -78,7 +78,7 @@ export default function Home() {
   const {
     coins,
     claimDailyBonus,
-    canClaimDailyBonus,
+    rewardStatus,
     isLoading: coinsLoading,
     currentUser,
     hasCompletedOnboarding,
@@ -89,6 +89,7 @@ export default function Home() {
   // const [showPaywall, setShowPaywall] = useState(false); // Now using separate page
   const [showTreasureChest, setShowTreasureChest] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [genderFilter, setGenderFilter] = useState("any");
   const [onlineUsers, setOnlineUsers] = useState(12847);
   const { showBonusNotification, NotificationComponent } =
     useInAppNotification();
@@ -96,7 +97,7 @@ export default function Home() {
 
   // Handle daily bonus notification
   useDailyBonusNotification({
-    canClaimDailyBonus,
+    rewardStatus,
     currentUser,
     hasCompletedOnboarding,
     showBonusNotification,
@@ -148,12 +149,13 @@ export default function Home() {
       navigate("/video-chat", {
         state: {
           isSearching: true,
+          genderFilter,
         },
       });
 
       setIsConnecting(false);
     },
-    [navigate, isConnecting, matchFound],
+    [navigate, isConnecting, matchFound, genderFilter],
   );
 
   const handleVoiceChat = useCallback(() => {
@@ -329,9 +331,9 @@ export default function Home() {
               isUltraPremium() ? 'text-rose-900' : 'text-gray-900'
             }`}>Chat Preferences</h3>
             <GenderFilter
-              isPremium={isPremium}
               onGenderSelect={(gender: string) => {
                 console.log("Selected gender:", gender);
+                setGenderFilter(gender);
               }}
               onUpgrade={handleUpgrade}
             />
@@ -509,7 +511,7 @@ export default function Home() {
               onQuickMatch={() => {
                 setIsConnecting(true);
                 navigate("/video-chat", {
-                  state: { genderFilter: "all", voiceOnly: false, isSearching: true }
+                  state: { genderFilter: "any", voiceOnly: false, isSearching: true }
                 });
               }}
               onPremiumSearch={() => {
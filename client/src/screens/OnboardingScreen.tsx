@@ -156,7 +156,6 @@ export default function OnboardingScreen() {
           additionalImages: uploadResults.additionalImages,
           language,
           onboardingComplete: true,
-          coins: 100, // Initialize with coins
           createdAt: new Date(),
           updatedAt: new Date()
         }, { merge: true });
@@ -199,7 +198,6 @@ export default function OnboardingScreen() {
         additionalImages: [],
         language,
         onboardingComplete: true,
-        coins: 100, // Initialize with coins
         createdAt: new Date(),
         updatedAt: new Date()
       }, { merge: true });
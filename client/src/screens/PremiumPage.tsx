@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "../components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
@@ -6,9 +6,11 @@ import { Crown, Check, X, ArrowLeft, Heart, Star, Sparkles, Zap, Shield, Users,
 import { Camera } from "lucide-react";
 import { Helmet } from "react-helmet-async";
 import { usePremium } from "../context/PremiumProvider";
+import { CheckoutCancelledError, purchase } from "../lib/payments";
+import { PlanQuote, quotePlan, schedulePlanChange, setAutoRenew } from "../lib/subscriptions";
 
-// Razorpay integration for premium purchase
-const RAZORPAY_KEY_ID = "rzp_test_1234567890"; // Use test key for development
+const formatRupees = (paise: number) =>
+  `₹${(paise / 100).toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
 
 interface PremiumPageProps {
   onPurchase?: (plan: string) => void;
@@ -16,80 +18,84 @@ interface PremiumPageProps {
 
 export default function PremiumPage({ onPurchase }: PremiumPageProps) {
   const navigate = useNavigate();
-  const { setPremium } = usePremium();
-  const [selectedPlan, setSelectedPlan] = useState<string>("vip-weekly");
+  const { syncPremiumStatus, subscription, trial, isTrial } = usePremium();
+  const [selectedPlan, setSelectedPlan] = useState<string>(subscription?.planId || "vip-weekly");
 
-  // Razorpay handler
-  const handleRazorpay = async (): Promise<void> => {
-    const plan = plans.find(p => p.id === selectedPlan);
-    if (!plan) return;
-    
-    // Check if Razorpay is loaded
-    if (typeof window.Razorpay === 'undefined') {
-      console.error('Razorpay SDK not loaded');
-      // Fallback to direct purchase
-      handlePurchaseSuccess(selectedPlan);
+  const [isPurchasing, setIsPurchasing] = useState(false);
+  // Upgrades are prorated and downgrades wait for renewal, so ask the server
+  const [quote, setQuote] = useState<PlanQuote | null>(null);
+
+  const isSubscribed = !!subscription && subscription.status !== "expired";
+
+  useEffect(() => {
+    if (!isSubscribed) {
+      setQuote(null);
       return;
     }
-    
-    const amount = plan.id === "vip-weekly" ? 9900 : 
-                   plan.id === "pro-monthly" ? 29900 : 
-                   plan.id === "ultra-quarterly" ? 89900 : 9900; // in paise
-    const options = {
-      key: RAZORPAY_KEY_ID,
-      amount,
-      currency: "INR",
-      name: "AjnabiCam Premium",
-      description: plan.name,
-      image: "/logo.png",
-      handler: function (response: any) {
-        // On successful payment
-        console.log('Payment successful:', response);
-        handlePurchaseSuccess(selectedPlan);
-      },
-      modal: {
-        ondismiss: function() {
-          console.log('Payment modal closed');
-        }
-      },
-      prefill: {},
-      theme: { color: "#ff6b6b" },
+
+    let cancelled = false;
+    quotePlan(selectedPlan)
+      .then((result) => {
+        if (!cancelled) setQuote(result);
+      })
+      .catch((error) => {
+        console.error("Failed to quote plan:", error);
+        if (!cancelled) setQuote(null);
+      });
+    return () => {
+      cancelled = true;
     };
-    
+  }, [selectedPlan, isSubscribed, subscription?.planId]);
+
+  const handleAutoRenewToggle = async () => {
+    if (!subscription) return;
     try {
-      // @ts-ignore
-      const rzp = new window.Razorpay(options);
-      rzp.open();
+      await setAutoRenew(!subscription.autoRenew);
+      await syncPremiumStatus();
     } catch (error) {
-      console.error('Error opening Razorpay:', error);
-      // Fallback to direct purchase
-      handlePurchaseSuccess(selectedPlan);
+      console.error("Failed to update auto-renew:", error);
+      alert("❌ Couldn't update auto-renew. Please try again.");
     }
   };
 
-  const handlePurchaseSuccess = (plan: string) => {
-    const now = new Date();
-    let expiry: Date;
-    
-    if (plan === "vip-weekly") {
-      expiry = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    } else if (plan === "pro-monthly") {
-      expiry = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-    } else {
-      expiry = new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000);
-    }
-    
-    // Store the premium plan type for feature access
-    localStorage.setItem('ajnabicam_premium_plan', plan);
-    
-    setPremium(true, expiry, plan);
-    
-    if (onPurchase) {
-      onPurchase(plan);
+  // Razorpay handler - premium is granted by the server once it verifies the payment
+  const handleRazorpay = async (): Promise<void> => {
+    const plan = plans.find(p => p.id === selectedPlan);
+    if (!plan || isPurchasing) return;
+
+    setIsPurchasing(true);
+    try {
+      if (quote?.change === "downgrade") {
+        await schedulePlanChange(plan.id);
+        await syncPremiumStatus();
+        alert(`✅ You'll switch to ${plan.name} on ${new Date(quote.startsAt).toLocaleDateString()}, when your current plan ends.`);
+        return;
+      }
+
+      const receipt = await purchase("premium", plan.id, plan.name);
+      if (receipt.status === "held") {
+        alert("⏳ Your plan changed while you were paying, so this payment is being reviewed. We'll refund it or activate your plan shortly.");
+        return;
+      }
+      await syncPremiumStatus();
+
+      if (onPurchase) {
+        onPurchase(plan.id);
+      }
+
+      const expiry = receipt.premiumExpiry ? new Date(receipt.premiumExpiry) : null;
+      alert(`🎉 Welcome to Premium! Your ${plan.name} subscription is now active${expiry ? ` until ${expiry.toLocaleDateString()}` : ""}!`);
+      navigate("/");
+    } catch (error) {
+      if (error instanceof CheckoutCancelledError) {
+        console.log('Payment modal closed');
+        return;
+      }
+      console.error('Premium purchase failed:', error);
+      alert("❌ We couldn't confirm your payment. If you were charged, premium will activate shortly - otherwise please try again.");
+    } finally {
+      setIsPurchasing(false);
     }
-    
-    alert(`🎉 Welcome to Premium! Your ${plan} subscription is now active until ${expiry.toLocaleDateString()}!`);
-    navigate("/");
   };
 
   const plans = [
@@ -290,6 +296,50 @@ export default function PremiumPage({ onPurchase }: PremiumPageProps) {
                 </CardHeader>
 
                 <CardContent className="space-y-4">
+                  {/* Running free trial: any plan bought now takes over from it */}
+                  {isTrial && trial && (
+                    <div className="p-4 rounded-xl border-2 border-purple-300 bg-purple-50">
+                      <div className="font-semibold text-purple-800">🎁 You're on a free trial</div>
+                      <div className="text-sm text-purple-600">
+                        Premium ends on {new Date(trial.endsAt).toLocaleDateString()} - pick a plan to keep it
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Current Subscription */}
+                  {isSubscribed && subscription && (
+                    <div className={`p-4 rounded-xl border-2 ${subscription.status === "grace" ? "border-red-300 bg-red-50" : "border-green-300 bg-green-50"}`}>
+                      <div className="flex justify-between items-center gap-3">
+                        <div>
+                          <h4 className="font-bold text-gray-800">
+                            Current plan: {plans.find(p => p.id === subscription.planId)?.name || subscription.planId}
+                          </h4>
+                          {subscription.status === "grace" && subscription.graceUntil ? (
+                            <p className="text-sm text-red-600">
+                              ⚠️ Renewal payment due - premium ends {new Date(subscription.graceUntil).toLocaleDateString()}
+                            </p>
+                          ) : (
+                            <p className="text-sm text-gray-600">
+                              {subscription.autoRenew ? "Renew by" : "Ends on"} {new Date(subscription.currentPeriodEnd).toLocaleDateString()}
+                            </p>
+                          )}
+                          {subscription.pendingPlanId && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Switching to {plans.find(p => p.id === subscription.pendingPlanId)?.name} at renewal
+                            </p>
+                          )}
+                        </div>
+                        <Button
+                          onClick={handleAutoRenewToggle}
+                          title="Renewals are paid through checkout. With this on, Premium stays on for a few days if a renewal payment fails."
+                          className="bg-white text-gray-700 border border-gray-300 hover:bg-gray-100 text-xs px-3 py-1 rounded-full"
+                        >
+                          Auto-renew: {subscription.autoRenew ? "On" : "Off"}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Pricing Plans */}
                   <div className="space-y-3">
                     {plans.map((plan) => (
@@ -339,12 +389,22 @@ export default function PremiumPage({ onPurchase }: PremiumPageProps) {
                   {/* Purchase Button */}
                   <Button
                     onClick={handleRazorpay}
+                    disabled={isPurchasing || (quote?.change === "downgrade" && subscription?.pendingPlanId === selectedPlan)}
                     className="w-full bg-gradient-to-r from-peach-500 via-coral-500 to-blush-500 hover:from-peach-600 hover:via-coral-600 hover:to-blush-600 text-white font-bold py-4 rounded-xl shadow-lg transform hover:scale-105 transition-all duration-300 text-lg"
                   >
                     <Crown className="h-5 w-5 mr-2" />
-                    🚀 Get Premium Now - {plans.find(p => p.id === selectedPlan)?.price}
+                    {quote?.change === "upgrade" && `⬆️ Upgrade Now - ${formatRupees(quote.amount)}`}
+                    {quote?.change === "renewal" && `🔄 Renew Now - ${formatRupees(quote.amount)}`}
+                    {quote?.change === "downgrade" && (subscription?.pendingPlanId === selectedPlan ? "✅ Switching at Renewal" : "Switch at Renewal")}
+                    {(!quote || quote.change === "new") && `🚀 Get Premium Now - ${plans.find(p => p.id === selectedPlan)?.price}`}
                   </Button>
 
+                  {quote?.change === "upgrade" && quote.credit > 0 && (
+                    <p className="text-xs text-center text-green-600">
+                      Includes {formatRupees(quote.credit)} credit for the unused time on your current plan
+                    </p>
+                  )}
+
                   <div className="text-center space-y-2">
                     <p className="text-xs text-gray-500">
                       💳 Pay with <span className="font-semibold text-peach-700">UPI, Cards, Wallets</span> or Netbanking
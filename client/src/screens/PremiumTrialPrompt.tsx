@@ -1,26 +1,49 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Helmet } from 'react-helmet-async';
 import BottomNavBar from '../components/BottomNavBar';
 import { Crown, Star, Shield, Zap, Heart, Check } from 'lucide-react';
+import { usePremium } from '../context/PremiumProvider';
+import { ApiError } from '../lib/apiClient';
+
+const TRIAL_ERRORS: Record<string, string> = {
+  trial_used: "You've already had your free trial on this account.",
+  already_premium: "You already have Premium!",
+};
 
 const PremiumTrialPrompt: React.FC = () => {
   const navigate = useNavigate();
+  const { startTrial, trialEligible, loading } = usePremium();
+  const [starting, setStarting] = useState(false);
 
   const handleBackClick = () => {
     navigate(-1);
   };
 
-  const handleUpgradeClick = () => {
-    console.log('Navigating to upgrade page...');
-    // Simulate premium activation
-    const now = Date.now();
-    const expiry = now + 7 * 24 * 60 * 60 * 1000; // 7 days
-    localStorage.setItem("ajnabicam_premium_trial", "true");
-    localStorage.setItem("ajnabicam_premium_trial_expiry", expiry.toString());
-    alert("🎉 Premium Trial Activated! Welcome to the premium experience!");
-    navigate('/');
+  const handleUpgradeClick = async () => {
+    if (!trialEligible) {
+      navigate('/premium');
+      return;
+    }
+
+    setStarting(true);
+    try {
+      const trial = await startTrial();
+      const days = Math.round((trial.endsAt - trial.startedAt) / (24 * 60 * 60 * 1000));
+      alert(`🎉 Premium Trial Activated! Enjoy ${days} days of the premium experience!`);
+      navigate('/');
+    } catch (error) {
+      if (error instanceof ApiError && TRIAL_ERRORS[error.code]) {
+        alert(TRIAL_ERRORS[error.code]);
+        navigate('/premium');
+      } else {
+        console.error('Error starting trial:', error);
+        alert('❌ Could not start your trial. Please try again.');
+      }
+    } finally {
+      setStarting(false);
+    }
   };
 
   const premiumFeatures = [
@@ -57,7 +80,7 @@ const PremiumTrialPrompt: React.FC = () => {
               <h2 className="text-3xl font-bold mb-2">Go Premium!</h2>
               <p className="text-purple-100 text-lg mb-4">Unlock the full AjnabiCam experience</p>
               <div className="bg-white/20 backdrop-blur-sm rounded-full px-6 py-2 inline-block">
-                <span className="text-yellow-300 font-bold text-xl">₹19</span>
+                <span className="text-yellow-300 font-bold text-xl">FREE</span>
                 <span className="text-purple-100 ml-2">for 7 days</span>
               </div>
             </div>
@@ -83,14 +106,15 @@ const PremiumTrialPrompt: React.FC = () => {
           <div className="p-6 bg-gradient-to-r from-purple-50 to-pink-50">
             <button
               onClick={handleUpgradeClick}
+              disabled={loading || starting}
               className="w-full bg-gradient-to-r from-purple-600 via-pink-600 to-orange-500 text-white text-xl font-bold py-4 rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-300"
             >
               <Star className="inline h-6 w-6 mr-2" />
-              Start Premium Trial
+              {trialEligible ? 'Start Premium Trial' : 'See Premium Plans'}
             </button>
             
             <div className="mt-4 text-center">
-              <p className="text-sm text-purple-600 font-medium">✨ No commitment • Cancel anytime</p>
+              <p className="text-sm text-purple-600 font-medium">✨ No commitment • One free trial per account</p>
               <p className="text-xs text-purple-500 mt-2">
                 Premium trial includes all features. Terms and conditions apply.
               </p>
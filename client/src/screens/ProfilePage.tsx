@@ -40,6 +40,7 @@ import { usePremium } from "../context/PremiumProvider";
 import { useCoin } from "../context/CoinProvider";
 import BottomNavBar from "../components/BottomNavBar";
 import WhoLikedMeModal from "../components/WhoLikedMeModal";
+import CoinHistoryModal from "../components/CoinHistoryModal";
 
 export default function ProfilePage() {
   const navigate = useNavigate();
@@ -60,6 +61,7 @@ export default function ProfilePage() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const user = auth.currentUser;
   const [showLikesModal, setShowLikesModal] = useState(false);
+  const [showCoinHistory, setShowCoinHistory] = useState(false);
   const [likesData, setLikesData] = useState([
     {
       id: '1',
@@ -443,13 +445,16 @@ export default function ProfilePage() {
 
         {/* Secondary Stats Row */}
         <div className="grid grid-cols-2 gap-3 mb-6">
-          <Card className="bg-white/80 backdrop-blur-sm shadow-sm border-0">
+          <Card
+            className="bg-white/80 backdrop-blur-sm shadow-sm border-0 cursor-pointer hover:shadow-md transition-shadow"
+            onClick={() => setShowCoinHistory(true)}
+          >
             <CardContent className="p-4 text-center">
               <div className="w-10 h-10 bg-yellow-100 flex items-center justify-center mx-auto mb-2">
                 <Star className="w-5 h-5 text-yellow-600" />
               </div>
               <div className="text-lg font-bold text-yellow-700">{coins}</div>
-              <div className="text-xs text-yellow-600">Coins</div>
+              <div className="text-xs text-yellow-600">Coins · History</div>
             </CardContent>
           </Card>
 
@@ -550,6 +555,11 @@ export default function ProfilePage() {
         likes={likesData}
         onRevealLike={handleRevealLike}
       />
+
+      <CoinHistoryModal
+        isOpen={showCoinHistory}
+        onClose={() => setShowCoinHistory(false)}
+      />
       </div>
     </UltraPageTransition>
   );
@@ -1,20 +1,33 @@
 import { Button } from "../components/ui/button";
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
+import { usePremium } from "../context/PremiumProvider";
+import { ApiError } from "../lib/apiClient";
 
 export default function ReferToUnlock() {
   const [referred, setReferred] = useState(false);
+  // The server decides how long the trial runs
+  const [trialHours, setTrialHours] = useState(24);
   const navigate = useNavigate();
+  const { startTrial, trialEligible } = usePremium();
 
-  const handleShare = () => {
+  const handleShare = async () => {
     // Simulate sharing (replace with real share logic if needed)
-    setReferred(true);
-    // Grant 24h premium
-    const now = Date.now();
-    const expiry = now + 24 * 60 * 60 * 1000;
-    localStorage.setItem("ajnabicam_premium_trial", "true");
-    localStorage.setItem("ajnabicam_premium_trial_expiry", expiry.toString());
-    setTimeout(() => navigate("/"), 2000);
+    try {
+      // Counts as the account's one trial
+      const trial = await startTrial();
+      setTrialHours(Math.round((trial.endsAt - trial.startedAt) / (60 * 60 * 1000)));
+      setReferred(true);
+      setTimeout(() => navigate("/"), 2000);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        alert("You've already used your free premium trial. Check out our plans instead!");
+        navigate("/premium");
+      } else {
+        console.error("Error starting referral trial:", error);
+        alert("❌ Could not unlock premium. Please try again.");
+      }
+    }
   };
 
   return (
@@ -25,11 +38,11 @@ export default function ReferToUnlock() {
           Refer AjnabiCam to <span className="text-green-600 font-bold">1 friend</span> and get <span className="text-yellow-500 font-bold">24 hours</span> of premium features for free!
         </p>
         {!referred ? (
-          <Button className="w-full py-3 rounded-xl bg-green-500 text-white font-bold text-base mb-2" onClick={handleShare}>
-            Refer to a Friend
+          <Button className="w-full py-3 rounded-xl bg-green-500 text-white font-bold text-base mb-2" onClick={trialEligible ? handleShare : () => navigate("/premium")}>
+            {trialEligible ? "Refer to a Friend" : "See Premium Plans"}
           </Button>
         ) : (
-          <div className="w-full text-center text-green-600 font-semibold mb-2">Referral successful! Enjoy your 24h premium 🎉</div>
+          <div className="w-full text-center text-green-600 font-semibold mb-2">Referral successful! Enjoy your {trialHours}h premium 🎉</div>
         )}
         <Button className="w-full py-3 rounded-xl border border-rose-300 text-rose-600 bg-white font-semibold text-base" variant="outline" onClick={() => navigate("/")}>
           Back to Home
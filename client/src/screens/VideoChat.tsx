@@ -1,10 +1,12 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { playSound } from "../lib/audio";
 import { useSocket } from "../context/SocketProvider";
 import { usePremium } from "../context/PremiumProvider";
 import { useCoin } from "../context/CoinProvider";
 import { useFriends } from "../context/FriendsProvider";
-import peerservice from "../service/peer";
+import { PeerSession, SignalMessage } from "../service/peerSession";
+import { getUserProfile } from "../lib/firestoreUtils";
+import type { QueueStatus, QueueTimeout } from "../lib/mockMatchingService";
 import ReactPlayer from "react-player";
 import { Button } from "../components/ui/button";
 import Messages from "../components/Messages";
@@ -15,6 +17,9 @@ import ReportUserModal from "../components/ReportUserModal";
 import BlockUserModal from "../components/BlockUserModal";
 import StayConnectedModal from "../components/StayConnectedModal";
 import FriendNotification from "../components/FriendNotification";
+import CallQualityIndicator from "../components/CallQualityIndicator";
+import { CallQualityUpdate } from "../lib/webrtc";
+import { CallSession } from "../lib/sessions";
 import {
   ScreenShare,
   ArrowLeft,
@@ -33,6 +38,7 @@ import { useNavigate, useLocation } from "react-router-dom";
 import MockWebRTC from "../lib/mockWebRTC";
 import { useInterstitialAd } from "../hooks/useInterstitialAd";
 import { useFaceFilters } from "../hooks/useFaceFilters";
+import { useEntitlement } from "../hooks/useEntitlement";
 import FaceFilterPanel from "../components/FaceFilterPanel";
 import PremiumBadge from "../components/PremiumBadge";
 import PremiumReactions from "../components/PremiumReactions";
@@ -51,28 +57,25 @@ interface Answer {
   from: string;
 }
 
-interface NegotiationDone {
-  answer: RTCSessionDescriptionInit;
-  to: string;
+interface IceCandidate {
+  candidate: RTCIceCandidateInit;
+  from: string;
 }
 
 export default function VideoChat() {
-  const { socket, mockMatching, isUsingMockMode } = useSocket();
+  const { socket, mockMatching, isUsingMockMode, banInfo } = useSocket();
   const { isPremium, setPremium, isUltraPremium, isProMonthly } = usePremium();
-  const { coins, isLoading: coinsLoading } = useCoin();
+  const { coins, isLoading: coinsLoading, currentUser } = useCoin();
   const { addFriend, canAddMoreFriends, friends } = useFriends();
-  
-  // Check if user has ULTRA+ premium (3 months plan)
-  useEffect(() => {
-    setIsUltraPremium(isUltraPremium());
-  }, [isPremium, isUltraPremium]);
+  const { granted: canUsePremiumFilters } = useEntitlement("premium_face_filters");
+  const { granted: canUseVoiceOnly } = useEntitlement("voice_only");
   const location = useLocation();
   const [remoteChatToken, setRemoteChatToken] = useState<string | null>(null);
   const [isSearchingForMatch, setIsSearchingForMatch] = useState(false);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
   const [myStream, setMyStream] = useState<MediaStream | null>(null);
   const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
   const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
-  const [flag, setFlag] = useState(false);
   const [messagesArray, setMessagesArray] = useState<
     Array<{
       sender: string;
@@ -89,12 +92,38 @@ export default function VideoChat() {
   const [showTreasureChest, setShowTreasureChest] = useState(false);
   const [isVoiceOnly, setIsVoiceOnly] = useState(false);
   const [partnerPremium, setPartnerPremium] = useState(false);
+  // Set by the server's "call:limit"; null for unlimited calls
+  const [callRemainingMs, setCallRemainingMs] = useState<number | null | undefined>(undefined);
+  const [callQuality, setCallQuality] = useState<CallQualityUpdate | null>(null);
+  // Whose connection dropped mid-call while the server holds it open
+  const [reconnecting, setReconnecting] = useState<"self" | "partner" | null>(null);
   const [showFaceFilters, setShowFaceFilters] = useState(false);
   const [remoteVideoRef, setRemoteVideoRef] = useState<HTMLVideoElement | null>(null);
-  const [isUltraPremiumState, setIsUltraPremium] = useState(false);
   const [showPremiumReactions, setShowPremiumReactions] = useState(false);
   const [partnerLastSeen, setPartnerLastSeen] = useState<Date | null>(null);
 
+  // Profile fields and filters the server uses to pick a partner
+  const matchPreferencesRef = useRef<{
+    gender?: string;
+    language?: string;
+    interests?: string[];
+    genderFilter: string;
+    voiceOnly?: boolean;
+  }>({ genderFilter: "any" });
+
+  // The current call's connection, and the partner it is with. Signaling
+  // that arrives while the session is still starting waits in the queue.
+  const sessionRef = useRef<PeerSession | null>(null);
+  const sessionPartnerRef = useRef<string | null>(null);
+  const pendingSignalsRef = useRef<SignalMessage[]>([]);
+  // Presented after our socket reconnects to pick the call back up
+  const resumeTokenRef = useRef<string | null>(null);
+
+  // Kept for the whole visit so the mock queue can avoid instant rematches
+  const mockUserIdRef = useRef(
+    "user_" + Math.random().toString(36).substr(2, 9),
+  );
+
   // Face filters hook
   const {
     currentFilter,
@@ -121,7 +150,6 @@ export default function VideoChat() {
   const [showReport, setShowReport] = useState(false);
   const [showReportEnd, setShowReportEnd] = useState(false);
   const [reportSubmitted, setReportSubmitted] = useState(false);
-  const [suspended, setSuspended] = useState(false);
 
   // Blocking state
   const [showBlock, setShowBlock] = useState(false);
@@ -158,19 +186,33 @@ export default function VideoChat() {
         alert("🎬 Enjoy your call! Another ad will show after the call ends.");
       }, 1000);
     } else if (state?.isSearching) {
-      // User came from home screen to find random match
+      // User came from home screen to find random match; the matching
+      // effect below emits find:match once the socket is ready
+      matchPreferencesRef.current.genderFilter = state.genderFilter || "any";
       setIsSearchingForMatch(true);
-      // Start finding match if socket is connected
-      if (socket) {
-        socket.emit("find:match");
-      }
     }
 
-    if (state?.voiceOnly && isPremium) {
+    if (state?.voiceOnly && canUseVoiceOnly) {
+      matchPreferencesRef.current.voiceOnly = true;
       setIsVoiceOnly(true);
       setIsCameraOn(false);
     }
-  }, [location.state, isPremium, socket]);
+  }, [location.state, canUseVoiceOnly]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    getUserProfile(currentUser).then((profile) => {
+      if (profile) {
+        matchPreferencesRef.current = {
+          ...matchPreferencesRef.current,
+          gender: profile.gender,
+          language: profile.language,
+          interests: profile.interests || [],
+        };
+      }
+    });
+  }, [currentUser]);
 
   // Show friend online notifications
   useEffect(() => {
@@ -214,25 +256,26 @@ export default function VideoChat() {
     [setPremium],
   );
 
-  // Auto-award coins when chat completes
   const { completeChat } = useCoin();
 
-  const handleChatComplete = useCallback(() => {
-    if (remoteChatToken) {
-      completeChat();
-    }
-  }, [remoteChatToken, completeChat]);
+  // Close the current call's connection, which reports how the call went;
+  // the next match starts a new session
+  const endSession = useCallback(() => {
+    sessionRef.current?.dispose();
+    sessionRef.current = null;
+    sessionPartnerRef.current = null;
+    pendingSignalsRef.current = [];
+    setCallQuality(null);
+    setReconnecting(null);
+  }, []);
 
   const handleSkip = useCallback(async () => {
     if (!isFriendCall && remoteChatToken) {
-      handleChatComplete(); // Award coins for completing chat
       setShowStayConnected(true);
       return;
     }
 
     if (remoteChatToken) {
-      handleChatComplete(); // Award coins for completing chat
-
       // Show interstitial ad after call ends (only for non-ULTRA+ users)
       if (!isUltraPremium()) {
         setTimeout(() => {
@@ -241,35 +284,14 @@ export default function VideoChat() {
       }
     }
 
-    peerservice.peer.getTransceivers().forEach((transceiver) => {
-      if (transceiver.stop) {
-        transceiver.stop();
-      }
-    });
-
-    peerservice.peer.getSenders().forEach((sender) => {
-      if (sender.track) {
-        sender.track.stop();
-        peerservice.peer.removeTrack(sender);
-      }
-    });
-
-    peerservice.peer.onicecandidate = null;
-    peerservice.peer.ontrack = null;
-    peerservice.peer.onnegotiationneeded = null;
-
-    if (peerservice.peer.signalingState !== "closed") {
-      peerservice.peer.close();
-    }
-    peerservice.initPeer();
+    endSession();
     setMessagesArray([]);
-    setFlag(false);
 
     setRemoteStream(null);
     setRemoteChatToken(null);
 
     socket?.emit("skip");
-  }, [socket, isFriendCall, remoteChatToken, handleChatComplete]);
+  }, [socket, isFriendCall, remoteChatToken, endSession]);
 
   const handleTimeUp = useCallback(() => {
     if (!isFriendCall) {
@@ -363,39 +385,56 @@ export default function VideoChat() {
     }
   }, [getUserStream, myStream]);
 
+  // The server (or mock queue) gives up after its max wait and says so
+  const handleQueueTimeout = useCallback(
+    ({ waitedMs }: QueueTimeout) => {
+      console.log(`No match after ${Math.round(waitedMs / 1000)}s`);
+      setIsSearchingForMatch(false);
+      setQueueStatus(null);
+      alert("No matches found at the moment. Please try again!");
+      navigate("/");
+    },
+    [navigate],
+  );
+
+  useEffect(() => {
+    if (!isSearchingForMatch) {
+      setQueueStatus(null);
+    }
+  }, [isSearchingForMatch]);
+
   // Handle match finding when socket connects and we're searching
   useEffect(() => {
     if (isSearchingForMatch && !remoteChatToken && !isFriendCall) {
       if (socket && !isUsingMockMode) {
         console.log("Socket connected, finding match...");
-        socket.emit("find:match");
+        socket.emit("find:match", matchPreferencesRef.current);
       } else {
         console.log("Using mock matching service...");
-        const userId = "user_" + Math.random().toString(36).substr(2, 9);
-        mockMatching.findMatch(userId, (partnerId) => {
-          console.log("Mock match found:", partnerId);
-          setRemoteChatToken(partnerId);
-          setPartnerPremium(false);
-          setIsSearchingForMatch(false);
-          playSound("match");
-          setShowReport(true);
-          setPartnerName("Demo Partner");
-          MockWebRTC.simulateConnection((mockStream) => {
-            setRemoteStream(mockStream);
-          });
-        });
-      }
-
-      // Set a timeout for match finding (30 seconds)
-      const matchTimeout = setTimeout(() => {
-        if (isSearchingForMatch && !remoteChatToken) {
-          setIsSearchingForMatch(false);
-          alert("No matches found at the moment. Please try again!");
-          navigate("/");
-        }
-      }, 30000);
+        const userId = mockUserIdRef.current;
+        mockMatching.findMatch(
+          userId,
+          {
+            "user:connect": (partnerId) => {
+              console.log("Mock match found:", partnerId);
+              setRemoteChatToken(partnerId);
+              setPartnerPremium(false);
+              setIsSearchingForMatch(false);
+              playSound("match");
+              setShowReport(true);
+              setPartnerName("Demo Partner");
+              MockWebRTC.simulateConnection((mockStream) => {
+                setRemoteStream(mockStream);
+              });
+            },
+            "queue:status": setQueueStatus,
+            "queue:timeout": handleQueueTimeout,
+          },
+          { isPremium },
+        );
 
-      return () => clearTimeout(matchTimeout);
+        return () => mockMatching.cancelMatch(userId);
+      }
     }
   }, [
     socket,
@@ -404,12 +443,13 @@ export default function VideoChat() {
     isSearchingForMatch,
     remoteChatToken,
     isFriendCall,
-    navigate,
+    isPremium,
+    handleQueueTimeout,
   ]);
 
   // Premium feature: Switch to voice-only mode during call
   const toggleVoiceOnlyMode = useCallback(async () => {
-    if (!isPremium) {
+    if (!canUseVoiceOnly) {
       navigate("/premium");
       return;
     }
@@ -421,16 +461,12 @@ export default function VideoChat() {
         if (videoTrack) {
           videoTrack.stop();
           myStream?.removeTrack(videoTrack);
-
-          const sender = peerservice.peer
-            .getSenders()
-            .find((s) => s.track?.kind === "video");
-          if (sender) {
-            await sender.replaceTrack(null);
-          }
+          await sessionRef.current?.replaceTrack("video", null);
         }
         setIsCameraOn(false);
         setIsVoiceOnly(true);
+        // The next match is recorded as a voice call
+        matchPreferencesRef.current.voiceOnly = true;
       } else {
         // Switch back to video
         const newStream = await navigator.mediaDevices.getUserMedia({
@@ -438,48 +474,36 @@ export default function VideoChat() {
         });
         const newVideoTrack = newStream.getVideoTracks()[0];
         myStream?.addTrack(newVideoTrack);
-
-        const sender = peerservice.peer
-          .getSenders()
-          .find((s) => s.track?.kind === "video");
-        if (sender) {
-          await sender.replaceTrack(newVideoTrack);
-        }
+        await sessionRef.current?.replaceTrack("video", newVideoTrack, myStream ?? newStream);
 
         setIsCameraOn(true);
         setIsVoiceOnly(false);
+        matchPreferencesRef.current.voiceOnly = false;
       }
     } catch (error) {
       console.error("Error toggling voice-only mode:", error);
     }
-  }, [isPremium, isVoiceOnly, myStream]);
+  }, [canUseVoiceOnly, isVoiceOnly, myStream]);
 
   const toggleCamera = useCallback(async () => {
     if (!myStream) return;
 
     try {
       const videoTrack = myStream.getVideoTracks()[0];
-      const sender = peerservice.peer
-        .getSenders()
-        .find((s) => s.track?.kind === "video");
 
       if (isCameraOn) {
         if (videoTrack) {
           videoTrack.stop();
           myStream.removeTrack(videoTrack);
         }
-        if (sender) {
-          await sender.replaceTrack(null);
-        }
+        await sessionRef.current?.replaceTrack("video", null);
       } else {
         const newStream = await navigator.mediaDevices.getUserMedia({
           video: true,
         });
         const newVideoTrack = newStream.getVideoTracks()[0];
         myStream.addTrack(newVideoTrack);
-        if (sender) {
-          await sender.replaceTrack(newVideoTrack);
-        }
+        await sessionRef.current?.replaceTrack("video", newVideoTrack, myStream);
       }
       setIsCameraOn(!isCameraOn);
     } catch (error) {
@@ -492,27 +516,20 @@ export default function VideoChat() {
 
     try {
       const audioTrack = myStream.getAudioTracks()[0];
-      const sender = peerservice.peer
-        .getSenders()
-        .find((s) => s.track?.kind === "audio");
 
       if (isMicOn) {
         if (audioTrack) {
           audioTrack.stop();
           myStream.removeTrack(audioTrack);
         }
-        if (sender) {
-          await sender.replaceTrack(null);
-        }
+        await sessionRef.current?.replaceTrack("audio", null);
       } else {
         const newStream = await navigator.mediaDevices.getUserMedia({
           audio: true,
         });
         const newAudioTrack = newStream.getAudioTracks()[0];
         myStream.addTrack(newAudioTrack);
-        if (sender) {
-          await sender.replaceTrack(newAudioTrack);
-        }
+        await sessionRef.current?.replaceTrack("audio", newAudioTrack, myStream);
       }
       setIsMicOn(!isMicOn);
     } catch (error) {
@@ -520,52 +537,16 @@ export default function VideoChat() {
     }
   }, [myStream, isMicOn]);
 
-  const sendStream = useCallback(() => {
-    if (myStream) {
-      const videoTrack = myStream.getVideoTracks()[0];
-      const audioTrack = myStream.getAudioTracks()[0];
-
-      const senders = peerservice.peer.getSenders();
-
-      if (videoTrack) {
-        const videoSender = senders.find((s) => s.track === videoTrack);
-        if (!videoSender) {
-          peerservice.peer.addTrack(videoTrack, myStream);
-        }
-      }
-
-      if (audioTrack) {
-        const audioSender = senders.find((s) => s.track === audioTrack);
-        if (!audioSender) {
-          peerservice.peer.addTrack(audioTrack, myStream);
-        }
-      }
-    }
-  }, [myStream]);
-
   const handleScreenShare = useCallback(async () => {
     try {
       if (isScreenSharing) {
-        const videoTrack = myStream?.getVideoTracks()[0];
-        const screenSender = peerservice.peer
-          .getSenders()
-          .find((s) => s.track?.kind === "video");
-
-        if (videoTrack && screenSender) {
-          await screenSender.replaceTrack(videoTrack);
-        }
+        // Back to the camera, or nothing if it is off
+        const videoTrack = myStream?.getVideoTracks()[0] ?? null;
+        await sessionRef.current?.replaceTrack("video", videoTrack, myStream ?? undefined);
 
         screenStream?.getTracks().forEach((track) => track.stop());
         setScreenStream(null);
         setIsScreenSharing(false);
-
-        if (peerservice.peer.signalingState === "stable") {
-          const offer = await peerservice.getOffer();
-          socket?.emit("peer:nego:needed", {
-            offer,
-            targetChatToken: remoteChatToken,
-          });
-        }
       } else {
         const stream = await navigator.mediaDevices.getDisplayMedia({
           video: true,
@@ -574,41 +555,79 @@ export default function VideoChat() {
         setIsScreenSharing(true);
 
         const screenTrack = stream.getVideoTracks()[0];
-        const videoSender = peerservice.peer
-          .getSenders()
-          .find((s) => s.track?.kind === "video");
-
-        if (videoSender) {
-          await videoSender.replaceTrack(screenTrack);
-        } else {
-          peerservice.peer.addTrack(screenTrack, stream);
-        }
-
-        if (peerservice.peer.signalingState === "stable") {
-          const offer = await peerservice.getOffer();
-          socket?.emit("peer:nego:needed", {
-            offer,
-            targetChatToken: remoteChatToken,
-          });
-        }
+        await sessionRef.current?.replaceTrack("video", screenTrack, stream);
       }
     } catch (error) {
       console.error("Error sharing screen:", error);
     }
-  }, [isScreenSharing, myStream, screenStream, remoteChatToken, socket]);
-
-  const setAudioBandwidth = (peerConnection: RTCPeerConnection) => {
-    const sender = peerConnection
-      .getSenders()
-      .find((s) => s.track && s.track.kind === "audio");
-    if (sender) {
-      const parameters = sender.getParameters();
-      if (parameters.encodings && parameters.encodings[0]) {
-        parameters.encodings[0].maxBitrate = 128000;
-        sender.setParameters(parameters);
+  }, [isScreenSharing, myStream, screenStream]);
+
+  const modifySDP = (sdp: string) => {
+    return sdp.replace(
+      /a=fmtp:111 .*opus.*/,
+      "a=fmtp:111 maxplaybackrate=48000;stereo=1;sprop-stereo=1;maxaveragebitrate=510000;useinbandfec=1",
+    );
+  };
+
+  const startSession = useCallback(
+    async (remoteId: string) => {
+      endSession();
+      sessionPartnerRef.current = remoteId;
+
+      const localStream = myStream ?? (await getUserStream());
+      const session = await PeerSession.start({
+        // Both partners start negotiating on a match; the ids pick who yields
+        polite: (socket?.id ?? "") < remoteId,
+        localStream,
+        signal: (message) => {
+          // The partner's socket may have changed after a reconnect; while
+          // ours is down, the ICE restart after resuming resends everything
+          const to = sessionPartnerRef.current;
+          if (!to || !socket?.connected) return;
+
+          if ("candidate" in message) {
+            socket.emit("ice-candidate", { candidate: message.candidate, to });
+          } else if (message.description.type === "offer") {
+            socket.emit("offer", { offer: message.description, to });
+          } else {
+            socket.emit("answer", { answer: message.description, to });
+          }
+        },
+        onRemoteStream: setRemoteStream,
+        // Lets the server track how many calls need a TURN relay, and how
+        // well calls went
+        onConnectionReport: (report) => socket?.emit("call:connection", report),
+        onQualityChange: setCallQuality,
+        onQualityReport: (report) => socket?.emit("call:quality", report),
+        transformSdp: modifySDP,
+      });
+
+      // The call ended, or another began, while this one was starting
+      if (sessionPartnerRef.current !== remoteId) {
+        session.dispose();
+        return;
+      }
+
+      sessionRef.current = session;
+      const pending = pendingSignalsRef.current;
+      pendingSignalsRef.current = [];
+      for (const message of pending) {
+        await session.handleSignal(message);
       }
+    },
+    [socket, myStream, getUserStream, endSession],
+  );
+
+  const handleSignal = useCallback((from: string, message: SignalMessage) => {
+    // Late messages from a previous partner
+    if (from !== sessionPartnerRef.current) return;
+
+    if (sessionRef.current) {
+      sessionRef.current.handleSignal(message);
+    } else {
+      pendingSignalsRef.current.push(message);
     }
-  };
+  }, []);
 
   const handleUserJoined = useCallback(
     async (remoteId: string) => {
@@ -628,209 +647,145 @@ export default function VideoChat() {
         });
       } else {
         // Real WebRTC connection
-        const offer = await peerservice.getOffer();
-        socket?.emit("offer", { offer, to: remoteId });
+        await startSession(remoteId);
       }
     },
-    [socket, isUsingMockMode],
+    [isUsingMockMode, startSession],
   );
 
   const handleIncommingOffer = useCallback(
-    async ({ offer, from }: Offer) => {
-      setRemoteChatToken(from);
-      await getUserStream();
-
-      if (peerservice.peer.signalingState === "stable") {
-        const answer = await peerservice.getAnswer(offer);
-        setAudioBandwidth(peerservice.peer);
-        socket?.emit("answer", { answer, to: from });
-        sendStream();
-      } else {
-        console.warn(
-          "Cannot handle incoming offer in signaling state:",
-          peerservice.peer.signalingState,
-        );
-      }
-    },
-    [getUserStream, socket, sendStream],
+    ({ offer, from }: Offer) => handleSignal(from, { description: offer }),
+    [handleSignal],
   );
 
   const handleIncommingAnswer = useCallback(
-    async ({ answer }: Answer) => {
-      if (peerservice.peer.signalingState === "have-local-offer") {
-        await peerservice.setRemoteDescription(answer);
-        sendStream();
-      } else {
-        console.warn("Peer not in a proper state to set remote description.");
-      }
-    },
-    [sendStream],
+    ({ answer, from }: Answer) => handleSignal(from, { description: answer }),
+    [handleSignal],
   );
 
-  const modifySDP = (sdp: string) => {
-    return sdp.replace(
-      /a=fmtp:111 .*opus.*/,
-      "a=fmtp:111 maxplaybackrate=48000;stereo=1;sprop-stereo=1;maxaveragebitrate=510000;useinbandfec=1",
-    );
-  };
-
-  const handleNegotiationNeeded = useCallback(async () => {
-    if (peerservice.peer.signalingState === "stable") {
-      const currentOffer = await peerservice.getOffer();
-
-      if (currentOffer && currentOffer.sdp) {
-        const modifiedSDP = modifySDP(currentOffer.sdp);
-
-        const modifiedOffer = new RTCSessionDescription({
-          type: currentOffer.type,
-          sdp: modifiedSDP,
-        });
-
-        setAudioBandwidth(peerservice.peer);
-
-        socket?.emit("peer:nego:needed", {
-          offer: modifiedOffer,
-          targetChatToken: remoteChatToken,
-        });
-      }
-    } else {
-      console.warn("Peer is not in a stable state for negotiation.");
-    }
-  }, [remoteChatToken, socket]);
-
-  const handleNegotiationIncomming = useCallback(
-    async ({ offer, from }: Offer) => {
-      if (
-        peerservice.peer.signalingState === "stable" ||
-        peerservice.peer.signalingState === "have-local-offer"
-      ) {
-        const answer = await peerservice.getAnswer(offer);
-        socket?.emit("peer:nego:done", { answer, to: from });
-      } else {
-        console.warn(
-          "Cannot handle negotiation in state:",
-          peerservice.peer.signalingState,
-        );
-      }
-    },
-    [socket],
-  );
-
-  const handleNegotiationFinal = useCallback(
-    async ({ answer }: NegotiationDone) => {
-      if (
-        peerservice.peer.signalingState === "have-local-offer" ||
-        peerservice.peer.signalingState === "have-remote-offer"
-      ) {
-        await peerservice.setRemoteDescription(answer);
-        sendStream();
-      } else if (peerservice.peer.signalingState === "stable") {
-        console.log("Connection is stable, no need for further negotiation.");
-      } else {
-        console.warn(
-          "Cannot set remote description: Peer connection is in state",
-          peerservice.peer.signalingState,
-        );
-      }
+  const handleIncommingCandidate = useCallback(
+    ({ candidate, from }: IceCandidate) => {
+      if (candidate) handleSignal(from, { candidate });
     },
-    [sendStream],
+    [handleSignal],
   );
 
-  useEffect(() => {
-    if (flag !== true) {
-      peerservice.peer.addEventListener(
-        "negotiationneeded",
-        handleNegotiationNeeded,
-      );
-      setFlag(false);
-    }
+  const userDisConnected = useCallback(async () => {
+    endSession();
+    setRemoteStream(null);
+    setRemoteChatToken(null);
+    setPartnerPremium(false);
+    setCallRemainingMs(undefined);
+    setMessagesArray([]);
+  }, [endSession]);
 
-    return () => {
-      peerservice.peer.removeEventListener(
-        "negotiationneeded",
-        handleNegotiationNeeded,
-      );
-    };
-  }, [flag, handleNegotiationNeeded]);
+  // Leaving the screen mid-call
+  useEffect(() => endSession, [endSession]);
 
   useEffect(() => {
-    const handleTrackEvent = (event: RTCTrackEvent) => {
-      const [incomingStream] = event.streams;
-      setRemoteStream(incomingStream);
+    const handleCallLimit = ({ remainingMs }: { remainingMs: number | null }) => {
+      setCallRemainingMs(remainingMs);
     };
 
-    peerservice.peer.addEventListener("track", handleTrackEvent);
+    socket?.on("skipped", userDisConnected);
+    // The server ended the call after its time ran out
+    socket?.on("call:ended", userDisConnected);
+    socket?.on("call:limit", handleCallLimit);
 
     return () => {
-      peerservice.peer.removeEventListener("track", handleTrackEvent);
+      socket?.off("skipped", userDisConnected);
+      socket?.off("call:ended", userDisConnected);
+      socket?.off("call:limit", handleCallLimit);
     };
-  }, []);
+  }, [socket, userDisConnected]);
 
-  const userDisConnected = useCallback(async () => {
-    setFlag(true);
-    peerservice.peer.getTransceivers().forEach((transceiver) => {
-      if (transceiver.stop) {
-        transceiver.stop();
-      }
-    });
+  // Every match the server ended, whichever side or rule ended it, is
+  // checked against its session record for the chat completion coins
+  useEffect(() => {
+    if (!socket) return;
 
-    peerservice.peer.getSenders().forEach((sender) => {
-      peerservice.peer.removeTrack(sender);
-    });
+    const handleSessionEnded = (session: CallSession) => {
+      if (session.mode !== "text") completeChat(session.id);
+    };
 
-    peerservice.peer.onicecandidate = null;
-    peerservice.peer.ontrack = null;
-    peerservice.peer.onnegotiationneeded = null;
+    socket.on("session:ended", handleSessionEnded);
+    return () => {
+      socket.off("session:ended", handleSessionEnded);
+    };
+  }, [socket, completeChat]);
 
-    if (peerservice.peer.signalingState !== "closed") {
-      peerservice.peer.close();
-    }
+  // A network switch reconnects the socket with a new id. The server holds
+  // the call for a grace window, so rejoin it and restart ICE rather than
+  // rematching.
+  useEffect(() => {
+    if (!socket) return;
 
-    setRemoteStream(null);
-    setRemoteChatToken(null);
-    setPartnerPremium(false);
+    const handleResumeToken = ({ token }: { token: string }) => {
+      resumeTokenRef.current = token;
+    };
 
-    peerservice.initPeer();
-    setMessagesArray([]);
-  }, []);
+    const handleDrop = () => {
+      if (sessionRef.current) setReconnecting("self");
+    };
 
-  useEffect(() => {
-    socket?.on("skipped", userDisConnected);
+    const handleReconnect = () => {
+      const token = resumeTokenRef.current;
+      if (!sessionRef.current || !token) return;
+
+      socket.emit(
+        "call:resume",
+        { token },
+        (response: { success: boolean; remainingMs?: number | null; error?: string }) => {
+          if (!response.success) {
+            console.log("Could not resume call:", response.error);
+            resumeTokenRef.current = null;
+            userDisConnected();
+            return;
+          }
 
-    return () => {
-      socket?.off("skipped", userDisConnected);
+          setReconnecting(null);
+          if (response.remainingMs !== undefined) setCallRemainingMs(response.remainingMs);
+          sessionRef.current?.restartIce();
+        },
+      );
     };
-  }, [socket, userDisConnected]);
 
-  useEffect(() => {
-    peerservice.peer.onicecandidate = (event) => {
-      if (event.candidate) {
-        socket?.emit("ice-candidate", {
-          candidate: event.candidate,
-          to: remoteChatToken,
-        });
-      }
+    const handlePartnerReconnecting = () => setReconnecting("partner");
+
+    const handlePartnerReconnected = ({ partnerId }: { partnerId: string }) => {
+      sessionPartnerRef.current = partnerId;
+      setRemoteChatToken(partnerId);
+      setReconnecting(null);
     };
-  }, [socket, remoteChatToken]);
 
-  useEffect(() => {
-    socket?.on("ice-candidate", (data) => {
-      if (data.candidate) {
-        const candidate = new RTCIceCandidate(data.candidate);
-        peerservice.peer
-          .addIceCandidate(candidate)
-          .then(() => {
-            console.log("Added ICE candidate:", candidate);
-          })
-          .catch((error) => {
-            console.error("Error adding ICE candidate:", error);
-          });
-      }
-    });
+    socket.on("call:resume:token", handleResumeToken);
+    socket.on("disconnect", handleDrop);
+    socket.on("connect", handleReconnect);
+    socket.on("partner:reconnecting", handlePartnerReconnecting);
+    socket.on("partner:reconnected", handlePartnerReconnected);
 
     return () => {
-      socket?.off("ice-candidate");
+      socket.off("call:resume:token", handleResumeToken);
+      socket.off("disconnect", handleDrop);
+      socket.off("connect", handleReconnect);
+      socket.off("partner:reconnecting", handlePartnerReconnecting);
+      socket.off("partner:reconnected", handlePartnerReconnected);
     };
+  }, [socket, userDisConnected]);
+
+  const handleExtendCall = useCallback(() => {
+    socket?.emit(
+      "call:extend",
+      { idempotencyKey: crypto.randomUUID() },
+      (response: { success: boolean; error?: string }) => {
+        if (response.success) return;
+        if (response.error === "insufficient_coins") {
+          alert("💰 Not enough coins to extend this chat.");
+        } else {
+          console.error("Error extending call:", response.error);
+        }
+      },
+    );
   }, [socket]);
 
   // Handle stay connected responses
@@ -888,9 +843,10 @@ export default function VideoChat() {
     socket?.on("user:connect", handleUserJoined);
     socket?.on("offer", handleIncommingOffer);
     socket?.on("answer", handleIncommingAnswer);
-    socket?.on("peer:nego:needed", handleNegotiationIncomming);
-    socket?.on("peer:nego:final", handleNegotiationFinal);
+    socket?.on("ice-candidate", handleIncommingCandidate);
     socket?.on("partnerDisconnected", userDisConnected);
+    socket?.on("queue:status", setQueueStatus);
+    socket?.on("queue:timeout", handleQueueTimeout);
 
     socket?.on(
       "partner:premium:status",
@@ -921,19 +877,20 @@ export default function VideoChat() {
       socket?.off("user:connect", handleUserJoined);
       socket?.off("offer", handleIncommingOffer);
       socket?.off("answer", handleIncommingAnswer);
-      socket?.off("peer:nego:needed", handleNegotiationIncomming);
-      socket?.off("peer:nego:final", handleNegotiationFinal);
+      socket?.off("ice-candidate", handleIncommingCandidate);
       socket?.off("partnerDisconnected", userDisConnected);
+      socket?.off("queue:status", setQueueStatus);
+      socket?.off("queue:timeout", handleQueueTimeout);
       socket?.off("partner:premium:status");
       socket?.off("premium:reaction");
       socket?.off("partner:last_seen");
     };
   }, [
     handleIncommingAnswer,
+    handleIncommingCandidate,
     handleIncommingOffer,
-    handleNegotiationFinal,
-    handleNegotiationIncomming,
     handleUserJoined,
+    handleQueueTimeout,
     socket,
     userDisConnected,
   ]);
@@ -971,10 +928,7 @@ export default function VideoChat() {
         setRemoteStream(null);
       }
 
-      if (peerservice.peer && peerservice.peer.signalingState !== "closed") {
-        peerservice.peer.close();
-        peerservice.initPeer();
-      }
+      endSession();
 
       // Show interstitial ad when leaving video chat (only for non-ULTRA+ users)
       if (remoteChatToken && !isUltraPremium()) {
@@ -987,47 +941,49 @@ export default function VideoChat() {
     } finally {
       navigate("/");
     }
-  }, [myStream, navigate, screenStream, remoteStream, remoteChatToken, showOnNavigation]);
-
-  const handleReport = (reason: string) => {
-    const count =
-      Number(
-        localStorage.getItem(`ajnabicam_reports_${remoteChatToken}`) || 0,
-      ) + 1;
-    localStorage.setItem(`ajnabicam_reports_${remoteChatToken}`, String(count));
-    setReportSubmitted(true);
+  }, [myStream, navigate, screenStream, remoteStream, remoteChatToken, showOnNavigation, endSession]);
+
+  const handleReport = (reason: string, description?: string) => {
     setShowReport(false);
     setShowReportEnd(false);
 
-    if (count >= 20) {
-      localStorage.setItem(
-        "ajnabicam_suspend_until",
-        String(Date.now() + 24 * 60 * 60 * 1000),
-      );
-      setSuspended(true);
-    }
+    socket?.emit(
+      "report",
+      { reason, description },
+      ({ success, error }: { success: boolean; error?: string }) => {
+        if (!success) {
+          alert(`❌ ${error || "Couldn't submit your report. Please try again."}`);
+          return;
+        }
 
-    if (count < 20) {
-      alert(
-        "You have been reported. Please follow decency guidelines or your account may be suspended.",
-      );
-    }
-    setTimeout(() => setReportSubmitted(false), 2000);
+        setReportSubmitted(true);
+        setTimeout(() => setReportSubmitted(false), 2000);
+      },
+    );
   };
 
   const handleBlock = () => {
-    if (remoteChatToken) {
-      let blocked = JSON.parse(
-        localStorage.getItem("ajnabicam_blocked") || "[]",
-      );
-      if (!blocked.includes(remoteChatToken)) {
-        blocked.push(remoteChatToken);
-        localStorage.setItem("ajnabicam_blocked", JSON.stringify(blocked));
-      }
-      setBlockSubmitted(true);
-      setShowBlock(false);
-      setTimeout(() => setBlockSubmitted(false), 2000);
-    }
+    if (!remoteChatToken) return;
+
+    socket?.emit(
+      "block:partner",
+      {},
+      ({ success, error }: { success: boolean; error?: string }) => {
+        setShowBlock(false);
+
+        if (!success) {
+          alert(`❌ ${error || "Couldn't block this user. Please try again."}`);
+          return;
+        }
+
+        setBlockSubmitted(true);
+        setTimeout(() => setBlockSubmitted(false), 2000);
+
+        // The server has ended the match, look for someone new
+        userDisConnected();
+        setIsSearchingForMatch(true);
+      },
+    );
   };
 
   // Premium reactions handlers
@@ -1049,26 +1005,7 @@ export default function VideoChat() {
     });
   }, [isUltraPremium, isProMonthly, remoteChatToken, socket]);
 
-  useEffect(() => {
-    const blocked = JSON.parse(
-      localStorage.getItem("ajnabicam_blocked") || "[]",
-    );
-    if (blocked.includes(remoteChatToken)) {
-      alert(
-        "You have blocked this user. You will not be matched with them again.",
-      );
-      handleSkip();
-    }
-  }, [remoteChatToken, handleSkip]);
-
-  useEffect(() => {
-    const suspendUntil = localStorage.getItem("ajnabicam_suspend_until");
-    if (suspendUntil && Date.now() < Number(suspendUntil)) {
-      setSuspended(true);
-    }
-  }, []);
-
-  if (suspended) {
+  if (banInfo) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-white">
         <div className="bg-rose-100 border border-rose-300 rounded-2xl p-8 shadow-xl flex flex-col items-center">
@@ -1076,10 +1013,18 @@ export default function VideoChat() {
             Account Suspended
           </h2>
           <p className="text-rose-500 text-center mb-4">
-            Your account has been suspended for 24 hours due to excessive
-            amounts of reports.
+            {banInfo.until
+              ? `Your account has been suspended until ${new Date(banInfo.until).toLocaleString()}.`
+              : "Your account has been permanently suspended for violating our community guidelines."}
+          </p>
+          {banInfo.reason && (
+            <p className="text-sm text-rose-500 text-center mb-4">
+              Reason: {banInfo.reason}
+            </p>
+          )}
+          <p className="text-xs text-rose-400">
+            {banInfo.until ? "Please try again later." : "Contact support if you think this is a mistake."}
           </p>
-          <p className="text-xs text-rose-400">Please try again later.</p>
         </div>
       </div>
     );
@@ -1164,12 +1109,12 @@ export default function VideoChat() {
       {!isFriendCall && (
         <div className="w-full px-4 py-2">
           <ChatTimer
-            isPremium={isPremium}
             isConnected={remoteChatToken !== null}
             partnerPremium={partnerPremium}
+            remainingMs={isUsingMockMode ? undefined : callRemainingMs}
             onTimeUp={handleTimeUp}
             onUpgrade={handleUpgrade}
-            isUltraPremium={isUltraPremium()}
+            onExtend={isUsingMockMode ? undefined : handleExtendCall}
           />
         </div>
       )}
@@ -1250,6 +1195,14 @@ export default function VideoChat() {
                   <p className="text-xs text-gray-500 text-center px-4">
                     Finding someone special just for you...
                   </p>
+                  {queueStatus && (
+                    <p className="text-xs text-gray-400 text-center px-4 mt-1">
+                      You're #{queueStatus.position} of {queueStatus.waiting} in
+                      line
+                      {queueStatus.estimatedWaitMs !== null &&
+                        ` · ~${Math.max(1, Math.round(queueStatus.estimatedWaitMs / 1000))}s`}
+                    </p>
+                  )}
                 </div>
               )}
             </div>
@@ -1266,6 +1219,27 @@ export default function VideoChat() {
             </div>
           )}
 
+          {/* Held call waiting for one side's connection to come back */}
+          {reconnecting && remoteStream && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/50 z-20">
+              <div className="flex flex-col items-center gap-2">
+                <ClipLoader color="#FFFFFF" size={32} />
+                <p className="text-white text-sm font-semibold">
+                  {reconnecting === "self"
+                    ? "Connection lost, reconnecting..."
+                    : `${partnerName} is reconnecting...`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Live connection quality */}
+          {callQuality && remoteStream && (
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 z-30">
+              <CallQualityIndicator update={callQuality} />
+            </div>
+          )}
+
           {/* Last seen indicator for premium users */}
           {(isUltraPremium() || isProMonthly()) && remoteStream && !isFriendCall && (
             <div className="absolute bottom-3 right-3 bg-black/50 backdrop-blur-sm px-2 py-1 rounded-lg z-30">
@@ -1294,18 +1268,18 @@ export default function VideoChat() {
               <Button
                 onClick={() => setShowFaceFilters(true)}
                 className={`p-2 rounded-full shadow-lg transition-all duration-200 ${
-                  isUltraPremiumState
+                  canUsePremiumFilters
                     ? isFilterActive
                       ? "bg-purple-500 hover:bg-purple-600 text-white"
                       : "bg-white/90 hover:bg-white text-purple-500"
                     : "bg-gray-300 text-gray-500 cursor-not-allowed"
                 }`}
-                disabled={!isUltraPremiumState}
+                disabled={!canUsePremiumFilters}
               >
                 <span className="text-base">🎭</span>
               </Button>
 
-              {!isUltraPremiumState && (
+              {!canUsePremiumFilters && (
                 <div className="absolute -top-1 -right-1 bg-yellow-500 rounded-full p-1">
                   <Crown className="w-3 h-3 text-white" />
                 </div>
@@ -1497,7 +1471,6 @@ export default function VideoChat() {
           setShowFaceFilters(false);
         }}
         currentFilter={currentFilter}
-        isUltraPremium={isUltraPremiumState}
         onUpgrade={handleUpgrade}
       />
 
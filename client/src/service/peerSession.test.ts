@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PeerSession, PeerSessionOptions, SignalMessage } from "./peerSession";
+
+vi.mock("../lib/apiClient", () => ({ apiRequest: vi.fn() }));
+
+/**
+ * Just enough of RTCPeerConnection for negotiation: offers, answers, the
+ * implicit rollback of a local offer, and candidates that need a remote
+ * description first
+ */
+class FakePeerConnection {
+    static created: FakePeerConnection[] = [];
+
+    signalingState: RTCSignalingState = 'stable';
+    connectionState: RTCPeerConnectionState = 'new';
+    iceConnectionState: RTCIceConnectionState = 'new';
+    localDescription: (RTCSessionDescriptionInit & { toJSON(): RTCSessionDescriptionInit }) | null = null;
+    remoteDescription: RTCSessionDescriptionInit | null = null;
+
+    onnegotiationneeded: (() => void) | null = null;
+    onicecandidate: ((event: { candidate: RTCIceCandidate | null }) => void) | null = null;
+    ontrack: ((event: RTCTrackEvent) => void) | null = null;
+    oniceconnectionstatechange: (() => void) | null = null;
+    onconnectionstatechange: (() => void) | null = null;
+
+    addedCandidates: RTCIceCandidateInit[] = [];
+    rollbacks = 0;
+    iceRestarts = 0;
+    closed = false;
+    private offers = 0;
+
+    constructor() {
+        FakePeerConnection.created.push(this);
+    }
+
+    async setLocalDescription() {
+        await Promise.resolve();
+        const type: RTCSdpType = this.signalingState === 'have-remote-offer' ? 'answer' : 'offer';
+        const sdp = type === 'offer' ? `offer-${++this.offers}` : `answer-to-${this.remoteDescription?.sdp}`;
+        this.localDescription = { type, sdp, toJSON: () => ({ type, sdp }) };
+        this.signalingState = type === 'offer' ? 'have-local-offer' : 'stable';
+    }
+
+    async setRemoteDescription(description: RTCSessionDescriptionInit) {
+        await Promise.resolve();
+        if (description.type === 'offer') {
+            // A remote offer rolls back our own, as browsers do
+            if (this.signalingState === 'have-local-offer') this.rollbacks++;
+            this.signalingState = 'have-remote-offer';
+        } else {
+            if (this.signalingState !== 'have-local-offer') {
+                throw new Error(`Answer in state ${this.signalingState}`);
+            }
+            this.signalingState = 'stable';
+        }
+        this.remoteDescription = description;
+    }
+
+    async addIceCandidate(candidate: RTCIceCandidateInit) {
+        if (!this.remoteDescription) throw new Error('No remote description');
+        this.addedCandidates.push(candidate);
+    }
+
+    restartIce() {
+        this.iceRestarts++;
+    }
+
+    getTransceivers(): RTCRtpTransceiver[] {
+        return [];
+    }
+
+    getSenders(): RTCRtpSender[] {
+        return [];
+    }
+
+    async getStats() {
+        return new Map();
+    }
+
+    close() {
+        this.closed = true;
+        this.connectionState = 'closed';
+    }
+}
+
+// Lets queued signaling messages and the promises they start run out
+const settle = async () => {
+    for (let i = 0; i < 20; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+};
+
+const fake = (session: PeerSession) => session.peer as unknown as FakePeerConnection;
+
+describe("PeerSession", () => {
+    let windowEvents: EventTarget;
+    let connection: EventTarget;
+    const sessions: PeerSession[] = [];
+
+    beforeEach(() => {
+        FakePeerConnection.created = [];
+        windowEvents = new EventTarget();
+        connection = new EventTarget();
+        vi.stubGlobal('RTCPeerConnection', FakePeerConnection);
+        vi.stubGlobal('window', windowEvents);
+        vi.stubGlobal('navigator', { connection });
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        sessions.splice(0).forEach((session) => session.dispose());
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const open = (options: Partial<PeerSessionOptions> & Pick<PeerSessionOptions, 'polite'>) => {
+        const session = new PeerSession({
+            iceServers: [],
+            localStream: null,
+            signal: () => {},
+            ...options,
+        });
+        sessions.push(session);
+        return session;
+    };
+
+    // Two sessions signaling each other, each message delivered on a later tick
+    const connectPair = () => {
+        const signals: { from: 'polite' | 'impolite'; message: SignalMessage }[] = [];
+        const deliver = (from: 'polite' | 'impolite', to: () => PeerSession) => (message: SignalMessage) => {
+            signals.push({ from, message });
+            setTimeout(() => to().handleSignal(message));
+        };
+
+        const polite: PeerSession = open({ polite: true, signal: deliver('polite', () => impolite) });
+        const impolite: PeerSession = open({ polite: false, signal: deliver('impolite', () => polite) });
+        return { polite, impolite, signals };
+    };
+
+    it("settles crossing offers by having the polite side roll back and answer", async () => {
+        const { polite, impolite, signals } = connectPair();
+
+        // Both sides add media at once, so both offer
+        fake(polite).onnegotiationneeded?.();
+        fake(impolite).onnegotiationneeded?.();
+        await settle();
+
+        expect(fake(polite).rollbacks).toBe(1);
+        expect(fake(impolite).rollbacks).toBe(0);
+        expect(fake(polite).signalingState).toBe('stable');
+        expect(fake(impolite).signalingState).toBe('stable');
+
+        // The impolite side's offer won, and only the polite side answered
+        const answers = signals.filter(({ message }) => 'description' in message && message.description.type === 'answer');
+        expect(answers).toEqual([
+            { from: 'polite', message: { description: { type: 'answer', sdp: 'answer-to-offer-1' } } },
+        ]);
+        expect(fake(impolite).remoteDescription?.sdp).toBe('answer-to-offer-1');
+    });
+
+    it("holds candidates until the description they belong to is set", async () => {
+        const session = open({ polite: true });
+        const candidate = { candidate: 'candidate:1 1 udp 1 192.0.2.1 5000 typ host', sdpMid: '0' };
+
+        await session.handleSignal({ candidate });
+        expect(fake(session).addedCandidates).toEqual([]);
+
+        await session.handleSignal({ description: { type: 'offer', sdp: 'remote-offer' } });
+        expect(fake(session).addedCandidates).toEqual([candidate]);
+
+        // Once it is set, candidates go straight in
+        const next = { ...candidate, candidate: 'candidate:2 1 udp 1 192.0.2.2 5000 typ host' };
+        await session.handleSignal({ candidate: next });
+        expect(fake(session).addedCandidates).toEqual([candidate, next]);
+    });
+
+    it("restarts ICE when the network changes during a call", () => {
+        const session = open({ polite: false });
+
+        // Nothing to restart before the call has connected
+        connection.dispatchEvent(new Event('change'));
+        expect(fake(session).iceRestarts).toBe(0);
+
+        fake(session).connectionState = 'connected';
+        connection.dispatchEvent(new Event('change'));
+        windowEvents.dispatchEvent(new Event('online'));
+        expect(fake(session).iceRestarts).toBe(2);
+    });
+
+    it("closes the connection and stops listening once disposed", async () => {
+        const addToWindow = vi.spyOn(windowEvents, 'addEventListener');
+        const removeFromWindow = vi.spyOn(windowEvents, 'removeEventListener');
+        const addToConnection = vi.spyOn(connection, 'addEventListener');
+        const removeFromConnection = vi.spyOn(connection, 'removeEventListener');
+        const session = open({ polite: true });
+        const peer = fake(session);
+
+        session.dispose();
+
+        expect(peer.closed).toBe(true);
+        expect(peer.onnegotiationneeded).toBeNull();
+        expect(peer.onicecandidate).toBeNull();
+        expect(peer.ontrack).toBeNull();
+        expect(peer.oniceconnectionstatechange).toBeNull();
+        expect(peer.onconnectionstatechange).toBeNull();
+        expect(removeFromWindow).toHaveBeenCalledWith('online', addToWindow.mock.calls[0][1]);
+        expect(removeFromConnection).toHaveBeenCalledWith('change', addToConnection.mock.calls[0][1]);
+
+        // Late signaling from the old call is dropped
+        await session.handleSignal({ description: { type: 'offer', sdp: 'late-offer' } });
+        expect(peer.remoteDescription).toBeNull();
+    });
+});
@@ -0,0 +1,495 @@
+import {
+    CallConnectionReport,
+    CallQualityReport,
+    CallQualityUpdate,
+    QualitySample,
+    getIceServers,
+    rateQuality,
+    scoreQuality
+} from "../lib/webrtc";
+
+// Used until the server's ICE servers load, and whenever they cannot
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [{
+    urls: [
+        "stun:stun.l.google.com:19302",
+        "stun:global.stun.twilio.com:3478"
+    ]
+}];
+// Fetch new TURN credentials once the cached ones are this close to expiring
+const CREDENTIAL_REFRESH_MARGIN_MS = 10 * 60 * 1000;
+const AUDIO_MAX_BITRATE = 128000;
+const QUALITY_SAMPLE_INTERVAL_MS = 2000;
+
+type SendLevel = 'full' | 'reduced' | 'low' | 'audio_only';
+
+// Worst last; the lowest quality score each level is kept for
+const SEND_LEVELS: { level: SendLevel; minScore: number; maxBitrate?: number; scaleResolutionDownBy: number }[] = [
+    { level: 'full', minScore: 60, scaleResolutionDownBy: 1 },
+    { level: 'reduced', minScore: 40, maxBitrate: 600000, scaleResolutionDownBy: 1.5 },
+    { level: 'low', minScore: 20, maxBitrate: 200000, scaleResolutionDownBy: 3 },
+    { level: 'audio_only', minScore: 0, scaleResolutionDownBy: 1 }
+];
+// Consecutive samples needed before stepping down, or back up, a level;
+// recovering is slower so a brief good patch doesn't flap the video
+const STEP_DOWN_SAMPLES = 2;
+const STEP_UP_SAMPLES = 5;
+
+// The part of the Network Information API used here. Only some browsers
+// have it, and TypeScript's DOM types leave it out.
+interface NetworkInformation extends EventTarget {
+    readonly type?: string;
+    readonly effectiveType?: string;
+}
+
+function networkInformation(): NetworkInformation | undefined {
+    return (navigator as Navigator & { connection?: NetworkInformation }).connection;
+}
+
+// Shared by every call, so back-to-back matches reuse the credentials
+let cachedIceServers: RTCIceServer[] = FALLBACK_ICE_SERVERS;
+let cachedIceServersExpireAt = 0;
+
+/**
+ * ICE servers for the next call, with TURN credentials that outlast its
+ * setup. Falls back to STUN only when the server can't be reached.
+ */
+export async function loadIceServers(): Promise<RTCIceServer[]> {
+    if (Date.now() > cachedIceServersExpireAt - CREDENTIAL_REFRESH_MARGIN_MS) {
+        try {
+            const { iceServers, expiresAt } = await getIceServers();
+            cachedIceServers = iceServers;
+            cachedIceServersExpireAt = expiresAt;
+        } catch (error) {
+            console.warn('Could not load ICE servers, using STUN only:', error);
+        }
+    }
+    return cachedIceServers;
+}
+
+// What the two sides of a call send each other through the server
+export type SignalMessage =
+    | { description: RTCSessionDescriptionInit }
+    | { candidate: RTCIceCandidateInit };
+
+export interface PeerSessionOptions {
+    // When offers cross, the polite side drops its own and answers; the
+    // impolite side ignores the other's. The two sides must disagree.
+    polite: boolean;
+    iceServers: RTCIceServer[];
+    // Tracks to send from the start
+    localStream: MediaStream | null;
+    signal: (message: SignalMessage) => void;
+    onRemoteStream?: (stream: MediaStream) => void;
+    // Told how the call connected, e.g. whether it needed a TURN relay
+    onConnectionReport?: (report: CallConnectionReport) => void;
+    // Shown live during the call, and summed up when it is disposed
+    onQualityChange?: (update: CallQualityUpdate) => void;
+    onQualityReport?: (report: CallQualityReport) => void;
+    // Rewrite outgoing SDP, e.g. to tune Opus
+    transformSdp?: (sdp: string) => string;
+    // When setting up the call began, for its connect time
+    startedAt?: number;
+}
+
+/**
+ * One call's peer connection, negotiated with the perfect-negotiation
+ * pattern so either side may offer at any time, including both at once.
+ * Dispose it when the call ends; the next call gets a new session.
+ */
+export class PeerSession {
+    readonly peer: RTCPeerConnection;
+    private makingOffer = false;
+    private ignoreOffer = false;
+    private settingRemoteAnswer = false;
+    // Candidates that arrive before the description they belong to
+    private pendingCandidates: RTCIceCandidateInit[] = [];
+    private remoteStream: MediaStream | null = null;
+    private callStartedAt: number | null;
+    private disposed = false;
+
+    private qualityTimer: ReturnType<typeof setInterval> | null = null;
+    private qualitySamples: { sample: QualitySample; score: number }[] = [];
+    private previousInbound = new Map<string, { packetsReceived: number; packetsLost: number }>();
+    private sendLevel = 0;
+    private levelVotes = 0;
+    private fellBackToAudio = false;
+
+    /**
+     * A session with ICE servers loaded for it
+     */
+    static async start(options: Omit<PeerSessionOptions, 'iceServers'>): Promise<PeerSession> {
+        const startedAt = Date.now();
+        const iceServers = await loadIceServers();
+        return new PeerSession({ startedAt, ...options, iceServers });
+    }
+
+    constructor(private readonly options: PeerSessionOptions) {
+        this.callStartedAt = options.startedAt ?? Date.now();
+        this.peer = new RTCPeerConnection({ iceServers: options.iceServers });
+
+        this.peer.onnegotiationneeded = () => this.negotiate();
+        this.peer.onicecandidate = ({ candidate }) => {
+            if (candidate) this.options.signal({ candidate: candidate.toJSON() });
+        };
+        this.peer.ontrack = (event) => this.handleTrack(event);
+
+        this.peer.oniceconnectionstatechange = () => {
+            console.log('ICE connection state:', this.peer.iceConnectionState);
+            if (this.peer.iceConnectionState === 'failed') {
+                console.warn('ICE connection failed, attempting restart');
+                this.peer.restartIce();
+            }
+        };
+
+        this.peer.onconnectionstatechange = () => {
+            console.log('Connection state:', this.peer.connectionState);
+            if (this.peer.connectionState === 'connected') {
+                this.reportConnection();
+                this.startQualityMonitor();
+            }
+        };
+
+        window.addEventListener('online', this.handleNetworkChange);
+        networkInformation()?.addEventListener('change', this.handleNetworkChange);
+
+        options.localStream?.getTracks().forEach((track) => {
+            this.peer.addTrack(track, options.localStream as MediaStream);
+        });
+    }
+
+    /**
+     * Apply a description or candidate from the other side
+     */
+    async handleSignal(message: SignalMessage) {
+        if (this.disposed) return;
+
+        try {
+            if ('description' in message) {
+                await this.handleDescription(message.description);
+            } else {
+                await this.handleCandidate(message.candidate);
+            }
+        } catch (error) {
+            console.error('Error handling signaling message:', error);
+        }
+    }
+
+    /**
+     * Swap what is sent for one kind of media, e.g. the camera for a screen
+     * share, or null to stop sending it. A kind the call doesn't carry yet
+     * is added, which renegotiates.
+     */
+    async replaceTrack(kind: 'audio' | 'video', track: MediaStreamTrack | null, stream?: MediaStream) {
+        const transceiver = this.peer.getTransceivers().find(
+            (t) => t.receiver.track.kind === kind && t.currentDirection !== 'stopped'
+        );
+
+        if (!transceiver) {
+            if (track && stream) this.peer.addTrack(track, stream);
+            return;
+        }
+
+        await transceiver.sender.replaceTrack(track);
+        if (track && stream) transceiver.sender.setStreams?.(stream);
+        // Created by the other side's offer, so not sending until renegotiated
+        if (track && transceiver.direction === 'recvonly') {
+            transceiver.direction = 'sendrecv';
+        }
+    }
+
+    /**
+     * Gather fresh candidates on both sides, e.g. after rejoining the call
+     * from a new network. The offer goes out through negotiation as usual.
+     */
+    restartIce() {
+        if (this.disposed) return;
+        this.peer.restartIce();
+    }
+
+    /**
+     * Close the connection and report how the call went. Local tracks are
+     * left running for the next call.
+     */
+    dispose() {
+        if (this.disposed) return;
+        this.disposed = true;
+
+        window.removeEventListener('online', this.handleNetworkChange);
+        networkInformation()?.removeEventListener('change', this.handleNetworkChange);
+        this.endQualityMonitor();
+
+        this.peer.onnegotiationneeded = null;
+        this.peer.onicecandidate = null;
+        this.peer.ontrack = null;
+        this.peer.oniceconnectionstatechange = null;
+        this.peer.onconnectionstatechange = null;
+
+        try {
+            this.peer.getTransceivers().forEach((transceiver) => transceiver.stop?.());
+            this.peer.close();
+        } catch (error) {
+            console.warn('Error closing peer connection:', error);
+        }
+    }
+
+    private async negotiate() {
+        try {
+            this.makingOffer = true;
+            await this.peer.setLocalDescription();
+            this.sendDescription();
+        } catch (error) {
+            console.error('Error creating offer:', error);
+        } finally {
+            this.makingOffer = false;
+        }
+    }
+
+    private async handleDescription(description: RTCSessionDescriptionInit) {
+        // An answer we are still applying leaves us stable for this purpose
+        const readyForOffer =
+            !this.makingOffer &&
+            (this.peer.signalingState === 'stable' || this.settingRemoteAnswer);
+        const offerCollision = description.type === 'offer' && !readyForOffer;
+
+        this.ignoreOffer = !this.options.polite && offerCollision;
+        if (this.ignoreOffer) return;
+
+        // The polite side's own offer, if any, is rolled back implicitly
+        this.settingRemoteAnswer = description.type === 'answer';
+        try {
+            await this.peer.setRemoteDescription(description);
+        } finally {
+            this.settingRemoteAnswer = false;
+        }
+
+        const candidates = this.pendingCandidates;
+        this.pendingCandidates = [];
+        for (const candidate of candidates) {
+            await this.handleCandidate(candidate);
+        }
+
+        if (description.type === 'offer') {
+            await this.peer.setLocalDescription();
+            this.sendDescription();
+        }
+        this.capAudioBitrate();
+    }
+
+    private async handleCandidate(candidate: RTCIceCandidateInit) {
+        if (!this.peer.remoteDescription) {
+            this.pendingCandidates.push(candidate);
+            return;
+        }
+
+        try {
+            await this.peer.addIceCandidate(candidate);
+        } catch (error) {
+            // Candidates for an offer we ignored are expected to fail
+            if (!this.ignoreOffer) throw error;
+        }
+    }
+
+    private sendDescription() {
+        const description = this.peer.localDescription;
+        if (!description) return;
+
+        const { type, sdp } = description.toJSON() as RTCSessionDescriptionInit;
+        const transformSdp = this.options.transformSdp;
+        this.options.signal({
+            description: { type, sdp: sdp && transformSdp ? transformSdp(sdp) : sdp }
+        });
+    }
+
+    private handleTrack(event: RTCTrackEvent) {
+        const [stream] = event.streams;
+        if (stream) {
+            this.options.onRemoteStream?.(stream);
+            return;
+        }
+
+        // Tracks sent without a stream, e.g. after replaceTrack on a fresh sender
+        if (!this.remoteStream) this.remoteStream = new MediaStream();
+        this.remoteStream.addTrack(event.track);
+        this.options.onRemoteStream?.(this.remoteStream);
+    }
+
+    // A new network path means new candidates, so both sides gather afresh
+    private handleNetworkChange = () => {
+        if (this.disposed || this.peer.connectionState === 'new' || this.peer.connectionState === 'closed') return;
+        console.log('Network changed, restarting ICE');
+        this.peer.restartIce();
+    };
+
+    private capAudioBitrate() {
+        const sender = this.peer.getSenders().find((s) => s.track && s.track.kind === 'audio');
+        if (!sender) return;
+
+        const parameters = sender.getParameters();
+        if (parameters.encodings && parameters.encodings[0]) {
+            parameters.encodings[0].maxBitrate = AUDIO_MAX_BITRATE;
+            sender.setParameters(parameters).catch((error) => {
+                console.warn('Could not cap audio bitrate:', error);
+            });
+        }
+    }
+
+    // Which candidate pair ICE settled on, from the connection's stats
+    private async reportConnection() {
+        const connectMs = this.callStartedAt ? Date.now() - this.callStartedAt : null;
+        this.callStartedAt = null;
+
+        try {
+            const stats = await this.peer.getStats();
+            const pair = this.selectedPair(stats);
+            const local = pair && stats.get(pair.localCandidateId);
+            const remote = pair && stats.get(pair.remoteCandidateId);
+            if (!local || !remote) return;
+
+            this.options.onConnectionReport?.({
+                localCandidateType: local.candidateType,
+                remoteCandidateType: remote.candidateType,
+                protocol: local.protocol,
+                relayProtocol: local.candidateType === 'relay' ? local.relayProtocol ?? null : null,
+                connectMs,
+            });
+        } catch (error) {
+            console.warn('Could not read connection stats:', error);
+        }
+    }
+
+    private selectedPair(stats: RTCStatsReport): RTCIceCandidatePairStats | undefined {
+        let pair: RTCIceCandidatePairStats | undefined;
+        stats.forEach((report) => {
+            if (report.type === 'transport' && report.selectedCandidatePairId) {
+                pair = stats.get(report.selectedCandidatePairId);
+            }
+        });
+        // Firefox has no transport stats but flags the pair itself
+        stats.forEach((report) => {
+            if (!pair && report.type === 'candidate-pair' && report.state === 'succeeded' && (report.selected || report.nominated)) {
+                pair = report;
+            }
+        });
+        return pair;
+    }
+
+    private startQualityMonitor() {
+        if (this.qualityTimer) return;
+        this.qualityTimer = setInterval(() => this.sampleQuality(), QUALITY_SAMPLE_INTERVAL_MS);
+    }
+
+    // Stop sampling and report the call's average, if it ever connected
+    private endQualityMonitor() {
+        if (this.qualityTimer) {
+            clearInterval(this.qualityTimer);
+            this.qualityTimer = null;
+        }
+
+        const samples = this.qualitySamples;
+        if (samples.length === 0) return;
+
+        const average = (values: (number | null)[]) => {
+            const known = values.filter((value): value is number => value !== null);
+            return known.length ? known.reduce((sum, value) => sum + value, 0) / known.length : null;
+        };
+        this.options.onQualityReport?.({
+            samples: samples.length,
+            score: Math.round(average(samples.map(({ score }) => score)) as number),
+            rttMs: average(samples.map(({ sample }) => sample.rttMs)),
+            packetLoss: average(samples.map(({ sample }) => sample.packetLoss)) as number,
+            jitterMs: average(samples.map(({ sample }) => sample.jitterMs)),
+            framesPerSecond: average(samples.map(({ sample }) => sample.framesPerSecond)),
+            audioOnlyFallback: this.fellBackToAudio,
+        });
+        this.qualitySamples = [];
+    }
+
+    private async sampleQuality() {
+        if (this.peer.connectionState !== 'connected') return;
+
+        try {
+            const stats = await this.peer.getStats();
+            const pair = this.selectedPair(stats);
+            let received = 0;
+            let lost = 0;
+            let jitterMs: number | null = null;
+            let framesPerSecond: number | null = null;
+
+            stats.forEach((report) => {
+                if (report.type !== 'inbound-rtp') return;
+                // Counters are cumulative, so loss is measured since the last sample
+                const previous = this.previousInbound.get(report.id);
+                const packetsReceived = report.packetsReceived ?? 0;
+                const packetsLost = Math.max(0, report.packetsLost ?? 0);
+                received += packetsReceived - (previous?.packetsReceived ?? 0);
+                lost += packetsLost - (previous?.packetsLost ?? 0);
+                this.previousInbound.set(report.id, { packetsReceived, packetsLost });
+
+                if (report.kind === 'audio' && typeof report.jitter === 'number') {
+                    jitterMs = report.jitter * 1000;
+                }
+                if (report.kind === 'video' && typeof report.framesPerSecond === 'number') {
+                    framesPerSecond = report.framesPerSecond;
+                }
+            });
+
+            const sample: QualitySample = {
+                rttMs: typeof pair?.currentRoundTripTime === 'number' ? pair.currentRoundTripTime * 1000 : null,
+                packetLoss: received + lost > 0 ? Math.max(0, lost) / (received + lost) : 0,
+                jitterMs,
+                framesPerSecond,
+            };
+            const score = scoreQuality(sample);
+            if (this.disposed) return;
+            this.qualitySamples.push({ sample, score });
+            await this.adaptSendLevel(score);
+
+            this.options.onQualityChange?.({
+                quality: rateQuality(score),
+                score,
+                sample,
+                audioOnly: SEND_LEVELS[this.sendLevel].level === 'audio_only',
+            });
+        } catch (error) {
+            console.warn('Could not sample call quality:', error);
+        }
+    }
+
+    /**
+     * Move our video one level toward what the link can carry, lowering
+     * resolution and bitrate first and pausing it only on very bad links
+     */
+    private async adaptSendLevel(score: number) {
+        const target = SEND_LEVELS.findIndex(({ minScore }) => score >= minScore);
+        if (target === this.sendLevel) {
+            this.levelVotes = 0;
+            return;
+        }
+
+        // Positive votes count toward stepping down, negative toward up
+        const direction = target > this.sendLevel ? 1 : -1;
+        this.levelVotes = Math.sign(this.levelVotes) === direction ? this.levelVotes + direction : direction;
+        if (Math.abs(this.levelVotes) < (direction > 0 ? STEP_DOWN_SAMPLES : STEP_UP_SAMPLES)) return;
+
+        const sender = this.peer.getSenders().find((s) => s.track && s.track.kind === 'video');
+        this.levelVotes = 0;
+        if (!sender) return;
+
+        const next = SEND_LEVELS[this.sendLevel + direction];
+        const parameters = sender.getParameters();
+        if (!parameters.encodings || parameters.encodings.length === 0) return;
+        parameters.encodings.forEach((encoding) => {
+            encoding.active = next.level !== 'audio_only';
+            encoding.scaleResolutionDownBy = next.scaleResolutionDownBy;
+            if (next.maxBitrate) {
+                encoding.maxBitrate = next.maxBitrate;
+            } else {
+                delete encoding.maxBitrate;
+            }
+        });
+
+        await sender.setParameters(parameters);
+        this.sendLevel += direction;
+        if (next.level === 'audio_only') this.fellBackToAudio = true;
+    }
+}
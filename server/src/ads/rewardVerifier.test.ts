@@ -0,0 +1,201 @@
+import { generateKeyPairSync, KeyObject, sign } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { coinsConfig } from "../config/coins";
+import { rewardsConfig } from "../config/rewards";
+import { spinWheelConfig } from "../config/spinWheel";
+import { AdRewardService } from "../services/adRewardService";
+import { CoinLedgerService } from "../services/coinLedgerService";
+import { RewardsService } from "../services/rewardsService";
+import { SpinWheelService } from "../services/spinWheelService";
+import { InMemoryDocumentStore } from "../store";
+import {
+  AdMobKey,
+  AdMobVerifier,
+  signUnityCallback,
+  UnityAdsVerifier,
+  VerifiedAdReward,
+} from "./rewardVerifier";
+
+const UNITY_SECRET = "unity-test-secret";
+const AD_UNIT = "2747237135";
+
+// AdMob's callback, signed the way AdMob signs it
+function admobCallback(privateKey: KeyObject, keyId: string, params: Record<string, string>) {
+  const query = new URLSearchParams(params).toString();
+  const signature = sign("sha256", Buffer.from(query), privateKey).toString("base64url");
+  return `${query}&signature=${signature}&key_id=${keyId}`;
+}
+
+function unityCallback(params: Record<string, string>) {
+  return { ...params, hmac: signUnityCallback(UNITY_SECRET, params) };
+}
+
+function setUp() {
+  const store = new InMemoryDocumentStore();
+  const ledger = new CoinLedgerService(store);
+  const rewards = new RewardsService(
+    store,
+    ledger,
+    rewardsConfig,
+    coinsConfig.prices.streak_freeze,
+  );
+  const spinWheel = new SpinWheelService(store, ledger, spinWheelConfig, rewards);
+  const adRewards = new AdRewardService(store, rewards, spinWheel, rewardsConfig.adSessionTtlMs);
+  return { ledger, adRewards };
+}
+
+describe("AdMobVerifier", () => {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  const key: AdMobKey = {
+    keyId: "1234",
+    pem: publicKey.export({ type: "spki", format: "pem" }) as string,
+  };
+  let loadKeys: ReturnType<typeof vi.fn<() => Promise<AdMobKey[]>>>;
+  let verifier: AdMobVerifier;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    loadKeys = vi.fn(async () => [key]);
+    verifier = new AdMobVerifier(new Set([AD_UNIT]), loadKeys);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const callback = (params: Record<string, string> = {}) =>
+    admobCallback(privateKey, key.keyId, {
+      ad_network: "5450213213286189855",
+      ad_unit: AD_UNIT,
+      custom_data: "session-1",
+      reward_amount: "1",
+      transaction_id: "impression-1",
+      user_id: "alice",
+      ...params,
+    });
+
+  it("accepts a callback signed with a published key", async () => {
+    expect(await verifier.verify(callback())).toEqual({
+      network: "admob",
+      impressionId: "impression-1",
+      uid: "alice",
+      customData: "session-1",
+    });
+  });
+
+  it("rejects a callback changed after signing", async () => {
+    const tampered = callback().replace("user_id=alice", "user_id=mallory");
+    expect(await verifier.verify(tampered)).toBeNull();
+  });
+
+  it("rejects a callback signed with a key AdMob did not publish", async () => {
+    const { privateKey: other } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+    const forged = admobCallback(other, key.keyId, {
+      ad_unit: AD_UNIT,
+      custom_data: "session-1",
+      transaction_id: "impression-1",
+      user_id: "alice",
+    });
+    expect(await verifier.verify(forged)).toBeNull();
+  });
+
+  it("rejects a callback for another app's ad unit", async () => {
+    expect(await verifier.verify(callback({ ad_unit: "9999999999" }))).toBeNull();
+  });
+
+  it("refreshes keys for unknown ids at most once a minute", async () => {
+    const unknown = () => callback().replace(`key_id=${key.keyId}`, "key_id=9999");
+
+    await verifier.verify(callback());
+    const flood = await Promise.all(Array.from({ length: 20 }, () => verifier.verify(unknown())));
+    expect(flood.every((reward) => reward === null)).toBe(true);
+    expect(loadKeys).toHaveBeenCalledTimes(1);
+
+    // A minute on, an unknown id may be a rotation, so it refreshes once more
+    vi.advanceTimersByTime(60 * 1000);
+    expect(await verifier.verify(unknown())).toBeNull();
+    expect(await verifier.verify(unknown())).toBeNull();
+    expect(loadKeys).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares one refresh between concurrent callbacks", async () => {
+    await Promise.all([verifier.verify(callback()), verifier.verify(callback())]);
+    expect(loadKeys).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("UnityAdsVerifier", () => {
+  const verifier = new UnityAdsVerifier(UNITY_SECRET);
+  const params = { sid: "alice:session-1", oid: "impression-1", productid: "1" };
+
+  it("accepts a callback signed with the shared secret", () => {
+    expect(verifier.verify(unityCallback(params))).toEqual({
+      network: "unity",
+      impressionId: "impression-1",
+      uid: "alice",
+      customData: "session-1",
+    });
+  });
+
+  it("rejects a callback changed after signing", () => {
+    const tampered = { ...unityCallback(params), sid: "mallory:session-1" };
+    expect(verifier.verify(tampered)).toBeNull();
+  });
+
+  it("rejects a callback signed with another secret", () => {
+    const forged = { ...params, hmac: signUnityCallback("guessed", params) };
+    expect(verifier.verify(forged)).toBeNull();
+  });
+});
+
+describe("verified ad rewards", () => {
+  let ledger: CoinLedgerService;
+  let adRewards: AdRewardService;
+
+  beforeEach(() => {
+    ({ ledger, adRewards } = setUp());
+  });
+
+  // Each network delivers its callback twice, as they do on retries
+  const replays: [string, (sessionId: string) => Promise<VerifiedAdReward | null>][] = [
+    [
+      "AdMob",
+      (() => {
+        const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+        const pem = publicKey.export({ type: "spki", format: "pem" }) as string;
+        const verifier = new AdMobVerifier(new Set([AD_UNIT]), async () => [{ keyId: "1", pem }]);
+        return (sessionId: string) =>
+          verifier.verify(
+            admobCallback(privateKey, "1", {
+              ad_unit: AD_UNIT,
+              custom_data: sessionId,
+              transaction_id: "impression-1",
+              user_id: "alice",
+            }),
+          );
+      })(),
+    ],
+    [
+      "Unity",
+      async (sessionId: string) =>
+        new UnityAdsVerifier(UNITY_SECRET).verify(
+          unityCallback({ sid: `alice:${sessionId}`, oid: "impression-1" }),
+        ),
+    ],
+  ];
+
+  it.each(replays)("credits a replayed %s impression once", async (_network, deliver) => {
+    const session = await adRewards.createSession("alice", "reward", undefined);
+
+    const first = await deliver(session.id);
+    const second = await deliver(session.id);
+    if (!first || !second) throw new Error("Callback did not verify");
+
+    expect((await adRewards.complete(first)).replayed).toBe(false);
+    expect(await adRewards.complete(second)).toMatchObject({
+      replayed: true,
+      session: { status: "credited", coins: rewardsConfig.adReward },
+    });
+    expect(await ledger.getBalance("alice")).toBe(rewardsConfig.adReward);
+  });
+});
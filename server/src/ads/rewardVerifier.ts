@@ -0,0 +1,190 @@
+import { createHmac, timingSafeEqual, verify } from "crypto";
+
+export type AdNetwork = "admob" | "unity" | "local";
+
+/**
+ * A rewarded ad the network itself says was watched to the end
+ */
+export interface VerifiedAdReward {
+  network: AdNetwork;
+  // The network's id for this impression; unique per network
+  impressionId: string;
+  uid: string;
+  // What the client attached when showing the ad: its ad session id
+  customData: string;
+}
+
+export interface AdMobKey {
+  keyId: string;
+  pem: string;
+}
+
+const ADMOB_KEYS_URL = "https://www.gstatic.com/admob/reward/verifier-keys.json";
+const ADMOB_KEYS_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// Unknown key ids come from whoever calls the endpoint, so they may only
+// trigger a refresh this often
+const ADMOB_KEYS_MIN_REFRESH_MS = 60 * 1000;
+
+async function fetchAdMobKeys(): Promise<AdMobKey[]> {
+  const response = await fetch(ADMOB_KEYS_URL);
+  if (!response.ok) {
+    throw new Error(`AdMob verifier keys request failed: ${response.status}`);
+  }
+  const { keys } = (await response.json()) as { keys: { keyId: number; pem: string }[] };
+  return keys.map(({ keyId, pem }) => ({ keyId: String(keyId), pem }));
+}
+
+/**
+ * AdMob server-side verification. AdMob signs the callback's query string,
+ * up to the signature parameter, with ECDSA over SHA-256 using one of the
+ * keys it publishes. Only callbacks for this app's own rewarded ad units
+ * count; AdMob signs other publishers' callbacks with the same keys.
+ */
+export class AdMobVerifier {
+  private keys = new Map<string, string>();
+  private keysLoadedAt = 0;
+  private refreshedAt = -Infinity;
+  private refreshing: Promise<void> | null = null;
+
+  // Tests pass their own keys to sign fixture callbacks with
+  constructor(
+    private readonly adUnits: ReadonlySet<string>,
+    private readonly loadKeys: () => Promise<AdMobKey[]> = fetchAdMobKeys,
+  ) {}
+
+  async verify(rawQuery: string): Promise<VerifiedAdReward | null> {
+    const signatureAt = rawQuery.indexOf("&signature=");
+    if (signatureAt < 0) return null;
+
+    const params = new URLSearchParams(rawQuery);
+    const signature = params.get("signature");
+    const keyId = params.get("key_id");
+    const impressionId = params.get("transaction_id");
+    const uid = params.get("user_id");
+    const customData = params.get("custom_data");
+    const adUnit = params.get("ad_unit");
+    if (!signature || !keyId || !impressionId || !uid || !customData) return null;
+    if (!adUnit || !this.adUnits.has(adUnit)) return null;
+
+    const pem = await this.getKey(keyId);
+    if (!pem) return null;
+
+    const signed = Buffer.from(rawQuery.slice(0, signatureAt));
+    try {
+      if (!verify("sha256", signed, pem, Buffer.from(signature, "base64url"))) return null;
+    } catch {
+      return null;
+    }
+    return { network: "admob", impressionId, uid, customData };
+  }
+
+  // Keys rotate, so an unknown key id triggers a refresh. Ids still unknown
+  // before the next refresh is allowed are rejected.
+  private async getKey(keyId: string): Promise<string | undefined> {
+    const stale = Date.now() - this.keysLoadedAt > ADMOB_KEYS_MAX_AGE_MS;
+    if (stale || !this.keys.has(keyId)) await this.refreshKeys();
+    return this.keys.get(keyId);
+  }
+
+  // Callers arriving while a refresh is in flight wait for it rather than
+  // starting another
+  private refreshKeys(): Promise<void> {
+    if (this.refreshing) return this.refreshing;
+    if (Date.now() - this.refreshedAt < ADMOB_KEYS_MIN_REFRESH_MS) return Promise.resolve();
+
+    this.refreshedAt = Date.now();
+    this.refreshing = this.loadKeys()
+      .then((keys) => {
+        this.keys = new Map(keys.map((key) => [key.keyId, key.pem]));
+        this.keysLoadedAt = Date.now();
+      })
+      .catch((error) => {
+        console.error("❌ Failed to load AdMob verifier keys:", error);
+      })
+      .finally(() => {
+        this.refreshing = null;
+      });
+    return this.refreshing;
+  }
+}
+
+/**
+ * The HMAC-MD5 Unity Ads signs server-to-server callbacks with: every other
+ * parameter, sorted by name and joined as name=value with commas
+ */
+export function signUnityCallback(secret: string, params: Record<string, string>): string {
+  const payload = Object.keys(params)
+    .filter((key) => key !== "hmac")
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join(",");
+  return createHmac("md5", secret).update(payload).digest("hex");
+}
+
+/**
+ * Unity Ads server-to-server callbacks. The client sets the server id
+ * (`sid`) to "uid:customData"; `oid` is the impression.
+ */
+export class UnityAdsVerifier {
+  constructor(private readonly secret: string) {}
+
+  verify(params: Record<string, string>): VerifiedAdReward | null {
+    const { sid, oid, hmac } = params;
+    if (!sid || !oid || !hmac) return null;
+
+    const expected = Buffer.from(signUnityCallback(this.secret, params));
+    const received = Buffer.from(hmac);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    const separator = sid.indexOf(":");
+    if (separator <= 0) return null;
+    return {
+      network: "unity",
+      impressionId: oid,
+      uid: sid.slice(0, separator),
+      customData: sid.slice(separator + 1),
+    };
+  }
+}
+
+export interface AdRewardVerifiers {
+  admob: AdMobVerifier;
+  // Null when no Unity Ads secret is configured
+  unity: UnityAdsVerifier | null;
+  // AD_VERIFICATION=local: clients may complete ads themselves, for development
+  local: boolean;
+}
+
+function readList(name: string): Set<string> {
+  return new Set(
+    (process.env[name] || "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean),
+  );
+}
+
+export function createAdRewardVerifiers(): AdRewardVerifiers {
+  const local = process.env.AD_VERIFICATION === "local" && process.env.NODE_ENV !== "production";
+  if (local) {
+    console.warn("⚠️ Ad rewards are completed by clients - do not use in production");
+  }
+
+  const { UNITY_ADS_SECRET } = process.env;
+  if (!UNITY_ADS_SECRET) {
+    console.warn("⚠️ UNITY_ADS_SECRET is not set - Unity Ads rewards are disabled");
+  }
+
+  const admobAdUnits = readList("ADMOB_REWARDED_AD_UNITS");
+  if (admobAdUnits.size === 0) {
+    console.warn("⚠️ ADMOB_REWARDED_AD_UNITS is not set - AdMob rewards are disabled");
+  }
+
+  return {
+    admob: new AdMobVerifier(admobAdUnits),
+    unity: UNITY_ADS_SECRET ? new UnityAdsVerifier(UNITY_ADS_SECRET) : null,
+    local,
+  };
+}
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from "express";
+
+export type AdminRole = "admin" | "moderator";
+
+function readUidList(name: string): Set<string> {
+  return new Set(
+    (process.env[name] || "")
+      .split(",")
+      .map((uid) => uid.trim())
+      .filter(Boolean),
+  );
+}
+
+const adminUids = readUidList("ADMIN_UIDS");
+const moderatorUids = readUidList("MODERATOR_UIDS");
+
+/**
+ * Resolve a user's console role from the `role` custom claim, falling back
+ * to the ADMIN_UIDS / MODERATOR_UIDS allowlists
+ */
+export function getAdminRole(
+  uid: string,
+  claims: Record<string, unknown> = {},
+): AdminRole | null {
+  if (claims.role === "admin" || adminUids.has(uid)) return "admin";
+  if (claims.role === "moderator" || moderatorUids.has(uid)) return "moderator";
+  return null;
+}
+
+/**
+ * Express guard to run after requireAuth. Sets `res.locals.role`.
+ */
+export function requireRole(...roles: AdminRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const role = getAdminRole(res.locals.uid, res.locals.claims);
+    if (!role || !roles.includes(role)) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    res.locals.role = role;
+    next();
+  };
+}
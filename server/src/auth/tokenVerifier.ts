@@ -0,0 +1,80 @@
+import { App } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirebaseAuthApp } from "../lib/firebaseAdmin";
+
+export interface VerifiedIdentity {
+  uid: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Turns a client-supplied token into a trusted identity, throwing if the
+ * token is invalid, expired or revoked
+ */
+export interface TokenVerifier {
+  verify(token: string): Promise<VerifiedIdentity>;
+}
+
+export class FirebaseTokenVerifier implements TokenVerifier {
+  constructor(
+    private readonly app: App,
+    // Revocation checks need a service account, so they are opt-in
+    private readonly checkRevoked = false,
+  ) {}
+
+  async verify(token: string): Promise<VerifiedIdentity> {
+    const decoded = await getAuth(this.app).verifyIdToken(
+      token,
+      this.checkRevoked,
+    );
+    const { uid, ...claims } = decoded;
+    return { uid, claims };
+  }
+}
+
+const LOCAL_TOKEN_PREFIX = "local:";
+
+/**
+ * Development and test stand-in that accepts tokens of the form
+ * `local:<uid>` without any signature check
+ */
+export class LocalTokenVerifier implements TokenVerifier {
+  async verify(token: string): Promise<VerifiedIdentity> {
+    if (!token.startsWith(LOCAL_TOKEN_PREFIX)) {
+      throw new Error("Invalid local token");
+    }
+
+    const uid = token.slice(LOCAL_TOKEN_PREFIX.length);
+    if (!uid) {
+      throw new Error("Invalid local token");
+    }
+
+    return { uid, claims: {} };
+  }
+}
+
+/**
+ * AUTH_VERIFIER=local selects the stand-in outside production; otherwise
+ * tokens are verified against Firebase
+ */
+export function createTokenVerifier(): TokenVerifier {
+  if (
+    process.env.AUTH_VERIFIER === "local" &&
+    process.env.NODE_ENV !== "production"
+  ) {
+    console.warn("⚠️ Using local token verifier - do not use in production");
+    return new LocalTokenVerifier();
+  }
+
+  const app = getFirebaseAuthApp();
+  if (!app) {
+    throw new Error(
+      "Firebase is not configured: set FIREBASE_SERVICE_ACCOUNT or FIREBASE_PROJECT_ID, or AUTH_VERIFIER=local for development",
+    );
+  }
+
+  return new FirebaseTokenVerifier(
+    app,
+    Boolean(process.env.FIREBASE_SERVICE_ACCOUNT || process.env.GOOGLE_APPLICATION_CREDENTIALS),
+  );
+}
@@ -0,0 +1,76 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Everything that can be bought with real money. Amounts are in the
+ * smallest currency unit (paise), which is what Razorpay expects.
+ */
+export type PremiumPlanId = "vip-weekly" | "pro-monthly" | "ultra-quarterly";
+
+/**
+ * What a plan entitles its subscriber to. Features are granted by tier,
+ * never by plan id, so plans can be repriced or added freely.
+ */
+export type PremiumTier = "vip" | "pro" | "ultra";
+
+// Higher ranks include everything below them; changing to a higher rank is an upgrade
+export const PREMIUM_TIER_RANK: Record<PremiumTier, number> = {
+  vip: 1,
+  pro: 2,
+  ultra: 3,
+};
+
+export interface PremiumPlan {
+  id: PremiumPlanId;
+  name: string;
+  tier: PremiumTier;
+  amount: number;
+  durationMs: number;
+}
+
+export interface CoinPack {
+  id: string;
+  name: string;
+  coins: number;
+  amount: number;
+}
+
+export interface Catalog {
+  currency: string;
+  premiumPlans: PremiumPlan[];
+  coinPacks: CoinPack[];
+}
+
+export const catalog: Catalog = {
+  currency: "INR",
+  premiumPlans: [
+    { id: "vip-weekly", name: "VIP Weekly", tier: "vip", amount: 9900, durationMs: 7 * DAY_MS },
+    {
+      id: "pro-monthly",
+      name: "Pro Monthly",
+      tier: "pro",
+      amount: 29900,
+      durationMs: 30 * DAY_MS,
+    },
+    {
+      id: "ultra-quarterly",
+      name: "ULTRA+ (3 Months)",
+      tier: "ultra",
+      amount: 89900,
+      durationMs: 90 * DAY_MS,
+    },
+  ],
+  coinPacks: [
+    { id: "starter", name: "Starter Pack", coins: 100, amount: 1900 },
+    { id: "popular", name: "Popular Pack", coins: 200, amount: 2900 },
+    { id: "mega", name: "Mega Pack", coins: 800, amount: 9900 },
+    { id: "ultimate", name: "Ultimate Pack", coins: 2000, amount: 19900 },
+  ],
+};
+
+export function findPremiumPlan(id: unknown): PremiumPlan | undefined {
+  return catalog.premiumPlans.find((plan) => plan.id === id);
+}
+
+export function findCoinPack(id: unknown): CoinPack | undefined {
+  return catalog.coinPacks.find((pack) => pack.id === id);
+}
@@ -0,0 +1,86 @@
+import { Feature } from "./entitlements";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export type ShopItemId =
+  | "filter_pass"
+  | "gender_filter_hour"
+  | "extra_chat_time"
+  | "wallpaper_pack"
+  | "face_filter_pack"
+  | "profile_boost";
+
+/**
+ * Something coins can buy: a feature for a while, without a plan. Buying
+ * an item that is still running adds to it rather than starting over.
+ */
+export interface ShopItem {
+  id: ShopItemId;
+  name: string;
+  description: string;
+  price: number;
+  feature: Feature;
+  durationMs: number;
+  // Matches the unlock lasts for; it also ends at durationMs if unused
+  matches?: number;
+}
+
+export interface CoinShopConfig {
+  items: ShopItem[];
+}
+
+export const coinShopConfig: CoinShopConfig = {
+  items: [
+    {
+      id: "filter_pass",
+      name: "Gender Filter Pass",
+      description: "Choose who you meet for your next 10 matches",
+      price: 40,
+      feature: "gender_filter",
+      durationMs: 7 * DAY_MS,
+      matches: 10,
+    },
+    {
+      id: "gender_filter_hour",
+      name: "Gender Filter Hour",
+      description: "Choose who you meet for an hour",
+      price: 30,
+      feature: "gender_filter",
+      durationMs: HOUR_MS,
+    },
+    {
+      id: "extra_chat_time",
+      name: "Extra Chat Time",
+      description: "Longer video calls for a day",
+      price: 50,
+      feature: "extended_calls",
+      durationMs: DAY_MS,
+    },
+    {
+      id: "wallpaper_pack",
+      name: "Premium Wallpapers",
+      description: "Every premium chat wallpaper for a week",
+      price: 60,
+      feature: "premium_wallpapers",
+      durationMs: 7 * DAY_MS,
+    },
+    {
+      id: "face_filter_pack",
+      name: "Premium Face Filters",
+      description: "Every premium face filter for a day",
+      price: 40,
+      feature: "premium_face_filters",
+      durationMs: DAY_MS,
+    },
+    {
+      id: "profile_boost",
+      name: "Profile Boost",
+      description: "Jump ahead in the match queue for 30 minutes",
+      price: 25,
+      feature: "queue_priority",
+      durationMs: 30 * MINUTE_MS,
+    },
+  ],
+};
@@ -0,0 +1,60 @@
+/**
+ * Why coins moved. Every ledger entry carries one of these.
+ */
+// Clients never credit themselves; the server grants each of these once it
+// has verified the purchase, referral, ad, reward or chat behind it
+export type CreditReason =
+  | "ad_reward"
+  | "daily_bonus"
+  | "streak_bonus"
+  | "spin"
+  | "chat_completion"
+  | "referral"
+  | "coin_pack"
+  // A streak freeze charged for but refused, because another purchase
+  // reached the limit first
+  | "streak_freeze_refund";
+
+export type DebitReason = "friendship" | "reveal_like" | "timer_extension" | "streak_freeze";
+
+// Coin shop items, priced per item in config/coinShop rather than here
+export type ShopReason = "shop_purchase";
+
+// Coins taken back when a purchase is refunded or charged back
+export type ReversalReason = "purchase_reversal";
+
+export type CoinReason = CreditReason | DebitReason | ShopReason | ReversalReason;
+
+export interface CoinsConfig {
+  // Coins for each side of a chat that lasted at least chatCompletionMinMs,
+  // by the server's session record and once per session, for up to
+  // maxChatCompletionsPerDay sessions a day. Sessions ended by a report earn
+  // nothing.
+  chatCompletionReward: number;
+  chatCompletionMinMs: number;
+  maxChatCompletionsPerDay: number;
+  // What each spend costs; clients must send exactly this amount
+  prices: Record<DebitReason, number>;
+  // Upper bound on history entries returned in one request
+  maxHistoryEntries: number;
+}
+
+export const coinsConfig: CoinsConfig = {
+  chatCompletionReward: 3,
+  chatCompletionMinMs: 30 * 1000,
+  maxChatCompletionsPerDay: 20,
+  prices: {
+    friendship: 20,
+    reveal_like: 10,
+    timer_extension: 10,
+    streak_freeze: 30,
+  },
+  maxHistoryEntries: 100,
+};
+
+const hasOwn = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+export function isDebitReason(value: unknown): value is DebitReason {
+  return typeof value === "string" && hasOwn(coinsConfig.prices, value);
+}
@@ -0,0 +1,122 @@
+import { PremiumTier } from "./catalog";
+import { DebitReason } from "./coins";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Everything premium or coins can unlock. Components and server checks ask
+ * for a feature, never for a plan or tier, so packaging changes only touch
+ * the table below.
+ */
+export type Feature =
+  | "gender_filter"
+  | "queue_priority"
+  | "extended_calls"
+  | "unlimited_calls"
+  | "unlimited_friends"
+  | "voice_only"
+  | "secret_chat"
+  | "photo_saving"
+  | "premium_wallpapers"
+  | "premium_face_filters"
+  | "reveal_likes"
+  | "typing_indicators"
+  | "read_receipts"
+  | "ad_free";
+
+export interface Entitlement {
+  // Tiers that include the feature
+  tiers: PremiumTier[];
+  // Users without it can pay for single uses, at the ledger price for this reason
+  coinUnlock?: DebitReason;
+  // What users without it get of a metered feature
+  freeAllowance?: number;
+}
+
+const ALL_TIERS: PremiumTier[] = ["vip", "pro", "ultra"];
+
+export const entitlements: Record<Feature, Entitlement> = {
+  gender_filter: { tiers: ALL_TIERS },
+  queue_priority: { tiers: ALL_TIERS },
+  // Either partner having it lengthens the call for both
+  extended_calls: { tiers: ALL_TIERS, coinUnlock: "timer_extension" },
+  unlimited_calls: { tiers: ["ultra"] },
+  // The allowance is a number of friends
+  unlimited_friends: { tiers: ALL_TIERS, freeAllowance: 3 },
+  voice_only: { tiers: ALL_TIERS },
+  secret_chat: { tiers: ALL_TIERS },
+  photo_saving: { tiers: ALL_TIERS },
+  premium_wallpapers: { tiers: ALL_TIERS },
+  premium_face_filters: { tiers: ["ultra"] },
+  reveal_likes: { tiers: ALL_TIERS, coinUnlock: "reveal_like" },
+  typing_indicators: { tiers: ["pro", "ultra"] },
+  read_receipts: { tiers: ["pro", "ultra"] },
+  ad_free: { tiers: ALL_TIERS },
+};
+
+export interface CallLimitsConfig {
+  // Video calls between two users without extended_calls
+  freeMs: number;
+  // Calls where either partner has extended_calls
+  extendedMs: number;
+  // Added to the pair's deadline by each timer_extension coin unlock
+  extensionMs: number;
+  // Time past the deadline to wrap up (e.g. add each other as friends)
+  // before the server ends the call itself
+  wrapUpMs: number;
+}
+
+export const callLimits: CallLimitsConfig = {
+  freeMs: 15 * MINUTE_MS,
+  extendedMs: 30 * MINUTE_MS,
+  extensionMs: 7 * MINUTE_MS,
+  wrapUpMs: MINUTE_MS,
+};
+
+// When each feature bought in the coin shop runs out
+export type FeatureUnlocks = Partial<Record<Feature, number>>;
+
+// Anyone whose features come from a plan and the coin shop, e.g. a ConnectedUser
+export interface FeatureHolder {
+  premiumTier: PremiumTier | null;
+  featureUnlocks?: FeatureUnlocks;
+}
+
+export function isEntitled(tier: PremiumTier | null | undefined, feature: Feature): boolean {
+  return !!tier && entitlements[feature].tiers.includes(tier);
+}
+
+export function isUnlocked(
+  unlocks: FeatureUnlocks | undefined,
+  feature: Feature,
+  now = Date.now(),
+): boolean {
+  return (unlocks?.[feature] || 0) > now;
+}
+
+/**
+ * Whether a user has a feature, through their plan or a coin shop unlock
+ */
+export function hasFeature(
+  holder: FeatureHolder | null | undefined,
+  feature: Feature,
+  now = Date.now(),
+): boolean {
+  return (
+    !!holder &&
+    (isEntitled(holder.premiumTier, feature) || isUnlocked(holder.featureUnlocks, feature, now))
+  );
+}
+
+/**
+ * How long a video call between these two users may run, or null when it
+ * is unlimited
+ */
+export function callLimitMs(
+  a: FeatureHolder | null | undefined,
+  b: FeatureHolder | null | undefined,
+): number | null {
+  const either = (feature: Feature) => hasFeature(a, feature) || hasFeature(b, feature);
+  if (either("unlimited_calls")) return null;
+  return either("extended_calls") ? callLimits.extendedMs : callLimits.freeMs;
+}
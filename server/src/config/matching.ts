@@ -0,0 +1,44 @@
+/**
+ * Matching configuration
+ *
+ * All durations are in milliseconds. A relax delay of 0 disables that
+ * relaxation step entirely; likewise 0 disables the wait limit, rematch
+ * cooldown, premium head start and call resumption.
+ */
+export interface MatchingConfig {
+  // Drop the same-language requirement after waiting this long
+  relaxLanguageAfterMs: number;
+  // Stop honouring gender filters after waiting this long
+  relaxGenderAfterMs: number;
+  // How often waiting users are re-evaluated against each other
+  sweepIntervalMs: number;
+  // Waiters are taken out of the queue and told to retry after this long
+  maxWaitMs: number;
+  // The same two users are not matched again until this long after their last match
+  rematchCooldownMs: number;
+  // Premium users are queued as if they had joined this much earlier. A
+  // bounded head start means free users who wait longer still go first.
+  premiumHeadStartMs: number;
+  // A video call one side drops out of is held this long for it to come
+  // back on a new socket, e.g. after switching from Wi-Fi to mobile data
+  resumeGraceMs: number;
+}
+
+function readDuration(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export const matchingConfig: MatchingConfig = {
+  relaxLanguageAfterMs: readDuration("MATCH_RELAX_LANGUAGE_MS", 15_000),
+  // Gender filters are a paid feature, so they are never relaxed unless configured
+  relaxGenderAfterMs: readDuration("MATCH_RELAX_GENDER_MS", 0),
+  sweepIntervalMs: readDuration("MATCH_SWEEP_INTERVAL_MS", 3_000),
+  maxWaitMs: readDuration("MATCH_MAX_WAIT_MS", 120_000),
+  rematchCooldownMs: readDuration("MATCH_REMATCH_COOLDOWN_MS", 60_000),
+  premiumHeadStartMs: readDuration("MATCH_PREMIUM_HEAD_START_MS", 10_000),
+  resumeGraceMs: readDuration("MATCH_RESUME_GRACE_MS", 30_000),
+};
@@ -0,0 +1,45 @@
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * A temporary ban applied once a user has been reported by at least
+ * `reporters` distinct users within `windowMs`
+ */
+export interface SuspensionRule {
+  reporters: number;
+  windowMs: number;
+  banMs: number;
+}
+
+/**
+ * Misbehaviour detected by the server itself adds to a per-user score.
+ * Scores decay as events fall out of `windowMs`.
+ */
+export interface AbuseConfig {
+  windowMs: number;
+  // Relaying signaling or messages to someone who is not your partner
+  relayViolationScore: number;
+  // Sockets are dropped once the account reaches this score
+  disconnectScore: number;
+}
+
+export interface ModerationConfig {
+  // Checked from the harshest rule down; the first one that applies wins
+  suspensionRules: SuspensionRule[];
+  maxReasonLength: number;
+  abuse: AbuseConfig;
+}
+
+export const moderationConfig: ModerationConfig = {
+  suspensionRules: [
+    { reporters: 10, windowMs: 7 * DAY_MS, banMs: 7 * DAY_MS },
+    { reporters: 5, windowMs: DAY_MS, banMs: DAY_MS },
+    { reporters: 3, windowMs: HOUR_MS, banMs: HOUR_MS },
+  ],
+  maxReasonLength: 500,
+  abuse: {
+    windowMs: HOUR_MS,
+    relayViolationScore: 1,
+    disconnectScore: 20,
+  },
+};
@@ -0,0 +1,18 @@
+export interface ReferralConfig {
+  // Characters codes are drawn from; no 0/O or 1/I so they can be read aloud
+  codeAlphabet: string;
+  codeLength: number;
+  // Coins for each side once the referee has onboarded and had a first chat
+  referrerReward: number;
+  refereeReward: number;
+  // A session, in any mode, must last this long to count as the referee's first chat
+  minChatMs: number;
+}
+
+export const referralConfig: ReferralConfig = {
+  codeAlphabet: "ABCDEFGHJKLMNPQRSTUVWXYZ23456789",
+  codeLength: 8,
+  referrerReward: 25,
+  refereeReward: 25,
+  minChatMs: 60 * 1000,
+};
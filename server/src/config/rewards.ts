@@ -0,0 +1,38 @@
+export interface StreakMilestone {
+  // Reached on the claim that makes the streak this long
+  days: number;
+  bonus: number;
+}
+
+export interface RewardsConfig {
+  dailyBonus: number;
+  streakMilestones: StreakMilestone[];
+  adReward: number;
+  maxAdsPerDay: number;
+  // How long an ad network has to confirm a rewarded ad after it is shown
+  adSessionTtlMs: number;
+  // Freezes cover one missed day each; bought with coins at the
+  // streak_freeze ledger price
+  maxStreakFreezes: number;
+  // Days are counted in this zone until the client reports its own
+  defaultTimeZone: string;
+  // How often a user may move their day boundary, so hopping time zones
+  // cannot claim the same day twice
+  timeZoneChangeIntervalMs: number;
+}
+
+export const rewardsConfig: RewardsConfig = {
+  dailyBonus: 5,
+  streakMilestones: [
+    { days: 3, bonus: 20 },
+    { days: 7, bonus: 50 },
+    { days: 14, bonus: 100 },
+    { days: 30, bonus: 250 },
+  ],
+  adReward: 10,
+  maxAdsPerDay: 3,
+  adSessionTtlMs: 60 * 60 * 1000,
+  maxStreakFreezes: 2,
+  defaultTimeZone: "Asia/Kolkata",
+  timeZoneChangeIntervalMs: 7 * 24 * 60 * 60 * 1000,
+};
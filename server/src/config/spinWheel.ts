@@ -0,0 +1,29 @@
+export interface SpinSegment {
+  id: string;
+  label: string;
+  coins: number;
+  // Relative odds: a segment comes up weight / total weight of the time
+  weight: number;
+  // Winnings are credited only once a rewarded ad has been watched
+  requiresAd: boolean;
+}
+
+export interface SpinWheelConfig {
+  // In wheel order, clockwise from the pointer
+  segments: SpinSegment[];
+  maxSpinsPerDay: number;
+  // How long a win that needs an ad can still be claimed
+  adClaimWindowMs: number;
+}
+
+export const spinWheelConfig: SpinWheelConfig = {
+  segments: [
+    { id: "coins_10", label: "10 Coins", coins: 10, weight: 50, requiresAd: true },
+    { id: "try_again", label: "Try Again", coins: 0, weight: 25, requiresAd: false },
+    { id: "coins_20", label: "20 Coins", coins: 20, weight: 15, requiresAd: true },
+    { id: "better_luck", label: "Better Luck", coins: 0, weight: 7, requiresAd: false },
+    { id: "jackpot", label: "JACKPOT!", coins: 50, weight: 3, requiresAd: true },
+  ],
+  maxSpinsPerDay: 3,
+  adClaimWindowMs: 60 * 60 * 1000,
+};
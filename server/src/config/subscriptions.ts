@@ -0,0 +1,48 @@
+import { PremiumTier } from "./catalog";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// What a free trial was granted for; each source grants its own length.
+// Accounts that signed up with a referral code get a referral trial.
+export type TrialSource = "prompt" | "referral";
+
+export interface TrialConfig {
+  tier: PremiumTier;
+  durationsMs: Record<TrialSource, number>;
+  // Conversion prompts go out once at each of these lead times before the trial ends
+  reminderLeadTimesMs: number[];
+}
+
+export interface SubscriptionConfig {
+  // Premium is kept this long after an auto-renewing period ends with its
+  // renewal payment failed
+  gracePeriodMs: number;
+  // Users are reminded once at each of these lead times before their period ends
+  reminderLeadTimesMs: number[];
+  // How often subscriptions are checked for lapsed periods and due reminders
+  sweepIntervalMs: number;
+  // Razorpay's minimum order, charged when upgrade credit covers nearly all of the new plan
+  minChargeAmount: number;
+  // How long a checkout's price holds; upgrade credit paid for later is
+  // worth what it was when this window closed
+  quoteValidityMs: number;
+  // One per account; swept along with subscriptions
+  trial: TrialConfig;
+}
+
+export const subscriptionConfig: SubscriptionConfig = {
+  gracePeriodMs: 3 * DAY_MS,
+  reminderLeadTimesMs: [3 * DAY_MS, DAY_MS],
+  sweepIntervalMs: 10 * 60 * 1000,
+  minChargeAmount: 100,
+  quoteValidityMs: HOUR_MS,
+  trial: {
+    tier: "pro",
+    durationsMs: {
+      prompt: 7 * DAY_MS,
+      referral: DAY_MS,
+    },
+    reminderLeadTimesMs: [DAY_MS, 2 * HOUR_MS],
+  },
+};
@@ -0,0 +1,28 @@
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface WebRtcConfig {
+  stunUrls: string[];
+  // coturn servers running with `use-auth-secret`; TURN is offered only
+  // once both the urls and the shared secret are set
+  turnUrls: string[];
+  turnSecret: string | null;
+  // How long issued TURN credentials stay valid; a call keeps its relay
+  // allocation past this, but cannot start a new one
+  credentialTtlMs: number;
+}
+
+function readList(name: string): string[] {
+  return (process.env[name] || "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+export const webRtcConfig: WebRtcConfig = {
+  stunUrls: readList("STUN_URLS").length
+    ? readList("STUN_URLS")
+    : ["stun:stun.l.google.com:19302", "stun:global.stun.twilio.com:3478"],
+  turnUrls: readList("TURN_URLS"),
+  turnSecret: process.env.TURN_SECRET || null,
+  credentialTtlMs: Number(process.env.TURN_CREDENTIAL_TTL_MS) || 6 * HOUR_MS,
+};
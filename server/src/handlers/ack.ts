@@ -0,0 +1,14 @@
+export interface AckResponse {
+  success: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+export type Ack = (response: AckResponse) => void;
+
+/**
+ * Reply to a socket event if the client asked for an acknowledgement
+ */
+export function respond(ack: unknown, response: AckResponse): void {
+  if (typeof ack === "function") ack(response);
+}
@@ -0,0 +1,72 @@
+import { Socket } from "socket.io";
+import { ConnectedUser } from "../types";
+import { BlockService } from "../services/blockService";
+import { Ack, respond } from "./ack";
+
+interface BlockHandlerDeps {
+  blockService: BlockService;
+  getUser: (socketId: string) => Promise<ConnectedUser | undefined>;
+  getPartnerId: (socketId: string) => Promise<string | undefined>;
+  // Ends the current match without notifying the blocker
+  endMatch: (socketId: string) => Promise<void>;
+  // Refresh the blocked uids held on every socket of this account
+  onBlocksChanged: (uid: string) => Promise<void>;
+}
+
+/**
+ * Block list socket API: block the current partner, list and unblock
+ */
+export function registerBlockHandlers(socket: Socket, deps: BlockHandlerDeps) {
+  const { blockService, getUser, getPartnerId, endMatch, onBlocksChanged } = deps;
+  const uid: string = socket.data.uid;
+
+  socket.on("block:partner", async (_data: unknown, ack?: Ack) => {
+    try {
+      const partnerId = await getPartnerId(socket.id);
+      const partnerUid = partnerId ? (await getUser(partnerId))?.uid : undefined;
+      if (!partnerUid) {
+        respond(ack, { success: false, error: "No partner to block" });
+        return;
+      }
+
+      await blockService.block(uid, partnerUid);
+      await onBlocksChanged(uid);
+      await endMatch(socket.id);
+      console.log(`🚫 ${uid} blocked ${partnerUid}`);
+      respond(ack, { success: true });
+    } catch (error) {
+      console.error("❌ Error blocking user:", error);
+      respond(ack, { success: false, error: "Failed to block user" });
+    }
+  });
+
+  socket.on("blocks:list", async (_data: unknown, ack?: Ack) => {
+    try {
+      const blocks = await blockService.list(uid);
+      respond(ack, {
+        success: true,
+        blocks: blocks.map(({ blockedUid, createdAt }) => ({ blockedUid, createdAt })),
+      });
+    } catch (error) {
+      console.error("❌ Error listing blocks:", error);
+      respond(ack, { success: false, error: "Failed to load blocked users" });
+    }
+  });
+
+  socket.on("blocks:remove", async (data: { blockedUid?: unknown }, ack?: Ack) => {
+    const blockedUid = data?.blockedUid;
+    if (typeof blockedUid !== "string") {
+      respond(ack, { success: false, error: "Invalid unblock request" });
+      return;
+    }
+
+    try {
+      await blockService.unblock(uid, blockedUid);
+      await onBlocksChanged(uid);
+      respond(ack, { success: true });
+    } catch (error) {
+      console.error("❌ Error unblocking user:", error);
+      respond(ack, { success: false, error: "Failed to unblock user" });
+    }
+  });
+}
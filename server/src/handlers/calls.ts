@@ -0,0 +1,115 @@
+import { Socket } from "socket.io";
+import { ConnectedUser, MatchRef } from "../types";
+import { CoinLedgerService, LedgerError, isIdempotencyKey } from "../services/coinLedgerService";
+import { CallTelemetryService } from "../services/callTelemetryService";
+import { ResumeError, ResumedCall } from "../matching/callResumption";
+import { Ack, respond } from "./ack";
+
+interface CallHandlerDeps {
+  ledger: CoinLedgerService;
+  callTelemetry: CallTelemetryService;
+  // What one timer_extension costs
+  extensionPrice: number;
+  extensionMs: number;
+  getUser: (socketId: string) => Promise<ConnectedUser | undefined>;
+  getPartnerId: (socketId: string) => Promise<string | undefined>;
+  getLastMatch: (socketId: string) => Promise<MatchRef | undefined>;
+  // Push back the deadline shared by both partners and tell them; returns the new deadline
+  extendCall: (socketId: string, partnerId: string, extensionMs: number) => Promise<number>;
+  // Take over the call this account's previous socket dropped out of
+  resumeCall: (token: unknown) => Promise<ResumedCall>;
+}
+
+/**
+ * Video call time limits: partners without extended_calls can buy more time
+ * with coins. The deadline itself is set and enforced by the server. Clients
+ * also report how each call connected, for TURN telemetry, and how well it
+ * went. A client whose socket reconnected mid-call resumes it here.
+ */
+export function registerCallHandlers(socket: Socket, deps: CallHandlerDeps) {
+  const { ledger, extensionPrice, extensionMs, getUser, getPartnerId, extendCall } = deps;
+  const uid: string = socket.data.uid;
+
+  socket.on("call:extend", async (data: { idempotencyKey?: unknown }, ack?: Ack) => {
+    const idempotencyKey = data?.idempotencyKey;
+    if (!isIdempotencyKey(idempotencyKey)) {
+      respond(ack, { success: false, error: "invalid_idempotency_key" });
+      return;
+    }
+
+    try {
+      const [user, partnerId] = await Promise.all([getUser(socket.id), getPartnerId(socket.id)]);
+      if (!partnerId || !user?.callEndsAt) {
+        respond(ack, { success: false, error: "no_timed_call" });
+        return;
+      }
+
+      const { replayed } = await ledger.debit(uid, extensionPrice, "timer_extension", idempotencyKey);
+      // A retried request was already paid for and applied
+      const endsAt = replayed
+        ? user.callEndsAt
+        : await extendCall(socket.id, partnerId, extensionMs);
+
+      respond(ack, {
+        success: true,
+        remainingMs: Math.max(0, endsAt - Date.now()),
+        balance: await ledger.getBalance(uid),
+      });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        respond(ack, { success: false, error: error.code });
+        return;
+      }
+      console.error("❌ Error extending call:", error);
+      respond(ack, { success: false, error: "Failed to extend call" });
+    }
+  });
+
+  socket.on("call:resume", async (data: { token?: unknown }, ack?: Ack) => {
+    try {
+      const { partnerId, remainingMs } = await deps.resumeCall(data?.token);
+      respond(ack, { success: true, partnerId, remainingMs });
+    } catch (error) {
+      if (error instanceof ResumeError) {
+        respond(ack, { success: false, error: error.code });
+        return;
+      }
+      console.error("❌ Error resuming call:", error);
+      respond(ack, { success: false, error: "Failed to resume call" });
+    }
+  });
+
+  // Sent once ICE has picked a candidate pair, and again after a restart
+  socket.on("call:connection", async (report: unknown, ack?: Ack) => {
+    try {
+      const match = await deps.getLastMatch(socket.id);
+      if (!match) {
+        respond(ack, { success: false, error: "no_call" });
+        return;
+      }
+
+      const recorded = await deps.callTelemetry.recordConnection(uid, match.sessionId, report);
+      respond(ack, recorded ? { success: true } : { success: false, error: "invalid_report" });
+    } catch (error) {
+      console.error("❌ Error recording call connection:", error);
+      respond(ack, { success: false, error: "Failed to record call connection" });
+    }
+  });
+
+  // Sent when a call that connected ends, with its quality averages
+  socket.on("call:quality", async (report: unknown, ack?: Ack) => {
+    try {
+      const match = await deps.getLastMatch(socket.id);
+      if (!match) {
+        respond(ack, { success: false, error: "no_call" });
+        return;
+      }
+
+      const recorded = await deps.callTelemetry.recordQuality(uid, match.sessionId, report);
+      respond(ack, recorded ? { success: true } : { success: false, error: "invalid_report" });
+    } catch (error) {
+      console.error("❌ Error recording call quality:", error);
+      respond(ack, { success: false, error: "Failed to record call quality" });
+    }
+  });
+}
@@ -0,0 +1,65 @@
+import { Socket } from "socket.io";
+import { MatchRef } from "../types";
+import { ReportService } from "../services/reportService";
+import { CallSessionService } from "../services/callSessionService";
+import { BanRecord } from "../services/banService";
+import { Ack, respond } from "./ack";
+
+interface ReportHandlerDeps {
+  reportService: ReportService;
+  callSessions: CallSessionService;
+  // The current match, or the last one if the user has already moved on
+  getLastMatch: (socketId: string) => Promise<MatchRef | undefined>;
+  onBanned: (ban: BanRecord) => Promise<void>;
+}
+
+/**
+ * Report intake: reports always target the other side of the reporter's
+ * current or most recent session, as the server recorded it, so clients
+ * cannot report arbitrary users
+ */
+export function registerReportHandlers(socket: Socket, deps: ReportHandlerDeps) {
+  const { reportService, callSessions, getLastMatch, onBanned } = deps;
+
+  socket.on(
+    "report",
+    async (data: { reason?: unknown; description?: unknown }, ack?: Ack) => {
+      const reason = typeof data?.reason === "string" ? data.reason.trim() : "";
+      if (!reason) {
+        respond(ack, { success: false, error: "A reason is required" });
+        return;
+      }
+
+      try {
+        const match = await getLastMatch(socket.id);
+        const session =
+          match && (await callSessions.markReported(socket.data.uid, match.sessionId));
+        if (!session) {
+          respond(ack, { success: false, error: "No one to report" });
+          return;
+        }
+
+        const [first, second] = session.uids;
+        const reportedUid = first === socket.data.uid ? second : first;
+        const { ban } = await reportService.submit({
+          reporterUid: socket.data.uid,
+          reportedUid,
+          sessionId: session.id,
+          reason,
+          description:
+            typeof data.description === "string" ? data.description.trim() : "",
+        });
+
+        console.log(`🚩 ${socket.data.uid} reported ${reportedUid}: ${reason}`);
+        respond(ack, { success: true });
+
+        if (ban) {
+          await onBanned(ban);
+        }
+      } catch (error) {
+        console.error("❌ Error submitting report:", error);
+        respond(ack, { success: false, error: "Failed to submit report" });
+      }
+    },
+  );
+}
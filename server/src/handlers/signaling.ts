@@ -0,0 +1,98 @@
+import { Socket } from "socket.io";
+
+interface SignalingHandlerDeps {
+  getPartnerId: (socketId: string) => Promise<string | undefined>;
+  // The partner from the match that just ended, whose late events are expected
+  getPreviousPartnerId: (socketId: string) => Promise<string | undefined>;
+  emitTo: (socketId: string, event: string, payload: unknown) => void;
+  onViolation: (event: string, target: unknown) => void;
+}
+
+/**
+ * WebRTC signaling and in-call relays. Everything is forwarded only to the
+ * sender's current partner; other targets are dropped.
+ */
+export function registerSignalingHandlers(socket: Socket, deps: SignalingHandlerDeps) {
+  const { getPartnerId, getPreviousPartnerId, emitTo, onViolation } = deps;
+
+  const forward = async (
+    event: string,
+    target: unknown,
+    outgoing: string,
+    payload: Record<string, unknown>,
+  ) => {
+    const partnerId = await getPartnerId(socket.id);
+    if (partnerId && target === partnerId) {
+      emitTo(partnerId, outgoing, payload);
+      return;
+    }
+
+    // ICE candidates and messages still in flight when a match ends are not abuse
+    if (target !== undefined && target === (await getPreviousPartnerId(socket.id))) return;
+
+    onViolation(event, target);
+  };
+
+  const relay = (
+    event: string,
+    target: unknown,
+    outgoing: string,
+    payload: Record<string, unknown>,
+  ) => {
+    forward(event, target, outgoing, payload).catch((error) => {
+      console.error(`❌ Error relaying ${event}:`, error);
+    });
+  };
+
+  socket.on("offer", ({ offer, to } = {}) => {
+    relay("offer", to, "offer", { offer, from: socket.id });
+  });
+
+  socket.on("answer", ({ answer, to } = {}) => {
+    relay("answer", to, "answer", { answer, from: socket.id });
+  });
+
+  socket.on("ice-candidate", ({ candidate, to } = {}) => {
+    relay("ice-candidate", to, "ice-candidate", { candidate, from: socket.id });
+  });
+
+  // Handle peer negotiation
+  socket.on("peer:nego:needed", ({ offer, targetChatToken } = {}) => {
+    relay("peer:nego:needed", targetChatToken, "peer:nego:needed", {
+      offer,
+      from: socket.id,
+    });
+  });
+
+  socket.on("peer:nego:done", ({ answer, to } = {}) => {
+    relay("peer:nego:done", to, "peer:nego:final", { answer, from: socket.id });
+  });
+
+  // Handle messages
+  socket.on(
+    "send:message",
+    ({ message, targetChatToken, isSecret, messageId } = {}) => {
+      relay("send:message", targetChatToken, "message:recieved", {
+        message,
+        from: socket.id,
+        isSecret: isSecret || false,
+        messageId,
+      });
+    },
+  );
+
+  // Handle premium status sharing
+  socket.on("send:premium:status", ({ isPremium, targetChatToken } = {}) => {
+    relay("send:premium:status", targetChatToken, "partner:premium:status", {
+      isPremium,
+    });
+  });
+
+  // Handle stay connected requests
+  socket.on("stay:connected:response", ({ wantToStay, targetChatToken } = {}) => {
+    relay("stay:connected:response", targetChatToken, "stay:connected:response", {
+      wantToStay,
+      from: socket.id,
+    });
+  });
+}
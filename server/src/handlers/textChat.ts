@@ -0,0 +1,68 @@
+import { Socket } from "socket.io";
+import { TextChatRooms } from "../matching/textChat";
+import { BanRecord, BanService } from "../services/banService";
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+interface TextChatHandlerDeps {
+  textChat: TextChatRooms;
+  banService: BanService;
+  enforceBan: (ban: BanRecord) => Promise<void>;
+}
+
+/**
+ * Text chat socket API used by the ChatPage screen
+ */
+export function registerTextChatHandlers(socket: Socket, deps: TextChatHandlerDeps) {
+  const { textChat, banService, enforceBan } = deps;
+
+  socket.on("start-text-chat", async () => {
+    try {
+      if (await textChat.isActive(socket.id)) return;
+
+      // Bans can start after the user connected
+      const ban = await banService.getActiveBan(socket.data.uid);
+      if (ban) {
+        await enforceBan(ban);
+        return;
+      }
+
+      // Does nothing if the socket left while the ban check was running
+      await textChat.join(socket.id);
+    } catch (error) {
+      console.error("❌ Error starting text chat:", error);
+    }
+  });
+
+  const relayToPartner = (event: string, payload?: unknown) => {
+    textChat.relay(socket.id, event, payload).catch((error) => {
+      console.error(`❌ Error relaying ${event}:`, error);
+    });
+  };
+
+  socket.on("send-chat-message", (message: unknown) => {
+    if (typeof message !== "string") return;
+
+    const text = message.trim().slice(0, MAX_MESSAGE_LENGTH);
+    if (!text) return;
+
+    relayToPartner("chat-message", {
+      message: text,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  socket.on("typing", () => {
+    relayToPartner("partner-typing");
+  });
+
+  // Leaving hands the partner a new match, the same as a video skip
+  socket.on("stop-chat", async () => {
+    try {
+      await textChat.leave(socket.id);
+    } catch (error) {
+      console.error("❌ Error leaving text chat:", error);
+    }
+    socket.emit("chat-disconnected");
+  });
+}
@@ -0,0 +1,66 @@
+import { Socket } from "socket.io";
+
+// Clients refresh typing:start while typing, so a silent client has stopped
+const TYPING_EXPIRY_MS = 5000;
+
+interface TypingHandlerDeps {
+  getPartnerId: (socketId: string) => Promise<string | undefined>;
+  emitTo: (socketId: string, event: string) => void;
+}
+
+/**
+ * Typing indicator relay for in-call chat. Only the current partner is
+ * notified, and an indicator the client never clears expires on its own.
+ */
+export function registerTypingHandlers(socket: Socket, deps: TypingHandlerDeps) {
+  const { getPartnerId, emitTo } = deps;
+  let typingTo: string | null = null;
+  let expiry: NodeJS.Timeout | null = null;
+
+  const stop = async () => {
+    if (expiry) clearTimeout(expiry);
+    expiry = null;
+
+    const target = typingTo;
+    typingTo = null;
+
+    // Don't clear the indicator for whoever the old partner is talking to now
+    if (target && (await getPartnerId(socket.id)) === target) {
+      emitTo(target, "typing:end");
+    }
+  };
+
+  const endTyping = () => {
+    stop().catch((error) => {
+      console.error("❌ Error clearing typing indicator:", error);
+    });
+  };
+
+  socket.on("typing:start", async (data: { targetChatToken?: unknown }) => {
+    try {
+      const partnerId = await getPartnerId(socket.id);
+      if (!partnerId || data?.targetChatToken !== partnerId) return;
+
+      if (typingTo !== partnerId) {
+        await stop();
+        typingTo = partnerId;
+        emitTo(partnerId, "typing:start");
+      }
+
+      if (expiry) clearTimeout(expiry);
+      expiry = setTimeout(endTyping, TYPING_EXPIRY_MS);
+    } catch (error) {
+      console.error("❌ Error relaying typing:start:", error);
+    }
+  });
+
+  socket.on("typing:end", (data: { targetChatToken?: unknown }) => {
+    if (typingTo && data?.targetChatToken === typingTo) {
+      endTyping();
+    }
+  });
+
+  socket.on("disconnect", () => {
+    if (expiry) clearTimeout(expiry);
+  });
+}
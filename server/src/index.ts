@@ -2,6 +2,84 @@ import express from "express";
 import { createServer } from "http";
 import { Server } from "socket.io";
 import cors from "cors";
+import { randomUUID } from "crypto";
+import { Channel, ConnectedUser, SuspendedCall } from "./types";
+import { matchingConfig } from "./config/matching";
+import { moderationConfig } from "./config/moderation";
+import { coinsConfig } from "./config/coins";
+import { catalog } from "./config/catalog";
+import { subscriptionConfig } from "./config/subscriptions";
+import {
+  FeatureUnlocks,
+  callLimitMs,
+  callLimits,
+  isEntitled,
+  isUnlocked,
+} from "./config/entitlements";
+import { referralConfig } from "./config/referrals";
+import { rewardsConfig } from "./config/rewards";
+import { spinWheelConfig } from "./config/spinWheel";
+import { coinShopConfig } from "./config/coinShop";
+import { webRtcConfig } from "./config/webrtc";
+import { Matchmaker } from "./matching/matchmaker";
+import { MatchQueue } from "./matching/matchQueue";
+import { TextChatRooms } from "./matching/textChat";
+import { CallResumption } from "./matching/callResumption";
+import { normalizeProfile } from "./matching/profile";
+import { createDocumentStore } from "./store";
+import {
+  HEARTBEAT_INTERVAL_MS,
+  createMatchState,
+  createRedisClient,
+  useRedisAdapter,
+} from "./state";
+import { BlockService } from "./services/blockService";
+import { BanRecord, BanService } from "./services/banService";
+import { ReportService } from "./services/reportService";
+import { ProfileService } from "./services/profileService";
+import { AuditLogService } from "./services/auditLogService";
+import { AbuseService } from "./services/abuseService";
+import { CoinLedgerService } from "./services/coinLedgerService";
+import { PurchaseService } from "./services/purchaseService";
+import { SubscriptionReminder, SubscriptionService } from "./services/subscriptionService";
+import { Trial, TrialReminder, TrialService } from "./services/trialService";
+import { FriendService } from "./services/friendService";
+import { Referral, ReferralService } from "./services/referralService";
+import { RewardsService } from "./services/rewardsService";
+import { SpinWheelService } from "./services/spinWheelService";
+import { AdRewardService, AdSession } from "./services/adRewardService";
+import { CoinShopService } from "./services/coinShopService";
+import { CallTelemetryService } from "./services/callTelemetryService";
+import {
+  CallSession,
+  CallSessionService,
+  SessionEndReason,
+  SessionMode,
+} from "./services/callSessionService";
+import { createPaymentGateway } from "./payments/paymentGateway";
+import { createAdRewardVerifiers } from "./ads/rewardVerifier";
+import { registerBlockHandlers } from "./handlers/blocks";
+import { registerReportHandlers } from "./handlers/reports";
+import { registerTextChatHandlers } from "./handlers/textChat";
+import { registerTypingHandlers } from "./handlers/typing";
+import { registerSignalingHandlers } from "./handlers/signaling";
+import { registerCallHandlers } from "./handlers/calls";
+import { createTokenVerifier } from "./auth/tokenVerifier";
+import { requireAuth, socketAuth } from "./middleware/auth";
+import { createAdminRouter } from "./routes/admin";
+import { createCoinsRouter } from "./routes/coins";
+import { createPaymentWebhookRouter, createPaymentsRouter } from "./routes/payments";
+import { createSubscriptionRouter } from "./routes/subscription";
+import { createFriendsRouter } from "./routes/friends";
+import { createEntitlementsRouter } from "./routes/entitlements";
+import { createReferralsRouter } from "./routes/referrals";
+import { createRewardsRouter } from "./routes/rewards";
+import { createSpinsRouter } from "./routes/spins";
+import { createAdCallbacksRouter, createAdsRouter } from "./routes/ads";
+import { createShopRouter } from "./routes/shop";
+import { createWebRtcRouter } from "./routes/webrtc";
+import { createSessionsRouter } from "./routes/sessions";
+import { keepRawBody } from "./routes/http";
 
 const app = express();
 const server = createServer(app);
@@ -28,187 +106,709 @@ const io = new Server(server, {
 });
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ verify: keepRawBody }));
 
 app.get("/", (req, res) => {
   res.send("AjnabiCam Server is running!");
 });
 
-// Store connected users
-const connectedUsers = new Map();
-const waitingUsers: string[] = [];
-const activeConnections = new Map(); // Track active peer connections
+const documentStore = createDocumentStore();
+const blockService = new BlockService(documentStore);
+const banService = new BanService(documentStore);
+const profileService = new ProfileService(documentStore);
+const reportService = new ReportService(documentStore, banService, moderationConfig);
+const auditLog = new AuditLogService(documentStore);
+const abuseService = new AbuseService(moderationConfig.abuse);
+const coinLedger = new CoinLedgerService(documentStore);
+const friendService = new FriendService(documentStore, profileService);
+const referrals = new ReferralService(documentStore, coinLedger, referralConfig);
+const rewards = new RewardsService(
+  documentStore,
+  coinLedger,
+  rewardsConfig,
+  coinsConfig.prices.streak_freeze,
+);
+const spinWheel = new SpinWheelService(documentStore, coinLedger, spinWheelConfig, rewards);
+const adRewards = new AdRewardService(
+  documentStore,
+  rewards,
+  spinWheel,
+  rewardsConfig.adSessionTtlMs,
+);
+const adRewardVerifiers = createAdRewardVerifiers();
+const coinShop = new CoinShopService(documentStore, coinLedger, coinShopConfig);
+const callTelemetry = new CallTelemetryService(documentStore, webRtcConfig);
+const callSessions = new CallSessionService(documentStore, coinLedger, coinsConfig, rewards);
+if (!callTelemetry.turnEnabled) {
+  console.warn("⚠️ TURN_URLS or TURN_SECRET is not set - calls behind strict NATs will fail");
+}
+const subscriptions = new SubscriptionService(documentStore, catalog, subscriptionConfig);
+const trials = new TrialService(documentStore, subscriptions, subscriptionConfig.trial);
+const paymentGateway = createPaymentGateway();
+const purchases = paymentGateway
+  ? new PurchaseService(documentStore, paymentGateway, coinLedger, subscriptions, catalog)
+  : null;
+const tokenVerifier = createTokenVerifier();
+
+// Matching state lives in Redis when configured so instances can share it
+const redis = createRedisClient();
+if (redis) {
+  useRedisAdapter(io, redis);
+}
+const matchState = createMatchState(redis);
+
+// Every socket must present a valid Firebase ID token
+io.use(socketAuth(tokenVerifier, banService));
+
+// Moderation and block rules shared by video and text matching
+const canPair = (a: ConnectedUser, b: ConnectedUser) =>
+  a.uid !== b.uid &&
+  a.shadowBanned === b.shadowBanned &&
+  !a.blockedUids.includes(b.uid) &&
+  !b.blockedUids.includes(a.uid);
+const matchmaker = new Matchmaker(matchingConfig, canPair);
+const videoQueue = new MatchQueue(matchState, "video", matchmaker);
+// Last few matches per uid for the moderation console
+const MAX_RECENT_MATCHES = 20;
+
+// Give each match a session record, which reports, ratings and chat rewards
+// go by, and tell both sides its id
+async function recordMatch(userId: string, partnerId: string, channel: Channel) {
+  const sessionId = randomUUID();
+  const [user, partner] = await Promise.all([
+    matchState.getUser(userId),
+    matchState.getUser(partnerId),
+  ]);
+  if (!user || !partner) return;
+
+  const startedAt = Date.now();
+  await Promise.all([
+    // Remembered so the pair is not matched straight back together
+    matchState.updateUser(userId, { lastPartnerUid: partner.uid, lastMatchedAt: startedAt }),
+    matchState.updateUser(partnerId, { lastPartnerUid: user.uid, lastMatchedAt: startedAt }),
+    matchState.setLastMatch(userId, { sessionId, partnerId, partnerUid: partner.uid }),
+    matchState.setLastMatch(partnerId, { sessionId, partnerId: userId, partnerUid: user.uid }),
+    matchState.pushRecentMatch(
+      user.uid,
+      { sessionId, partnerUid: partner.uid, startedAt },
+      MAX_RECENT_MATCHES,
+    ),
+    matchState.pushRecentMatch(
+      partner.uid,
+      { sessionId, partnerUid: user.uid, startedAt },
+      MAX_RECENT_MATCHES,
+    ),
+  ]);
+
+  // One voice-only side makes it a voice call for both
+  const mode: SessionMode =
+    channel === "text" ? "text" : user.voiceOnly || partner.voiceOnly ? "voice" : "video";
+  try {
+    const session = await callSessions.start(sessionId, [user.uid, partner.uid], mode, startedAt);
+    io.to(userId).emit("session:started", callSessions.toView(session));
+    io.to(partnerId).emit("session:started", callSessions.toView(session));
+  } catch (error) {
+    console.error(`❌ Error recording session ${sessionId}:`, error);
+  }
+}
 
-io.on("connection", (socket) => {
-  console.log(`🔗 User connected: ${socket.id}`);
-  console.log(`   - Total users now: ${connectedUsers.size + 1}`);
+// Close the match's session record and tell both sides how it ended, for
+// every mode. Sessions that lasted long enough count as a chat, e.g. for
+// referral rewards. Null when there was no record, or it had already ended.
+async function endSession(
+  userId: string,
+  partnerId: string,
+  reason: SessionEndReason,
+): Promise<CallSession | null> {
+  // Still there after the user's own socket is gone, and names the user
+  const match = await matchState.getLastMatch(partnerId);
+  if (!match) return null;
+
+  try {
+    const endedBy = reason === "timeout" ? null : match.partnerUid;
+    const session = await callSessions.end(match.sessionId, reason, endedBy);
+    if (session) {
+      io.to(userId).emit("session:ended", callSessions.toView(session));
+      io.to(partnerId).emit("session:ended", callSessions.toView(session));
+      await recordChat(session);
+    }
+    return session;
+  } catch (error) {
+    console.error(`❌ Error ending session ${match.sessionId}:`, error);
+    return null;
+  }
+}
 
-  connectedUsers.set(socket.id, {
-    id: socket.id,
-    isPremium: false,
-    genderFilter: "any",
-  });
+async function recordChat(session: CallSession) {
+  for (const uid of session.uids) {
+    try {
+      const referral = await referrals.recordChat(uid, session);
+      if (referral) await deliverReferralReward(referral);
+    } catch (error) {
+      console.error(`❌ Error recording chat for referral of ${uid}:`, error);
+    }
+  }
+}
 
-  console.log(`✅ User ${socket.id} added to connected users`);
+const textChat = new TextChatRooms(
+  matchState,
+  new MatchQueue(matchState, "text", matchmaker),
+  (socketId, event, payload) => io.to(socketId).emit(event, payload),
+  (a, b) => recordMatch(a, b, "text"),
+  async (id, partnerId, reason) => {
+    await endSession(id, partnerId, reason);
+  },
+);
+
+const callResumption = new CallResumption(
+  matchState,
+  matchingConfig.resumeGraceMs,
+  (socketId, event, payload) => io.to(socketId).emit(event, payload),
+  endSuspendedCall,
+);
+
+// Nobody came back for a held call, so it ends like any other disconnect
+async function endSuspendedCall(call: SuspendedCall) {
+  // The partner may have skipped or moved on in the meantime
+  if ((await matchState.getPartner("video", call.partnerId)) !== call.socketId) return;
+
+  await matchState.clearPartner("video", call.partnerId);
+  console.log(`📤 Notifying partner ${call.partnerId} of disconnection`);
+  io.to(call.partnerId).emit("partnerDisconnected");
+  await endSession(call.socketId, call.partnerId, "disconnect");
+}
 
-  // Handle user profile updates
-  socket.on("user:profile", (data) => {
-    const user = connectedUsers.get(socket.id);
-    if (user) {
-      connectedUsers.set(socket.id, { ...user, ...data });
+async function pairUsers(userId: string, partnerId: string) {
+  await matchState.setPartners("video", userId, partnerId);
+  await recordMatch(userId, partnerId, "video");
+
+  // Both partners share one deadline, the longer of their entitlements
+  const [user, partner] = await matchState.getUsers([userId, partnerId]);
+  await useMatchUnlocks([user, partner]);
+  const limitMs = callLimitMs(user, partner);
+  const callEndsAt = limitMs === null ? null : Date.now() + limitMs;
+  await matchState.updateUser(userId, { callEndsAt });
+  await matchState.updateUser(partnerId, { callEndsAt });
+  await callResumption.issueTokens(userId, partnerId);
+
+  console.log(`✅ Match found: ${userId} <-> ${partnerId}`);
+
+  io.to(userId).emit("user:connect", partnerId);
+  io.to(partnerId).emit("user:connect", userId);
+  io.to(userId).emit("call:limit", { remainingMs: limitMs });
+  io.to(partnerId).emit("call:limit", { remainingMs: limitMs });
+
+  console.log(`📤 Sent user:connect events to both users`);
+}
+
+// Each match a bought gender filter pass was used for counts against it
+async function useMatchUnlocks(users: ConnectedUser[]) {
+  for (const user of users) {
+    if (
+      user.genderFilter === "any" ||
+      isEntitled(user.premiumTier, "gender_filter") ||
+      !isUnlocked(user.featureUnlocks, "gender_filter")
+    ) {
+      continue;
     }
-  });
+    await setFeatureUnlocks(user.uid, await coinShop.useMatch(user.uid, "gender_filter"));
+  }
+}
 
-  // Handle matching logic
-  socket.on("find:match", () => {
-    console.log(`🔍 User ${socket.id} looking for match. Current state:`);
-    console.log(`   - Waiting users: ${waitingUsers.length} [${waitingUsers.join(', ')}]`);
-    console.log(`   - Active connections: ${activeConnections.size}`);
-    console.log(`   - Total connected users: ${connectedUsers.size}`);
+async function setFeatureUnlocks(uid: string, featureUnlocks: FeatureUnlocks) {
+  for (const user of await matchState.findUsersByUid(uid)) {
+    await matchState.updateUser(user.id, { featureUnlocks });
+  }
+}
 
-    // Don't add to waiting list if already waiting or already connected
-    if (waitingUsers.includes(socket.id) || activeConnections.has(socket.id)) {
-      console.log(`❌ User ${socket.id} already waiting or connected - skipping`);
-      return;
+async function extendCall(userId: string, partnerId: string, extensionMs: number) {
+  const now = Date.now();
+  const user = await matchState.getUser(userId);
+  const callEndsAt = Math.max(now, user?.callEndsAt || now) + extensionMs;
+
+  await matchState.updateUser(userId, { callEndsAt });
+  await matchState.updateUser(partnerId, { callEndsAt });
+  io.to(userId).emit("call:limit", { remainingMs: callEndsAt - now });
+  io.to(partnerId).emit("call:limit", { remainingMs: callEndsAt - now });
+  return callEndsAt;
+}
+
+// End this instance's calls that ran past their deadline and wrap-up time
+async function enforceCallLimits(now: number) {
+  const users = await matchState.getUsers([...io.sockets.sockets.keys()]);
+  for (const { id, callEndsAt } of users) {
+    if (!callEndsAt || now < callEndsAt + callLimits.wrapUpMs) continue;
+
+    await matchState.updateUser(id, { callEndsAt: null });
+    // A deadline left over from a call that already ended
+    const partnerId = await matchState.clearPartner("video", id);
+    if (!partnerId) continue;
+
+    await matchState.updateUser(partnerId, { callEndsAt: null });
+    io.to(id).emit("call:ended", { reason: "time_limit" });
+    io.to(partnerId).emit("call:ended", { reason: "time_limit" });
+    await endSession(id, partnerId, "timeout");
+  }
+}
+
+// Tear down a match and tell the other side they were skipped
+async function endMatch(userId: string, reason: SessionEndReason = "skip") {
+  const partnerId = await matchState.clearPartner("video", userId);
+  if (partnerId) {
+    io.to(partnerId).emit("skipped");
+    await endSession(userId, partnerId, reason);
+  }
+}
+
+async function deliverReferralReward({ referrerUid, refereeUid }: Referral) {
+  const rewards: [string, number][] = [
+    [referrerUid, referralConfig.referrerReward],
+    [refereeUid, referralConfig.refereeReward],
+  ];
+  for (const [uid, coins] of rewards) {
+    for (const user of await matchState.findUsersByUid(uid)) {
+      io.to(user.id).emit("referral:rewarded", { coins, referrer: uid === referrerUid });
     }
+  }
+}
 
-    if (waitingUsers.length > 0) {
-      const partnerId = waitingUsers.shift();
-      if (
-        partnerId &&
-        partnerId !== socket.id &&
-        connectedUsers.has(partnerId)
-      ) {
-        // Match found
-        activeConnections.set(socket.id, partnerId);
-        activeConnections.set(partnerId, socket.id);
-
-        console.log(`✅ Match found: ${socket.id} <-> ${partnerId}`);
-
-        socket.emit("user:connect", partnerId);
-        io.to(partnerId).emit("user:connect", socket.id);
-
-        console.log(`📤 Sent user:connect events to both users`);
-      } else {
-        // Partner disconnected, add current user to waiting list
-        waitingUsers.push(socket.id);
-        console.log(
-          `⚠️ Partner ${partnerId} not available, added ${socket.id} to waiting list`,
-        );
-      }
-    } else {
-      waitingUsers.push(socket.id);
-      console.log(`⏳ Added ${socket.id} to waiting list (now ${waitingUsers.length} waiting)`);
+// Clients wait on this after showing a rewarded ad
+async function deliverAdReward(session: AdSession) {
+  for (const user of await matchState.findUsersByUid(session.uid)) {
+    io.to(user.id).emit("ads:rewarded", {
+      sessionId: session.id,
+      purpose: session.purpose,
+      status: session.status,
+      coins: session.coins,
+      error: session.error,
+    });
+  }
+}
+
+// Kick every socket of a banned account, wherever it is connected
+async function enforceBan(ban: BanRecord) {
+  for (const user of await matchState.findUsersByUid(ban.uid)) {
+    await endMatch(user.id, "report");
+    await videoQueue.remove(user.id);
+    await textChat.leave(user.id, "report");
+    io.to(user.id).emit("account:banned", { until: ban.until, reason: ban.reason });
+    io.in(user.id).disconnectSockets(true);
+  }
+}
+
+// Shadow bans take effect on the next match, the current one is left alone
+async function setShadowBanned(uid: string, shadowBanned: boolean) {
+  for (const user of await matchState.findUsersByUid(uid)) {
+    await matchState.updateUser(user.id, { shadowBanned });
+  }
+}
+
+async function refreshBlockedUids(uid: string) {
+  const blockedUids = await blockService.listBlockedUids(uid);
+  for (const user of await matchState.findUsersByUid(uid)) {
+    await matchState.updateUser(user.id, { blockedUids });
+  }
+}
+
+app.use(
+  "/api/admin",
+  requireAuth(tokenVerifier, banService),
+  createAdminRouter({
+    reportService,
+    banService,
+    auditLog,
+    purchases,
+    subscriptions,
+    spinWheel,
+    callTelemetry,
+    callSessions,
+    getRecentMatches: (uid) => matchState.getRecentMatches(uid),
+    getLiveStats: async () => ({
+      onlineUsers: await matchState.countUsers(),
+      waitingUsers: (await videoQueue.size()) + (await textChat.waitingCount()),
+      activeMatches: (await matchState.countPairs("video")) + (await textChat.activeCount()),
+    }),
+    getAbuseScore: (uid) => abuseService.getScore(uid),
+    onBanned: enforceBan,
+    onShadowBanChanged: setShadowBanned,
+  }),
+);
+
+app.use(
+  "/api/coins",
+  requireAuth(tokenVerifier, banService),
+  createCoinsRouter({ ledger: coinLedger, config: coinsConfig }),
+);
+
+// Before the authenticated payments routes, which would reject it
+app.use("/api/payments/webhook", createPaymentWebhookRouter(purchases));
+app.use(
+  "/api/payments",
+  requireAuth(tokenVerifier, banService),
+  createPaymentsRouter({ catalog, purchases, gateway: paymentGateway }),
+);
+app.use("/api/entitlements", createEntitlementsRouter());
+app.use(
+  "/api/rewards",
+  requireAuth(tokenVerifier, banService),
+  createRewardsRouter(rewards),
+);
+// Before the authenticated ads routes, which would reject the networks' callbacks
+const adsRouterDeps = {
+  adRewards,
+  verifiers: adRewardVerifiers,
+  onCompleted: deliverAdReward,
+};
+app.use("/api/ads/callbacks", createAdCallbacksRouter(adsRouterDeps));
+app.use("/api/ads", requireAuth(tokenVerifier, banService), createAdsRouter(adsRouterDeps));
+app.use(
+  "/api/spins",
+  requireAuth(tokenVerifier, banService),
+  createSpinsRouter(spinWheel),
+);
+app.use(
+  "/api/shop",
+  requireAuth(tokenVerifier, banService),
+  createShopRouter({
+    shop: coinShop,
+    ledger: coinLedger,
+    onUnlocksChanged: async (uid) =>
+      setFeatureUnlocks(uid, await coinShop.getFeatureUnlocks(uid)),
+  }),
+);
+app.use(
+  "/api/webrtc",
+  requireAuth(tokenVerifier, banService),
+  createWebRtcRouter(callTelemetry),
+);
+app.use(
+  "/api/sessions",
+  requireAuth(tokenVerifier, banService),
+  createSessionsRouter({ sessions: callSessions, ledger: coinLedger }),
+);
+app.use(
+  "/api/referrals",
+  requireAuth(tokenVerifier, banService),
+  createReferralsRouter(referrals),
+);
+app.use(
+  "/api/friends",
+  requireAuth(tokenVerifier, banService),
+  createFriendsRouter(friendService),
+);
+app.use(
+  "/api/subscription",
+  requireAuth(tokenVerifier, banService),
+  createSubscriptionRouter({ subscriptions, trials, onTrialStarted: startTrialPremium }),
+);
+
+// Premium ends on the server, whether or not the user opens the app again
+async function sweepSubscriptions() {
+  for (const reminder of await subscriptions.sweep()) {
+    await deliverSubscriptionReminder(reminder);
+  }
+  for (const reminder of await trials.sweep()) {
+    await deliverTrialReminder(reminder);
+  }
+}
+
+async function startTrialPremium({ uid, tier }: Trial) {
+  for (const user of await matchState.findUsersByUid(uid)) {
+    await matchState.updateUser(user.id, { premiumTier: tier });
+  }
+}
+
+// Prompts to pick a plan before the trial ends, and once it has
+async function deliverTrialReminder({ uid, ...reminder }: TrialReminder) {
+  for (const user of await matchState.findUsersByUid(uid)) {
+    if (reminder.kind === "trial_ended") {
+      await matchState.updateUser(user.id, { premiumTier: null });
     }
-  });
+    io.to(user.id).emit("trial:reminder", reminder);
+  }
+}
 
-  // Handle WebRTC signaling
-  socket.on("offer", ({ offer, to }) => {
-    if (connectedUsers.has(to)) {
-      io.to(to).emit("offer", { offer, from: socket.id });
+async function deliverSubscriptionReminder({ uid, ...reminder }: SubscriptionReminder) {
+  for (const user of await matchState.findUsersByUid(uid)) {
+    if (reminder.kind === "expired") {
+      await matchState.updateUser(user.id, { premiumTier: null });
     }
+    io.to(user.id).emit("subscription:reminder", reminder);
+  }
+}
+
+setInterval(() => {
+  sweepSubscriptions().catch((error) => {
+    console.error("❌ Error sweeping subscriptions:", error);
   });
+}, subscriptionConfig.sweepIntervalMs);
+
+// Waiting users become compatible as their constraints relax over time.
+// Every instance sweeps; claiming users is atomic, so they never double-pair.
+async function sweepQueues() {
+  const now = Date.now();
+  for (const { id, enqueuedAt } of await videoQueue.expire(now, matchingConfig.maxWaitMs)) {
+    console.log(`⌛ ${id} gave up waiting for a match`);
+    io.to(id).emit("queue:timeout", { waitedMs: now - enqueuedAt });
+  }
+
+  for (const [userId, partnerId] of await videoQueue.sweep(now)) {
+    await pairUsers(userId, partnerId);
+  }
+  await textChat.sweep();
+  await enforceCallLimits(now);
+
+  await broadcastQueueStatus();
+}
 
-  socket.on("answer", ({ answer, to }) => {
-    if (connectedUsers.has(to)) {
-      io.to(to).emit("answer", { answer, from: socket.id });
+// Tell this instance's waiting sockets where they are in line
+async function broadcastQueueStatus() {
+  for (const { id, ...status } of await videoQueue.statuses()) {
+    if (io.sockets.sockets.has(id)) {
+      io.to(id).emit("queue:status", status);
     }
+  }
+}
+
+// Everything a socket leaves behind, whether it disconnected here or its
+// node went down with it
+async function removeSocket(id: string) {
+  // A call dropped by the network is held open for the user to resume
+  // from a new socket; anything else is cleaned up now
+  const suspended = await callResumption.suspend(id);
+  const partnerId = suspended ? undefined : await matchState.clearPartner("video", id);
+  if (partnerId) {
+    console.log(`📤 Notifying partner ${partnerId} of disconnection`);
+    io.to(partnerId).emit("partnerDisconnected");
+    await endSession(id, partnerId, "disconnect");
+  }
+
+  // Remove from waiting lists if present
+  if (await videoQueue.remove(id)) {
+    console.log(`🗑️ Removed ${id} from waiting list`);
+  }
+  await textChat.leave(id, "disconnect");
+
+  await matchState.deleteLastMatch(id);
+  await matchState.removeUser(id);
+}
+
+// Keep this node's sockets alive in shared state, and clean up after any
+// node that went down without disconnecting its own
+async function sweepOrphanedSockets() {
+  await matchState.heartbeat();
+  for (const id of await matchState.takeOrphanedUsers()) {
+    console.log(`🧹 Cleaning up ${id}, left behind by a node that went down`);
+    await removeSocket(id);
+  }
+}
+
+sweepOrphanedSockets().catch((error) => {
+  console.error("❌ Error sending the first heartbeat:", error);
+});
+setInterval(() => {
+  sweepOrphanedSockets().catch((error) => {
+    console.error("❌ Error sweeping orphaned sockets:", error);
   });
+}, HEARTBEAT_INTERVAL_MS);
 
-  socket.on("ice-candidate", ({ candidate, to }) => {
-    if (connectedUsers.has(to)) {
-      io.to(to).emit("ice-candidate", { candidate, from: socket.id });
-    }
+setInterval(() => {
+  sweepQueues().catch((error) => {
+    console.error("❌ Error sweeping match queues:", error);
+  });
+}, matchingConfig.sweepIntervalMs);
+
+io.on("connection", (socket) => {
+  const uid: string = socket.data.uid;
+  console.log(`🔗 User connected: ${socket.id} (uid ${uid})`);
+
+  // Everything below reads or updates this record, so register it first
+  const userAdded = matchState.addUser({
+    id: socket.id,
+    uid,
+    premiumTier: null,
+    shadowBanned: false,
+    genderFilter: "any",
+    interests: [],
+    blockedUids: [],
   });
 
-  // Handle peer negotiation
-  socket.on("peer:nego:needed", ({ offer, targetChatToken }) => {
-    if (connectedUsers.has(targetChatToken)) {
-      io.to(targetChatToken).emit("peer:nego:needed", {
-        offer,
-        from: socket.id,
+  userAdded
+    .then(() => {
+      console.log(`✅ User ${socket.id} added to connected users`);
+
+      // Premium status and profile fields come from the stored profile, not the client
+      const profileLoaded = profileService.getProfile(uid).then((profile) => {
+        if (!profile) return;
+        return matchState.updateUser(socket.id, {
+          ...normalizeProfile(profile),
+          premiumTier: profileService.premiumTier(profile),
+        });
       });
-    }
+
+      const unlocksLoaded = coinShop
+        .getFeatureUnlocks(uid)
+        .then((featureUnlocks) => matchState.updateUser(socket.id, { featureUnlocks }));
+
+      const moderationLoaded = Promise.all([
+        blockService.listBlockedUids(uid),
+        banService.getShadowBan(uid),
+      ]).then(([blockedUids, shadowBan]) =>
+        matchState.updateUser(socket.id, { blockedUids, shadowBanned: Boolean(shadowBan) }),
+      );
+
+      return Promise.all([profileLoaded, unlocksLoaded, moderationLoaded]);
+    })
+    .catch((error) => {
+      console.error(`❌ Error loading state for ${uid}:`, error);
+    });
+
+  const updateProfile = async (data: unknown) => {
+    await userAdded;
+    await matchState.updateUser(socket.id, normalizeProfile(data));
+  };
+
+  // Handle user profile updates
+  socket.on("user:profile", (data: unknown) => {
+    updateProfile(data).catch((error) => {
+      console.error(`❌ Error updating profile for ${socket.id}:`, error);
+    });
   });
 
-  socket.on("peer:nego:done", ({ answer, to }) => {
-    if (connectedUsers.has(to)) {
-      io.to(to).emit("peer:nego:final", { answer, from: socket.id });
-    }
+  registerBlockHandlers(socket, {
+    blockService,
+    getUser: (id) => matchState.getUser(id),
+    getPartnerId: async (id) =>
+      (await matchState.getPartner("video", id)) ?? (await textChat.getPartnerId(id)),
+    endMatch: async (id) => {
+      await endMatch(id, "block");
+      await textChat.leave(id, "block");
+    },
+    onBlocksChanged: refreshBlockedUids,
   });
 
-  // Handle messages
-  socket.on(
-    "send:message",
-    ({ message, targetChatToken, isSecret, messageId }) => {
-      if (connectedUsers.has(targetChatToken)) {
-        io.to(targetChatToken).emit("message:recieved", {
-          message,
-          from: socket.id,
-          isSecret: isSecret || false,
-          messageId,
-        });
-      }
+  registerReportHandlers(socket, {
+    reportService,
+    callSessions,
+    getLastMatch: (id) => matchState.getLastMatch(id),
+    onBanned: enforceBan,
+  });
+
+  registerTextChatHandlers(socket, {
+    textChat,
+    banService,
+    enforceBan,
+  });
+
+  registerCallHandlers(socket, {
+    ledger: coinLedger,
+    callTelemetry,
+    extensionPrice: coinsConfig.prices.timer_extension,
+    extensionMs: callLimits.extensionMs,
+    getUser: (id) => matchState.getUser(id),
+    getPartnerId: (id) => matchState.getPartner("video", id),
+    getLastMatch: (id) => matchState.getLastMatch(id),
+    extendCall,
+    resumeCall: async (token) => {
+      await userAdded;
+      return callResumption.resume(socket.id, uid, token);
     },
-  );
+  });
 
-  // Handle premium status sharing
-  socket.on("send:premium:status", ({ isPremium, targetChatToken }) => {
-    if (connectedUsers.has(targetChatToken)) {
-      io.to(targetChatToken).emit("partner:premium:status", { isPremium });
-    }
+  registerTypingHandlers(socket, {
+    getPartnerId: (id) => matchState.getPartner("video", id),
+    emitTo: (id, event) => io.to(id).emit(event),
   });
 
-  // Handle stay connected requests
-  socket.on("stay:connected:response", ({ wantToStay, targetChatToken }) => {
-    if (connectedUsers.has(targetChatToken)) {
-      io.to(targetChatToken).emit("stay:connected:response", {
-        wantToStay,
-        from: socket.id,
-      });
+  const findMatch = async (preferences?: unknown) => {
+    await userAdded;
+
+    // Don't add to waiting list if already waiting or already connected
+    if (
+      (await videoQueue.has(socket.id)) ||
+      (await matchState.getPartner("video", socket.id))
+    ) {
+      console.log(`❌ User ${socket.id} already waiting or connected - skipping`);
+      return;
     }
-  });
 
-  // Handle skip
-  socket.on("skip", () => {
-    const partnerId = activeConnections.get(socket.id);
-    if (partnerId) {
-      io.to(partnerId).emit("skipped");
-      activeConnections.delete(socket.id);
-      activeConnections.delete(partnerId);
+    // Preferences may be sent along with the request instead of via user:profile
+    if (preferences) {
+      await updateProfile(preferences);
     }
 
-    // Remove from waiting list if present
-    const index = waitingUsers.indexOf(socket.id);
-    if (index > -1) {
-      waitingUsers.splice(index, 1);
+    // Bans can start after the user connected
+    const ban = await banService.getActiveBan(uid);
+    if (ban) {
+      await enforceBan(ban);
+      return;
     }
-  });
 
-  socket.on("disconnect", () => {
-    console.log(`❌ User disconnected: ${socket.id}`);
+    // The socket may have left or matched while the ban check was running
+    if (
+      !(await matchState.getUser(socket.id)) ||
+      (await videoQueue.has(socket.id)) ||
+      (await matchState.getPartner("video", socket.id))
+    ) {
+      return;
+    }
 
-    // Clean up active connections
-    const partnerId = activeConnections.get(socket.id);
+    const partnerId = await videoQueue.takePartnerFor(socket.id);
     if (partnerId) {
-      console.log(`📤 Notifying partner ${partnerId} of disconnection`);
-      io.to(partnerId).emit("partnerDisconnected");
-      activeConnections.delete(partnerId);
+      await pairUsers(socket.id, partnerId);
+    } else {
+      await videoQueue.enqueue(socket.id);
+      console.log(`⏳ Added ${socket.id} to waiting list (now ${await videoQueue.size()} waiting)`);
+      await broadcastQueueStatus();
     }
-    activeConnections.delete(socket.id);
+  };
 
-    connectedUsers.delete(socket.id);
+  // Handle matching logic
+  socket.on("find:match", (preferences?: unknown) => {
+    console.log(`🔍 User ${socket.id} looking for match`);
+    findMatch(preferences).catch((error) => {
+      console.error(`❌ Error finding match for ${socket.id}:`, error);
+    });
+  });
+
+  registerSignalingHandlers(socket, {
+    getPartnerId: (id) => matchState.getPartner("video", id),
+    getPreviousPartnerId: async (id) => (await matchState.getLastMatch(id))?.partnerId,
+    emitTo: (id, event, payload) => io.to(id).emit(event, payload),
+    onViolation: (event, target) => {
+      const score = abuseService.record(uid, "relayViolation");
+      console.warn(
+        `⚠️ Dropped ${event} from ${socket.id} (uid ${uid}) to non-partner ${String(target)}, abuse score ${score}`,
+      );
+
+      if (abuseService.shouldDisconnect(score)) {
+        console.warn(`⛔ Disconnecting ${socket.id} (uid ${uid}) for repeated relay abuse`);
+        socket.disconnect(true);
+      }
+    },
+  });
 
-    // Remove from waiting list if present
-    const index = waitingUsers.indexOf(socket.id);
-    if (index > -1) {
-      waitingUsers.splice(index, 1);
-      console.log(`🗑️ Removed ${socket.id} from waiting list`);
+  // Handle skip
+  socket.on("skip", async () => {
+    try {
+      await endMatch(socket.id);
+
+      // Remove from waiting list if present
+      await videoQueue.remove(socket.id);
+    } catch (error) {
+      console.error(`❌ Error skipping for ${socket.id}:`, error);
     }
+  });
 
-    console.log(`   - Total users now: ${connectedUsers.size}`);
-    console.log(`   - Waiting users: ${waitingUsers.length}`);
-    console.log(`   - Active connections: ${activeConnections.size}`);
+  socket.on("disconnect", async () => {
+    console.log(`❌ User disconnected: ${socket.id}`);
+
+    try {
+      await userAdded;
+      await removeSocket(socket.id);
+    } catch (error) {
+      console.error(`❌ Error cleaning up ${socket.id}:`, error);
+    }
   });
 });
 
@@ -218,4 +818,4 @@ server.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 
 }
-)
\ No newline at end of file
+)
@@ -0,0 +1,57 @@
+import { App, cert, getApp, getApps, initializeApp } from "firebase-admin/app";
+
+const AUTH_ONLY_APP_NAME = "auth-only";
+
+let cachedApp: App | null | undefined;
+
+/**
+ * Lazily initialize the Firebase Admin SDK.
+ *
+ * Credentials come from FIREBASE_SERVICE_ACCOUNT (the service account JSON)
+ * or the standard GOOGLE_APPLICATION_CREDENTIALS file. Returns null when
+ * neither is configured so local development can run without Firebase.
+ */
+export function getFirebaseAdminApp(): App | null {
+  if (cachedApp !== undefined) return cachedApp;
+
+  const defaultApp = getApps().find((app) => app.name !== AUTH_ONLY_APP_NAME);
+  if (defaultApp) {
+    cachedApp = defaultApp;
+    return cachedApp;
+  }
+
+  try {
+    if (process.env.FIREBASE_SERVICE_ACCOUNT) {
+      cachedApp = initializeApp({
+        credential: cert(JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT)),
+      });
+    } else if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+      cachedApp = initializeApp();
+    } else {
+      console.warn("⚠️ Firebase Admin credentials not configured");
+      cachedApp = null;
+    }
+  } catch (error) {
+    console.error("❌ Failed to initialize Firebase Admin:", error);
+    cachedApp = null;
+  }
+
+  return cachedApp;
+}
+
+/**
+ * App for verifying ID tokens. Verification only needs the project id, so
+ * FIREBASE_PROJECT_ID alone is enough when no service account is configured.
+ */
+export function getFirebaseAuthApp(): App | null {
+  const app = getFirebaseAdminApp();
+  if (app) return app;
+
+  const projectId = process.env.FIREBASE_PROJECT_ID;
+  if (!projectId) return null;
+
+  if (getApps().some((existing) => existing.name === AUTH_ONLY_APP_NAME)) {
+    return getApp(AUTH_ONLY_APP_NAME);
+  }
+  return initializeApp({ projectId }, AUTH_ONLY_APP_NAME);
+}
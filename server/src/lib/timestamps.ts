@@ -0,0 +1,17 @@
+/**
+ * Convert the timestamp shapes found in user documents (Firestore
+ * Timestamp, Date, epoch millis or ISO string) to epoch millis
+ */
+export function toMillis(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return value;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string") {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  if (typeof (value as { toMillis?: unknown }).toMillis === "function") {
+    return (value as { toMillis: () => number }).toMillis();
+  }
+  return null;
+}
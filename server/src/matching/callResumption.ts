@@ -0,0 +1,158 @@
+import { randomUUID } from "crypto";
+import { MatchState } from "../state";
+import { SuspendedCall } from "../types";
+
+type Emit = (socketId: string, event: string, payload?: unknown) => void;
+
+export type ResumeErrorCode = "invalid_token" | "busy" | "call_ended";
+
+export class ResumeError extends Error {
+  constructor(readonly code: ResumeErrorCode) {
+    super(code);
+    this.name = "ResumeError";
+  }
+}
+
+export interface ResumedCall {
+  partnerId: string;
+  remainingMs: number | null;
+}
+
+/**
+ * Keeps a video call alive while one side's socket reconnects. Each side
+ * gets a resume token when paired; when its socket drops, the pairing is
+ * held for the grace window and a new socket presenting the token takes
+ * the old one's place. Calls nobody resumes end as a normal disconnect.
+ */
+export class CallResumption {
+  constructor(
+    private readonly state: MatchState,
+    private readonly graceMs: number,
+    private readonly emit: Emit,
+    // Nobody resumed a held call in time
+    private readonly onEnded: (call: SuspendedCall) => Promise<void>,
+  ) {}
+
+  /**
+   * Give both partners of a new call their tokens
+   */
+  async issueTokens(a: string, b: string): Promise<void> {
+    if (this.graceMs === 0) return;
+
+    for (const id of [a, b]) {
+      const resumeToken = randomUUID();
+      await this.state.updateUser(id, { resumeToken });
+      this.emit(id, "call:resume:token", { token: resumeToken, graceMs: this.graceMs });
+    }
+  }
+
+  /**
+   * Hold a dropped socket's call open for it. Returns false when there is
+   * no call worth holding, and the caller should end it as before.
+   */
+  async suspend(socketId: string, now = Date.now()): Promise<boolean> {
+    if (this.graceMs === 0) return false;
+
+    const call = await this.heldCall(socketId, now);
+    if (!call) return false;
+    await this.state.suspendCall(call);
+    this.emit(call.partnerId, "partner:reconnecting", { graceMs: this.graceMs });
+
+    // Whichever node held the call ends it; a resume elsewhere takes it first
+    setTimeout(() => {
+      this.expire(call.token).catch((error) => {
+        console.error("❌ Error ending suspended call:", error);
+      });
+    }, this.graceMs);
+    return true;
+  }
+
+  /**
+   * Move a held call onto the socket presenting its token, and tell the
+   * partner who to signal now
+   */
+  async resume(socketId: string, uid: string, token: unknown): Promise<ResumedCall> {
+    if (typeof token !== "string") throw new ResumeError("invalid_token");
+    if (await this.state.getPartner("video", socketId)) throw new ResumeError("busy");
+
+    // The server may not have noticed the old socket drop yet
+    const call =
+      (await this.state.takeSuspendedCall(token)) ??
+      (await this.findLiveCall(uid, token, socketId));
+    if (!call) throw new ResumeError("call_ended");
+    // Someone else's token; leave the call held for its owner
+    if (call.uid !== uid) {
+      await this.state.suspendCall(call);
+      throw new ResumeError("invalid_token");
+    }
+    // Just too late; the grace timer would have found nothing to end
+    if (call.expiresAt <= Date.now()) {
+      await this.onEnded(call);
+      throw new ResumeError("call_ended");
+    }
+
+    // The partner skipped, dropped too, or moved on while we were away
+    if ((await this.state.getPartner("video", call.partnerId)) !== call.socketId) {
+      throw new ResumeError("call_ended");
+    }
+
+    await this.state.clearPartner("video", call.partnerId);
+    await this.state.setPartners("video", socketId, call.partnerId);
+    await this.state.updateUser(socketId, {
+      resumeToken: call.token,
+      callEndsAt: call.callEndsAt,
+      lastPartnerUid: call.match.partnerUid,
+      lastMatchedAt: call.lastMatchedAt,
+    });
+    await this.state.setLastMatch(socketId, call.match);
+
+    const partnerMatch = await this.state.getLastMatch(call.partnerId);
+    if (partnerMatch) {
+      await this.state.setLastMatch(call.partnerId, { ...partnerMatch, partnerId: socketId });
+    }
+
+    this.emit(call.partnerId, "partner:reconnected", { partnerId: socketId });
+    return {
+      partnerId: call.partnerId,
+      remainingMs: call.callEndsAt === null ? null : Math.max(0, call.callEndsAt - Date.now()),
+    };
+  }
+
+  private async heldCall(socketId: string, now: number): Promise<SuspendedCall | undefined> {
+    const [user, partnerId, match] = await Promise.all([
+      this.state.getUser(socketId),
+      this.state.getPartner("video", socketId),
+      this.state.getLastMatch(socketId),
+    ]);
+    if (!user?.resumeToken || !partnerId || !match) return undefined;
+    if (!(await this.state.getUser(partnerId))) return undefined;
+
+    return {
+      token: user.resumeToken,
+      uid: user.uid,
+      socketId,
+      partnerId,
+      match,
+      callEndsAt: user.callEndsAt ?? null,
+      lastMatchedAt: user.lastMatchedAt,
+      expiresAt: now + this.graceMs,
+    };
+  }
+
+  // A call still held by another of the account's sockets with this token
+  private async findLiveCall(
+    uid: string,
+    token: string,
+    socketId: string,
+  ): Promise<SuspendedCall | undefined> {
+    const previous = (await this.state.findUsersByUid(uid)).find(
+      (user) => user.id !== socketId && user.resumeToken === token,
+    );
+    return previous ? this.heldCall(previous.id, Date.now()) : undefined;
+  }
+
+  private async expire(token: string): Promise<void> {
+    const call = await this.state.takeSuspendedCall(token);
+    if (call) await this.onEnded(call);
+  }
+}
@@ -0,0 +1,154 @@
+import { Channel } from "../types";
+import { MatchState, WaitingEntry } from "../state";
+import { Matchmaker, QueuedUser } from "./matchmaker";
+
+// How far back pairings are counted when estimating wait times
+const ETA_WINDOW_MS = 5 * 60 * 1000;
+
+export interface QueueStatus {
+  id: string;
+  // 1-based place in line, premium head start included
+  position: number;
+  waiting: number;
+  // Null until the queue has produced enough matches to estimate from
+  estimatedWaitMs: number | null;
+}
+
+/**
+ * A waiting queue in shared state plus the Matchmaker that picks partners
+ * from it. Partners are claimed with an atomic dequeue, so instances racing
+ * for the same waiting user never both get them.
+ */
+export class MatchQueue {
+  constructor(
+    private readonly state: MatchState,
+    private readonly channel: Channel,
+    private readonly matchmaker: Matchmaker,
+  ) {}
+
+  async size(): Promise<number> {
+    return (await this.state.listWaiting(this.channel)).length;
+  }
+
+  async ids(): Promise<string[]> {
+    return (await this.state.listWaiting(this.channel)).map((entry) => entry.id);
+  }
+
+  has(id: string): Promise<boolean> {
+    return this.state.isWaiting(this.channel, id);
+  }
+
+  enqueue(id: string, now = Date.now()): Promise<void> {
+    return this.state.enqueue(this.channel, id, now);
+  }
+
+  remove(id: string): Promise<boolean> {
+    return this.state.dequeue(this.channel, id);
+  }
+
+  /**
+   * Find the best waiting partner for a user who is not yet queued.
+   * The chosen partner is removed from the queue.
+   */
+  async takePartnerFor(id: string, now = Date.now()): Promise<string | null> {
+    const seeker = await this.state.getUser(id);
+    if (!seeker) return null;
+
+    const candidates = await this.snapshot();
+    const ranked = this.matchmaker.rankCandidates(
+      { user: seeker, enqueuedAt: now },
+      candidates,
+      now,
+    );
+
+    // Another instance may claim a candidate first, so fall through the ranking
+    for (const candidate of ranked) {
+      if (await this.remove(candidate.user.id)) {
+        await this.state.recordPairing(this.channel, now);
+        return candidate.user.id;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Re-evaluate everyone in the queue, pairing users whose constraints
+   * have relaxed enough to make them compatible
+   */
+  async sweep(now = Date.now()): Promise<Array<[string, string]>> {
+    const pairs: Array<[string, string]> = [];
+
+    for (const [seeker, partner] of this.matchmaker.pairUp(await this.snapshot(), now)) {
+      const claimedSeeker = await this.remove(seeker.user.id);
+      const claimedPartner = await this.remove(partner.user.id);
+
+      if (claimedSeeker && claimedPartner) {
+        await this.state.recordPairing(this.channel, now);
+        pairs.push([seeker.user.id, partner.user.id]);
+        continue;
+      }
+
+      // Lost a race for one side, put the other back where they were
+      if (claimedSeeker) await this.enqueue(seeker.user.id, seeker.enqueuedAt);
+      if (claimedPartner) await this.enqueue(partner.user.id, partner.enqueuedAt);
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Take out everyone who has waited longer than `maxWaitMs`, returning
+   * them so they can be told. Entries whose user has gone are dropped too.
+   */
+  async expire(now: number, maxWaitMs: number): Promise<WaitingEntry[]> {
+    const entries = await this.state.listWaiting(this.channel);
+    const present = new Set(
+      (await this.state.getUsers(entries.map((entry) => entry.id))).map((user) => user.id),
+    );
+    const expired: WaitingEntry[] = [];
+
+    for (const entry of entries) {
+      const stale = maxWaitMs > 0 && now - entry.enqueuedAt >= maxWaitMs;
+      if (!stale && present.has(entry.id)) continue;
+
+      if ((await this.remove(entry.id)) && present.has(entry.id)) {
+        expired.push(entry);
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * Everyone's place in line with an estimated wait, based on how many
+   * pairings the queue has produced recently
+   */
+  async statuses(now = Date.now()): Promise<QueueStatus[]> {
+    const queue = this.matchmaker.prioritise(await this.snapshot());
+    const pairings = await this.state.countPairingsSince(this.channel, now - ETA_WINDOW_MS);
+    const pairingsPerMs = pairings / ETA_WINDOW_MS;
+
+    return queue.map(({ user }, index) => ({
+      id: user.id,
+      position: index + 1,
+      waiting: queue.length,
+      // Each pairing takes two people out of the line
+      estimatedWaitMs:
+        pairingsPerMs > 0 ? Math.round(Math.ceil((index + 1) / 2) / pairingsPerMs) : null,
+    }));
+  }
+
+  private async snapshot(): Promise<QueuedUser[]> {
+    const entries = await this.state.listWaiting(this.channel);
+    const users = new Map(
+      (await this.state.getUsers(entries.map((entry) => entry.id))).map((user) => [
+        user.id,
+        user,
+      ]),
+    );
+
+    return entries.flatMap((entry) => {
+      const user = users.get(entry.id);
+      return user ? [{ user, enqueuedAt: entry.enqueuedAt }] : [];
+    });
+  }
+}
@@ -0,0 +1,156 @@
+import { ConnectedUser } from "../types";
+import { MatchingConfig } from "../config/matching";
+import { hasFeature } from "../config/entitlements";
+
+export interface QueuedUser {
+  user: ConnectedUser;
+  enqueuedAt: number;
+}
+
+type PairCheck = (a: ConnectedUser, b: ConnectedUser) => boolean;
+
+const SHARED_INTEREST_SCORE = 10;
+const SAME_LANGUAGE_SCORE = 5;
+
+/**
+ * Preference-aware partner selection.
+ *
+ * Gender filters (an entitlement) and language are hard constraints that must
+ * hold in both directions. Shared interests only affect which compatible
+ * candidate is chosen. Constraints relax per user once they have waited
+ * longer than the configured delays. The previous partner is skipped during
+ * the rematch cooldown, and premium or boosted users get a bounded head
+ * start in line.
+ *
+ * The Matchmaker holds no queue itself; it ranks snapshots of a waiting
+ * queue kept in shared state (see MatchQueue).
+ */
+export class Matchmaker {
+  constructor(
+    private readonly config: MatchingConfig,
+    // Extra veto applied before preferences, e.g. block lists
+    private readonly canPair: PairCheck = () => true,
+  ) {}
+
+  /**
+   * Compatible candidates for a seeker, best match first
+   */
+  rankCandidates(
+    seeker: QueuedUser,
+    candidates: QueuedUser[],
+    now = Date.now(),
+  ): QueuedUser[] {
+    return this.compatible(seeker, this.prioritise(candidates), now)
+      .map((candidate, index) => ({
+        candidate,
+        index,
+        score: this.score(seeker.user, candidate.user),
+      }))
+      // Candidates are in priority order, so ties go to the longest waiter
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ candidate }) => candidate);
+  }
+
+  /**
+   * Pair up everyone in a queue snapshot whose constraints allow it.
+   * Longest waiters choose first.
+   */
+  pairUp(queue: QueuedUser[], now = Date.now()): Array<[QueuedUser, QueuedUser]> {
+    const pairs: Array<[QueuedUser, QueuedUser]> = [];
+    const remaining = this.prioritise(queue);
+
+    while (remaining.length > 1) {
+      const seeker = remaining.shift()!;
+      const [partner] = this.rankCandidates(seeker, remaining, now);
+      if (!partner) continue;
+
+      remaining.splice(remaining.indexOf(partner), 1);
+      pairs.push([seeker, partner]);
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Queue order with the premium head start applied, first in line first
+   */
+  prioritise(queue: QueuedUser[]): QueuedUser[] {
+    const priorityAt = ({ user, enqueuedAt }: QueuedUser) =>
+      enqueuedAt -
+      (hasFeature(user, "queue_priority") ? this.config.premiumHeadStartMs : 0);
+
+    return [...queue].sort((a, b) => priorityAt(a) - priorityAt(b));
+  }
+
+  private compatible(
+    seeker: QueuedUser,
+    candidates: QueuedUser[],
+    now: number,
+  ): QueuedUser[] {
+    const seekerWait = now - seeker.enqueuedAt;
+
+    return candidates.filter((candidate) => {
+      if (candidate.user.id === seeker.user.id) return false;
+      if (!this.canPair(seeker.user, candidate.user)) return false;
+      if (this.recentlyMatched(seeker.user, candidate.user, now)) return false;
+
+      const candidateWait = now - candidate.enqueuedAt;
+      return (
+        this.acceptsGender(seeker.user, candidate.user, seekerWait) &&
+        this.acceptsGender(candidate.user, seeker.user, candidateWait) &&
+        this.languagesCompatible(seeker.user, candidate.user, seekerWait, candidateWait)
+      );
+    });
+  }
+
+  private recentlyMatched(a: ConnectedUser, b: ConnectedUser, now: number): boolean {
+    const cooldown = this.config.rematchCooldownMs;
+    const matchedWith = (user: ConnectedUser, other: ConnectedUser) =>
+      user.lastPartnerUid === other.uid &&
+      now - (user.lastMatchedAt || 0) < cooldown;
+
+    return cooldown > 0 && (matchedWith(a, b) || matchedWith(b, a));
+  }
+
+  private acceptsGender(
+    seeker: ConnectedUser,
+    candidate: ConnectedUser,
+    waitedMs: number,
+  ): boolean {
+    if (!hasFeature(seeker, "gender_filter") || seeker.genderFilter === "any") {
+      return true;
+    }
+    if (this.isRelaxed(this.config.relaxGenderAfterMs, waitedMs)) return true;
+
+    return candidate.gender === seeker.genderFilter;
+  }
+
+  private languagesCompatible(
+    a: ConnectedUser,
+    b: ConnectedUser,
+    aWaitedMs: number,
+    bWaitedMs: number,
+  ): boolean {
+    if (!a.language || !b.language || a.language === b.language) return true;
+
+    // Both sides have to be willing to give up on their language
+    return (
+      this.isRelaxed(this.config.relaxLanguageAfterMs, aWaitedMs) &&
+      this.isRelaxed(this.config.relaxLanguageAfterMs, bWaitedMs)
+    );
+  }
+
+  private isRelaxed(afterMs: number, waitedMs: number): boolean {
+    return afterMs > 0 && waitedMs >= afterMs;
+  }
+
+  private score(a: ConnectedUser, b: ConnectedUser): number {
+    const theirInterests = new Set(b.interests);
+    const shared = a.interests.filter((interest) =>
+      theirInterests.has(interest),
+    ).length;
+    const sameLanguage = a.language && a.language === b.language ? 1 : 0;
+
+    return shared * SHARED_INTEREST_SCORE + sameLanguage * SAME_LANGUAGE_SCORE;
+  }
+}
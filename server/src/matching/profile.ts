@@ -0,0 +1,50 @@
+import { ConnectedUser, Gender, GenderFilter } from "../types";
+
+const GENDERS: Gender[] = ["male", "female", "other"];
+const MAX_INTERESTS = 20;
+
+function normalizeGenderFilter(value: unknown): GenderFilter | undefined {
+  // The client settings document uses "all" where the filter UI uses "any"
+  if (value === "any" || value === "all") return "any";
+  if (value === "male" || value === "female") return value;
+  return undefined;
+}
+
+/**
+ * Pick the matching-relevant fields out of a `user:profile` payload or
+ * stored profile, dropping anything malformed. Premium status is never
+ * taken from here; it is derived from the stored profile.
+ */
+export function normalizeProfile(data: unknown): Partial<ConnectedUser> {
+  if (!data || typeof data !== "object") return {};
+
+  const raw = data as Record<string, unknown>;
+  const profile: Partial<ConnectedUser> = {};
+
+  const genderFilter = normalizeGenderFilter(raw.genderFilter);
+  if (genderFilter) {
+    profile.genderFilter = genderFilter;
+  }
+
+  if (GENDERS.includes(raw.gender as Gender)) {
+    profile.gender = raw.gender as Gender;
+  }
+
+  if (typeof raw.language === "string" && raw.language.trim()) {
+    profile.language = raw.language.trim().toLowerCase();
+  }
+
+  if (Array.isArray(raw.interests)) {
+    profile.interests = raw.interests
+      .filter((interest): interest is string => typeof interest === "string")
+      .map((interest) => interest.trim().toLowerCase())
+      .filter(Boolean)
+      .slice(0, MAX_INTERESTS);
+  }
+
+  if (typeof raw.voiceOnly === "boolean") {
+    profile.voiceOnly = raw.voiceOnly;
+  }
+
+  return profile;
+}
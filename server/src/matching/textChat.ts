@@ -0,0 +1,97 @@
+import { MatchState } from "../state";
+import { MatchQueue } from "./matchQueue";
+import { SessionEndReason } from "../services/callSessionService";
+
+type Emit = (socketId: string, event: string, payload?: unknown) => void;
+
+/**
+ * Text-only chat pairing, kept apart from video matching so a user can be
+ * waiting in one without affecting the other. Uses its own queue with the
+ * same pairing rules as video.
+ */
+export class TextChatRooms {
+  constructor(
+    private readonly state: MatchState,
+    private readonly queue: MatchQueue,
+    private readonly emit: Emit,
+    private readonly onPaired: (a: string, b: string) => Promise<void> = async () => {},
+    // Called with the user who left, before their partner is queued again
+    private readonly onUnpaired: (
+      id: string,
+      partnerId: string,
+      reason: SessionEndReason,
+    ) => Promise<void> = async () => {},
+  ) {}
+
+  waitingCount(): Promise<number> {
+    return this.queue.size();
+  }
+
+  activeCount(): Promise<number> {
+    return this.state.countPairs("text");
+  }
+
+  getPartnerId(id: string): Promise<string | undefined> {
+    return this.state.getPartner("text", id);
+  }
+
+  async isActive(id: string): Promise<boolean> {
+    return Boolean(await this.getPartnerId(id)) || (await this.queue.has(id));
+  }
+
+  /**
+   * Pair the user with a waiting partner, or queue them until one arrives
+   */
+  async join(id: string, now = Date.now()): Promise<void> {
+    if (!(await this.state.getUser(id)) || (await this.isActive(id))) return;
+
+    const partnerId = await this.queue.takePartnerFor(id, now);
+    if (partnerId) {
+      await this.pair(id, partnerId);
+    } else {
+      await this.queue.enqueue(id, now);
+    }
+  }
+
+  async sweep(now = Date.now()): Promise<void> {
+    for (const [a, b] of await this.queue.sweep(now)) {
+      await this.pair(a, b);
+    }
+  }
+
+  /**
+   * Forward an event to the user's current partner. Returns false when
+   * the user is not in a text chat.
+   */
+  async relay(from: string, event: string, payload?: unknown): Promise<boolean> {
+    const partnerId = await this.getPartnerId(from);
+    if (!partnerId) return false;
+
+    this.emit(partnerId, event, payload);
+    return true;
+  }
+
+  /**
+   * Take the user out of text chat. Their partner is told and goes straight
+   * back into the queue, as the chat screen expects.
+   */
+  async leave(id: string, reason: SessionEndReason = "skip"): Promise<void> {
+    await this.queue.remove(id);
+
+    const partnerId = await this.state.clearPartner("text", id);
+    if (!partnerId) return;
+
+    await this.onUnpaired(id, partnerId, reason);
+    this.emit(partnerId, "partner-disconnected");
+    await this.join(partnerId);
+  }
+
+  private async pair(a: string, b: string): Promise<void> {
+    await this.state.setPartners("text", a, b);
+    await this.onPaired(a, b);
+
+    console.log(`💬 Text chat match: ${a} <-> ${b}`);
+    this.emit(a, "chat-connected");
+    this.emit(b, "chat-connected");
+  }
+}
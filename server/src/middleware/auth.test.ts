@@ -0,0 +1,76 @@
+import { createServer, Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import { Server } from "socket.io";
+import { io as connect, Socket as ClientSocket } from "socket.io-client";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LocalTokenVerifier } from "../auth/tokenVerifier";
+import { BanService } from "../services/banService";
+import { InMemoryDocumentStore } from "../store";
+import { socketAuth } from "./auth";
+
+describe("socketAuth", () => {
+  let http: HttpServer;
+  let server: Server;
+  let banService: BanService;
+  let url: string;
+  const clients: ClientSocket[] = [];
+
+  beforeEach(async () => {
+    banService = new BanService(new InMemoryDocumentStore());
+    http = createServer();
+    server = new Server(http);
+    server.use(socketAuth(new LocalTokenVerifier(), banService));
+    server.on("connection", (socket) => {
+      socket.on("whoami", (ack: (uid: string) => void) => ack(socket.data.uid));
+    });
+
+    await new Promise<void>((resolve) => http.listen(0, resolve));
+    url = `http://localhost:${(http.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach((client) => client.close());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const open = (auth: Record<string, unknown>) => {
+    const client = connect(url, { auth, transports: ["websocket"], reconnection: false });
+    clients.push(client);
+    return client;
+  };
+
+  // Resolves with the server's error data, or null once connected
+  const handshake = (client: ClientSocket) =>
+    new Promise<Record<string, unknown> | null>((resolve) => {
+      client.on("connect", () => resolve(null));
+      client.on("connect_error", (error) =>
+        resolve((error as Error & { data?: Record<string, unknown> }).data ?? {}),
+      );
+    });
+
+  it("rejects a handshake without a token", async () => {
+    expect(await handshake(open({}))).toEqual({ code: "unauthorized" });
+  });
+
+  it("rejects a token the verifier does not accept", async () => {
+    expect(await handshake(open({ token: "forged:alice" }))).toEqual({ code: "unauthorized" });
+  });
+
+  it("rejects a banned account with the ban's details", async () => {
+    await banService.ban("mallory", { reason: "spam", source: "admin", until: null });
+
+    expect(await handshake(open({ token: "local:mallory" }))).toEqual({
+      code: "banned",
+      until: null,
+      reason: "spam",
+    });
+  });
+
+  it("binds the socket to the verified uid", async () => {
+    const client = open({ token: "local:alice" });
+    expect(await handshake(client)).toBeNull();
+
+    const uid = await new Promise((resolve) => client.emit("whoami", resolve));
+    expect(uid).toBe("alice");
+  });
+});
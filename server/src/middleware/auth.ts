@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from "express";
+import { Socket } from "socket.io";
+import { TokenVerifier } from "../auth/tokenVerifier";
+import { BanService } from "../services/banService";
+
+type AuthErrorCode = "unauthorized" | "banned";
+
+class AuthError extends Error {
+  data: { code: AuthErrorCode; until?: number | null; reason?: string };
+
+  constructor(code: AuthErrorCode, details: { until?: number | null; reason?: string } = {}) {
+    super(code);
+    this.data = { code, ...details };
+  }
+}
+
+/**
+ * Verify a token and make sure the account is not banned
+ */
+async function authenticate(
+  token: unknown,
+  verifier: TokenVerifier,
+  banService: BanService,
+) {
+  if (typeof token !== "string" || !token) {
+    throw new AuthError("unauthorized");
+  }
+
+  let identity;
+  try {
+    identity = await verifier.verify(token);
+  } catch {
+    throw new AuthError("unauthorized");
+  }
+
+  const ban = await banService.getActiveBan(identity.uid);
+  if (ban) {
+    throw new AuthError("banned", { until: ban.until, reason: ban.reason });
+  }
+
+  return identity;
+}
+
+/**
+ * Socket.IO handshake middleware. Expects `auth: { token }` from the client
+ * and binds the verified uid and claims to `socket.data`.
+ */
+export function socketAuth(verifier: TokenVerifier, banService: BanService) {
+  return async (socket: Socket, next: (err?: Error) => void) => {
+    try {
+      const identity = await authenticate(
+        socket.handshake.auth?.token,
+        verifier,
+        banService,
+      );
+      socket.data.uid = identity.uid;
+      socket.data.claims = identity.claims;
+      next();
+    } catch (error) {
+      if (error instanceof AuthError) {
+        console.warn(`🔒 Rejected socket ${socket.id}: ${error.message}`);
+        next(error);
+      } else {
+        console.error("❌ Socket authentication error:", error);
+        next(new AuthError("unauthorized"));
+      }
+    }
+  };
+}
+
+/**
+ * Express middleware for `Authorization: Bearer <token>`. The verified uid
+ * and claims are available as `res.locals.uid` and `res.locals.claims`.
+ */
+export function requireAuth(verifier: TokenVerifier, banService: BanService) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get("Authorization") || "";
+    const token = header.startsWith("Bearer ") ? header.slice(7) : undefined;
+
+    try {
+      const identity = await authenticate(token, verifier, banService);
+      res.locals.uid = identity.uid;
+      res.locals.claims = identity.claims;
+      next();
+    } catch (error) {
+      if (error instanceof AuthError) {
+        const status = error.data.code === "banned" ? 403 : 401;
+        return res.status(status).json({ error: error.message, ...error.data });
+      }
+      next(error);
+    }
+  };
+}
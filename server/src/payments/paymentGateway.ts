@@ -0,0 +1,143 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+
+export interface GatewayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+}
+
+export interface OrderRequest {
+  amount: number;
+  currency: string;
+  // Our own reference, shown in the Razorpay dashboard
+  receipt: string;
+  notes: Record<string, string>;
+}
+
+/**
+ * The parts of a payment provider the server relies on. Checkout itself
+ * happens in the client; the server creates orders and checks signatures.
+ */
+export interface PaymentGateway {
+  readonly name: "razorpay" | "local";
+  // Public key handed to the checkout widget
+  readonly keyId: string;
+  createOrder(request: OrderRequest): Promise<GatewayOrder>;
+  verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean;
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean;
+  refund(paymentId: string, amount: number): Promise<void>;
+}
+
+function hmac(secret: string, payload: string | Buffer): string {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+const RAZORPAY_API = "https://api.razorpay.com/v1";
+
+export class RazorpayGateway implements PaymentGateway {
+  readonly name = "razorpay";
+
+  constructor(
+    readonly keyId: string,
+    private readonly keySecret: string,
+    private readonly webhookSecret: string,
+  ) {}
+
+  async createOrder(request: OrderRequest): Promise<GatewayOrder> {
+    const order = await this.call<GatewayOrder>("POST", "/orders", request);
+    return { id: order.id, amount: order.amount, currency: order.currency };
+  }
+
+  verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean {
+    return signaturesMatch(hmac(this.keySecret, `${orderId}|${paymentId}`), signature);
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    return signaturesMatch(hmac(this.webhookSecret, rawBody), signature);
+  }
+
+  async refund(paymentId: string, amount: number): Promise<void> {
+    await this.call("POST", `/payments/${encodeURIComponent(paymentId)}/refund`, { amount });
+  }
+
+  private async call<T>(method: string, path: string, body: unknown): Promise<T> {
+    const response = await fetch(`${RAZORPAY_API}${path}`, {
+      method,
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.keyId}:${this.keySecret}`).toString("base64")}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const description = (data as { error?: { description?: string } }).error?.description;
+      throw new Error(`Razorpay ${path} failed: ${description || response.status}`);
+    }
+    return data as T;
+  }
+}
+
+export const LOCAL_PAYMENT_SECRET = "local-payment-secret";
+
+/**
+ * Development and test stand-in. Orders never leave the server and
+ * signatures are HMACs with a well-known secret, so test scripts (and the
+ * client in local mode) can produce valid ones without Razorpay.
+ */
+export class LocalPaymentGateway implements PaymentGateway {
+  readonly name = "local";
+  readonly keyId = "rzp_local";
+
+  async createOrder(request: OrderRequest): Promise<GatewayOrder> {
+    return { id: `order_local_${randomUUID()}`, amount: request.amount, currency: request.currency };
+  }
+
+  // What Razorpay checkout would hand the client after a successful payment
+  completePayment(orderId: string): { paymentId: string; signature: string } {
+    const paymentId = `pay_local_${randomUUID()}`;
+    return { paymentId, signature: hmac(LOCAL_PAYMENT_SECRET, `${orderId}|${paymentId}`) };
+  }
+
+  signWebhook(rawBody: Buffer | string): string {
+    return hmac(LOCAL_PAYMENT_SECRET, rawBody);
+  }
+
+  verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean {
+    return signaturesMatch(hmac(LOCAL_PAYMENT_SECRET, `${orderId}|${paymentId}`), signature);
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    return signaturesMatch(this.signWebhook(rawBody), signature);
+  }
+
+  async refund(): Promise<void> {
+    // No money moved, so there is nothing to send back
+  }
+}
+
+/**
+ * PAYMENT_GATEWAY=local selects the stand-in outside production; otherwise
+ * Razorpay keys are required
+ */
+export function createPaymentGateway(): PaymentGateway | null {
+  if (process.env.PAYMENT_GATEWAY === "local" && process.env.NODE_ENV !== "production") {
+    console.warn("⚠️ Using local payment gateway - do not use in production");
+    return new LocalPaymentGateway();
+  }
+
+  const { RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET } = process.env;
+  if (!RAZORPAY_KEY_ID || !RAZORPAY_KEY_SECRET || !RAZORPAY_WEBHOOK_SECRET) {
+    console.warn("⚠️ Razorpay is not configured - purchases are disabled");
+    return null;
+  }
+
+  return new RazorpayGateway(RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET);
+}
@@ -0,0 +1,125 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { catalog } from "../config/catalog";
+import { coinsConfig } from "../config/coins";
+import { moderationConfig } from "../config/moderation";
+import { rewardsConfig } from "../config/rewards";
+import { spinWheelConfig } from "../config/spinWheel";
+import { subscriptionConfig } from "../config/subscriptions";
+import { webRtcConfig } from "../config/webrtc";
+import { AuditLogService } from "../services/auditLogService";
+import { BanService } from "../services/banService";
+import { CallSessionService } from "../services/callSessionService";
+import { CallTelemetryService } from "../services/callTelemetryService";
+import { CoinLedgerService } from "../services/coinLedgerService";
+import { ReportService } from "../services/reportService";
+import { RewardsService } from "../services/rewardsService";
+import { SpinWheelService } from "../services/spinWheelService";
+import { SubscriptionService } from "../services/subscriptionService";
+import { InMemoryDocumentStore } from "../store";
+import { createAdminRouter } from "./admin";
+
+describe("admin ban routes", () => {
+  let server: Server;
+  let url: string;
+  let banService: BanService;
+
+  beforeEach(async () => {
+    const store = new InMemoryDocumentStore();
+    const ledger = new CoinLedgerService(store);
+    const rewards = new RewardsService(
+      store,
+      ledger,
+      rewardsConfig,
+      coinsConfig.prices.streak_freeze,
+    );
+    banService = new BanService(store);
+
+    const app = express();
+    app.use(express.json());
+    // Stands in for requireAuth: the caller's uid and role claim from headers
+    app.use((req, res, next) => {
+      res.locals.uid = req.header("x-uid");
+      res.locals.claims = { role: req.header("x-role") };
+      next();
+    });
+    app.use(
+      "/admin",
+      createAdminRouter({
+        reportService: new ReportService(store, banService, moderationConfig),
+        banService,
+        auditLog: new AuditLogService(store),
+        purchases: null,
+        subscriptions: new SubscriptionService(store, catalog, subscriptionConfig),
+        spinWheel: new SpinWheelService(store, ledger, spinWheelConfig, rewards),
+        callTelemetry: new CallTelemetryService(store, webRtcConfig),
+        callSessions: new CallSessionService(store, ledger, coinsConfig, rewards),
+        getRecentMatches: async () => [],
+        getLiveStats: async () => ({ onlineUsers: 0, waitingUsers: 0, activeMatches: 0 }),
+        getAbuseScore: () => 0,
+        onBanned: async () => {},
+        onShadowBanChanged: async () => {},
+      }),
+    );
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}/admin`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const post = (role: "admin" | "moderator", path: string, body: Record<string, unknown> = {}) =>
+    fetch(`${url}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "x-uid": `${role}-1`, "x-role": role },
+      body: JSON.stringify(body),
+    });
+
+  const banPermanently = () =>
+    banService.ban("mallory", { reason: "fraud", source: "admin", until: null });
+
+  it("stops a moderator lifting a permanent ban", async () => {
+    await banPermanently();
+
+    const response = await post("moderator", "/users/mallory/unban");
+
+    expect(response.status).toBe(403);
+    expect(await banService.getActiveBan("mallory")).toMatchObject({ until: null });
+  });
+
+  it("stops a moderator replacing a permanent ban with a temporary one", async () => {
+    await banPermanently();
+
+    const response = await post("moderator", "/users/mallory/ban", {
+      reason: "appeal",
+      durationMs: 1,
+    });
+
+    expect(response.status).toBe(403);
+    expect(await banService.getActiveBan("mallory")).toMatchObject({ until: null });
+  });
+
+  it("lets a moderator lift a temporary ban", async () => {
+    const until = Date.now() + 60 * 1000;
+    await banService.ban("mallory", { reason: "spam", source: "reports", until });
+
+    const response = await post("moderator", "/users/mallory/unban");
+
+    expect(response.status).toBe(200);
+    expect(await banService.getActiveBan("mallory")).toBeNull();
+  });
+
+  it("lets an admin lift a permanent ban", async () => {
+    await banPermanently();
+
+    const response = await post("admin", "/users/mallory/unban");
+
+    expect(response.status).toBe(200);
+    expect(await banService.getActiveBan("mallory")).toBeNull();
+  });
+});
@@ -0,0 +1,337 @@
+import { Router, Response } from "express";
+import { AdminRole, requireRole } from "../auth/roles";
+import { AuditAction, AuditLogService } from "../services/auditLogService";
+import { BanRecord, BanService } from "../services/banService";
+import { ReportService, ReportStatus } from "../services/reportService";
+import { PurchaseService } from "../services/purchaseService";
+import { SpinWheelService } from "../services/spinWheelService";
+import { CallTelemetryService } from "../services/callTelemetryService";
+import { CallSessionService } from "../services/callSessionService";
+import { SubscriptionService } from "../services/subscriptionService";
+import { RecentMatch } from "../types";
+import { handle, readString } from "./http";
+
+const REPORT_STATUSES: ReportStatus[] = ["pending", "reviewed", "resolved", "dismissed"];
+
+export interface LiveStats {
+  onlineUsers: number;
+  waitingUsers: number;
+  activeMatches: number;
+}
+
+interface AdminRouterDeps {
+  reportService: ReportService;
+  banService: BanService;
+  auditLog: AuditLogService;
+  // Null when no payment gateway is configured
+  purchases: PurchaseService | null;
+  subscriptions: SubscriptionService;
+  spinWheel: SpinWheelService;
+  callTelemetry: CallTelemetryService;
+  callSessions: CallSessionService;
+  getRecentMatches: (uid: string) => Promise<RecentMatch[]>;
+  getLiveStats: () => Promise<LiveStats>;
+  getAbuseScore: (uid: string) => number;
+  // Apply moderation decisions to sockets that are already connected
+  onBanned: (ban: BanRecord) => Promise<void>;
+  onShadowBanChanged: (uid: string, shadowBanned: boolean) => Promise<void>;
+}
+
+/**
+ * Ban length from a request body: a positive duration, or null for a
+ * permanent ban. Anything else is rejected.
+ */
+function readDuration(value: unknown): number | null | undefined {
+  if (value === null) return null;
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) return value;
+  return undefined;
+}
+
+/**
+ * Moderation console API, mounted behind requireAuth. Every write is
+ * recorded in the audit log with the acting uid and role.
+ */
+export function createAdminRouter(deps: AdminRouterDeps): Router {
+  const { reportService, banService, auditLog } = deps;
+  const router = Router();
+
+  router.use(requireRole("admin", "moderator"));
+
+  const audit = (
+    res: Response,
+    action: AuditAction,
+    entry: { targetUid?: string; reportId?: string; details?: Record<string, unknown> },
+  ) =>
+    auditLog.record({
+      actorUid: res.locals.uid,
+      actorRole: res.locals.role as AdminRole,
+      action,
+      details: {},
+      ...entry,
+    });
+
+  // Moderators may hand out and lift temporary bans; permanent ones, and
+  // anything that replaces or lifts them, need an admin
+  const mayChangeBan = async (res: Response, uid: string) => {
+    if (res.locals.role === "admin") return true;
+    const existing = await banService.getActiveBan(uid);
+    return !existing || existing.until !== null;
+  };
+
+  const applyBan = async (
+    res: Response,
+    uid: string,
+    reason: string,
+    durationMs: number | null,
+  ) => {
+    if (durationMs === null && res.locals.role !== "admin") {
+      return null;
+    }
+    if (!(await mayChangeBan(res, uid))) return null;
+
+    const ban = await banService.ban(uid, {
+      reason,
+      source: "admin",
+      until: durationMs === null ? null : Date.now() + durationMs,
+    });
+    await deps.onBanned(ban);
+    return ban;
+  };
+
+  router.get("/me", (req, res) => {
+    res.json({ uid: res.locals.uid, role: res.locals.role });
+  });
+
+  router.get(
+    "/reports",
+    handle(async (req, res) => {
+      const status = REPORT_STATUSES.find((value) => value === req.query.status);
+      res.json({ reports: await reportService.list(status) });
+    }),
+  );
+
+  router.post(
+    "/reports/:id/resolve",
+    handle(async (req, res) => {
+      const report = await reportService.get(req.params.id);
+      if (!report) return res.status(404).json({ error: "not_found" });
+
+      const action = req.body?.action === "ban" ? "ban" : "warn";
+      const note = readString(req.body?.note);
+      let ban: BanRecord | null = null;
+
+      if (action === "ban") {
+        const durationMs = readDuration(req.body?.durationMs);
+        if (durationMs === undefined) {
+          return res.status(400).json({ error: "invalid_duration" });
+        }
+
+        ban = await applyBan(res, report.reportedUserId, note || report.reason, durationMs);
+        if (!ban) return res.status(403).json({ error: "forbidden" });
+      }
+
+      const reviewed = await reportService.review(report.id, res.locals.uid, "resolved", action);
+      await audit(res, "report.resolve", {
+        reportId: report.id,
+        targetUid: report.reportedUserId,
+        details: { action, note, until: ban?.until },
+      });
+      res.json({ report: reviewed, ban });
+    }),
+  );
+
+  router.post(
+    "/reports/:id/dismiss",
+    handle(async (req, res) => {
+      const report = await reportService.get(req.params.id);
+      if (!report) return res.status(404).json({ error: "not_found" });
+
+      const note = readString(req.body?.note);
+      const reviewed = await reportService.review(report.id, res.locals.uid, "dismissed");
+      await audit(res, "report.dismiss", {
+        reportId: report.id,
+        targetUid: report.reportedUserId,
+        details: { note },
+      });
+      res.json({ report: reviewed });
+    }),
+  );
+
+  router.get(
+    "/users/:uid",
+    handle(async (req, res) => {
+      const { uid } = req.params;
+      const [reports, ban, shadowBan, auditEntries, recentMatches, receipts, subscription] =
+        await Promise.all([
+          reportService.listForUser(uid),
+          banService.getActiveBan(uid),
+          banService.getShadowBan(uid),
+          auditLog.listForUser(uid),
+          deps.getRecentMatches(uid),
+          deps.purchases ? deps.purchases.listReceipts(uid) : [],
+          deps.subscriptions.get(uid),
+        ]);
+
+      res.json({
+        uid,
+        reports,
+        ban,
+        shadowBan,
+        recentMatches,
+        receipts,
+        subscription,
+        abuseScore: deps.getAbuseScore(uid),
+        auditLog: auditEntries,
+      });
+    }),
+  );
+
+  router.post(
+    "/users/:uid/ban",
+    handle(async (req, res) => {
+      const { uid } = req.params;
+      const reason = readString(req.body?.reason);
+      const durationMs = readDuration(req.body?.durationMs);
+      if (!reason) return res.status(400).json({ error: "reason_required" });
+      if (durationMs === undefined) {
+        return res.status(400).json({ error: "invalid_duration" });
+      }
+
+      const ban = await applyBan(res, uid, reason, durationMs);
+      if (!ban) return res.status(403).json({ error: "forbidden" });
+
+      await audit(res, "user.ban", { targetUid: uid, details: { reason, until: ban.until } });
+      res.json({ ban });
+    }),
+  );
+
+  router.post(
+    "/users/:uid/unban",
+    handle(async (req, res) => {
+      const { uid } = req.params;
+      if (!(await mayChangeBan(res, uid))) {
+        return res.status(403).json({ error: "forbidden" });
+      }
+
+      await banService.unban(uid);
+      await audit(res, "user.unban", {
+        targetUid: uid,
+        details: { note: readString(req.body?.note) },
+      });
+      res.json({ success: true });
+    }),
+  );
+
+  router.post(
+    "/users/:uid/shadow-ban",
+    requireRole("admin"),
+    handle(async (req, res) => {
+      const { uid } = req.params;
+      const enabled = req.body?.enabled !== false;
+      const reason = readString(req.body?.reason);
+
+      if (enabled) {
+        await banService.setShadowBan(uid, reason);
+      } else {
+        await banService.clearShadowBan(uid);
+      }
+      await deps.onShadowBanChanged(uid, enabled);
+
+      await audit(res, enabled ? "user.shadowBan" : "user.shadowUnban", {
+        targetUid: uid,
+        details: { reason },
+      });
+      res.json({ success: true, shadowBanned: enabled });
+    }),
+  );
+
+  router.post(
+    "/payments/:paymentId/refund",
+    requireRole("admin"),
+    handle(async (req, res) => {
+      if (!deps.purchases) {
+        return res.status(503).json({ error: "payments_unavailable" });
+      }
+
+      const receipt = await deps.purchases.refund(req.params.paymentId);
+      if (!receipt) return res.status(404).json({ error: "not_found" });
+
+      await audit(res, "payment.refund", {
+        targetUid: receipt.uid,
+        details: { paymentId: receipt.id, amount: receipt.amount, note: readString(req.body?.note) },
+      });
+      res.json({ receipt });
+    }),
+  );
+
+  router.get(
+    "/audit-log",
+    requireRole("admin"),
+    handle(async (req, res) => {
+      res.json({ entries: await auditLog.list() });
+    }),
+  );
+
+  // Payout rates of the most recent spins, for checking the wheel pays what it promises
+  router.get(
+    "/spins/stats",
+    handle(async (req, res) => {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 1000, 1), 10000);
+      res.json({ stats: await deps.spinWheel.getPayoutStats(limit) });
+    }),
+  );
+
+  // How recent calls connected, and how many of them needed TURN
+  router.get(
+    "/calls/connections",
+    handle(async (req, res) => {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 1000, 1), 10000);
+      res.json({ stats: await deps.callTelemetry.getConnectionStats(limit) });
+    }),
+  );
+
+  router.get(
+    "/calls/quality",
+    handle(async (req, res) => {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 1000, 1), 10000);
+      res.json({ stats: await deps.callTelemetry.getQualityStats(limit) });
+    }),
+  );
+
+  // How recent matches ended and how long they ran, from the server's own records
+  router.get(
+    "/sessions/stats",
+    handle(async (req, res) => {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 1000, 1), 10000);
+      res.json({ stats: await deps.callSessions.getStats(limit) });
+    }),
+  );
+
+  // The session behind a report, for checking what the reporter says happened
+  router.get(
+    "/sessions/:id",
+    handle(async (req, res) => {
+      const session = await deps.callSessions.get(req.params.id);
+      if (!session) return res.status(404).json({ error: "not_found" });
+      res.json({ session });
+    }),
+  );
+
+  router.get(
+    "/analytics",
+    handle(async (req, res) => {
+      const [pendingReports, activeBans] = await Promise.all([
+        reportService.list("pending", 1000),
+        banService.listActiveBans(),
+      ]);
+
+      res.json({
+        ...(await deps.getLiveStats()),
+        pendingReports: pendingReports.length,
+        activeBans: activeBans.length,
+      });
+    }),
+  );
+
+  return router;
+}
@@ -0,0 +1,152 @@
+import { Router, Response } from "express";
+import { AdRewardVerifiers, VerifiedAdReward } from "../ads/rewardVerifier";
+import {
+  AdRewardError,
+  AdRewardErrorCode,
+  AdRewardService,
+  AdSession,
+} from "../services/adRewardService";
+import { handle } from "./http";
+
+const AD_REWARD_ERROR_STATUS: Record<AdRewardErrorCode, number> = {
+  invalid_purpose: 400,
+  not_found: 404,
+  unknown_session: 400,
+  session_used: 409,
+  session_expired: 410,
+};
+
+interface AdsRouterDeps {
+  adRewards: AdRewardService;
+  verifiers: AdRewardVerifiers;
+  // Tell the user's connected clients how a session ended
+  onCompleted: (session: AdSession) => Promise<void>;
+}
+
+async function settle(
+  deps: AdsRouterDeps,
+  reward: VerifiedAdReward,
+): Promise<{ session: AdSession } | { error: AdRewardErrorCode }> {
+  try {
+    const { session, replayed } = await deps.adRewards.complete(reward);
+    if (!replayed) await deps.onCompleted(session);
+    return { session };
+  } catch (error) {
+    if (!(error instanceof AdRewardError)) throw error;
+    return { error: error.code };
+  }
+}
+
+/**
+ * Rewarded ad sessions for the signed-in user, mounted behind requireAuth.
+ * The client opens a session, passes its id to the ad SDK as custom data
+ * and waits for the ad network's callback to settle it.
+ */
+export function createAdsRouter(deps: AdsRouterDeps): Router {
+  const { adRewards, verifiers } = deps;
+  const router = Router();
+
+  const respond = async (res: Response, change: () => Promise<object>) => {
+    try {
+      res.json(await change());
+    } catch (error) {
+      if (error instanceof AdRewardError) {
+        return res.status(AD_REWARD_ERROR_STATUS[error.code]).json({ error: error.code });
+      }
+      throw error;
+    }
+  };
+
+  router.post(
+    "/sessions",
+    handle(async (req, res) => {
+      await respond(res, async () => ({
+        session: await adRewards.createSession(
+          res.locals.uid,
+          req.body?.purpose,
+          req.body?.spinId,
+        ),
+        verification: verifiers.local ? "local" : "ssv",
+      }));
+    }),
+  );
+
+  router.get(
+    "/sessions/:id",
+    handle(async (req, res) => {
+      await respond(res, async () => ({
+        session: await adRewards.getSession(res.locals.uid, req.params.id),
+      }));
+    }),
+  );
+
+  // Stand-in for the ad network's callback when ads are verified locally
+  router.post(
+    "/sessions/:id/complete-local",
+    handle(async (req, res) => {
+      if (!verifiers.local) {
+        return res.status(404).json({ error: "not_found" });
+      }
+      const result = await settle(deps, {
+        network: "local",
+        impressionId: req.params.id,
+        uid: res.locals.uid,
+        customData: req.params.id,
+      });
+      if ("error" in result) {
+        return res.status(AD_REWARD_ERROR_STATUS[result.error]).json(result);
+      }
+      res.json(result);
+    }),
+  );
+
+  return router;
+}
+
+/**
+ * Server-side verification callbacks from the ad networks. Public: each
+ * request is trusted only once its signature verifies. Anything that
+ * verifies is acknowledged, even when it pays nothing, so networks do not
+ * retry it.
+ */
+export function createAdCallbacksRouter(deps: AdsRouterDeps): Router {
+  const { verifiers } = deps;
+  const router = Router();
+
+  router.get(
+    "/admob",
+    handle(async (req, res) => {
+      // The signature covers the query string exactly as sent
+      const queryAt = req.originalUrl.indexOf("?");
+      const reward = await verifiers.admob.verify(
+        queryAt < 0 ? "" : req.originalUrl.slice(queryAt + 1),
+      );
+      if (!reward) {
+        return res.status(400).json({ error: "invalid_signature" });
+      }
+      res.json(await settle(deps, reward));
+    }),
+  );
+
+  router.get(
+    "/unity",
+    handle(async (req, res) => {
+      if (!verifiers.unity) {
+        return res.status(503).json({ error: "unity_unavailable" });
+      }
+      const params: Record<string, string> = {};
+      for (const [key, value] of Object.entries(req.query)) {
+        if (typeof value === "string") params[key] = value;
+      }
+      const reward = verifiers.unity.verify(params);
+      if (!reward) {
+        return res.status(400).send("invalid_signature");
+      }
+      await settle(deps, reward);
+      // Unity treats anything but "1" as a failure and retries
+      res.send("1");
+    }),
+  );
+
+  return router;
+}
@@ -0,0 +1,80 @@
+import { Router, Response } from "express";
+import { CoinsConfig, isDebitReason } from "../config/coins";
+import {
+  CoinLedgerService,
+  LedgerError,
+  isIdempotencyKey,
+  LedgerErrorCode,
+  LedgerResult,
+} from "../services/coinLedgerService";
+import { handle } from "./http";
+
+export const LEDGER_ERROR_STATUS: Record<LedgerErrorCode, number> = {
+  insufficient_coins: 402,
+  idempotency_conflict: 409,
+};
+
+interface CoinsRouterDeps {
+  ledger: CoinLedgerService;
+  config: CoinsConfig;
+}
+
+/**
+ * The signed-in user's coin balance and ledger, mounted behind requireAuth.
+ * Clients only spend here, saying why; credits come from the routes that
+ * verify what earned them.
+ */
+export function createCoinsRouter(deps: CoinsRouterDeps): Router {
+  const { ledger, config } = deps;
+  const router = Router();
+
+  const respond = async (res: Response, change: () => Promise<LedgerResult>) => {
+    try {
+      const { entry, replayed } = await change();
+      res.json({ entry, replayed, balance: await ledger.getBalance(res.locals.uid) });
+    } catch (error) {
+      if (!(error instanceof LedgerError)) throw error;
+      res.status(LEDGER_ERROR_STATUS[error.code]).json({ error: error.code });
+    }
+  };
+
+  router.get(
+    "/",
+    handle(async (req, res) => {
+      res.json({ balance: await ledger.getBalance(res.locals.uid) });
+    }),
+  );
+
+  router.get(
+    "/history",
+    handle(async (req, res) => {
+      const requested = Number(req.query.limit);
+      const limit =
+        Number.isInteger(requested) && requested > 0
+          ? Math.min(requested, config.maxHistoryEntries)
+          : config.maxHistoryEntries;
+      res.json({ entries: await ledger.history(res.locals.uid, limit) });
+    }),
+  );
+
+  router.post(
+    "/debit",
+    handle(async (req, res) => {
+      const { reason, amount, idempotencyKey } = req.body || {};
+      if (!isDebitReason(reason)) {
+        return res.status(400).json({ error: "invalid_reason" });
+      }
+      // The client shows the price, so make sure it showed the right one
+      if (amount !== config.prices[reason]) {
+        return res.status(400).json({ error: "invalid_amount", price: config.prices[reason] });
+      }
+      if (!isIdempotencyKey(idempotencyKey)) {
+        return res.status(400).json({ error: "invalid_idempotency_key" });
+      }
+
+      await respond(res, () => ledger.debit(res.locals.uid, amount, reason, idempotencyKey));
+    }),
+  );
+
+  return router;
+}
@@ -0,0 +1,30 @@
+import { Router } from "express";
+import { Feature, callLimits, entitlements } from "../config/entitlements";
+import { coinsConfig } from "../config/coins";
+
+/**
+ * The entitlement table for clients to gate their UI with. Public, since it
+ * describes packaging rather than any one user.
+ */
+export function createEntitlementsRouter(): Router {
+  const router = Router();
+
+  router.get("/", (req, res) => {
+    const features = Object.fromEntries(
+      (Object.keys(entitlements) as Feature[]).map((feature) => {
+        const { tiers, coinUnlock, freeAllowance } = entitlements[feature];
+        return [
+          feature,
+          {
+            tiers,
+            ...(coinUnlock ? { coinPrice: coinsConfig.prices[coinUnlock] } : {}),
+            ...(freeAllowance !== undefined ? { freeAllowance } : {}),
+          },
+        ];
+      }),
+    );
+    res.json({ features, callLimits });
+  });
+
+  return router;
+}
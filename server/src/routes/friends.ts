@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { FriendError, FriendErrorCode, FriendService } from "../services/friendService";
+import { handle } from "./http";
+
+const FRIEND_ERROR_STATUS: Record<FriendErrorCode, number> = {
+  not_found: 404,
+  friend_limit_reached: 402,
+  partner_friend_limit_reached: 409,
+};
+
+/**
+ * Friend requests that need the server's say, mounted behind requireAuth.
+ * Sending and rejecting requests stay client-side.
+ */
+export function createFriendsRouter(friends: FriendService): Router {
+  const router = Router();
+
+  router.post(
+    "/requests/:id/accept",
+    handle(async (req, res) => {
+      try {
+        await friends.acceptRequest(res.locals.uid, req.params.id);
+        res.json({ accepted: true });
+      } catch (error) {
+        if (!(error instanceof FriendError)) throw error;
+        res.status(FRIEND_ERROR_STATUS[error.code]).json({ error: error.code });
+      }
+    }),
+  );
+
+  return router;
+}
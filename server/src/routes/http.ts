@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from "express";
+
+type AsyncHandler = (req: Request, res: Response) => Promise<unknown>;
+
+// Express 4 does not forward rejected promises to the error handler
+export function handle(fn: AsyncHandler) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    fn(req, res).catch(next);
+  };
+}
+
+export function readString(value: unknown, maxLength = 500): string {
+  return typeof value === "string" ? value.trim().slice(0, maxLength) : "";
+}
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * `verify` hook for express.json that keeps the exact bytes, which webhook
+ * signatures are computed over
+ */
+export function keepRawBody(req: Request, _res: Response, buf: Buffer) {
+  (req as RawBodyRequest).rawBody = buf;
+}
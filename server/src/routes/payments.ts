@@ -0,0 +1,147 @@
+import { Router } from "express";
+import { Catalog } from "../config/catalog";
+import { LocalPaymentGateway, PaymentGateway } from "../payments/paymentGateway";
+import {
+  ProductType,
+  PurchaseError,
+  PurchaseErrorCode,
+  PurchaseService,
+} from "../services/purchaseService";
+import { RawBodyRequest, handle, readString } from "./http";
+
+const PRODUCT_TYPES: ProductType[] = ["premium", "coins"];
+
+const PURCHASE_ERROR_STATUS: Record<PurchaseErrorCode, number> = {
+  invalid_signature: 400,
+  not_found: 404,
+  plan_change_scheduled: 409,
+};
+
+interface PaymentsRouterDeps {
+  catalog: Catalog;
+  // Null when no gateway is configured; purchases then answer 503
+  purchases: PurchaseService | null;
+  gateway: PaymentGateway | null;
+}
+
+/**
+ * Checkout for premium plans and coin packs, mounted behind requireAuth.
+ * The client opens Razorpay with an order from here and hands the signed
+ * result back; nothing is granted until that signature verifies.
+ */
+export function createPaymentsRouter(deps: PaymentsRouterDeps): Router {
+  const { catalog, purchases, gateway } = deps;
+  const router = Router();
+
+  router.get("/catalog", (req, res) => {
+    res.json({ ...catalog, available: Boolean(purchases) });
+  });
+
+  router.post(
+    "/orders",
+    handle(async (req, res) => {
+      if (!purchases || !gateway) {
+        return res.status(503).json({ error: "payments_unavailable" });
+      }
+
+      const productType = req.body?.productType;
+      const productId = readString(req.body?.productId, 100);
+      if (!PRODUCT_TYPES.includes(productType)) {
+        return res.status(400).json({ error: "invalid_product" });
+      }
+
+      let order;
+      try {
+        order = await purchases.createOrder(res.locals.uid, productType, productId);
+      } catch (error) {
+        if (!(error instanceof PurchaseError)) throw error;
+        return res.status(PURCHASE_ERROR_STATUS[error.code]).json({ error: error.code });
+      }
+      if (!order) return res.status(400).json({ error: "invalid_product" });
+
+      res.json({
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        keyId: gateway.keyId,
+        gateway: gateway.name,
+      });
+    }),
+  );
+
+  // Stand-in for the checkout widget when running the local gateway
+  router.post(
+    "/orders/:id/complete-local",
+    handle(async (req, res) => {
+      if (!(gateway instanceof LocalPaymentGateway)) {
+        return res.status(404).json({ error: "not_found" });
+      }
+      res.json(gateway.completePayment(req.params.id));
+    }),
+  );
+
+  router.post(
+    "/verify",
+    handle(async (req, res) => {
+      if (!purchases) {
+        return res.status(503).json({ error: "payments_unavailable" });
+      }
+
+      const orderId = readString(req.body?.orderId, 100);
+      const paymentId = readString(req.body?.paymentId, 100);
+      const signature = readString(req.body?.signature, 200);
+      if (!orderId || !paymentId || !signature) {
+        return res.status(400).json({ error: "invalid_payment" });
+      }
+
+      try {
+        const receipt = await purchases.confirm(res.locals.uid, orderId, paymentId, signature);
+        res.json({ receipt });
+      } catch (error) {
+        if (!(error instanceof PurchaseError)) throw error;
+        res.status(PURCHASE_ERROR_STATUS[error.code]).json({ error: error.code });
+      }
+    }),
+  );
+
+  router.get(
+    "/receipts",
+    handle(async (req, res) => {
+      res.json({ receipts: purchases ? await purchases.listReceipts(res.locals.uid) : [] });
+    }),
+  );
+
+  return router;
+}
+
+/**
+ * Razorpay webhook endpoint. Authenticated by its signature rather than a
+ * user token, so it is mounted separately.
+ */
+export function createPaymentWebhookRouter(purchases: PurchaseService | null): Router {
+  const router = Router();
+
+  router.post(
+    "/",
+    handle(async (req, res) => {
+      const rawBody = (req as RawBodyRequest).rawBody;
+      const signature = req.header("x-razorpay-signature");
+      if (!purchases) {
+        return res.status(503).json({ error: "payments_unavailable" });
+      }
+      if (!rawBody || !signature) {
+        return res.status(400).json({ error: "invalid_signature" });
+      }
+
+      try {
+        await purchases.handleWebhook(rawBody, signature);
+        res.json({ received: true });
+      } catch (error) {
+        if (!(error instanceof PurchaseError)) throw error;
+        res.status(PURCHASE_ERROR_STATUS[error.code]).json({ error: error.code });
+      }
+    }),
+  );
+
+  return router;
+}
@@ -0,0 +1,38 @@
+import { Router } from "express";
+import { ReferralError, ReferralErrorCode, ReferralService } from "../services/referralService";
+import { handle } from "./http";
+
+const REFERRAL_ERROR_STATUS: Record<ReferralErrorCode, number> = {
+  invalid_code: 404,
+  self_referral: 400,
+  already_referred: 409,
+};
+
+/**
+ * The signed-in user's referral code and progress, mounted behind requireAuth
+ */
+export function createReferralsRouter(referrals: ReferralService): Router {
+  const router = Router();
+
+  router.get(
+    "/",
+    handle(async (req, res) => {
+      res.json(await referrals.getDashboard(res.locals.uid));
+    }),
+  );
+
+  router.post(
+    "/apply",
+    handle(async (req, res) => {
+      try {
+        const referral = await referrals.applyCode(res.locals.uid, req.body?.code);
+        res.json({ status: referral.status });
+      } catch (error) {
+        if (!(error instanceof ReferralError)) throw error;
+        res.status(REFERRAL_ERROR_STATUS[error.code]).json({ error: error.code });
+      }
+    }),
+  );
+
+  return router;
+}
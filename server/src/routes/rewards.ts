@@ -0,0 +1,69 @@
+import { Router, Response } from "express";
+import { RewardError, RewardErrorCode, RewardsService } from "../services/rewardsService";
+import { LedgerError, isIdempotencyKey } from "../services/coinLedgerService";
+import { LEDGER_ERROR_STATUS } from "./coins";
+import { handle } from "./http";
+
+const REWARD_ERROR_STATUS: Record<RewardErrorCode, number> = {
+  already_claimed: 409,
+  ad_limit_reached: 429,
+  freeze_limit_reached: 409,
+};
+
+/**
+ * Daily bonus and streak rewards for the signed-in user, mounted behind
+ * requireAuth. Clients send their IANA time zone so days end at their
+ * midnight. Ad rewards arrive through the ad networks' callbacks.
+ */
+export function createRewardsRouter(rewards: RewardsService): Router {
+  const router = Router();
+
+  const respond = async (res: Response, change: () => Promise<object>) => {
+    try {
+      res.json(await change());
+    } catch (error) {
+      if (error instanceof RewardError) {
+        return res.status(REWARD_ERROR_STATUS[error.code]).json({ error: error.code });
+      }
+      if (error instanceof LedgerError) {
+        return res.status(LEDGER_ERROR_STATUS[error.code]).json({ error: error.code });
+      }
+      throw error;
+    }
+  };
+
+  router.get(
+    "/",
+    handle(async (req, res) => {
+      res.json({ status: await rewards.getStatus(res.locals.uid, req.query.timeZone) });
+    }),
+  );
+
+  router.post(
+    "/daily/claim",
+    handle(async (req, res) => {
+      const uid = res.locals.uid;
+      await respond(res, async () => ({
+        claim: await rewards.claimDailyBonus(uid, req.body?.timeZone),
+        status: await rewards.getStatus(uid),
+      }));
+    }),
+  );
+
+  router.post(
+    "/streak-freezes",
+    handle(async (req, res) => {
+      const uid = res.locals.uid;
+      const idempotencyKey = req.body?.idempotencyKey;
+      if (!isIdempotencyKey(idempotencyKey)) {
+        return res.status(400).json({ error: "invalid_idempotency_key" });
+      }
+      await respond(res, async () => {
+        await rewards.buyStreakFreeze(uid, idempotencyKey);
+        return { status: await rewards.getStatus(uid) };
+      });
+    }),
+  );
+
+  return router;
+}
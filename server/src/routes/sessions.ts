@@ -0,0 +1,77 @@
+import { Router, Response } from "express";
+import {
+  CallSession,
+  CallSessionService,
+  SessionError,
+  SessionErrorCode,
+} from "../services/callSessionService";
+import { CoinLedgerService, LedgerError } from "../services/coinLedgerService";
+import { LEDGER_ERROR_STATUS } from "./coins";
+import { handle } from "./http";
+
+const SESSION_ERROR_STATUS: Record<SessionErrorCode, number> = {
+  not_found: 404,
+  invalid_rating: 400,
+  too_short: 409,
+  reported: 409,
+  daily_limit_reached: 429,
+};
+
+interface SessionsRouterDeps {
+  sessions: CallSessionService;
+  ledger: CoinLedgerService;
+}
+
+/**
+ * The signed-in user's match sessions, mounted behind requireAuth. Ids come
+ * from the session:started event; other users' sessions read as missing.
+ */
+export function createSessionsRouter(deps: SessionsRouterDeps): Router {
+  const { sessions, ledger } = deps;
+  const router = Router();
+
+  const respond = async (res: Response, read: () => Promise<CallSession>) => {
+    try {
+      res.json({ session: sessions.toView(await read()) });
+    } catch (error) {
+      if (!(error instanceof SessionError)) throw error;
+      res.status(SESSION_ERROR_STATUS[error.code]).json({ error: error.code });
+    }
+  };
+
+  router.get(
+    "/:id",
+    handle(async (req, res) => {
+      await respond(res, () => sessions.getForParticipant(res.locals.uid, req.params.id));
+    }),
+  );
+
+  router.post(
+    "/:id/rating",
+    handle(async (req, res) => {
+      await respond(res, () => sessions.rate(res.locals.uid, req.params.id, req.body?.rating));
+    }),
+  );
+
+  // Chat completion coins; asking again for the same session is a no-op
+  router.post(
+    "/:id/reward",
+    handle(async (req, res) => {
+      const uid = res.locals.uid;
+      try {
+        const { entry, replayed } = await sessions.rewardCompletion(uid, req.params.id);
+        res.json({ entry, replayed, balance: await ledger.getBalance(uid) });
+      } catch (error) {
+        if (error instanceof SessionError) {
+          return res.status(SESSION_ERROR_STATUS[error.code]).json({ error: error.code });
+        }
+        if (error instanceof LedgerError) {
+          return res.status(LEDGER_ERROR_STATUS[error.code]).json({ error: error.code });
+        }
+        throw error;
+      }
+    }),
+  );
+
+  return router;
+}
@@ -0,0 +1,59 @@
+import { Router } from "express";
+import { CoinShopService, ShopError, ShopErrorCode } from "../services/coinShopService";
+import { CoinLedgerService, LedgerError, isIdempotencyKey } from "../services/coinLedgerService";
+import { LEDGER_ERROR_STATUS } from "./coins";
+import { handle } from "./http";
+
+const SHOP_ERROR_STATUS: Record<ShopErrorCode, number> = {
+  unknown_item: 404,
+};
+
+interface ShopRouterDeps {
+  shop: CoinShopService;
+  ledger: CoinLedgerService;
+  // Apply a purchase to the user's connected sockets, e.g. for matching
+  onUnlocksChanged: (uid: string) => Promise<void>;
+}
+
+/**
+ * The coin shop for the signed-in user, mounted behind requireAuth. Every
+ * item is bought through one endpoint at the price in config/coinShop.
+ */
+export function createShopRouter(deps: ShopRouterDeps): Router {
+  const { shop, ledger, onUnlocksChanged } = deps;
+  const router = Router();
+
+  router.get(
+    "/",
+    handle(async (req, res) => {
+      res.json({ items: shop.items, unlocks: await shop.getUnlocks(res.locals.uid) });
+    }),
+  );
+
+  router.post(
+    "/purchases",
+    handle(async (req, res) => {
+      const uid = res.locals.uid;
+      const idempotencyKey = req.body?.idempotencyKey;
+      if (!isIdempotencyKey(idempotencyKey)) {
+        return res.status(400).json({ error: "invalid_idempotency_key" });
+      }
+
+      try {
+        const unlocks = await shop.purchase(uid, req.body?.itemId, idempotencyKey);
+        await onUnlocksChanged(uid);
+        res.json({ unlocks, balance: await ledger.getBalance(uid) });
+      } catch (error) {
+        if (error instanceof ShopError) {
+          return res.status(SHOP_ERROR_STATUS[error.code]).json({ error: error.code });
+        }
+        if (error instanceof LedgerError) {
+          return res.status(LEDGER_ERROR_STATUS[error.code]).json({ error: error.code });
+        }
+        throw error;
+      }
+    }),
+  );
+
+  return router;
+}
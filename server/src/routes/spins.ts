@@ -0,0 +1,52 @@
+import { Router, Response } from "express";
+import { SpinError, SpinErrorCode, SpinWheelService } from "../services/spinWheelService";
+import { handle } from "./http";
+
+const SPIN_ERROR_STATUS: Record<SpinErrorCode, number> = {
+  invalid_client_seed: 400,
+  stale_commitment: 409,
+  spin_limit_reached: 429,
+  not_found: 404,
+  not_claimable: 409,
+  claim_expired: 410,
+};
+
+/**
+ * The signed-in user's spin wheel, mounted behind requireAuth. Each spin
+ * reveals the server seed it used, so clients can verify the result. Wins
+ * that need an ad are claimed through an ad session.
+ */
+export function createSpinsRouter(spinWheel: SpinWheelService): Router {
+  const router = Router();
+
+  const respond = async (res: Response, change: () => Promise<object>) => {
+    try {
+      res.json(await change());
+    } catch (error) {
+      if (error instanceof SpinError) {
+        return res.status(SPIN_ERROR_STATUS[error.code]).json({ error: error.code });
+      }
+      throw error;
+    }
+  };
+
+  router.get(
+    "/",
+    handle(async (req, res) => {
+      res.json({ status: await spinWheel.getStatus(res.locals.uid) });
+    }),
+  );
+
+  router.post(
+    "/",
+    handle(async (req, res) => {
+      const uid = res.locals.uid;
+      await respond(res, async () => ({
+        spin: await spinWheel.spin(uid, req.body?.clientSeed, req.body?.commitment),
+        status: await spinWheel.getStatus(uid),
+      }));
+    }),
+  );
+
+  return router;
+}
@@ -0,0 +1,109 @@
+import { Router, Response } from "express";
+import {
+  Subscription,
+  SubscriptionError,
+  SubscriptionErrorCode,
+  SubscriptionService,
+} from "../services/subscriptionService";
+import { Trial, TrialError, TrialErrorCode, TrialService } from "../services/trialService";
+import { handle } from "./http";
+
+const SUBSCRIPTION_ERROR_STATUS: Record<SubscriptionErrorCode, number> = {
+  invalid_plan: 400,
+  not_subscribed: 404,
+  checkout_required: 409,
+};
+
+const TRIAL_ERROR_STATUS: Record<TrialErrorCode, number> = {
+  already_premium: 409,
+  trial_used: 409,
+};
+
+interface SubscriptionRouterDeps {
+  subscriptions: SubscriptionService;
+  trials: TrialService;
+  // Premium starts on the user's connected sockets, e.g. for matching
+  onTrialStarted: (trial: Trial) => Promise<void>;
+}
+
+/**
+ * The signed-in user's premium subscription and free trial, mounted behind
+ * requireAuth. Paid changes go through checkout; these routes only quote
+ * them and handle the free ones (auto-renew, scheduled downgrades, trials).
+ */
+export function createSubscriptionRouter(deps: SubscriptionRouterDeps): Router {
+  const { subscriptions, trials, onTrialStarted } = deps;
+  const router = Router();
+
+  const respond = async (res: Response, change: () => Promise<Subscription>) => {
+    try {
+      res.json({ subscription: await change() });
+    } catch (error) {
+      if (!(error instanceof SubscriptionError)) throw error;
+      res.status(SUBSCRIPTION_ERROR_STATUS[error.code]).json({ error: error.code });
+    }
+  };
+
+  router.get(
+    "/",
+    handle(async (req, res) => {
+      res.json({ subscription: await subscriptions.get(res.locals.uid) });
+    }),
+  );
+
+  // What checkout would charge for a plan right now
+  router.get(
+    "/quote",
+    handle(async (req, res) => {
+      const quote = await subscriptions.quote(res.locals.uid, req.query.planId);
+      if (!quote) return res.status(400).json({ error: "invalid_plan" });
+      res.json({ quote });
+    }),
+  );
+
+  router.post(
+    "/auto-renew",
+    handle(async (req, res) => {
+      const autoRenew = req.body?.autoRenew;
+      if (typeof autoRenew !== "boolean") {
+        return res.status(400).json({ error: "invalid_auto_renew" });
+      }
+      await respond(res, () => subscriptions.setAutoRenew(res.locals.uid, autoRenew));
+    }),
+  );
+
+  router.post(
+    "/plan",
+    handle(async (req, res) => {
+      await respond(res, () =>
+        subscriptions.schedulePlanChange(res.locals.uid, req.body?.planId),
+      );
+    }),
+  );
+
+  // The trial, if any, and whether this account may still start one
+  router.get(
+    "/trial",
+    handle(async (req, res) => {
+      const uid = res.locals.uid;
+      const [trial, eligible] = await Promise.all([trials.get(uid), trials.isEligible(uid)]);
+      res.json({ trial, eligible });
+    }),
+  );
+
+  router.post(
+    "/trial",
+    handle(async (req, res) => {
+      try {
+        const trial = await trials.start(res.locals.uid);
+        await onTrialStarted(trial);
+        res.json({ trial });
+      } catch (error) {
+        if (!(error instanceof TrialError)) throw error;
+        res.status(TRIAL_ERROR_STATUS[error.code]).json({ error: error.code });
+      }
+    }),
+  );
+
+  return router;
+}
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { CallTelemetryService } from "../services/callTelemetryService";
+
+/**
+ * ICE servers for the signed-in user's calls, mounted behind requireAuth.
+ * Clients fetch them before each call, since TURN credentials expire.
+ */
+export function createWebRtcRouter(callTelemetry: CallTelemetryService): Router {
+  const router = Router();
+
+  router.get("/ice-servers", (req, res) => {
+    res.json(callTelemetry.issueIceServers(res.locals.uid));
+  });
+
+  return router;
+}
@@ -0,0 +1,51 @@
+import { AbuseConfig } from "../config/moderation";
+
+export type AbuseKind = "relayViolation";
+
+interface AbuseEvent {
+  kind: AbuseKind;
+  score: number;
+  at: number;
+}
+
+/**
+ * In-memory abuse scoring per uid. Scores only count recent events, so
+ * they reset on their own once a client stops misbehaving.
+ */
+export class AbuseService {
+  private readonly events = new Map<string, AbuseEvent[]>();
+
+  constructor(private readonly config: AbuseConfig) {}
+
+  /**
+   * Record an event and return the uid's updated score
+   */
+  record(uid: string, kind: AbuseKind, now = Date.now()): number {
+    const score = kind === "relayViolation" ? this.config.relayViolationScore : 0;
+    const events = [...this.recentEvents(uid, now), { kind, score, at: now }];
+    this.events.set(uid, events);
+    return this.total(events);
+  }
+
+  getScore(uid: string, now = Date.now()): number {
+    return this.total(this.recentEvents(uid, now));
+  }
+
+  shouldDisconnect(score: number): boolean {
+    return score >= this.config.disconnectScore;
+  }
+
+  private recentEvents(uid: string, now: number): AbuseEvent[] {
+    const events = (this.events.get(uid) || []).filter(
+      (event) => now - event.at <= this.config.windowMs,
+    );
+    if (events.length === 0) {
+      this.events.delete(uid);
+    }
+    return events;
+  }
+
+  private total(events: AbuseEvent[]): number {
+    return events.reduce((sum, event) => sum + event.score, 0);
+  }
+}
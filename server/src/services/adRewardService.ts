@@ -0,0 +1,190 @@
+import { randomUUID } from "crypto";
+import { DocumentStore } from "../store";
+import { AdNetwork, VerifiedAdReward } from "../ads/rewardVerifier";
+import { RewardError, RewardsService } from "./rewardsService";
+import { SpinError, SpinWheelService } from "./spinWheelService";
+
+const AD_SESSIONS_COLLECTION = "adSessions";
+const AD_IMPRESSIONS_COLLECTION = "adImpressions";
+
+// What a watched ad pays for: the daily ad reward, or a spin wheel win
+export type AdPurpose = "reward" | "spin";
+
+export type AdSessionStatus = "pending" | "credited" | "rejected";
+
+/**
+ * `adSessions/{id}`: one rewarded ad the client is about to show. The id
+ * goes to the ad network as custom data and comes back in its callback.
+ */
+export interface AdSession {
+  id: string;
+  uid: string;
+  purpose: AdPurpose;
+  spinId: string | null;
+  status: AdSessionStatus;
+  network: AdNetwork | null;
+  impressionId: string | null;
+  coins: number;
+  // Why a verified ad paid nothing, e.g. the daily cap was reached
+  error: string | null;
+  createdAt: number;
+  completedAt: number | null;
+}
+
+/**
+ * `adImpressions/{network}_{impressionId}`: the one session an impression
+ * paid for
+ */
+interface AdImpression {
+  network: AdNetwork;
+  impressionId: string;
+  sessionId: string;
+  uid: string;
+  createdAt: number;
+}
+
+export type AdRewardErrorCode =
+  | "invalid_purpose"
+  | "not_found"
+  | "unknown_session"
+  | "session_used"
+  | "session_expired";
+
+export class AdRewardError extends Error {
+  constructor(readonly code: AdRewardErrorCode) {
+    super(code);
+    this.name = "AdRewardError";
+  }
+}
+
+/**
+ * Rewarded ads paid out on the ad network's word, not the client's. Each
+ * impression pays for at most one session and each session is paid once,
+ * however often the network retries its callback.
+ */
+export class AdRewardService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly rewards: RewardsService,
+    private readonly spinWheel: SpinWheelService,
+    // How long the network has to confirm an ad once the session is opened
+    private readonly sessionTtlMs: number,
+  ) {}
+
+  async createSession(
+    uid: string,
+    purpose: unknown,
+    spinId: unknown,
+    now = Date.now(),
+  ): Promise<AdSession> {
+    if (purpose !== "reward" && purpose !== "spin") {
+      throw new AdRewardError("invalid_purpose");
+    }
+    if (purpose === "spin" && (typeof spinId !== "string" || !spinId)) {
+      throw new AdRewardError("invalid_purpose");
+    }
+
+    const session: AdSession = {
+      id: randomUUID(),
+      uid,
+      purpose,
+      spinId: purpose === "spin" ? (spinId as string) : null,
+      status: "pending",
+      network: null,
+      impressionId: null,
+      coins: 0,
+      error: null,
+      createdAt: now,
+      completedAt: null,
+    };
+    await this.store.set(AD_SESSIONS_COLLECTION, session.id, session);
+    return session;
+  }
+
+  async getSession(uid: string, sessionId: string): Promise<AdSession> {
+    const session = await this.store.get<AdSession>(AD_SESSIONS_COLLECTION, sessionId);
+    if (!session || session.uid !== uid) {
+      throw new AdRewardError("not_found");
+    }
+    return session;
+  }
+
+  /**
+   * Pay out a verified ad. `replayed` is set when this impression had
+   * already been handled; the session is returned as it ended then.
+   */
+  async complete(
+    reward: VerifiedAdReward,
+    now = Date.now(),
+  ): Promise<{ session: AdSession; replayed: boolean }> {
+    const impressionKey = `${reward.network}_${reward.impressionId}`;
+
+    const { session, replayed } = await this.store.runTransaction(async (transaction) => {
+      const session = await transaction.get<AdSession>(AD_SESSIONS_COLLECTION, reward.customData);
+      const impression = await transaction.get<AdImpression>(
+        AD_IMPRESSIONS_COLLECTION,
+        impressionKey,
+      );
+      if (!session || session.uid !== reward.uid) {
+        throw new AdRewardError("unknown_session");
+      }
+      if (impression) {
+        if (impression.sessionId !== session.id) {
+          throw new AdRewardError("session_used");
+        }
+        return { session, replayed: true };
+      }
+      if (session.network) {
+        throw new AdRewardError("session_used");
+      }
+      if (now - session.createdAt > this.sessionTtlMs) {
+        throw new AdRewardError("session_expired");
+      }
+
+      transaction.set<AdImpression>(AD_IMPRESSIONS_COLLECTION, impressionKey, {
+        network: reward.network,
+        impressionId: reward.impressionId,
+        sessionId: session.id,
+        uid: session.uid,
+        createdAt: now,
+      });
+      const verified: AdSession = {
+        ...session,
+        network: reward.network,
+        impressionId: reward.impressionId,
+      };
+      transaction.set(AD_SESSIONS_COLLECTION, session.id, verified);
+      return { session: verified, replayed: false };
+    });
+
+    // A replay still pays a session left pending by an earlier failure;
+    // the payouts themselves are idempotent
+    if (replayed && session.status !== "pending") {
+      return { session, replayed };
+    }
+
+    const paid = await this.pay(session, now);
+    await this.store.update(AD_SESSIONS_COLLECTION, session.id, {
+      status: paid.status,
+      coins: paid.coins,
+      error: paid.error,
+      completedAt: paid.completedAt,
+    });
+    return { session: paid, replayed };
+  }
+
+  private async pay(session: AdSession, now: number): Promise<AdSession> {
+    try {
+      const coins =
+        session.purpose === "spin"
+          ? (await this.spinWheel.claim(session.uid, session.spinId || "", now)).coins
+          : await this.rewards.rewardAd(session.uid, session.id, undefined, now);
+      return { ...session, status: "credited", coins, error: null, completedAt: now };
+    } catch (error) {
+      if (error instanceof RewardError || error instanceof SpinError) {
+        return { ...session, status: "rejected", coins: 0, error: error.code, completedAt: now };
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { randomUUID } from "crypto";
+import { DocumentStore } from "../store";
+import { AdminRole } from "../auth/roles";
+
+const AUDIT_LOG_COLLECTION = "adminAuditLog";
+
+export type AuditAction =
+  | "report.resolve"
+  | "report.dismiss"
+  | "user.ban"
+  | "user.unban"
+  | "user.shadowBan"
+  | "user.shadowUnban"
+  | "payment.refund";
+
+export interface AuditEntry {
+  id: string;
+  actorUid: string;
+  actorRole: AdminRole;
+  action: AuditAction;
+  targetUid?: string;
+  reportId?: string;
+  details: Record<string, unknown>;
+  createdAt: number;
+}
+
+/**
+ * Append-only record of every action taken from the admin console
+ */
+export class AuditLogService {
+  constructor(private readonly store: DocumentStore) {}
+
+  async record(entry: Omit<AuditEntry, "id" | "createdAt">): Promise<AuditEntry> {
+    const record: AuditEntry = { ...entry, id: randomUUID(), createdAt: Date.now() };
+    await this.store.set(AUDIT_LOG_COLLECTION, record.id, record);
+    return record;
+  }
+
+  async list(limit = 100): Promise<AuditEntry[]> {
+    return this.store.list<AuditEntry>(AUDIT_LOG_COLLECTION, {
+      orderByDesc: "createdAt",
+      limit,
+    });
+  }
+
+  async listForUser(uid: string, limit = 50): Promise<AuditEntry[]> {
+    return this.store.where<AuditEntry>(AUDIT_LOG_COLLECTION, "targetUid", uid, {
+      orderByDesc: "createdAt",
+      limit,
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import { DocumentStore } from "../store";
+
+const BANS_COLLECTION = "bans";
+const SHADOW_BANS_COLLECTION = "shadowBans";
+
+export type BanSource = "reports" | "admin";
+
+export interface BanRecord {
+  uid: string;
+  reason: string;
+  source: BanSource;
+  createdAt: number;
+  // Null for permanent bans
+  until: number | null;
+}
+
+/**
+ * Shadow-banned users stay connected but are only matched with each other
+ */
+export interface ShadowBanRecord {
+  uid: string;
+  reason: string;
+  createdAt: number;
+}
+
+/**
+ * Account bans keyed on uid, checked when a user connects and before matching
+ */
+export class BanService {
+  constructor(private readonly store: DocumentStore) {}
+
+  async getActiveBan(uid: string, now = Date.now()): Promise<BanRecord | null> {
+    const ban = await this.store.get<BanRecord>(BANS_COLLECTION, uid);
+    if (!ban) return null;
+
+    return ban.until === null || ban.until > now ? ban : null;
+  }
+
+  async ban(
+    uid: string,
+    options: { reason: string; source: BanSource; until: number | null },
+  ): Promise<BanRecord> {
+    const record: BanRecord = { uid, ...options, createdAt: Date.now() };
+    await this.store.set(BANS_COLLECTION, uid, record);
+    return record;
+  }
+
+  async unban(uid: string): Promise<void> {
+    await this.store.delete(BANS_COLLECTION, uid);
+  }
+
+  async listActiveBans(now = Date.now()): Promise<BanRecord[]> {
+    const bans = await this.store.list<BanRecord>(BANS_COLLECTION);
+    return bans.filter((ban) => ban.until === null || ban.until > now);
+  }
+
+  async getShadowBan(uid: string): Promise<ShadowBanRecord | null> {
+    return this.store.get<ShadowBanRecord>(SHADOW_BANS_COLLECTION, uid);
+  }
+
+  async setShadowBan(uid: string, reason: string): Promise<ShadowBanRecord> {
+    const record: ShadowBanRecord = { uid, reason, createdAt: Date.now() };
+    await this.store.set(SHADOW_BANS_COLLECTION, uid, record);
+    return record;
+  }
+
+  async clearShadowBan(uid: string): Promise<void> {
+    await this.store.delete(SHADOW_BANS_COLLECTION, uid);
+  }
+}
@@ -0,0 +1,51 @@
+import { DocumentStore } from "../store";
+
+const BLOCKS_COLLECTION = "blocks";
+
+export interface BlockRecord {
+  blockerUid: string;
+  blockedUid: string;
+  createdAt: number;
+}
+
+function blockId(blockerUid: string, blockedUid: string): string {
+  return `${blockerUid}_${blockedUid}`;
+}
+
+/**
+ * Per-user block lists keyed on Firebase uid.
+ *
+ * Records are persisted in the document store. The matcher does not read
+ * them directly: each connected user's blocked uids are copied onto their
+ * record in the shared match state.
+ */
+export class BlockService {
+  constructor(private readonly store: DocumentStore) {}
+
+  async listBlockedUids(uid: string): Promise<string[]> {
+    return (await this.list(uid)).map((record) => record.blockedUid);
+  }
+
+  async block(blockerUid: string, blockedUid: string): Promise<BlockRecord> {
+    if (blockerUid === blockedUid) {
+      throw new Error("Users cannot block themselves");
+    }
+
+    const record: BlockRecord = { blockerUid, blockedUid, createdAt: Date.now() };
+    await this.store.set(BLOCKS_COLLECTION, blockId(blockerUid, blockedUid), record);
+    return record;
+  }
+
+  async unblock(blockerUid: string, blockedUid: string): Promise<void> {
+    await this.store.delete(BLOCKS_COLLECTION, blockId(blockerUid, blockedUid));
+  }
+
+  async list(uid: string): Promise<BlockRecord[]> {
+    const records = await this.store.where<BlockRecord>(
+      BLOCKS_COLLECTION,
+      "blockerUid",
+      uid,
+    );
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+  }
+}
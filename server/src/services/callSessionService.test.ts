@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { coinsConfig } from "../config/coins";
+import { rewardsConfig } from "../config/rewards";
+import { InMemoryDocumentStore } from "../store";
+import { CallSessionService, SessionError } from "./callSessionService";
+import { CoinLedgerService } from "./coinLedgerService";
+import { RewardsService } from "./rewardsService";
+
+describe("CallSessionService chat rewards", () => {
+  const { chatCompletionMinMs, chatCompletionReward, maxChatCompletionsPerDay } = coinsConfig;
+  // Midday in the default reward time zone, so every chat falls on one day
+  const noon = Date.parse("2026-03-02T12:00:00+05:30");
+  let ledger: CoinLedgerService;
+  let sessions: CallSessionService;
+
+  beforeEach(() => {
+    const store = new InMemoryDocumentStore();
+    ledger = new CoinLedgerService(store);
+    const rewards = new RewardsService(
+      store,
+      ledger,
+      rewardsConfig,
+      coinsConfig.prices.streak_freeze,
+    );
+    sessions = new CallSessionService(store, ledger, coinsConfig, rewards);
+  });
+
+  // A chat between alice and bob that lasted long enough to earn coins
+  const chat = async (id: string, reason: "skip" | "report" = "skip") => {
+    await sessions.start(id, ["alice", "bob"], "text", noon);
+    if (reason === "report") await sessions.markReported("alice", id);
+    await sessions.end(id, "skip", "alice", noon + chatCompletionMinMs);
+    return id;
+  };
+
+  it("stops rewarding chats once the day's cap is reached", async () => {
+    for (let i = 0; i < maxChatCompletionsPerDay; i++) {
+      await sessions.rewardCompletion("alice", await chat(`session-${i}`), noon + 60 * 1000);
+    }
+
+    await expect(
+      sessions.rewardCompletion("alice", await chat("session-over"), noon + 60 * 1000),
+    ).rejects.toEqual(new SessionError("daily_limit_reached"));
+    expect(await ledger.getBalance("alice")).toBe(maxChatCompletionsPerDay * chatCompletionReward);
+
+    // Asking again for a chat already rewarded is still a no-op, not a new claim
+    const replay = await sessions.rewardCompletion("alice", "session-0", noon + 60 * 1000);
+    expect(replay.replayed).toBe(true);
+
+    // The next day starts a fresh count
+    const tomorrow = noon + 24 * 60 * 60 * 1000;
+    const next = await sessions.rewardCompletion("alice", "session-over", tomorrow);
+    expect(next.replayed).toBe(false);
+  });
+
+  it("rewards neither side of a chat ended by a report", async () => {
+    const id = await chat("session-reported", "report");
+
+    for (const uid of ["alice", "bob"]) {
+      await expect(sessions.rewardCompletion(uid, id, noon + 60 * 1000)).rejects.toEqual(
+        new SessionError("reported"),
+      );
+    }
+    expect(await ledger.getBalance("bob")).toBe(0);
+  });
+});
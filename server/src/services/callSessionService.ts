@@ -0,0 +1,311 @@
+import { DocumentStore } from "../store";
+import { CoinsConfig } from "../config/coins";
+import { dayKey } from "../lib/calendarDays";
+import { CoinLedgerService, LedgerResult } from "./coinLedgerService";
+import { RewardsService } from "./rewardsService";
+
+const CALL_SESSIONS_COLLECTION = "callSessions";
+const CHAT_REWARDS_COLLECTION = "chatRewards";
+const CHAT_REWARD_STATE_COLLECTION = "chatRewardState";
+
+const MODES = ["video", "voice", "text"] as const;
+const END_REASONS = ["skip", "disconnect", "timeout", "report", "block"] as const;
+
+export type SessionMode = (typeof MODES)[number];
+export type SessionEndReason = (typeof END_REASONS)[number];
+
+/**
+ * `callSessions/{sessionId}`: one match, from pairing to whichever side or
+ * server rule ended it. Nothing of the call itself is recorded.
+ */
+export interface CallSession {
+  id: string;
+  uids: [string, string];
+  mode: SessionMode;
+  startedAt: number;
+  endedAt: number | null;
+  endReason: SessionEndReason | null;
+  // The side whose skip, block or dropped connection ended it; null while
+  // it runs, or when the server ended it at the time limit
+  endedBy: string | null;
+  durationMs: number | null;
+  // How each side rated the other, 1-5, by uid
+  ratings: Record<string, number>;
+  // Uids that reported the other side, during the session or after it
+  reportedBy: string[];
+}
+
+/**
+ * What both participants are told about a session; uids, ratings and
+ * reports stay on the server
+ */
+export interface SessionView {
+  id: string;
+  mode: SessionMode;
+  startedAt: number;
+  endedAt: number | null;
+  endReason: SessionEndReason | null;
+  durationMs: number | null;
+}
+
+/**
+ * `chatRewards/{uid}_{sessionId}`: a session one participant was rewarded
+ * for, so asking again neither counts against the day's cap nor pays twice
+ */
+interface ChatRewardRecord {
+  uid: string;
+  sessionId: string;
+  day: string;
+  createdAt: number;
+}
+
+/**
+ * `chatRewardState/{uid}`: how many chats the user has been rewarded for today
+ */
+interface ChatRewardState {
+  uid: string;
+  day: string;
+  rewarded: number;
+  updatedAt: number;
+}
+
+export interface SessionStats {
+  sessions: number;
+  // Share of sessions in each mode
+  modes: Record<SessionMode, number>;
+  // Share of ended sessions by how they ended
+  endReasons: Record<SessionEndReason, number>;
+  medianDurationMs: number | null;
+  averageRating: number | null;
+  // Share of sessions with a report from either side
+  reported: number;
+  since: number | null;
+}
+
+export type SessionErrorCode =
+  | "not_found"
+  | "invalid_rating"
+  | "too_short"
+  | "reported"
+  | "daily_limit_reached";
+
+export class SessionError extends Error {
+  constructor(readonly code: SessionErrorCode) {
+    super(code);
+    this.name = "SessionError";
+  }
+}
+
+function median(values: number[]): number | null {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : null;
+}
+
+function shares<T extends string>(values: readonly T[], items: T[]): Record<T, number> {
+  return Object.fromEntries(
+    values.map((value) => [
+      value,
+      items.length === 0 ? 0 : items.filter((item) => item === value).length / items.length,
+    ]),
+  ) as Record<T, number>;
+}
+
+/**
+ * The server's record of every match, so reports, ratings, chat rewards
+ * and analytics rest on when a match really started and ended rather than
+ * on what either client says. The first end recorded for a session wins.
+ */
+export class CallSessionService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly ledger: CoinLedgerService,
+    private readonly config: CoinsConfig,
+    // Chat rewards are counted per day in the same time zone as daily rewards
+    private readonly rewards: RewardsService,
+  ) {}
+
+  async start(
+    id: string,
+    uids: [string, string],
+    mode: SessionMode,
+    now = Date.now(),
+  ): Promise<CallSession> {
+    const session: CallSession = {
+      id,
+      uids,
+      mode,
+      startedAt: now,
+      endedAt: null,
+      endReason: null,
+      endedBy: null,
+      durationMs: null,
+      ratings: {},
+      reportedBy: [],
+    };
+    await this.store.set(CALL_SESSIONS_COLLECTION, id, session);
+    return session;
+  }
+
+  async get(id: string): Promise<CallSession | null> {
+    return this.store.get<CallSession>(CALL_SESSIONS_COLLECTION, id);
+  }
+
+  /**
+   * The session as one of its participants may see it. Sessions the user
+   * was not part of are reported as missing.
+   */
+  async getForParticipant(uid: string, id: string): Promise<CallSession> {
+    const session = await this.get(id);
+    if (!session || !session.uids.includes(uid)) throw new SessionError("not_found");
+    return session;
+  }
+
+  /**
+   * Returns the ended session, or null when it was already ended or never
+   * recorded. A skip by someone who reported their partner ends it as a
+   * report.
+   */
+  async end(
+    id: string,
+    reason: SessionEndReason,
+    endedBy: string | null,
+    now = Date.now(),
+  ): Promise<CallSession | null> {
+    return this.store.runTransaction(async (transaction) => {
+      const session = await transaction.get<CallSession>(CALL_SESSIONS_COLLECTION, id);
+      if (!session || session.endedAt !== null) return null;
+
+      const reported = reason === "skip" && !!endedBy && session.reportedBy.includes(endedBy);
+      const ended: CallSession = {
+        ...session,
+        endedAt: now,
+        endReason: reported ? "report" : reason,
+        endedBy,
+        durationMs: Math.max(0, now - session.startedAt),
+      };
+      transaction.set(CALL_SESSIONS_COLLECTION, id, ended);
+      return ended;
+    });
+  }
+
+  /**
+   * Note that a participant reported the other. Returns the session, whose
+   * other uid is the one reported, or null when the user was not in it.
+   */
+  async markReported(uid: string, id: string): Promise<CallSession | null> {
+    return this.store.runTransaction(async (transaction) => {
+      const session = await transaction.get<CallSession>(CALL_SESSIONS_COLLECTION, id);
+      if (!session || !session.uids.includes(uid)) return null;
+      if (session.reportedBy.includes(uid)) return session;
+
+      const reported = { ...session, reportedBy: [...session.reportedBy, uid] };
+      transaction.set(CALL_SESSIONS_COLLECTION, id, reported);
+      return reported;
+    });
+  }
+
+  /**
+   * Rate the partner from 1 to 5; rating again replaces the earlier rating
+   */
+  async rate(uid: string, id: string, rating: unknown): Promise<CallSession> {
+    if (typeof rating !== "number" || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new SessionError("invalid_rating");
+    }
+
+    return this.store.runTransaction(async (transaction) => {
+      const session = await transaction.get<CallSession>(CALL_SESSIONS_COLLECTION, id);
+      if (!session || !session.uids.includes(uid)) throw new SessionError("not_found");
+
+      const rated = { ...session, ratings: { ...session.ratings, [uid]: rating } };
+      transaction.set(CALL_SESSIONS_COLLECTION, id, rated);
+      return rated;
+    });
+  }
+
+  /**
+   * Coins for a chat that lasted long enough, once per participant and
+   * session however often the client asks, up to the daily cap. A session
+   * still running counts for as long as it has run so far; one ended by a
+   * report earns nothing.
+   */
+  async rewardCompletion(uid: string, id: string, now = Date.now()): Promise<LedgerResult> {
+    const session = await this.getForParticipant(uid, id);
+    const durationMs = session.durationMs ?? now - session.startedAt;
+    if (durationMs < this.config.chatCompletionMinMs) throw new SessionError("too_short");
+    if (session.endReason === "report") throw new SessionError("reported");
+    const today = dayKey(now, await this.rewards.getTimeZone(uid));
+
+    await this.store.runTransaction(async (transaction) => {
+      const key = `${uid}_${session.id}`;
+      const existing = await transaction.get<ChatRewardRecord>(CHAT_REWARDS_COLLECTION, key);
+      const state = await transaction.get<ChatRewardState>(CHAT_REWARD_STATE_COLLECTION, uid);
+      if (existing) return;
+
+      const rewarded = state?.day === today ? state.rewarded : 0;
+      if (rewarded >= this.config.maxChatCompletionsPerDay) {
+        throw new SessionError("daily_limit_reached");
+      }
+      transaction.set<ChatRewardState>(CHAT_REWARD_STATE_COLLECTION, uid, {
+        uid,
+        day: today,
+        rewarded: rewarded + 1,
+        updatedAt: now,
+      });
+      transaction.set<ChatRewardRecord>(CHAT_REWARDS_COLLECTION, key, {
+        uid,
+        sessionId: session.id,
+        day: today,
+        createdAt: now,
+      });
+    });
+
+    // Also re-run for a recorded session, in case crediting failed the first time
+    return this.ledger.credit(
+      uid,
+      this.config.chatCompletionReward,
+      "chat_completion",
+      `chat_completion_${session.id}`,
+      { sessionId: session.id },
+    );
+  }
+
+  /**
+   * Modes, endings, durations and ratings over the most recent sessions
+   */
+  async getStats(limit: number): Promise<SessionStats> {
+    const sessions = await this.store.list<CallSession>(CALL_SESSIONS_COLLECTION, {
+      orderByDesc: "startedAt",
+      limit,
+    });
+    const count = sessions.length;
+    const ended = sessions.filter((session) => session.endedAt !== null);
+    const ratings = sessions.flatMap((session) => Object.values(session.ratings));
+    const reported = sessions.filter(({ reportedBy }) => reportedBy.length > 0);
+
+    return {
+      sessions: count,
+      modes: shares(MODES, sessions.map(({ mode }) => mode)),
+      endReasons: shares(
+        END_REASONS,
+        ended.map(({ endReason }) => endReason as SessionEndReason),
+      ),
+      medianDurationMs: median(ended.map(({ durationMs }) => durationMs as number)),
+      averageRating: ratings.length
+        ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+        : null,
+      reported: count === 0 ? 0 : reported.length / count,
+      since: count ? sessions[count - 1].startedAt : null,
+    };
+  }
+
+  toView(session: CallSession): SessionView {
+    return {
+      id: session.id,
+      mode: session.mode,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      endReason: session.endReason,
+      durationMs: session.durationMs,
+    };
+  }
+}
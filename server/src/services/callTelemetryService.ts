@@ -0,0 +1,285 @@
+import { createHmac } from "crypto";
+import { DocumentStore } from "../store";
+import { WebRtcConfig } from "../config/webrtc";
+
+const CALL_CONNECTIONS_COLLECTION = "callConnections";
+const CALL_QUALITY_COLLECTION = "callQuality";
+
+const CANDIDATE_TYPES = ["host", "srflx", "prflx", "relay"] as const;
+const TRANSPORTS = ["udp", "tcp", "tls"] as const;
+// Anything slower is a clock or reporting error rather than a real setup time
+const MAX_CONNECT_MS = 5 * 60 * 1000;
+const QUALITIES = ["poor", "fair", "good", "excellent"] as const;
+
+export type CandidateType = (typeof CANDIDATE_TYPES)[number];
+export type IceTransport = (typeof TRANSPORTS)[number];
+export type ConnectionQuality = (typeof QUALITIES)[number];
+
+export interface IceServerConfig {
+  iceServers: { urls: string[]; username?: string; credential?: string }[];
+  // When the TURN credentials stop working; clients fetch new ones after this
+  expiresAt: number;
+}
+
+/**
+ * `callConnections/{sessionId}_{uid}`: how one side of a call connected,
+ * as reported by its client once ICE picked a candidate pair
+ */
+export interface CallConnection {
+  sessionId: string;
+  uid: string;
+  localCandidateType: CandidateType;
+  remoteCandidateType: CandidateType;
+  protocol: IceTransport;
+  // How the client reached the TURN server, when it relayed
+  relayProtocol: IceTransport | null;
+  // From the client asking for ICE servers to the connection coming up
+  connectMs: number | null;
+  createdAt: number;
+}
+
+export interface ConnectionStats {
+  connections: number;
+  // Share of connections by the local side's candidate type
+  localCandidateTypes: Record<CandidateType, number>;
+  // Share of connections that went through TURN on either side
+  relayed: number;
+  medianConnectMs: number | null;
+  since: number | null;
+}
+
+/**
+ * `callQuality/{sessionId}_{uid}`: one side's averages over a call, from
+ * the stats its client sampled while connected
+ */
+export interface CallQuality {
+  sessionId: string;
+  uid: string;
+  // 0-100, rated into quality with the client's thresholds
+  score: number;
+  quality: ConnectionQuality;
+  samples: number;
+  rttMs: number | null;
+  packetLoss: number;
+  jitterMs: number | null;
+  framesPerSecond: number | null;
+  // Whether the client had to pause its video to keep the audio going
+  audioOnlyFallback: boolean;
+  createdAt: number;
+}
+
+export interface QualityStats {
+  calls: number;
+  // Share of calls rated each quality
+  qualities: Record<ConnectionQuality, number>;
+  medianScore: number | null;
+  audioOnlyFallbacks: number;
+  since: number | null;
+}
+
+export function rateQuality(score: number): ConnectionQuality {
+  if (score >= 80) return "excellent";
+  if (score >= 60) return "good";
+  if (score >= 40) return "fair";
+  return "poor";
+}
+
+function isOptionalNumber(value: unknown, min: number, max: number): value is number | null {
+  return value === null || (typeof value === "number" && value >= min && value <= max);
+}
+
+function median(values: number[]): number | null {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : null;
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (values as readonly string[]).includes(value);
+}
+
+/**
+ * ICE servers for calls, with short-lived TURN credentials in coturn's
+ * shared-secret REST scheme, the candidate types calls ended up using, and
+ * how well they went.
+ */
+export class CallTelemetryService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly config: WebRtcConfig,
+  ) {}
+
+  get turnEnabled(): boolean {
+    return this.config.turnUrls.length > 0 && !!this.config.turnSecret;
+  }
+
+  /**
+   * The username carries the expiry, so coturn can check the credential
+   * with nothing but the shared secret
+   */
+  issueIceServers(uid: string, now = Date.now()): IceServerConfig {
+    const expiresAt = now + this.config.credentialTtlMs;
+    const iceServers: IceServerConfig["iceServers"] = [{ urls: this.config.stunUrls }];
+
+    if (this.turnEnabled) {
+      const username = `${Math.floor(expiresAt / 1000)}:${uid}`;
+      const credential = createHmac("sha1", this.config.turnSecret as string)
+        .update(username)
+        .digest("base64");
+      iceServers.push({ urls: this.config.turnUrls, username, credential });
+    }
+    return { iceServers, expiresAt };
+  }
+
+  /**
+   * Record one side's report for a call; a second report for the same side
+   * replaces the first, e.g. after an ICE restart. Returns false for a
+   * malformed report.
+   */
+  async recordConnection(
+    uid: string,
+    sessionId: string,
+    report: unknown,
+    now = Date.now(),
+  ): Promise<boolean> {
+    const data = (report || {}) as Record<string, unknown>;
+    const { localCandidateType, remoteCandidateType, protocol } = data;
+    const relayProtocol = data.relayProtocol ?? null;
+    const connectMs = data.connectMs ?? null;
+
+    if (
+      !isOneOf(CANDIDATE_TYPES, localCandidateType) ||
+      !isOneOf(CANDIDATE_TYPES, remoteCandidateType) ||
+      !isOneOf(TRANSPORTS, protocol) ||
+      (relayProtocol !== null && !isOneOf(TRANSPORTS, relayProtocol)) ||
+      (connectMs !== null &&
+        !(typeof connectMs === "number" && connectMs >= 0 && connectMs <= MAX_CONNECT_MS))
+    ) {
+      return false;
+    }
+
+    await this.store.set<CallConnection>(CALL_CONNECTIONS_COLLECTION, `${sessionId}_${uid}`, {
+      sessionId,
+      uid,
+      localCandidateType,
+      remoteCandidateType,
+      protocol,
+      relayProtocol,
+      connectMs: connectMs === null ? null : Math.round(connectMs),
+      createdAt: now,
+    });
+    return true;
+  }
+
+  /**
+   * Candidate types over the most recent connections, for judging how many
+   * calls need TURN
+   */
+  async getConnectionStats(limit: number): Promise<ConnectionStats> {
+    const connections = await this.store.list<CallConnection>(CALL_CONNECTIONS_COLLECTION, {
+      orderByDesc: "createdAt",
+      limit,
+    });
+    const count = connections.length;
+    const share = (matches: number) => (count === 0 ? 0 : matches / count);
+
+    const localCandidateTypes = Object.fromEntries(
+      CANDIDATE_TYPES.map((type) => [
+        type,
+        share(connections.filter(({ localCandidateType }) => localCandidateType === type).length),
+      ]),
+    ) as Record<CandidateType, number>;
+
+    const connectTimes = connections
+      .map(({ connectMs }) => connectMs)
+      .filter((connectMs): connectMs is number => connectMs !== null);
+
+    return {
+      connections: count,
+      localCandidateTypes,
+      relayed: share(
+        connections.filter(
+          (connection) =>
+            connection.localCandidateType === "relay" ||
+            connection.remoteCandidateType === "relay",
+        ).length,
+      ),
+      medianConnectMs: median(connectTimes),
+      since: count ? connections[count - 1].createdAt : null,
+    };
+  }
+
+  /**
+   * Record one side's quality averages for a call, sent when it ends.
+   * Returns false for a malformed report.
+   */
+  async recordQuality(
+    uid: string,
+    sessionId: string,
+    report: unknown,
+    now = Date.now(),
+  ): Promise<boolean> {
+    const data = (report || {}) as Record<string, unknown>;
+    const { score, samples, packetLoss, audioOnlyFallback } = data;
+    const rttMs = data.rttMs ?? null;
+    const jitterMs = data.jitterMs ?? null;
+    const framesPerSecond = data.framesPerSecond ?? null;
+
+    if (
+      typeof score !== "number" ||
+      !(score >= 0 && score <= 100) ||
+      typeof samples !== "number" ||
+      !Number.isInteger(samples) ||
+      samples < 1 ||
+      typeof packetLoss !== "number" ||
+      !(packetLoss >= 0 && packetLoss <= 1) ||
+      typeof audioOnlyFallback !== "boolean" ||
+      !isOptionalNumber(rttMs, 0, 60 * 1000) ||
+      !isOptionalNumber(jitterMs, 0, 60 * 1000) ||
+      !isOptionalNumber(framesPerSecond, 0, 240)
+    ) {
+      return false;
+    }
+
+    await this.store.set<CallQuality>(CALL_QUALITY_COLLECTION, `${sessionId}_${uid}`, {
+      sessionId,
+      uid,
+      score: Math.round(score),
+      quality: rateQuality(score),
+      samples,
+      rttMs,
+      packetLoss,
+      jitterMs,
+      framesPerSecond,
+      audioOnlyFallback,
+      createdAt: now,
+    });
+    return true;
+  }
+
+  /**
+   * How the most recent calls rated, and how often video had to be dropped
+   */
+  async getQualityStats(limit: number): Promise<QualityStats> {
+    const calls = await this.store.list<CallQuality>(CALL_QUALITY_COLLECTION, {
+      orderByDesc: "createdAt",
+      limit,
+    });
+    const count = calls.length;
+    const share = (matches: number) => (count === 0 ? 0 : matches / count);
+
+    const qualities = Object.fromEntries(
+      QUALITIES.map((quality) => [
+        quality,
+        share(calls.filter((call) => call.quality === quality).length),
+      ]),
+    ) as Record<ConnectionQuality, number>;
+
+    return {
+      calls: count,
+      qualities,
+      medianScore: median(calls.map(({ score }) => score)),
+      audioOnlyFallbacks: share(calls.filter(({ audioOnlyFallback }) => audioOnlyFallback).length),
+      since: count ? calls[count - 1].createdAt : null,
+    };
+  }
+}
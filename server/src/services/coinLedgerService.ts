@@ -0,0 +1,160 @@
+import { DocumentStore } from "../store";
+import { CoinReason, CreditReason, DebitReason, ReversalReason, ShopReason } from "../config/coins";
+
+const USERS_COLLECTION = "users";
+const LEDGER_COLLECTION = "coinTransactions";
+
+// Client-generated, and used inside document ids
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+export function isIdempotencyKey(value: unknown): value is string {
+  return typeof value === "string" && IDEMPOTENCY_KEY_PATTERN.test(value);
+}
+
+/**
+ * One append-only movement of coins. Entries are never updated or deleted.
+ */
+export interface LedgerEntry {
+  id: string;
+  userId: string;
+  // Positive for credits, negative for debits
+  amount: number;
+  reason: CoinReason;
+  idempotencyKey: string;
+  // The user's balance right after this entry
+  balance: number;
+  createdAt: number;
+  // Context such as the order or ad impression behind a credit
+  metadata?: Record<string, string>;
+}
+
+export interface LedgerResult {
+  entry: LedgerEntry;
+  // True when the idempotency key had already been used for this change
+  replayed: boolean;
+}
+
+export type LedgerErrorCode = "insufficient_coins" | "idempotency_conflict";
+
+export class LedgerError extends Error {
+  constructor(readonly code: LedgerErrorCode) {
+    super(code);
+    this.name = "LedgerError";
+  }
+}
+
+/**
+ * The coin fields of `users/{uid}`. Only this service writes them; the
+ * client just listens for changes.
+ */
+interface CoinBalance {
+  coins?: number;
+  totalCoinsEarned?: number;
+  totalCoinsSpent?: number;
+}
+
+/**
+ * Server-side coin balances. Each change writes a ledger entry and the new
+ * balance in one transaction, keyed on the caller's idempotency key so a
+ * retried request is applied at most once.
+ */
+export class CoinLedgerService {
+  constructor(private readonly store: DocumentStore) {}
+
+  async getBalance(uid: string): Promise<number> {
+    const user = await this.store.get<CoinBalance>(USERS_COLLECTION, uid);
+    return user?.coins || 0;
+  }
+
+  credit(
+    uid: string,
+    amount: number,
+    reason: CreditReason,
+    idempotencyKey: string,
+    metadata?: Record<string, string>,
+  ): Promise<LedgerResult> {
+    return this.apply(uid, amount, reason, idempotencyKey, metadata);
+  }
+
+  debit(
+    uid: string,
+    amount: number,
+    reason: DebitReason | ShopReason,
+    idempotencyKey: string,
+    metadata?: Record<string, string>,
+  ): Promise<LedgerResult> {
+    return this.apply(uid, -amount, reason, idempotencyKey, metadata);
+  }
+
+  /**
+   * Take back coins from a refunded purchase. The balance may go negative
+   * if they were already spent; later credits pay that off first.
+   */
+  reverse(
+    uid: string,
+    amount: number,
+    reason: ReversalReason,
+    idempotencyKey: string,
+    metadata?: Record<string, string>,
+  ): Promise<LedgerResult> {
+    return this.apply(uid, -amount, reason, idempotencyKey, metadata, true);
+  }
+
+  async history(uid: string, limit: number): Promise<LedgerEntry[]> {
+    return this.store.where<LedgerEntry>(LEDGER_COLLECTION, "userId", uid, {
+      orderByDesc: "createdAt",
+      limit,
+    });
+  }
+
+  private async apply(
+    uid: string,
+    amount: number,
+    reason: CoinReason,
+    idempotencyKey: string,
+    metadata?: Record<string, string>,
+    allowOverdraft = false,
+  ): Promise<LedgerResult> {
+    if (!Number.isInteger(amount) || amount === 0) {
+      throw new Error("Coin amounts must be non-zero whole numbers");
+    }
+
+    const id = `${uid}_${idempotencyKey}`;
+
+    return this.store.runTransaction(async (transaction) => {
+      const existing = await transaction.get<LedgerEntry>(LEDGER_COLLECTION, id);
+      if (existing) {
+        if (existing.amount !== amount || existing.reason !== reason) {
+          throw new LedgerError("idempotency_conflict");
+        }
+        return { entry: existing, replayed: true };
+      }
+
+      const user = (await transaction.get<CoinBalance>(USERS_COLLECTION, uid)) || {};
+      const balance = (user.coins || 0) + amount;
+      if (balance < 0 && !allowOverdraft) {
+        throw new LedgerError("insufficient_coins");
+      }
+
+      const entry: LedgerEntry = {
+        id,
+        userId: uid,
+        amount,
+        reason,
+        idempotencyKey,
+        balance,
+        createdAt: Date.now(),
+        ...(metadata ? { metadata } : {}),
+      };
+      transaction.set(LEDGER_COLLECTION, id, entry);
+      transaction.update(USERS_COLLECTION, uid, {
+        coins: balance,
+        ...(amount > 0
+          ? { totalCoinsEarned: (user.totalCoinsEarned || 0) + amount }
+          : { totalCoinsSpent: (user.totalCoinsSpent || 0) - amount }),
+      });
+
+      return { entry, replayed: false };
+    });
+  }
+}
@@ -0,0 +1,202 @@
+import { DocumentStore } from "../store";
+import { CoinShopConfig, ShopItem, ShopItemId } from "../config/coinShop";
+import { Feature, FeatureUnlocks } from "../config/entitlements";
+import { CoinLedgerService } from "./coinLedgerService";
+
+const SHOP_UNLOCKS_COLLECTION = "shopUnlocks";
+
+/**
+ * One purchase's unlock. Timed grants of the same item queue up, each
+ * starting when the one before it ends; match-limited ones run side by side.
+ */
+interface ShopGrant {
+  // The purchase's idempotency key, so a retried purchase is granted once
+  id: string;
+  itemId: ShopItemId;
+  feature: Feature;
+  startsAt: number;
+  expiresAt: number;
+  // Null when the grant only ends with time
+  matchesLeft: number | null;
+}
+
+/**
+ * `shopUnlocks/{uid}`: the user's coin shop grants that have not run out
+ */
+interface ShopUnlockState {
+  uid: string;
+  grants: ShopGrant[];
+  updatedAt: number;
+}
+
+export interface ShopUnlock {
+  itemId: ShopItemId;
+  feature: Feature;
+  expiresAt: number;
+  matchesLeft: number | null;
+}
+
+export type ShopErrorCode = "unknown_item";
+
+export class ShopError extends Error {
+  constructor(readonly code: ShopErrorCode) {
+    super(code);
+    this.name = "ShopError";
+  }
+}
+
+function isRunning(grant: ShopGrant, now: number): boolean {
+  return grant.expiresAt > now && grant.matchesLeft !== 0;
+}
+
+/**
+ * Time-bounded features bought with coins. Purchases are debited from the
+ * ledger first and granted after, both keyed on the client's idempotency
+ * key, so a retry finishes a purchase instead of repeating it.
+ */
+export class CoinShopService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly ledger: CoinLedgerService,
+    private readonly config: CoinShopConfig,
+  ) {}
+
+  get items(): ShopItem[] {
+    return this.config.items;
+  }
+
+  /**
+   * The user's running unlocks, including grants queued behind them
+   */
+  async getUnlocks(uid: string, now = Date.now()): Promise<ShopUnlock[]> {
+    const state = await this.store.get<ShopUnlockState>(SHOP_UNLOCKS_COLLECTION, uid);
+    return this.summarize(state?.grants || [], now);
+  }
+
+  /**
+   * When each feature the user has unlocked runs out, for entitlement checks
+   */
+  async getFeatureUnlocks(uid: string, now = Date.now()): Promise<FeatureUnlocks> {
+    const state = await this.store.get<ShopUnlockState>(SHOP_UNLOCKS_COLLECTION, uid);
+    return this.featureUnlocks(state?.grants || [], now);
+  }
+
+  async purchase(
+    uid: string,
+    itemId: unknown,
+    idempotencyKey: string,
+    now = Date.now(),
+  ): Promise<ShopUnlock[]> {
+    const item = this.config.items.find(({ id }) => id === itemId);
+    if (!item) throw new ShopError("unknown_item");
+
+    const { entry, replayed } = await this.ledger.debit(
+      uid,
+      item.price,
+      "shop_purchase",
+      idempotencyKey,
+      { item: item.id },
+    );
+
+    return this.store.runTransaction(async (transaction) => {
+      const state = await transaction.get<ShopUnlockState>(SHOP_UNLOCKS_COLLECTION, uid);
+      const grants = (state?.grants || []).filter((grant) => isRunning(grant, now));
+      if (grants.some(({ id }) => id === idempotencyKey)) {
+        return this.summarize(grants, now);
+      }
+
+      // Match-limited grants start straight away. A replay whose grant is
+      // missing was paid for but never granted; it starts from the payment,
+      // so it is not granted twice once it ends.
+      const queuedBehind =
+        replayed || item.matches
+          ? Math.min(entry.createdAt, now)
+          : Math.max(
+              now,
+              ...grants.filter((grant) => grant.itemId === item.id).map(({ expiresAt }) => expiresAt),
+            );
+      const grant: ShopGrant = {
+        id: idempotencyKey,
+        itemId: item.id,
+        feature: item.feature,
+        startsAt: queuedBehind,
+        expiresAt: queuedBehind + item.durationMs,
+        matchesLeft: item.matches ?? null,
+      };
+      if (isRunning(grant, now)) grants.push(grant);
+
+      transaction.set<ShopUnlockState>(SHOP_UNLOCKS_COLLECTION, uid, {
+        uid,
+        grants,
+        updatedAt: now,
+      });
+      return this.summarize(grants, now);
+    });
+  }
+
+  /**
+   * Count a match against a match-limited unlock of the feature. Nothing is
+   * used up while an unlimited grant of it is running. Returns the user's
+   * feature unlocks afterwards.
+   */
+  async useMatch(uid: string, feature: Feature, now = Date.now()): Promise<FeatureUnlocks> {
+    return this.store.runTransaction(async (transaction) => {
+      const state = await transaction.get<ShopUnlockState>(SHOP_UNLOCKS_COLLECTION, uid);
+      const grants = (state?.grants || []).filter((grant) => isRunning(grant, now));
+      const active = grants.filter(
+        (grant) => grant.feature === feature && grant.startsAt <= now,
+      );
+
+      if (active.length === 0 || active.some(({ matchesLeft }) => matchesLeft === null)) {
+        return this.featureUnlocks(grants, now);
+      }
+
+      const [soonest] = active.sort((a, b) => a.expiresAt - b.expiresAt);
+      const used = grants
+        .map((grant) =>
+          grant.id === soonest.id
+            ? { ...grant, matchesLeft: (grant.matchesLeft as number) - 1 }
+            : grant,
+        )
+        .filter((grant) => isRunning(grant, now));
+      transaction.set<ShopUnlockState>(SHOP_UNLOCKS_COLLECTION, uid, {
+        uid,
+        grants: used,
+        updatedAt: now,
+      });
+      return this.featureUnlocks(used, now);
+    });
+  }
+
+  private featureUnlocks(grants: ShopGrant[], now: number): FeatureUnlocks {
+    const unlocks: FeatureUnlocks = {};
+    for (const { feature, expiresAt } of this.summarize(grants, now)) {
+      unlocks[feature] = Math.max(unlocks[feature] || 0, expiresAt);
+    }
+    return unlocks;
+  }
+
+  // Queued grants of an item run back to back, so show them as one unlock
+  private summarize(grants: ShopGrant[], now: number): ShopUnlock[] {
+    const byItem = new Map<ShopItemId, ShopUnlock>();
+    for (const grant of grants) {
+      if (!isRunning(grant, now)) continue;
+
+      const unlock = byItem.get(grant.itemId);
+      if (!unlock) {
+        byItem.set(grant.itemId, {
+          itemId: grant.itemId,
+          feature: grant.feature,
+          expiresAt: grant.expiresAt,
+          matchesLeft: grant.matchesLeft,
+        });
+        continue;
+      }
+      unlock.expiresAt = Math.max(unlock.expiresAt, grant.expiresAt);
+      if (unlock.matchesLeft !== null && grant.matchesLeft !== null) {
+        unlock.matchesLeft += grant.matchesLeft;
+      }
+    }
+    return [...byItem.values()];
+  }
+}
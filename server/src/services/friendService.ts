@@ -0,0 +1,116 @@
+import { DocumentStore } from "../store";
+import { entitlements, isEntitled } from "../config/entitlements";
+import { ProfileService } from "./profileService";
+
+const FRIENDS_COLLECTION = "friends";
+const REQUESTS_COLLECTION = "friendRequests";
+const USERS_COLLECTION = "users";
+
+/**
+ * The fields of a client-written `friendRequests` document used here
+ */
+interface FriendRequestRecord {
+  fromUserId: string;
+  fromUserName: string;
+  fromUserAvatar?: string;
+  toUserId: string;
+  toUserName: string;
+  toUserAvatar?: string;
+  status: "pending" | "accepted" | "rejected" | "blocked";
+}
+
+interface FriendCount {
+  friendsCount?: number;
+}
+
+// "partner_friend_limit_reached": the sender has no free friend slots left
+export type FriendErrorCode = "not_found" | "friend_limit_reached" | "partner_friend_limit_reached";
+
+export class FriendError extends Error {
+  constructor(readonly code: FriendErrorCode) {
+    super(code);
+    this.name = "FriendError";
+  }
+}
+
+/**
+ * Friendships are created here rather than by clients, so the friend limit
+ * for users without unlimited_friends holds on both sides
+ */
+export class FriendService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly profiles: ProfileService,
+  ) {}
+
+  async canAddFriend(uid: string): Promise<boolean> {
+    const tier = this.profiles.premiumTier(await this.profiles.getProfile(uid));
+    if (isEntitled(tier, "unlimited_friends")) return true;
+
+    const friends = await this.store.where(FRIENDS_COLLECTION, "userId", uid);
+    return friends.length < (entitlements.unlimited_friends.freeAllowance ?? 0);
+  }
+
+  /**
+   * Accept a request sent to `uid`. Accepting twice is a no-op.
+   */
+  async acceptRequest(uid: string, requestId: string): Promise<void> {
+    const request = await this.store.get<FriendRequestRecord>(REQUESTS_COLLECTION, requestId);
+    if (!request || request.toUserId !== uid) {
+      throw new FriendError("not_found");
+    }
+    if (request.status === "accepted") return;
+    if (request.status !== "pending") {
+      throw new FriendError("not_found");
+    }
+
+    if (!(await this.canAddFriend(uid))) {
+      throw new FriendError("friend_limit_reached");
+    }
+    if (!(await this.canAddFriend(request.fromUserId))) {
+      throw new FriendError("partner_friend_limit_reached");
+    }
+
+    await this.store.runTransaction(async (transaction) => {
+      const current = await transaction.get<FriendRequestRecord>(REQUESTS_COLLECTION, requestId);
+      if (current?.status !== "pending") return;
+
+      const { fromUserId, toUserId } = current;
+      const from = await transaction.get<FriendCount>(USERS_COLLECTION, fromUserId);
+      const to = await transaction.get<FriendCount>(USERS_COLLECTION, toUserId);
+
+      const now = new Date();
+      const friendship = (userId: string, friendId: string, name: string, avatar?: string) => ({
+        userId,
+        friendId,
+        friendName: name,
+        ...(avatar ? { friendAvatar: avatar } : {}),
+        addedAt: now,
+        isOnline: false,
+        isFavorite: false,
+        mutualFriends: 0,
+      });
+
+      transaction.update(REQUESTS_COLLECTION, requestId, { status: "accepted", updatedAt: now });
+      // Keyed on the pair so a retried accept cannot duplicate them
+      transaction.set(
+        FRIENDS_COLLECTION,
+        `${fromUserId}_${toUserId}`,
+        friendship(fromUserId, toUserId, current.toUserName, current.toUserAvatar),
+      );
+      transaction.set(
+        FRIENDS_COLLECTION,
+        `${toUserId}_${fromUserId}`,
+        friendship(toUserId, fromUserId, current.fromUserName, current.fromUserAvatar),
+      );
+      transaction.update(USERS_COLLECTION, fromUserId, {
+        friendsCount: (from?.friendsCount || 0) + 1,
+        updatedAt: now,
+      });
+      transaction.update(USERS_COLLECTION, toUserId, {
+        friendsCount: (to?.friendsCount || 0) + 1,
+        updatedAt: now,
+      });
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { DocumentStore } from "../store";
+import { toMillis } from "../lib/timestamps";
+import { PremiumTier, findPremiumPlan } from "../config/catalog";
+
+const USERS_COLLECTION = "users";
+
+/**
+ * The subset of the client's `users/{uid}` document the server relies on
+ */
+export interface StoredUserProfile {
+  gender?: string;
+  language?: string;
+  interests?: string[];
+  isPremium?: boolean;
+  premiumPlan?: string | null;
+  premiumTier?: PremiumTier | null;
+  premiumExpiry?: unknown;
+}
+
+export class ProfileService {
+  constructor(private readonly store: DocumentStore) {}
+
+  async getProfile(uid: string): Promise<StoredUserProfile | null> {
+    return this.store.get<StoredUserProfile>(USERS_COLLECTION, uid);
+  }
+
+  /**
+   * Premium as recorded on the user document, ignoring lapsed plans
+   */
+  isPremium(profile: StoredUserProfile | null, now = Date.now()): boolean {
+    if (!profile?.isPremium) return false;
+
+    const expiry = toMillis(profile.premiumExpiry);
+    return expiry === null || expiry > now;
+  }
+
+  /**
+   * The tier features are checked against, or null without active premium.
+   * Premium granted before tiers were recorded falls back to its plan's tier.
+   */
+  premiumTier(profile: StoredUserProfile | null, now = Date.now()): PremiumTier | null {
+    if (!profile || !this.isPremium(profile, now)) return null;
+    return profile.premiumTier || findPremiumPlan(profile.premiumPlan)?.tier || "vip";
+  }
+}
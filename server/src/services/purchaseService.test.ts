@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { catalog } from "../config/catalog";
+import { subscriptionConfig } from "../config/subscriptions";
+import { LocalPaymentGateway } from "../payments/paymentGateway";
+import { InMemoryDocumentStore } from "../store";
+import { CoinLedgerService } from "./coinLedgerService";
+import { PurchaseError, PurchaseService } from "./purchaseService";
+import { SubscriptionService } from "./subscriptionService";
+
+describe("PurchaseService", () => {
+  let gateway: LocalPaymentGateway;
+  let ledger: CoinLedgerService;
+  let subscriptions: SubscriptionService;
+  let purchases: PurchaseService;
+
+  beforeEach(() => {
+    const store = new InMemoryDocumentStore();
+    gateway = new LocalPaymentGateway();
+    ledger = new CoinLedgerService(store);
+    subscriptions = new SubscriptionService(store, catalog, subscriptionConfig);
+    purchases = new PurchaseService(store, gateway, ledger, subscriptions, catalog);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const buy = async (productType: "coins" | "premium", productId: string) => {
+    const order = await purchases.createOrder("alice", productType, productId);
+    if (!order) throw new Error(`No product ${productId}`);
+    return { order, ...gateway.completePayment(order.id) };
+  };
+
+  const webhook = (event: string, payload: Record<string, unknown>) => {
+    const body = Buffer.from(JSON.stringify({ event, payload }));
+    return purchases.handleWebhook(body, gateway.signWebhook(body));
+  };
+
+  const captured = (orderId: string, paymentId: string, amount: number) =>
+    webhook("payment.captured", {
+      payment: { entity: { id: paymentId, order_id: orderId, amount } },
+    });
+
+  it("grants a coin pack once checkout's signature verifies", async () => {
+    const { order, paymentId, signature } = await buy("coins", "starter");
+
+    const receipt = await purchases.confirm("alice", order.id, paymentId, signature);
+
+    expect(receipt).toMatchObject({ id: paymentId, status: "paid", coins: 100 });
+    expect(await ledger.getBalance("alice")).toBe(100);
+  });
+
+  it("grants nothing for a checkout signature that does not verify", async () => {
+    const { order, paymentId } = await buy("coins", "starter");
+    const forged = gateway.completePayment("order_someone_else").signature;
+
+    await expect(purchases.confirm("alice", order.id, paymentId, forged)).rejects.toEqual(
+      new PurchaseError("invalid_signature"),
+    );
+    expect(await ledger.getBalance("alice")).toBe(0);
+    expect(await purchases.getReceipt(paymentId)).toBeNull();
+  });
+
+  it("rejects a webhook whose body was changed after signing", async () => {
+    const { order, paymentId } = await buy("coins", "mega");
+    const body = JSON.stringify({
+      event: "payment.captured",
+      payload: { payment: { entity: { id: paymentId, order_id: order.id } } },
+    });
+
+    const signature = gateway.signWebhook(body);
+    const tampered = Buffer.from(body.replace(paymentId, "pay_other"));
+
+    await expect(purchases.handleWebhook(tampered, signature)).rejects.toEqual(
+      new PurchaseError("invalid_signature"),
+    );
+    expect(await ledger.getBalance("alice")).toBe(0);
+  });
+
+  it("credits a replayed webhook, and checkout racing it, only once", async () => {
+    const { order, paymentId, signature } = await buy("coins", "popular");
+
+    await captured(order.id, paymentId, order.amount);
+    await captured(order.id, paymentId, order.amount);
+    await purchases.confirm("alice", order.id, paymentId, signature);
+
+    expect(await ledger.getBalance("alice")).toBe(200);
+    expect(await purchases.listReceipts("alice")).toHaveLength(1);
+  });
+
+  it("ignores a captured payment that does not cover the order", async () => {
+    const { order, paymentId } = await buy("coins", "ultimate");
+
+    await captured(order.id, paymentId, 100);
+
+    expect(await ledger.getBalance("alice")).toBe(0);
+  });
+
+  it("takes back coins when the payment is refunded", async () => {
+    const { order, paymentId, signature } = await buy("coins", "starter");
+    await purchases.confirm("alice", order.id, paymentId, signature);
+
+    await webhook("refund.processed", { refund: { entity: { payment_id: paymentId } } });
+    await webhook("refund.processed", { refund: { entity: { payment_id: paymentId } } });
+
+    expect(await ledger.getBalance("alice")).toBe(0);
+    expect(await purchases.getReceipt(paymentId)).toMatchObject({ status: "refunded" });
+  });
+
+  it("ends premium when the payment is charged back", async () => {
+    const { order, paymentId, signature } = await buy("premium", "pro-monthly");
+    await purchases.confirm("alice", order.id, paymentId, signature);
+    expect(await subscriptions.get("alice")).toMatchObject({ status: "active", tier: "pro" });
+
+    await webhook("payment.dispute.lost", { dispute: { entity: { payment_id: paymentId } } });
+
+    expect(await subscriptions.get("alice")).toMatchObject({ status: "expired" });
+    expect(await purchases.getReceipt(paymentId)).toMatchObject({ status: "charged_back" });
+  });
+
+  it("holds a second upgrade order paid after the first already upgraded", async () => {
+    const pro = await buy("premium", "pro-monthly");
+    await purchases.confirm("alice", pro.order.id, pro.paymentId, pro.signature);
+    const first = await buy("premium", "ultra-quarterly");
+    const second = await buy("premium", "ultra-quarterly");
+
+    await purchases.confirm("alice", first.order.id, first.paymentId, first.signature);
+    const upgraded = await subscriptions.get("alice");
+    const receipt = await purchases.confirm(
+      "alice",
+      second.order.id,
+      second.paymentId,
+      second.signature,
+    );
+
+    expect(receipt).toMatchObject({ status: "held" });
+    expect(receipt.premiumDurationMs).toBeUndefined();
+    expect(await subscriptions.get("alice")).toEqual(upgraded);
+
+    await purchases.refund(second.paymentId);
+    expect(await purchases.getReceipt(second.paymentId)).toMatchObject({ status: "refunded" });
+    expect(await subscriptions.get("alice")).toEqual(upgraded);
+  });
+
+  it("holds an upgrade paid for after the plan it upgraded lapsed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const pro = await buy("premium", "pro-monthly");
+    await purchases.confirm("alice", pro.order.id, pro.paymentId, pro.signature);
+    const upgrade = await buy("premium", "ultra-quarterly");
+
+    vi.setSystemTime(Date.now() + 40 * 24 * 60 * 60 * 1000);
+    const receipt = await purchases.confirm(
+      "alice",
+      upgrade.order.id,
+      upgrade.paymentId,
+      upgrade.signature,
+    );
+
+    expect(receipt).toMatchObject({ status: "held" });
+    expect(await subscriptions.get("alice")).toMatchObject({ planId: "pro-monthly" });
+  });
+
+  it("ends premium with the period when no renewal payment was tried", async () => {
+    const pro = await buy("premium", "pro-monthly");
+    await purchases.confirm("alice", pro.order.id, pro.paymentId, pro.signature);
+    const { currentPeriodEnd } = await subscriptions.setAutoRenew("alice", true);
+
+    await subscriptions.sweep(currentPeriodEnd + 1);
+
+    expect(await subscriptions.get("alice")).toMatchObject({ status: "expired" });
+  });
+
+  it("keeps premium on through grace after a renewal payment fails", async () => {
+    const pro = await buy("premium", "pro-monthly");
+    await purchases.confirm("alice", pro.order.id, pro.paymentId, pro.signature);
+    const { currentPeriodEnd } = await subscriptions.setAutoRenew("alice", true);
+    const renewal = await buy("premium", "pro-monthly");
+
+    await webhook("payment.failed", {
+      payment: { entity: { id: renewal.paymentId, order_id: renewal.order.id } },
+    });
+    await subscriptions.sweep(currentPeriodEnd + 1);
+
+    expect(await subscriptions.get("alice")).toMatchObject({
+      status: "grace",
+      graceUntil: currentPeriodEnd + subscriptionConfig.gracePeriodMs,
+    });
+  });
+
+  it("refunds through the gateway and reverses the grant", async () => {
+    const { order, paymentId, signature } = await buy("coins", "mega");
+    await purchases.confirm("alice", order.id, paymentId, signature);
+
+    const receipt = await purchases.refund(paymentId);
+
+    expect(receipt).toMatchObject({ status: "refunded" });
+    expect(await ledger.getBalance("alice")).toBe(0);
+  });
+});
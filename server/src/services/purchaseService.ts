@@ -0,0 +1,329 @@
+import { DocumentStore } from "../store";
+import { Catalog, CoinPack, PremiumPlan } from "../config/catalog";
+import { PaymentGateway } from "../payments/paymentGateway";
+import { CoinLedgerService } from "./coinLedgerService";
+import { PlanChange, SubscriptionService } from "./subscriptionService";
+
+const ORDERS_COLLECTION = "paymentOrders";
+const RECEIPTS_COLLECTION = "receipts";
+
+export type ProductType = "premium" | "coins";
+
+export interface PaymentOrder {
+  // The gateway's order id
+  id: string;
+  uid: string;
+  productType: ProductType;
+  productId: string;
+  amount: number;
+  currency: string;
+  status: "created" | "paid";
+  createdAt: number;
+  // How a premium order was quoted against the user's subscription
+  premiumChange?: PlanChange;
+  // Unused value of the previous plan taken off an upgrade's price
+  premiumCredit?: number;
+  paymentId?: string;
+  paidAt?: number;
+}
+
+// "held": paid, but the subscription changed since checkout so the order no
+// longer matches it; nothing was granted and it waits for refund or review
+export type ReceiptStatus = "paid" | "held" | "refunded" | "charged_back";
+
+/**
+ * Proof of a completed payment and what it granted, keyed on payment id
+ */
+export interface Receipt {
+  id: string;
+  orderId: string;
+  uid: string;
+  productType: ProductType;
+  productId: string;
+  productName: string;
+  amount: number;
+  currency: string;
+  status: ReceiptStatus;
+  createdAt: number;
+  coins?: number;
+  premiumChange?: PlanChange;
+  premiumDurationMs?: number;
+  premiumExpiry?: number;
+  reversedAt?: number;
+}
+
+// "plan_change_scheduled": downgrades are scheduled, not bought
+export type PurchaseErrorCode = "invalid_signature" | "not_found" | "plan_change_scheduled";
+
+export class PurchaseError extends Error {
+  constructor(readonly code: PurchaseErrorCode) {
+    super(code);
+    this.name = "PurchaseError";
+  }
+}
+
+/**
+ * The subset of a Razorpay webhook body this service reads
+ */
+interface WebhookEvent {
+  event?: string;
+  payload?: {
+    payment?: { entity?: { id?: string; order_id?: string; amount?: number } };
+    refund?: { entity?: { payment_id?: string } };
+    dispute?: { entity?: { payment_id?: string } };
+  };
+}
+
+/**
+ * Real-money purchases. Premium and coins are granted only once a payment
+ * signature (from checkout or a webhook) checks out, and taken back again
+ * on refunds and chargebacks. Every step is idempotent, since checkout
+ * confirmation and webhooks race and webhooks are retried.
+ */
+export class PurchaseService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly gateway: PaymentGateway,
+    private readonly ledger: CoinLedgerService,
+    private readonly subscriptions: SubscriptionService,
+    private readonly catalog: Catalog,
+  ) {}
+
+  async createOrder(
+    uid: string,
+    productType: ProductType,
+    productId: string,
+  ): Promise<PaymentOrder | null> {
+    const product = this.findProduct(productType, productId);
+    if (!product) return null;
+
+    // Premium is priced against the current subscription, so upgrades are prorated
+    const quote =
+      productType === "premium" ? await this.subscriptions.quote(uid, productId) : null;
+    if (quote?.change === "downgrade") {
+      throw new PurchaseError("plan_change_scheduled");
+    }
+
+    const gatewayOrder = await this.gateway.createOrder({
+      amount: quote ? quote.amount : product.amount,
+      currency: this.catalog.currency,
+      receipt: `${productType}:${productId}:${Date.now()}`,
+      notes: { uid, productType, productId },
+    });
+
+    const order: PaymentOrder = {
+      id: gatewayOrder.id,
+      uid,
+      productType,
+      productId,
+      amount: gatewayOrder.amount,
+      currency: gatewayOrder.currency,
+      status: "created",
+      createdAt: Date.now(),
+      ...(quote ? { premiumChange: quote.change, premiumCredit: quote.credit } : {}),
+    };
+    await this.store.set(ORDERS_COLLECTION, order.id, order);
+    return order;
+  }
+
+  /**
+   * Checkout's success callback, relayed by the client that paid
+   */
+  async confirm(
+    uid: string,
+    orderId: string,
+    paymentId: string,
+    signature: string,
+  ): Promise<Receipt> {
+    const order = await this.store.get<PaymentOrder>(ORDERS_COLLECTION, orderId);
+    if (!order || order.uid !== uid) {
+      throw new PurchaseError("not_found");
+    }
+    if (!this.gateway.verifyPaymentSignature(orderId, paymentId, signature)) {
+      throw new PurchaseError("invalid_signature");
+    }
+    return this.fulfil(order, paymentId);
+  }
+
+  async handleWebhook(rawBody: Buffer, signature: string): Promise<void> {
+    if (!this.gateway.verifyWebhookSignature(rawBody, signature)) {
+      throw new PurchaseError("invalid_signature");
+    }
+
+    const { event, payload = {} } = JSON.parse(rawBody.toString("utf8")) as WebhookEvent;
+    const payment = payload.payment?.entity;
+
+    switch (event) {
+      case "payment.captured":
+      case "order.paid": {
+        if (!payment?.id || !payment.order_id) return;
+        // Orders created elsewhere on the same account are not ours to handle
+        const order = await this.store.get<PaymentOrder>(ORDERS_COLLECTION, payment.order_id);
+        if (!order) return;
+        if (payment.amount !== undefined && payment.amount !== order.amount) {
+          console.error(`❌ Payment ${payment.id} does not cover order ${order.id}`);
+          return;
+        }
+        await this.fulfil(order, payment.id);
+        return;
+      }
+      case "payment.failed": {
+        if (!payment?.order_id) return;
+        const order = await this.store.get<PaymentOrder>(ORDERS_COLLECTION, payment.order_id);
+        if (order?.status === "created" && order.premiumChange === "renewal") {
+          await this.subscriptions.recordRenewalFailure(order.uid, order.createdAt);
+        }
+        return;
+      }
+      // Razorpay only supports full refunds for these products, so any
+      // processed refund undoes the whole purchase
+      case "refund.processed": {
+        const paymentId = payload.refund?.entity?.payment_id || payment?.id;
+        if (paymentId) await this.reverse(paymentId, "refunded");
+        return;
+      }
+      case "payment.dispute.created":
+      case "payment.dispute.lost": {
+        const paymentId = payload.dispute?.entity?.payment_id || payment?.id;
+        if (paymentId) await this.reverse(paymentId, "charged_back");
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  /**
+   * Refund a payment in full, taking back what it granted
+   */
+  async refund(paymentId: string): Promise<Receipt | null> {
+    const receipt = await this.store.get<Receipt>(RECEIPTS_COLLECTION, paymentId);
+    if (!receipt) return null;
+    if (receipt.status !== "paid" && receipt.status !== "held") return receipt;
+
+    await this.gateway.refund(paymentId, receipt.amount);
+    return this.reverse(paymentId, "refunded");
+  }
+
+  async getReceipt(paymentId: string): Promise<Receipt | null> {
+    return this.store.get<Receipt>(RECEIPTS_COLLECTION, paymentId);
+  }
+
+  async listReceipts(uid: string, limit = 50): Promise<Receipt[]> {
+    return this.store.where<Receipt>(RECEIPTS_COLLECTION, "uid", uid, {
+      orderByDesc: "createdAt",
+      limit,
+    });
+  }
+
+  private findProduct(
+    productType: ProductType,
+    productId: string,
+  ): PremiumPlan | CoinPack | undefined {
+    const products: Array<PremiumPlan | CoinPack> =
+      productType === "premium" ? this.catalog.premiumPlans : this.catalog.coinPacks;
+    return products.find((product) => product.id === productId);
+  }
+
+  private async fulfil(order: PaymentOrder, paymentId: string): Promise<Receipt> {
+    const product = this.findProduct(order.productType, order.productId);
+    if (!product) {
+      throw new Error(`Order ${order.id} is for an unknown product`);
+    }
+
+    // Coins go through the ledger's own idempotency key, so crediting
+    // before the order is marked paid is safe to repeat
+    const coins = "coins" in product ? product.coins : undefined;
+    if (coins !== undefined) {
+      await this.ledger.credit(order.uid, coins, "coin_pack", `order_${order.id}`, {
+        orderId: order.id,
+        paymentId,
+      });
+    }
+
+    return this.store.runTransaction(async (transaction) => {
+      const current = await transaction.get<PaymentOrder>(ORDERS_COLLECTION, order.id);
+      if (current?.status === "paid" && current.paymentId) {
+        const existing = await transaction.get<Receipt>(RECEIPTS_COLLECTION, current.paymentId);
+        if (existing) return existing;
+      }
+
+      const now = Date.now();
+      const receipt: Receipt = {
+        id: paymentId,
+        orderId: order.id,
+        uid: order.uid,
+        productType: order.productType,
+        productId: order.productId,
+        productName: product.name,
+        amount: order.amount,
+        currency: order.currency,
+        status: "paid",
+        createdAt: now,
+        ...(coins !== undefined ? { coins } : {}),
+      };
+
+      if ("durationMs" in product) {
+        const applied = order.premiumChange
+          ? await this.subscriptions.applyPurchase(
+              transaction,
+              order.uid,
+              product,
+              { change: order.premiumChange, amount: order.amount, quotedAt: order.createdAt },
+              now,
+            )
+          : null;
+        if (applied) {
+          receipt.premiumChange = applied.change;
+          receipt.premiumDurationMs = product.durationMs;
+          receipt.premiumExpiry = applied.subscription.currentPeriodEnd;
+        } else {
+          console.warn(`⚠️ Holding payment ${paymentId}: order ${order.id} no longer applies`);
+          receipt.status = "held";
+        }
+      }
+
+      transaction.update(ORDERS_COLLECTION, order.id, { status: "paid", paymentId, paidAt: now });
+      transaction.set(RECEIPTS_COLLECTION, paymentId, receipt);
+      return receipt;
+    });
+  }
+
+  private async reverse(
+    paymentId: string,
+    status: Exclude<ReceiptStatus, "paid" | "held">,
+  ): Promise<Receipt | null> {
+    const receipt = await this.store.get<Receipt>(RECEIPTS_COLLECTION, paymentId);
+    if (!receipt) return null;
+
+    if (receipt.coins !== undefined) {
+      await this.ledger.reverse(
+        receipt.uid,
+        receipt.coins,
+        "purchase_reversal",
+        `reversal_${paymentId}`,
+        { orderId: receipt.orderId, paymentId },
+      );
+    }
+
+    return this.store.runTransaction(async (transaction) => {
+      const current = await transaction.get<Receipt>(RECEIPTS_COLLECTION, paymentId);
+      if (!current) return null;
+      if (current.status !== "paid" && current.status !== "held") return current;
+
+      const now = Date.now();
+      if (current.premiumDurationMs) {
+        await this.subscriptions.revokePurchase(
+          transaction,
+          current.uid,
+          current.premiumDurationMs,
+          now,
+        );
+      }
+
+      const reversed: Receipt = { ...current, status, reversedAt: now };
+      transaction.set(RECEIPTS_COLLECTION, paymentId, reversed);
+      return reversed;
+    });
+  }
+}
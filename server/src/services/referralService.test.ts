@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { coinsConfig } from "../config/coins";
+import { referralConfig } from "../config/referrals";
+import { rewardsConfig } from "../config/rewards";
+import { InMemoryDocumentStore } from "../store";
+import { CallSessionService } from "./callSessionService";
+import { CoinLedgerService } from "./coinLedgerService";
+import { ReferralService } from "./referralService";
+import { RewardsService } from "./rewardsService";
+
+describe("ReferralService", () => {
+  let ledger: CoinLedgerService;
+  let callSessions: CallSessionService;
+  let referrals: ReferralService;
+
+  beforeEach(async () => {
+    const store = new InMemoryDocumentStore();
+    ledger = new CoinLedgerService(store);
+    const rewards = new RewardsService(
+      store,
+      ledger,
+      rewardsConfig,
+      coinsConfig.prices.streak_freeze,
+    );
+    callSessions = new CallSessionService(store, ledger, coinsConfig, rewards);
+    referrals = new ReferralService(store, ledger, referralConfig);
+
+    await referrals.applyCode("bob", await referrals.getCode("alice"));
+    await store.set("users", "bob", { onboardingComplete: true });
+  });
+
+  // A text chat between the referee and a stranger, ended after `durationMs`
+  const textChat = async (durationMs: number) => {
+    await callSessions.start("session-1", ["bob", "carol"], "text", 0);
+    const session = await callSessions.end("session-1", "skip", "bob", durationMs);
+    if (!session) throw new Error("Session did not end");
+    return session;
+  };
+
+  it("rewards a referee whose first chat is text-only", async () => {
+    const session = await textChat(referralConfig.minChatMs);
+
+    const rewarded = await Promise.all(
+      session.uids.map((uid) => referrals.recordChat(uid, session)),
+    );
+
+    expect(rewarded[0]).toMatchObject({ refereeUid: "bob", status: "rewarded" });
+    expect(await ledger.getBalance("alice")).toBe(referralConfig.referrerReward);
+    expect(await ledger.getBalance("bob")).toBe(referralConfig.refereeReward);
+  });
+
+  it("does not count a text chat too short to be one", async () => {
+    const session = await textChat(referralConfig.minChatMs - 1);
+
+    expect(await referrals.recordChat("bob", session)).toBeNull();
+    expect(await ledger.getBalance("alice")).toBe(0);
+  });
+});
@@ -0,0 +1,208 @@
+import { randomInt } from "crypto";
+import { DocumentStore } from "../store";
+import { ReferralConfig } from "../config/referrals";
+import { CallSession } from "./callSessionService";
+import { CoinLedgerService } from "./coinLedgerService";
+
+const CODES_COLLECTION = "referralCodes";
+const REFERRALS_COLLECTION = "referrals";
+const USERS_COLLECTION = "users";
+
+// Retries when a freshly drawn code is already taken
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_PATTERN = /^[A-Z0-9]{4,16}$/;
+
+/**
+ * `referralCodes/{code}`: who a code belongs to. Each uid gets one code.
+ */
+interface ReferralCodeRecord {
+  code: string;
+  uid: string;
+  createdAt: number;
+}
+
+export type ReferralStatus = "pending" | "rewarded";
+
+/**
+ * `referrals/{refereeUid}`: who referred a user. A user can be referred once.
+ */
+export interface Referral {
+  refereeUid: string;
+  referrerUid: string;
+  code: string;
+  status: ReferralStatus;
+  createdAt: number;
+  rewardedAt: number | null;
+}
+
+export interface ReferralDashboard {
+  code: string;
+  // The code this user signed up with, if any
+  referredBy: { status: ReferralStatus; createdAt: number } | null;
+  stats: { total: number; pending: number; rewarded: number; earned: number };
+  referrals: { status: ReferralStatus; createdAt: number; rewardedAt: number | null }[];
+  // Coins each side gets per rewarded referral
+  rewards: { referrer: number; referee: number };
+}
+
+export type ReferralErrorCode = "invalid_code" | "self_referral" | "already_referred";
+
+export class ReferralError extends Error {
+  constructor(readonly code: ReferralErrorCode) {
+    super(code);
+    this.name = "ReferralError";
+  }
+}
+
+interface OnboardingState {
+  onboardingComplete?: boolean;
+}
+
+/**
+ * Referral codes and rewards. Both sides are credited once the referee has
+ * finished onboarding and had a first real chat, never on sign-up alone.
+ */
+export class ReferralService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly ledger: CoinLedgerService,
+    private readonly config: ReferralConfig,
+  ) {}
+
+  /**
+   * The user's referral code, issued on first use
+   */
+  async getCode(uid: string): Promise<string> {
+    const [existing] = await this.store.where<ReferralCodeRecord>(CODES_COLLECTION, "uid", uid, {
+      limit: 1,
+    });
+    if (existing) return existing.code;
+
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const code = this.generateCode();
+      const issued = await this.store.runTransaction(async (transaction) => {
+        if (await transaction.get(CODES_COLLECTION, code)) return false;
+        transaction.set(CODES_COLLECTION, code, { code, uid, createdAt: Date.now() });
+        return true;
+      });
+      if (issued) return code;
+    }
+    throw new Error("Could not issue a unique referral code");
+  }
+
+  /**
+   * Attribute `uid` to the owner of `code`
+   */
+  async applyCode(uid: string, input: unknown): Promise<Referral> {
+    const code = typeof input === "string" ? input.trim().toUpperCase() : "";
+    if (!CODE_PATTERN.test(code)) {
+      throw new ReferralError("invalid_code");
+    }
+
+    return this.store.runTransaction(async (transaction) => {
+      const owner = await transaction.get<ReferralCodeRecord>(CODES_COLLECTION, code);
+      if (!owner) {
+        throw new ReferralError("invalid_code");
+      }
+      if (owner.uid === uid) {
+        throw new ReferralError("self_referral");
+      }
+      if (await transaction.get(REFERRALS_COLLECTION, uid)) {
+        throw new ReferralError("already_referred");
+      }
+
+      const referral: Referral = {
+        refereeUid: uid,
+        referrerUid: owner.uid,
+        code,
+        status: "pending",
+        createdAt: Date.now(),
+        rewardedAt: null,
+      };
+      transaction.set(REFERRALS_COLLECTION, uid, referral);
+      return referral;
+    });
+  }
+
+  /**
+   * Called for each participant as a session ends, video, voice or text.
+   * One long enough to count as a chat rewards a pending referral once its
+   * referee has onboarded; returns it when this call rewarded it.
+   */
+  async recordChat(uid: string, session: CallSession): Promise<Referral | null> {
+    if (!session.uids.includes(uid)) return null;
+    if ((session.durationMs ?? 0) < this.config.minChatMs) return null;
+
+    const referral = await this.store.get<Referral>(REFERRALS_COLLECTION, uid);
+    if (referral?.status !== "pending") return null;
+
+    const user = await this.store.get<OnboardingState>(USERS_COLLECTION, uid);
+    if (!user?.onboardingComplete) return null;
+
+    // Keyed on the referee, so a retry or a concurrent chat credits each side once
+    const metadata = { refereeUid: uid, referrerUid: referral.referrerUid };
+    await this.ledger.credit(
+      referral.referrerUid,
+      this.config.referrerReward,
+      "referral",
+      `referral_${uid}_referrer`,
+      metadata,
+    );
+    await this.ledger.credit(
+      uid,
+      this.config.refereeReward,
+      "referral",
+      `referral_${uid}_referee`,
+      metadata,
+    );
+
+    return this.store.runTransaction(async (transaction) => {
+      const current = await transaction.get<Referral>(REFERRALS_COLLECTION, uid);
+      if (current?.status !== "pending") return null;
+
+      const rewarded: Referral = { ...current, status: "rewarded", rewardedAt: Date.now() };
+      transaction.set(REFERRALS_COLLECTION, uid, rewarded);
+      return rewarded;
+    });
+  }
+
+  async getDashboard(uid: string): Promise<ReferralDashboard> {
+    const [code, referredBy, referrals] = await Promise.all([
+      this.getCode(uid),
+      this.store.get<Referral>(REFERRALS_COLLECTION, uid),
+      this.store.where<Referral>(REFERRALS_COLLECTION, "referrerUid", uid, {
+        orderByDesc: "createdAt",
+      }),
+    ]);
+
+    const rewarded = referrals.filter((referral) => referral.status === "rewarded").length;
+    return {
+      code,
+      referredBy: referredBy
+        ? { status: referredBy.status, createdAt: referredBy.createdAt }
+        : null,
+      stats: {
+        total: referrals.length,
+        pending: referrals.length - rewarded,
+        rewarded,
+        earned: rewarded * this.config.referrerReward,
+      },
+      // Referees stay anonymous; the referrer only sees progress
+      referrals: referrals.map(({ status, createdAt, rewardedAt }) => ({
+        status,
+        createdAt,
+        rewardedAt,
+      })),
+      rewards: { referrer: this.config.referrerReward, referee: this.config.refereeReward },
+    };
+  }
+
+  private generateCode(): string {
+    const { codeAlphabet, codeLength } = this.config;
+    let code = "";
+    for (let i = 0; i < codeLength; i++) {
+      code += codeAlphabet[randomInt(codeAlphabet.length)];
+    }
+    return code;
+  }
+}
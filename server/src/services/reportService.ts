@@ -0,0 +1,169 @@
+import { DocumentStore } from "../store";
+import { ModerationConfig } from "../config/moderation";
+import { BanRecord, BanService } from "./banService";
+
+const REPORTS_COLLECTION = "reports";
+const USERS_COLLECTION = "users";
+
+export type ReportStatus = "pending" | "reviewed" | "resolved" | "dismissed";
+
+export interface ReportRecord {
+  id: string;
+  reporterUserId: string;
+  reportedUserId: string;
+  reason: string;
+  description: string;
+  sessionId: string;
+  status: ReportStatus;
+  createdAt: number;
+  updatedAt: number;
+  reviewedAt?: number;
+  reviewedBy?: string;
+  action?: string;
+}
+
+export interface ReportSubmission {
+  reporterUid: string;
+  reportedUid: string;
+  sessionId: string;
+  reason: string;
+  description?: string;
+}
+
+export interface ReportResult {
+  report: ReportRecord;
+  // Set when this report pushed the reported user over a suspension threshold
+  ban: BanRecord | null;
+}
+
+/**
+ * Records user reports and suspends accounts that collect reports from
+ * enough distinct users in a short window
+ */
+export class ReportService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly banService: BanService,
+    private readonly config: ModerationConfig,
+  ) {}
+
+  async submit(submission: ReportSubmission): Promise<ReportResult> {
+    const { reporterUid, reportedUid, sessionId } = submission;
+    if (reporterUid === reportedUid) {
+      throw new Error("Users cannot report themselves");
+    }
+
+    // One report per reporter per session, resubmitting just updates it
+    const id = `${sessionId}_${reporterUid}`;
+    const existing = await this.store.get<ReportRecord>(REPORTS_COLLECTION, id);
+    const now = Date.now();
+
+    const report: ReportRecord = {
+      id,
+      reporterUserId: reporterUid,
+      reportedUserId: reportedUid,
+      reason: submission.reason.slice(0, this.config.maxReasonLength),
+      description: (submission.description || "").slice(0, this.config.maxReasonLength),
+      sessionId,
+      status: existing?.status || "pending",
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    await this.store.set(REPORTS_COLLECTION, id, report);
+
+    if (existing) {
+      return { report, ban: null };
+    }
+
+    const reports = await this.store.where<ReportRecord>(
+      REPORTS_COLLECTION,
+      "reportedUserId",
+      reportedUid,
+    );
+    await this.store.update(USERS_COLLECTION, reportedUid, {
+      reportCount: reports.length,
+    });
+
+    const ban = await this.applySuspensionRules(reportedUid, reports, now);
+    return { report, ban };
+  }
+
+  async get(id: string): Promise<ReportRecord | null> {
+    return this.store.get<ReportRecord>(REPORTS_COLLECTION, id);
+  }
+
+  async list(status?: ReportStatus, limit = 100): Promise<ReportRecord[]> {
+    const options = { orderByDesc: "createdAt", limit };
+    return status
+      ? this.store.where<ReportRecord>(REPORTS_COLLECTION, "status", status, options)
+      : this.store.list<ReportRecord>(REPORTS_COLLECTION, options);
+  }
+
+  /**
+   * Close a report after moderator review
+   */
+  async review(
+    id: string,
+    reviewerUid: string,
+    status: "resolved" | "dismissed",
+    action = "none",
+  ): Promise<ReportRecord | null> {
+    const report = await this.get(id);
+    if (!report) return null;
+
+    const now = Date.now();
+    const reviewed: ReportRecord = {
+      ...report,
+      status,
+      action,
+      reviewedAt: now,
+      reviewedBy: reviewerUid,
+      updatedAt: now,
+    };
+    await this.store.set(REPORTS_COLLECTION, id, reviewed);
+    return reviewed;
+  }
+
+  async listForUser(uid: string): Promise<ReportRecord[]> {
+    const reports = await this.store.where<ReportRecord>(
+      REPORTS_COLLECTION,
+      "reportedUserId",
+      uid,
+    );
+    return reports.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  private async applySuspensionRules(
+    uid: string,
+    reports: ReportRecord[],
+    now: number,
+  ): Promise<BanRecord | null> {
+    const counted = reports.filter((report) => report.status !== "dismissed");
+
+    for (const rule of this.config.suspensionRules) {
+      const reporters = new Set(
+        counted
+          .filter((report) => now - report.createdAt <= rule.windowMs)
+          .map((report) => report.reporterUserId),
+      );
+      if (reporters.size < rule.reporters) continue;
+
+      const until = now + rule.banMs;
+      const current = await this.banService.getActiveBan(uid, now);
+
+      // Never shorten a ban that is already in place
+      if (current && (current.until === null || current.until >= until)) {
+        return null;
+      }
+
+      console.log(`⛔ Suspending ${uid} until ${new Date(until).toISOString()}`);
+      return this.banService.ban(uid, {
+        reason: `Reported by ${reporters.size} users`,
+        source: "reports",
+        until,
+      });
+    }
+
+    return null;
+  }
+}
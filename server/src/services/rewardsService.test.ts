@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { coinsConfig } from "../config/coins";
+import { rewardsConfig } from "../config/rewards";
+import { InMemoryDocumentStore } from "../store";
+import { CoinLedgerService } from "./coinLedgerService";
+import { RewardError, RewardsService } from "./rewardsService";
+
+describe("RewardsService", () => {
+  const price = coinsConfig.prices.streak_freeze;
+  const max = rewardsConfig.maxStreakFreezes;
+  let ledger: CoinLedgerService;
+  let rewards: RewardsService;
+
+  beforeEach(async () => {
+    const store = new InMemoryDocumentStore();
+    ledger = new CoinLedgerService(store);
+    rewards = new RewardsService(store, ledger, rewardsConfig, price);
+    await ledger.credit("alice", 10 * price, "coin_pack", "order_test");
+  });
+
+  it("refunds the purchase that loses a race for the last freeze", async () => {
+    for (let i = 1; i < max; i++) await rewards.buyStreakFreeze("alice", `freeze-key-${i}`);
+
+    const results = await Promise.allSettled([
+      rewards.buyStreakFreeze("alice", "freeze-key-a"),
+      rewards.buyStreakFreeze("alice", "freeze-key-b"),
+    ]);
+
+    expect(results.filter(({ status }) => status === "fulfilled")).toHaveLength(1);
+    expect(results.find(({ status }) => status === "rejected")).toMatchObject({
+      reason: new RewardError("freeze_limit_reached"),
+    });
+    expect((await rewards.getStatus("alice")).streakFreezes).toBe(max);
+    expect(await ledger.getBalance("alice")).toBe((10 - max) * price);
+  });
+});
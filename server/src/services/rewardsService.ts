@@ -0,0 +1,329 @@
+import { DocumentStore } from "../store";
+import { RewardsConfig, StreakMilestone } from "../config/rewards";
+import { dayKey, daysBetween, isTimeZone } from "../lib/calendarDays";
+import { CoinLedgerService } from "./coinLedgerService";
+
+const REWARDS_COLLECTION = "rewardState";
+const AD_REWARDS_COLLECTION = "adRewards";
+const FREEZE_PURCHASES_COLLECTION = "streakFreezePurchases";
+
+/**
+ * `rewardState/{uid}`: daily bonus, streak and ad progress. Days are
+ * calendar days in the user's time zone, judged by the server's clock.
+ */
+interface RewardState {
+  uid: string;
+  timeZone: string;
+  timeZoneChangedAt: number;
+  // Day key of the last daily bonus claim
+  lastClaimDay: string | null;
+  streak: number;
+  longestStreak: number;
+  streakFreezes: number;
+  adsDay: string | null;
+  adsWatched: number;
+  updatedAt: number;
+}
+
+/**
+ * `adRewards/{key}`: one per verified ad, so a replayed callback is
+ * counted and credited once
+ */
+interface AdRewardRecord {
+  uid: string;
+  day: string;
+  // Ads watched that day, this one included
+  watched: number;
+  createdAt: number;
+}
+
+/**
+ * `streakFreezePurchases/{uid}_{idempotencyKey}`: what a paid freeze
+ * purchase came to, so a retry neither grants it twice nor loses a refund
+ */
+interface FreezePurchaseRecord {
+  uid: string;
+  granted: boolean;
+  createdAt: number;
+}
+
+export interface RewardStatus {
+  today: string;
+  canClaimDailyBonus: boolean;
+  dailyBonus: number;
+  // What the streak is now: 0 once a gap is too long for the freezes held
+  streak: number;
+  longestStreak: number;
+  nextMilestone: StreakMilestone | null;
+  streakFreezes: number;
+  maxStreakFreezes: number;
+  streakFreezePrice: number;
+  adsWatchedToday: number;
+  maxAdsPerDay: number;
+  adReward: number;
+}
+
+export interface DailyClaim {
+  dailyBonus: number;
+  streak: number;
+  // Set when this claim reached a streak milestone
+  streakBonus: number;
+  // Freezes spent covering missed days
+  freezesUsed: number;
+}
+
+export type RewardErrorCode = "already_claimed" | "ad_limit_reached" | "freeze_limit_reached";
+
+export class RewardError extends Error {
+  constructor(readonly code: RewardErrorCode) {
+    super(code);
+    this.name = "RewardError";
+  }
+}
+
+/**
+ * Server-kept daily rewards, so clearing storage or changing the device
+ * clock no longer resets or repeats them
+ */
+export class RewardsService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly ledger: CoinLedgerService,
+    private readonly config: RewardsConfig,
+    // The ledger price of one streak freeze
+    private readonly streakFreezePrice: number,
+  ) {}
+
+  async getStatus(uid: string, timeZone?: unknown, now = Date.now()): Promise<RewardStatus> {
+    const state = this.withTimeZone(
+      await this.store.get<RewardState>(REWARDS_COLLECTION, uid),
+      uid,
+      timeZone,
+      now,
+    );
+    const today = dayKey(now, state.timeZone);
+    const canClaim = state.lastClaimDay !== today;
+    // A streak still alive can be continued by today's claim
+    const streak = canClaim && !this.continueStreak(state, today) ? 0 : state.streak;
+
+    return {
+      today,
+      canClaimDailyBonus: canClaim,
+      dailyBonus: this.config.dailyBonus,
+      streak,
+      longestStreak: state.longestStreak,
+      nextMilestone: this.config.streakMilestones.find(({ days }) => days > streak) || null,
+      streakFreezes: state.streakFreezes,
+      maxStreakFreezes: this.config.maxStreakFreezes,
+      streakFreezePrice: this.streakFreezePrice,
+      adsWatchedToday: state.adsDay === today ? state.adsWatched : 0,
+      maxAdsPerDay: this.config.maxAdsPerDay,
+      adReward: this.config.adReward,
+    };
+  }
+
+  /**
+   * The zone the user's reward days are counted in
+   */
+  async getTimeZone(uid: string): Promise<string> {
+    const state = await this.store.get<RewardState>(REWARDS_COLLECTION, uid);
+    return state?.timeZone || this.config.defaultTimeZone;
+  }
+
+  /**
+   * Claim today's bonus, plus any streak milestone it reaches
+   */
+  async claimDailyBonus(uid: string, timeZone?: unknown, now = Date.now()): Promise<DailyClaim> {
+    const { today, alreadyClaimed, ...claim } = await this.store.runTransaction(
+      async (transaction) => {
+        const state = this.withTimeZone(
+          await transaction.get<RewardState>(REWARDS_COLLECTION, uid),
+          uid,
+          timeZone,
+          now,
+        );
+        const today = dayKey(now, state.timeZone);
+        const claimed = (streak: number, freezesUsed: number) => ({
+          today,
+          dailyBonus: this.config.dailyBonus,
+          streak,
+          streakBonus: this.milestoneBonus(streak),
+          freezesUsed,
+        });
+        if (state.lastClaimDay === today) {
+          return { ...claimed(state.streak, 0), alreadyClaimed: true };
+        }
+
+        const continued = this.continueStreak(state, today);
+        const streak = continued ? state.streak + 1 : 1;
+        const freezesUsed = continued?.freezesUsed || 0;
+        transaction.set(REWARDS_COLLECTION, uid, {
+          ...state,
+          lastClaimDay: today,
+          streak,
+          longestStreak: Math.max(state.longestStreak, streak),
+          streakFreezes: state.streakFreezes - freezesUsed,
+          updatedAt: now,
+        });
+        return { ...claimed(streak, freezesUsed), alreadyClaimed: false };
+      },
+    );
+
+    // Keyed on the day, so each is credited exactly once, even when an
+    // earlier claim failed between recording and crediting
+    await this.ledger.credit(uid, claim.dailyBonus, "daily_bonus", `daily_${today}`);
+    if (claim.streakBonus) {
+      await this.ledger.credit(uid, claim.streakBonus, "streak_bonus", `streak_${today}`, {
+        streak: String(claim.streak),
+      });
+    }
+    if (alreadyClaimed) {
+      throw new RewardError("already_claimed");
+    }
+    return claim;
+  }
+
+  /**
+   * Credit one verified ad, up to the daily cap. `key` identifies the ad;
+   * crediting the same key again changes nothing. Returns the coins credited.
+   */
+  async rewardAd(uid: string, key: string, timeZone?: unknown, now = Date.now()): Promise<number> {
+    await this.store.runTransaction(async (transaction) => {
+      const existing = await transaction.get<AdRewardRecord>(AD_REWARDS_COLLECTION, key);
+      const state = this.withTimeZone(
+        await transaction.get<RewardState>(REWARDS_COLLECTION, uid),
+        uid,
+        timeZone,
+        now,
+      );
+      if (existing) return;
+
+      const today = dayKey(now, state.timeZone);
+      const watchedBefore = state.adsDay === today ? state.adsWatched : 0;
+      if (watchedBefore >= this.config.maxAdsPerDay) {
+        throw new RewardError("ad_limit_reached");
+      }
+
+      const watched = watchedBefore + 1;
+      transaction.set(REWARDS_COLLECTION, uid, {
+        ...state,
+        adsDay: today,
+        adsWatched: watched,
+        updatedAt: now,
+      });
+      transaction.set<AdRewardRecord>(AD_REWARDS_COLLECTION, key, {
+        uid,
+        day: today,
+        watched,
+        createdAt: now,
+      });
+    });
+
+    // Also re-run for a recorded ad, in case crediting failed the first time
+    await this.ledger.credit(uid, this.config.adReward, "ad_reward", `ad_${key}`);
+    return this.config.adReward;
+  }
+
+  /**
+   * Buy a streak freeze. A retried request is charged and granted once.
+   * The limit is checked again when the freeze is granted, since purchases
+   * racing each other all pass the first check; those refused then are
+   * refunded.
+   */
+  async buyStreakFreeze(uid: string, idempotencyKey: string, now = Date.now()): Promise<number> {
+    const current = await this.store.get<RewardState>(REWARDS_COLLECTION, uid);
+    if ((current?.streakFreezes || 0) >= this.config.maxStreakFreezes) {
+      throw new RewardError("freeze_limit_reached");
+    }
+
+    await this.ledger.debit(uid, this.streakFreezePrice, "streak_freeze", idempotencyKey);
+    const key = `${uid}_${idempotencyKey}`;
+    const { granted, streakFreezes } = await this.store.runTransaction(async (transaction) => {
+      const purchase = await transaction.get<FreezePurchaseRecord>(
+        FREEZE_PURCHASES_COLLECTION,
+        key,
+      );
+      const state = this.withTimeZone(
+        await transaction.get<RewardState>(REWARDS_COLLECTION, uid),
+        uid,
+        undefined,
+        now,
+      );
+      if (purchase) return { granted: purchase.granted, streakFreezes: state.streakFreezes };
+
+      const granted = state.streakFreezes < this.config.maxStreakFreezes;
+      const streakFreezes = state.streakFreezes + (granted ? 1 : 0);
+      if (granted) {
+        transaction.set(REWARDS_COLLECTION, uid, { ...state, streakFreezes, updatedAt: now });
+      }
+      transaction.set<FreezePurchaseRecord>(FREEZE_PURCHASES_COLLECTION, key, {
+        uid,
+        granted,
+        createdAt: now,
+      });
+      return { granted, streakFreezes };
+    });
+    if (granted) return streakFreezes;
+
+    // Also re-run for a refused purchase, in case refunding failed the first time
+    await this.ledger.credit(
+      uid,
+      this.streakFreezePrice,
+      "streak_freeze_refund",
+      `${idempotencyKey}_refund`,
+    );
+    throw new RewardError("freeze_limit_reached");
+  }
+
+  private milestoneBonus(streak: number): number {
+    return this.config.streakMilestones.find(({ days }) => days === streak)?.bonus || 0;
+  }
+
+  /**
+   * Whether claiming on `today` extends the streak, and how many freezes
+   * that takes; null when the streak is broken
+   */
+  private continueStreak(state: RewardState, today: string): { freezesUsed: number } | null {
+    if (!state.lastClaimDay || state.streak === 0) return null;
+
+    const missed = daysBetween(state.lastClaimDay, today) - 1;
+    if (missed < 0 || missed > state.streakFreezes) return null;
+    return { freezesUsed: missed };
+  }
+
+  /**
+   * The stored state, or a fresh one, in the time zone the client reports.
+   * Moving the day boundary is rate limited.
+   */
+  private withTimeZone(
+    state: RewardState | null,
+    uid: string,
+    timeZone: unknown,
+    now: number,
+  ): RewardState {
+    const reported = isTimeZone(timeZone) ? timeZone : null;
+    if (!state) {
+      return {
+        uid,
+        timeZone: reported || this.config.defaultTimeZone,
+        timeZoneChangedAt: now,
+        lastClaimDay: null,
+        streak: 0,
+        longestStreak: 0,
+        streakFreezes: 0,
+        adsDay: null,
+        adsWatched: 0,
+        updatedAt: now,
+      };
+    }
+
+    if (
+      reported &&
+      reported !== state.timeZone &&
+      now - state.timeZoneChangedAt >= this.config.timeZoneChangeIntervalMs
+    ) {
+      return { ...state, timeZone: reported, timeZoneChangedAt: now };
+    }
+    return state;
+  }
+}
@@ -0,0 +1,277 @@
+import { createHash, createHmac, randomBytes, randomUUID } from "crypto";
+import { DocumentStore } from "../store";
+import { SpinSegment, SpinWheelConfig } from "../config/spinWheel";
+import { dayKey } from "../lib/calendarDays";
+import { CoinLedgerService } from "./coinLedgerService";
+import { RewardsService } from "./rewardsService";
+
+const SPIN_STATE_COLLECTION = "spinState";
+const SPINS_COLLECTION = "spins";
+
+const CLIENT_SEED_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+// Leading hex digits of the HMAC that make up a roll; 52 bits fit a double exactly
+const ROLL_HEX_DIGITS = 13;
+
+/**
+ * `spinState/{uid}`: the seed committed to for the user's next spin, and
+ * how many spins they have had today
+ */
+interface SpinState {
+  uid: string;
+  // Secret until the spin that uses it reveals it
+  serverSeed: string;
+  // sha256 of serverSeed, shown to the user before they spin
+  commitment: string;
+  nonce: number;
+  spinsDay: string | null;
+  spinsToday: number;
+  updatedAt: number;
+}
+
+// `won` is a prize not yet credited; `awaiting_ad` one that needs an ad first
+export type SpinOutcome = "no_prize" | "awaiting_ad" | "won" | "credited";
+
+/**
+ * `spins/{id}`: every spin, with everything needed to re-derive its result.
+ * Kept for payout audits.
+ */
+export interface SpinRecord {
+  id: string;
+  uid: string;
+  day: string;
+  segmentId: string;
+  coins: number;
+  status: SpinOutcome;
+  serverSeed: string;
+  commitment: string;
+  clientSeed: string;
+  nonce: number;
+  roll: number;
+  createdAt: number;
+  claimedAt: number | null;
+}
+
+export interface SpinWheelStatus {
+  segments: SpinSegment[];
+  // What the next spin's server seed hashes to
+  commitment: string;
+  spinsToday: number;
+  maxSpinsPerDay: number;
+}
+
+export interface PayoutStats {
+  spins: number;
+  // Coins spins landed on, and how many of those were credited after ads
+  coinsWon: number;
+  coinsCredited: number;
+  // Average coins per spin the segment table promises, and what it paid
+  expectedCoinsPerSpin: number;
+  coinsWonPerSpin: number;
+  // Share of spins per segment, promised and observed
+  segments: { id: string; expected: number; observed: number }[];
+  since: number | null;
+}
+
+export type SpinErrorCode =
+  | "invalid_client_seed"
+  | "stale_commitment"
+  | "spin_limit_reached"
+  | "not_found"
+  | "not_claimable"
+  | "claim_expired";
+
+export class SpinError extends Error {
+  constructor(readonly code: SpinErrorCode) {
+    super(code);
+    this.name = "SpinError";
+  }
+}
+
+function newSeed(): Pick<SpinState, "serverSeed" | "commitment"> {
+  const serverSeed = randomBytes(32).toString("hex");
+  return { serverSeed, commitment: createHash("sha256").update(serverSeed).digest("hex") };
+}
+
+/**
+ * A number in [0, 1) from HMAC-SHA256(serverSeed, "clientSeed:nonce").
+ * Anyone holding the revealed seed can recompute it.
+ */
+function rollFor(serverSeed: string, clientSeed: string, nonce: number): number {
+  const digest = createHmac("sha256", serverSeed).update(`${clientSeed}:${nonce}`).digest("hex");
+  return parseInt(digest.slice(0, ROLL_HEX_DIGITS), 16) / 16 ** ROLL_HEX_DIGITS;
+}
+
+function pickSegment(segments: SpinSegment[], roll: number): SpinSegment {
+  const total = segments.reduce((sum, segment) => sum + segment.weight, 0);
+  let target = roll * total;
+  for (const segment of segments) {
+    if (target < segment.weight) return segment;
+    target -= segment.weight;
+  }
+  return segments[segments.length - 1];
+}
+
+/**
+ * Spin wheel outcomes, decided on the server with a commit-reveal seed.
+ * Before each spin the user sees a hash of the server's seed; the spin
+ * mixes in a seed of their own and reveals the server's, so they can check
+ * the result was fixed before they spun and not chosen after.
+ */
+export class SpinWheelService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly ledger: CoinLedgerService,
+    private readonly config: SpinWheelConfig,
+    // Spins are counted per day in the same time zone as daily rewards
+    private readonly rewards: RewardsService,
+  ) {}
+
+  async getStatus(uid: string, now = Date.now()): Promise<SpinWheelStatus> {
+    const state = await this.store.runTransaction(async (transaction) => {
+      const existing = await transaction.get<SpinState>(SPIN_STATE_COLLECTION, uid);
+      if (existing) return existing;
+
+      const fresh: SpinState = {
+        uid,
+        ...newSeed(),
+        nonce: 0,
+        spinsDay: null,
+        spinsToday: 0,
+        updatedAt: now,
+      };
+      transaction.set(SPIN_STATE_COLLECTION, uid, fresh);
+      return fresh;
+    });
+    const today = dayKey(now, await this.rewards.getTimeZone(uid));
+
+    return {
+      segments: this.config.segments,
+      commitment: state.commitment,
+      spinsToday: state.spinsDay === today ? state.spinsToday : 0,
+      maxSpinsPerDay: this.config.maxSpinsPerDay,
+    };
+  }
+
+  /**
+   * Spin once using the seed behind `commitment`, which must be the one
+   * the user was shown
+   */
+  async spin(
+    uid: string,
+    clientSeed: unknown,
+    commitment: unknown,
+    now = Date.now(),
+  ): Promise<SpinRecord> {
+    if (typeof clientSeed !== "string" || !CLIENT_SEED_PATTERN.test(clientSeed)) {
+      throw new SpinError("invalid_client_seed");
+    }
+    const today = dayKey(now, await this.rewards.getTimeZone(uid));
+
+    const spin = await this.store.runTransaction(async (transaction) => {
+      const state = await transaction.get<SpinState>(SPIN_STATE_COLLECTION, uid);
+      if (!state || state.commitment !== commitment) {
+        throw new SpinError("stale_commitment");
+      }
+      const spinsToday = state.spinsDay === today ? state.spinsToday : 0;
+      if (spinsToday >= this.config.maxSpinsPerDay) {
+        throw new SpinError("spin_limit_reached");
+      }
+
+      const roll = rollFor(state.serverSeed, clientSeed, state.nonce);
+      const segment = pickSegment(this.config.segments, roll);
+      const spin: SpinRecord = {
+        id: randomUUID(),
+        uid,
+        day: today,
+        segmentId: segment.id,
+        coins: segment.coins,
+        status: segment.coins === 0 ? "no_prize" : segment.requiresAd ? "awaiting_ad" : "won",
+        serverSeed: state.serverSeed,
+        commitment: state.commitment,
+        clientSeed,
+        nonce: state.nonce,
+        roll,
+        createdAt: now,
+        claimedAt: null,
+      };
+      transaction.set(SPINS_COLLECTION, spin.id, spin);
+      transaction.set(SPIN_STATE_COLLECTION, uid, {
+        ...state,
+        ...newSeed(),
+        nonce: state.nonce + 1,
+        spinsDay: today,
+        spinsToday: spinsToday + 1,
+        updatedAt: now,
+      });
+      return spin;
+    });
+
+    return spin.status === "won" ? this.credit(spin, now) : spin;
+  }
+
+  /**
+   * Credit a won spin once the ad network has confirmed its rewarded ad.
+   * Claiming a credited spin again returns it unchanged.
+   */
+  async claim(uid: string, spinId: string, now = Date.now()): Promise<SpinRecord> {
+    const spin = await this.store.get<SpinRecord>(SPINS_COLLECTION, spinId);
+    if (!spin || spin.uid !== uid) {
+      throw new SpinError("not_found");
+    }
+    if (spin.status === "credited") return spin;
+    if (spin.status === "no_prize") {
+      throw new SpinError("not_claimable");
+    }
+    if (spin.status === "awaiting_ad" && now - spin.createdAt > this.config.adClaimWindowMs) {
+      throw new SpinError("claim_expired");
+    }
+    return this.credit(spin, now);
+  }
+
+  /**
+   * Payout rates over the most recent spins, against what the segment
+   * weights promise
+   */
+  async getPayoutStats(limit: number): Promise<PayoutStats> {
+    const spins = await this.store.list<SpinRecord>(SPINS_COLLECTION, {
+      orderByDesc: "createdAt",
+      limit,
+    });
+    const { segments } = this.config;
+    const totalWeight = segments.reduce((sum, segment) => sum + segment.weight, 0);
+    const coinsWon = spins.reduce((sum, spin) => sum + spin.coins, 0);
+    const share = (count: number, total: number) => (total ? count / total : 0);
+
+    return {
+      spins: spins.length,
+      coinsWon,
+      coinsCredited: spins
+        .filter((spin) => spin.status === "credited")
+        .reduce((sum, spin) => sum + spin.coins, 0),
+      expectedCoinsPerSpin: segments.reduce(
+        (sum, segment) => sum + segment.coins * share(segment.weight, totalWeight),
+        0,
+      ),
+      coinsWonPerSpin: share(coinsWon, spins.length),
+      segments: segments.map(({ id, weight }) => ({
+        id,
+        expected: share(weight, totalWeight),
+        observed: share(spins.filter((spin) => spin.segmentId === id).length, spins.length),
+      })),
+      since: spins.length ? spins[spins.length - 1].createdAt : null,
+    };
+  }
+
+  // Keyed on the spin, so a retried claim credits it once
+  private async credit(spin: SpinRecord, now: number): Promise<SpinRecord> {
+    await this.ledger.credit(spin.uid, spin.coins, "spin", `spin_${spin.id}`, {
+      segmentId: spin.segmentId,
+    });
+    const credited: SpinRecord = { ...spin, status: "credited", claimedAt: now };
+    await this.store.update(SPINS_COLLECTION, spin.id, {
+      status: credited.status,
+      claimedAt: now,
+    });
+    return credited;
+  }
+}
@@ -0,0 +1,474 @@
+import { DocumentStore, DocumentTransaction } from "../store";
+import {
+  Catalog,
+  PREMIUM_TIER_RANK,
+  PremiumPlan,
+  PremiumPlanId,
+  PremiumTier,
+} from "../config/catalog";
+import { SubscriptionConfig } from "../config/subscriptions";
+import { toMillis } from "../lib/timestamps";
+
+const SUBSCRIPTIONS_COLLECTION = "subscriptions";
+const USERS_COLLECTION = "users";
+
+export type SubscriptionStatus = "active" | "grace" | "expired";
+
+/**
+ * A user's premium subscription, keyed on uid. The premium fields of
+ * `users/{uid}` mirror it so clients and matching can keep reading them.
+ */
+export interface Subscription {
+  uid: string;
+  planId: PremiumPlanId;
+  tier: PremiumTier;
+  status: SubscriptionStatus;
+  autoRenew: boolean;
+  currentPeriodStart: number;
+  currentPeriodEnd: number;
+  // Set while a renewal is overdue; premium lasts until then unless it is paid
+  graceUntil: number | null;
+  // When a renewal payment for this period failed. Nothing charges renewals
+  // by itself, so grace is only for payments that were tried and bounced.
+  renewalFailedAt?: number | null;
+  // A downgrade that takes over when the paid period ends
+  pendingPlanId: PremiumPlanId | null;
+  // Reminder lead times already sent for the current period
+  remindersSent: number[];
+  updatedAt: number;
+}
+
+// What buying a plan does to the subscription
+export type PlanChange = "new" | "renewal" | "upgrade" | "downgrade";
+
+export interface PlanQuote {
+  planId: PremiumPlanId;
+  change: PlanChange;
+  // Charged at checkout; downgrades are scheduled rather than bought
+  amount: number;
+  // Unused value of the current plan, taken off an upgrade
+  credit: number;
+  // When the new plan's period starts
+  startsAt: number;
+}
+
+export type SubscriptionReminderKind = "period_ending" | "renewal_due" | "expired";
+
+/**
+ * What a premium order was quoted, and so what its payment covers
+ */
+export interface PaidQuote {
+  change: PlanChange;
+  amount: number;
+  quotedAt: number;
+}
+
+export interface SubscriptionReminder {
+  uid: string;
+  kind: SubscriptionReminderKind;
+  planId: PremiumPlanId;
+  autoRenew: boolean;
+  // When premium ends unless the user pays
+  endsAt: number;
+}
+
+export type SubscriptionErrorCode = "invalid_plan" | "not_subscribed" | "checkout_required";
+
+export class SubscriptionError extends Error {
+  constructor(readonly code: SubscriptionErrorCode) {
+    super(code);
+    this.name = "SubscriptionError";
+  }
+}
+
+interface PremiumFields {
+  isPremium?: boolean;
+  premiumPlan?: string | null;
+  premiumExpiry?: unknown;
+}
+
+function entitledUntil(subscription: Subscription): number {
+  if (subscription.status === "expired") return 0;
+  if (subscription.status === "grace") return subscription.graceUntil || 0;
+  return subscription.currentPeriodEnd;
+}
+
+// The premium fields of the user document for this subscription
+function premiumFields(subscription: Subscription): object {
+  if (subscription.status === "expired") {
+    return { isPremium: false, premiumPlan: null, premiumTier: null, premiumExpiry: null };
+  }
+  return {
+    isPremium: true,
+    premiumPlan: subscription.planId,
+    premiumTier: subscription.tier,
+    premiumExpiry: new Date(entitledUntil(subscription)),
+  };
+}
+
+/**
+ * Premium subscriptions: renewals, upgrades and downgrades between plans,
+ * grace after a failed renewal, and expiry. Renewals are paid through the
+ * same checkout as first purchases; with auto-renew on, a renewal payment
+ * that fails keeps premium on through the grace period while it is retried.
+ */
+export class SubscriptionService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly catalog: Catalog,
+    private readonly config: SubscriptionConfig,
+  ) {}
+
+  async get(uid: string): Promise<Subscription | null> {
+    const subscription = await this.store.get<Subscription>(SUBSCRIPTIONS_COLLECTION, uid);
+    if (subscription) return subscription;
+
+    return this.store.runTransaction(async (transaction) => {
+      const { subscription, adopted } = await this.read(transaction, uid);
+      if (subscription && adopted) this.write(transaction, subscription, true);
+      return subscription;
+    });
+  }
+
+  async quote(uid: string, planId: unknown, now = Date.now()): Promise<PlanQuote | null> {
+    const plan = this.findPlan(planId);
+    if (!plan) return null;
+    return this.quoteFor(await this.get(uid), plan, now);
+  }
+
+  /**
+   * Start or extend premium for a verified payment, as part of the
+   * purchase's transaction. The plan is quoted again here and nothing is
+   * granted, returning null, unless the payment still covers it: the same
+   * kind of change, at no more than was paid. A second upgrade order, or
+   * one paid after the plan it upgraded lapsed, is not.
+   */
+  async applyPurchase(
+    transaction: DocumentTransaction,
+    uid: string,
+    plan: PremiumPlan,
+    paid: PaidQuote,
+    now: number,
+  ): Promise<{ subscription: Subscription; change: PlanChange } | null> {
+    const { subscription: current } = await this.read(transaction, uid);
+    const { change } = this.quoteFor(current, plan, now);
+    const priceAt = Math.max(paid.quotedAt, now - this.config.quoteValidityMs);
+    const { amount } = this.quoteFor(current, plan, priceAt);
+    if (change !== paid.change || amount > paid.amount) return null;
+
+    let subscription: Subscription;
+    if (current && change === "renewal") {
+      subscription = {
+        ...current,
+        status: "active",
+        currentPeriodEnd: current.currentPeriodEnd + plan.durationMs,
+        graceUntil: null,
+        renewalFailedAt: null,
+        remindersSent: [],
+        updatedAt: now,
+      };
+    } else {
+      subscription = {
+        uid,
+        planId: plan.id,
+        tier: plan.tier,
+        status: "active",
+        autoRenew: current?.autoRenew ?? false,
+        currentPeriodStart: now,
+        currentPeriodEnd: now + plan.durationMs,
+        graceUntil: null,
+        pendingPlanId: null,
+        remindersSent: [],
+        updatedAt: now,
+      };
+    }
+
+    this.write(transaction, subscription, true);
+    return { subscription, change };
+  }
+
+  /**
+   * Note a renewal payment the gateway failed, so the period can go into
+   * grace while it is retried. Orders from before the current period are
+   * for one already over and count for nothing.
+   */
+  async recordRenewalFailure(uid: string, orderCreatedAt: number): Promise<void> {
+    await this.store.runTransaction(async (transaction) => {
+      const current = await transaction.get<Subscription>(SUBSCRIPTIONS_COLLECTION, uid);
+      if (!current || current.status !== "active") return;
+      if (orderCreatedAt < current.currentPeriodStart) return;
+
+      const now = Date.now();
+      this.write(transaction, { ...current, renewalFailedAt: now, updatedAt: now }, false);
+    });
+  }
+
+  /**
+   * Take back the time a refunded payment bought, as part of the refund's
+   * transaction. Premium ends if nothing paid for is left.
+   */
+  async revokePurchase(
+    transaction: DocumentTransaction,
+    uid: string,
+    durationMs: number,
+    now: number,
+  ): Promise<void> {
+    const { subscription: current } = await this.read(transaction, uid);
+    if (!current || current.status === "expired") return;
+
+    const periodEnd = current.currentPeriodEnd - durationMs;
+    const subscription: Subscription =
+      periodEnd > now
+        ? { ...current, status: "active", currentPeriodEnd: periodEnd, graceUntil: null }
+        : { ...current, status: "expired", graceUntil: null, pendingPlanId: null };
+    this.write(transaction, { ...subscription, updatedAt: now }, true);
+  }
+
+  /**
+   * Turning auto-renew off during grace ends the premium grace was keeping
+   */
+  async setAutoRenew(uid: string, autoRenew: boolean): Promise<Subscription> {
+    await this.get(uid);
+
+    return this.store.runTransaction(async (transaction) => {
+      const current = await transaction.get<Subscription>(SUBSCRIPTIONS_COLLECTION, uid);
+      if (!current || current.status === "expired") {
+        throw new SubscriptionError("not_subscribed");
+      }
+
+      const subscription: Subscription = { ...current, autoRenew, updatedAt: Date.now() };
+      if (!autoRenew && current.status === "grace") {
+        subscription.status = "expired";
+        subscription.graceUntil = null;
+      }
+      this.write(transaction, subscription, subscription.status !== current.status);
+      return subscription;
+    });
+  }
+
+  /**
+   * Move to a lower plan once the paid period ends, or pick the current plan
+   * again to call that off. Upgrades and new plans go through checkout.
+   */
+  async schedulePlanChange(uid: string, planId: unknown): Promise<Subscription> {
+    const plan = this.findPlan(planId);
+    if (!plan) throw new SubscriptionError("invalid_plan");
+    await this.get(uid);
+
+    return this.store.runTransaction(async (transaction) => {
+      const current = await transaction.get<Subscription>(SUBSCRIPTIONS_COLLECTION, uid);
+      const now = Date.now();
+      if (!current || entitledUntil(current) <= now) {
+        throw new SubscriptionError("not_subscribed");
+      }
+
+      const { change } = this.quoteFor(current, plan, now);
+      if (change !== "downgrade" && change !== "renewal") {
+        throw new SubscriptionError("checkout_required");
+      }
+
+      const subscription: Subscription = {
+        ...current,
+        pendingPlanId: change === "downgrade" ? plan.id : null,
+        updatedAt: now,
+      };
+      this.write(transaction, subscription, false);
+      return subscription;
+    });
+  }
+
+  /**
+   * Move lapsed subscriptions on and collect the reminders now due. Each
+   * step is re-checked in a transaction, so when several instances sweep at
+   * once only one of them reports it.
+   */
+  async sweep(now = Date.now()): Promise<SubscriptionReminder[]> {
+    const candidates = [
+      ...(await this.store.where<Subscription>(SUBSCRIPTIONS_COLLECTION, "status", "active")),
+      ...(await this.store.where<Subscription>(SUBSCRIPTIONS_COLLECTION, "status", "grace")),
+    ];
+
+    const reminders: SubscriptionReminder[] = [];
+    for (const candidate of candidates) {
+      if (!this.advance(candidate, now)) continue;
+
+      const reminder = await this.store.runTransaction(async (transaction) => {
+        const current = await transaction.get<Subscription>(
+          SUBSCRIPTIONS_COLLECTION,
+          candidate.uid,
+        );
+        const step = current && this.advance(current, now);
+        if (!current || !step) return null;
+
+        this.write(transaction, step.subscription, step.subscription.status !== current.status);
+        return step.reminder;
+      });
+      if (reminder) reminders.push(reminder);
+    }
+    return reminders;
+  }
+
+  private findPlan(planId: unknown): PremiumPlan | undefined {
+    return this.catalog.premiumPlans.find((plan) => plan.id === planId);
+  }
+
+  private quoteFor(
+    subscription: Subscription | null,
+    plan: PremiumPlan,
+    now: number,
+  ): PlanQuote {
+    const current =
+      subscription && entitledUntil(subscription) > now
+        ? this.findPlan(subscription.planId)
+        : undefined;
+    if (!subscription || !current) {
+      return { planId: plan.id, change: "new", amount: plan.amount, credit: 0, startsAt: now };
+    }
+
+    if (plan.id === current.id) {
+      // Renewals pick up where the paid period ended, so grace is not free time
+      return {
+        planId: plan.id,
+        change: "renewal",
+        amount: plan.amount,
+        credit: 0,
+        startsAt: subscription.currentPeriodEnd,
+      };
+    }
+
+    if (PREMIUM_TIER_RANK[plan.tier] > PREMIUM_TIER_RANK[current.tier]) {
+      const unusedMs = Math.max(0, subscription.currentPeriodEnd - now);
+      const credit = Math.floor((current.amount * unusedMs) / current.durationMs);
+      return {
+        planId: plan.id,
+        change: "upgrade",
+        amount: Math.max(this.config.minChargeAmount, plan.amount - credit),
+        credit,
+        startsAt: now,
+      };
+    }
+
+    return {
+      planId: plan.id,
+      change: "downgrade",
+      amount: 0,
+      credit: 0,
+      startsAt: subscription.currentPeriodEnd,
+    };
+  }
+
+  /**
+   * The next lifecycle step for a subscription, if one is due
+   */
+  private advance(
+    current: Subscription,
+    now: number,
+  ): { subscription: Subscription; reminder: SubscriptionReminder } | null {
+    const reminder = (
+      kind: SubscriptionReminderKind,
+      subscription: Subscription,
+      endsAt: number,
+    ): SubscriptionReminder => ({
+      uid: subscription.uid,
+      kind,
+      planId: subscription.planId,
+      autoRenew: subscription.autoRenew,
+      endsAt,
+    });
+
+    if (current.status === "grace") {
+      const graceUntil = current.graceUntil || 0;
+      if (now < graceUntil) return null;
+      const subscription: Subscription = {
+        ...current,
+        status: "expired",
+        graceUntil: null,
+        updatedAt: now,
+      };
+      return { subscription, reminder: reminder("expired", subscription, graceUntil) };
+    }
+    if (current.status !== "active") return null;
+
+    const periodEnd = current.currentPeriodEnd;
+    if (now >= periodEnd) {
+      // A scheduled downgrade is what gets renewed
+      const plan = this.findPlan(current.pendingPlanId) || this.findPlan(current.planId);
+      const renewed: Subscription = {
+        ...current,
+        ...(plan ? { planId: plan.id, tier: plan.tier } : {}),
+        pendingPlanId: null,
+        renewalFailedAt: null,
+        remindersSent: [],
+        updatedAt: now,
+      };
+
+      const graceUntil = periodEnd + this.config.gracePeriodMs;
+      if (current.autoRenew && current.renewalFailedAt && now < graceUntil) {
+        const subscription: Subscription = { ...renewed, status: "grace", graceUntil };
+        return { subscription, reminder: reminder("renewal_due", subscription, graceUntil) };
+      }
+      const subscription: Subscription = { ...renewed, status: "expired", graceUntil: null };
+      return { subscription, reminder: reminder("expired", subscription, periodEnd) };
+    }
+
+    const due = this.config.reminderLeadTimesMs.filter(
+      (leadTime) => periodEnd - now <= leadTime && !current.remindersSent.includes(leadTime),
+    );
+    if (due.length === 0) return null;
+
+    const subscription: Subscription = {
+      ...current,
+      remindersSent: [...current.remindersSent, ...due],
+      updatedAt: now,
+    };
+    return { subscription, reminder: reminder("period_ending", subscription, periodEnd) };
+  }
+
+  /**
+   * Read a subscription inside a transaction, falling back to premium
+   * granted before subscriptions were tracked so it can lapse like any other
+   */
+  private async read(
+    transaction: DocumentTransaction,
+    uid: string,
+  ): Promise<{ subscription: Subscription | null; adopted: boolean }> {
+    const subscription = await transaction.get<Subscription>(SUBSCRIPTIONS_COLLECTION, uid);
+    if (subscription) return { subscription, adopted: false };
+
+    const user = await transaction.get<PremiumFields>(USERS_COLLECTION, uid);
+    const plan = this.findPlan(user?.premiumPlan);
+    const periodEnd = toMillis(user?.premiumExpiry);
+    if (!user?.isPremium || !plan || !periodEnd) {
+      return { subscription: null, adopted: false };
+    }
+
+    const now = Date.now();
+    return {
+      subscription: {
+        uid,
+        planId: plan.id,
+        tier: plan.tier,
+        status: periodEnd > now ? "active" : "expired",
+        autoRenew: false,
+        currentPeriodStart: periodEnd - plan.durationMs,
+        currentPeriodEnd: periodEnd,
+        graceUntil: null,
+        pendingPlanId: null,
+        remindersSent: [],
+        updatedAt: now,
+      },
+      adopted: true,
+    };
+  }
+
+  private write(
+    transaction: DocumentTransaction,
+    subscription: Subscription,
+    premiumChanged: boolean,
+  ): void {
+    transaction.set(SUBSCRIPTIONS_COLLECTION, subscription.uid, subscription);
+    if (premiumChanged) {
+      transaction.update(USERS_COLLECTION, subscription.uid, premiumFields(subscription));
+    }
+  }
+}
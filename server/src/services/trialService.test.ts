@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { catalog } from "../config/catalog";
+import { referralConfig } from "../config/referrals";
+import { subscriptionConfig } from "../config/subscriptions";
+import { InMemoryDocumentStore } from "../store";
+import { CoinLedgerService } from "./coinLedgerService";
+import { ReferralService } from "./referralService";
+import { SubscriptionService } from "./subscriptionService";
+import { TrialService } from "./trialService";
+
+describe("TrialService", () => {
+  let referrals: ReferralService;
+  let trials: TrialService;
+
+  beforeEach(() => {
+    const store = new InMemoryDocumentStore();
+    referrals = new ReferralService(store, new CoinLedgerService(store), referralConfig);
+    const subscriptions = new SubscriptionService(store, catalog, subscriptionConfig);
+    trials = new TrialService(store, subscriptions, subscriptionConfig.trial);
+  });
+
+  it("gives a referral trial only to accounts that signed up with a code", async () => {
+    await referrals.applyCode("bob", await referrals.getCode("alice"));
+
+    const referred = await trials.start("bob", 0);
+    const unreferred = await trials.start("carol", 0);
+
+    expect(referred).toMatchObject({
+      source: "referral",
+      endsAt: subscriptionConfig.trial.durationsMs.referral,
+    });
+    expect(unreferred).toMatchObject({
+      source: "prompt",
+      endsAt: subscriptionConfig.trial.durationsMs.prompt,
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { DocumentStore } from "../store";
+import { PremiumTier } from "../config/catalog";
+import { TrialConfig, TrialSource } from "../config/subscriptions";
+import { toMillis } from "../lib/timestamps";
+import { SubscriptionService } from "./subscriptionService";
+
+const TRIALS_COLLECTION = "trials";
+const REFERRALS_COLLECTION = "referrals";
+const USERS_COLLECTION = "users";
+
+export type TrialStatus = "active" | "converted" | "ended";
+
+/**
+ * `trials/{uid}`: the account's one free trial. Start and end are also
+ * written to `users/{uid}`, along with the premium fields while it runs.
+ */
+export interface Trial {
+  uid: string;
+  source: TrialSource;
+  tier: PremiumTier;
+  status: TrialStatus;
+  startedAt: number;
+  endsAt: number;
+  // Reminder lead times already sent
+  remindersSent: number[];
+  updatedAt: number;
+}
+
+export type TrialReminderKind = "trial_ending" | "trial_ended";
+
+export interface TrialReminder {
+  uid: string;
+  kind: TrialReminderKind;
+  endsAt: number;
+}
+
+export type TrialErrorCode = "already_premium" | "trial_used";
+
+export class TrialError extends Error {
+  constructor(readonly code: TrialErrorCode) {
+    super(code);
+    this.name = "TrialError";
+  }
+}
+
+interface PremiumFields {
+  isPremium?: boolean;
+  premiumExpiry?: unknown;
+}
+
+/**
+ * Free premium trials, one per account. A plan bought during the trial
+ * converts it; otherwise premium ends with the trial, after prompts to
+ * convert as the end comes near. The source, and so the length, is the
+ * server's call: a referral trial for accounts that signed up with a code.
+ *
+ * There is no per-device limit. Without device attestation a device id is
+ * whatever the client sends, so it would only turn away honest clients;
+ * limiting trials by device waits on attestation.
+ */
+export class TrialService {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly subscriptions: SubscriptionService,
+    private readonly config: TrialConfig,
+  ) {}
+
+  async get(uid: string): Promise<Trial | null> {
+    return this.store.get<Trial>(TRIALS_COLLECTION, uid);
+  }
+
+  /**
+   * Whether this account may still start a trial
+   */
+  async isEligible(uid: string): Promise<boolean> {
+    return !(await this.get(uid));
+  }
+
+  async start(uid: string, now = Date.now()): Promise<Trial> {
+    return this.store.runTransaction(async (transaction) => {
+      const existing = await transaction.get<Trial>(TRIALS_COLLECTION, uid);
+      const referral = await transaction.get(REFERRALS_COLLECTION, uid);
+      const user = await transaction.get<PremiumFields>(USERS_COLLECTION, uid);
+
+      if (existing) throw new TrialError("trial_used");
+      if (user?.isPremium && (toMillis(user.premiumExpiry) || 0) > now) {
+        throw new TrialError("already_premium");
+      }
+
+      const source: TrialSource = referral ? "referral" : "prompt";
+      const trial: Trial = {
+        uid,
+        source,
+        tier: this.config.tier,
+        status: "active",
+        startedAt: now,
+        endsAt: now + this.config.durationsMs[source],
+        remindersSent: [],
+        updatedAt: now,
+      };
+      transaction.set(TRIALS_COLLECTION, uid, trial);
+      // No plan id, so subscriptions never adopt a trial as a paid plan
+      transaction.update(USERS_COLLECTION, uid, {
+        isPremium: true,
+        premiumPlan: null,
+        premiumTier: trial.tier,
+        premiumExpiry: new Date(trial.endsAt),
+        trialStartedAt: new Date(trial.startedAt),
+        trialEndsAt: new Date(trial.endsAt),
+      });
+      return trial;
+    });
+  }
+
+  /**
+   * End lapsed trials and collect the conversion prompts now due. Trials
+   * whose user has subscribed since are marked converted and left alone.
+   */
+  async sweep(now = Date.now()): Promise<TrialReminder[]> {
+    const reminders: TrialReminder[] = [];
+    for (const candidate of await this.store.where<Trial>(TRIALS_COLLECTION, "status", "active")) {
+      const subscription = await this.subscriptions.get(candidate.uid);
+      const subscribed = !!subscription && subscription.status !== "expired";
+      if (!subscribed && !this.advance(candidate, now)) continue;
+
+      const reminder = await this.store.runTransaction(async (transaction) => {
+        const current = await transaction.get<Trial>(TRIALS_COLLECTION, candidate.uid);
+        if (!current || current.status !== "active") return null;
+
+        if (subscribed) {
+          transaction.set(TRIALS_COLLECTION, current.uid, {
+            ...current,
+            status: "converted",
+            updatedAt: now,
+          });
+          return null;
+        }
+
+        const step = this.advance(current, now);
+        if (!step) return null;
+        transaction.set(TRIALS_COLLECTION, current.uid, step.trial);
+        if (step.trial.status === "ended") {
+          transaction.update(USERS_COLLECTION, current.uid, {
+            isPremium: false,
+            premiumPlan: null,
+            premiumTier: null,
+            premiumExpiry: null,
+          });
+        }
+        return step.reminder;
+      });
+      if (reminder) reminders.push(reminder);
+    }
+    return reminders;
+  }
+
+  /**
+   * The next step for an active trial, if one is due
+   */
+  private advance(
+    current: Trial,
+    now: number,
+  ): { trial: Trial; reminder: TrialReminder } | null {
+    if (now >= current.endsAt) {
+      return {
+        trial: { ...current, status: "ended", updatedAt: now },
+        reminder: { uid: current.uid, kind: "trial_ended", endsAt: current.endsAt },
+      };
+    }
+
+    // Lead times as long as the trial itself would prompt as soon as it starts
+    const due = this.config.reminderLeadTimesMs.filter(
+      (leadTime) =>
+        leadTime < current.endsAt - current.startedAt &&
+        current.endsAt - now <= leadTime &&
+        !current.remindersSent.includes(leadTime),
+    );
+    if (due.length === 0) return null;
+
+    return {
+      trial: { ...current, remindersSent: [...current.remindersSent, ...due], updatedAt: now },
+      reminder: { uid: current.uid, kind: "trial_ending", endsAt: current.endsAt },
+    };
+  }
+}
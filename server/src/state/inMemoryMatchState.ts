@@ -0,0 +1,143 @@
+import { Channel, ConnectedUser, MatchRef, RecentMatch, SuspendedCall } from "../types";
+import { MatchState, WaitingEntry } from "./matchState";
+
+/**
+ * Single-process MatchState. Used when no Redis server is configured.
+ */
+export class InMemoryMatchState implements MatchState {
+  private readonly users = new Map<string, ConnectedUser>();
+  private readonly waiting: Record<Channel, Map<string, number>> = {
+    video: new Map(),
+    text: new Map(),
+  };
+  private readonly partners: Record<Channel, Map<string, string>> = {
+    video: new Map(),
+    text: new Map(),
+  };
+  private readonly pairings: Record<Channel, number[]> = { video: [], text: [] };
+  private readonly lastMatches = new Map<string, MatchRef>();
+  private readonly recentMatches = new Map<string, RecentMatch[]>();
+  private readonly suspendedCalls = new Map<string, SuspendedCall>();
+
+  async addUser(user: ConnectedUser): Promise<void> {
+    this.users.set(user.id, user);
+  }
+
+  async getUser(id: string): Promise<ConnectedUser | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUsers(ids: string[]): Promise<ConnectedUser[]> {
+    return ids
+      .map((id) => this.users.get(id))
+      .filter((user): user is ConnectedUser => Boolean(user));
+  }
+
+  async updateUser(id: string, patch: Partial<ConnectedUser>): Promise<void> {
+    const user = this.users.get(id);
+    if (user) {
+      this.users.set(id, { ...user, ...patch, id });
+    }
+  }
+
+  async removeUser(id: string): Promise<void> {
+    this.users.delete(id);
+  }
+
+  async findUsersByUid(uid: string): Promise<ConnectedUser[]> {
+    return Array.from(this.users.values()).filter((user) => user.uid === uid);
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async enqueue(channel: Channel, id: string, enqueuedAt: number): Promise<void> {
+    if (!this.waiting[channel].has(id)) {
+      this.waiting[channel].set(id, enqueuedAt);
+    }
+  }
+
+  async dequeue(channel: Channel, id: string): Promise<boolean> {
+    return this.waiting[channel].delete(id);
+  }
+
+  async isWaiting(channel: Channel, id: string): Promise<boolean> {
+    return this.waiting[channel].has(id);
+  }
+
+  async listWaiting(channel: Channel): Promise<WaitingEntry[]> {
+    return Array.from(this.waiting[channel], ([id, enqueuedAt]) => ({ id, enqueuedAt })).sort(
+      (a, b) => a.enqueuedAt - b.enqueuedAt,
+    );
+  }
+
+  async setPartners(channel: Channel, a: string, b: string): Promise<void> {
+    this.partners[channel].set(a, b);
+    this.partners[channel].set(b, a);
+  }
+
+  async getPartner(channel: Channel, id: string): Promise<string | undefined> {
+    return this.partners[channel].get(id);
+  }
+
+  async clearPartner(channel: Channel, id: string): Promise<string | undefined> {
+    const partnerId = this.partners[channel].get(id);
+    this.partners[channel].delete(id);
+    if (partnerId && this.partners[channel].get(partnerId) === id) {
+      this.partners[channel].delete(partnerId);
+    }
+    return partnerId;
+  }
+
+  async countPairs(channel: Channel): Promise<number> {
+    return this.partners[channel].size / 2;
+  }
+
+  async recordPairing(channel: Channel, at: number): Promise<void> {
+    this.pairings[channel].push(at);
+  }
+
+  async countPairingsSince(channel: Channel, since: number): Promise<number> {
+    this.pairings[channel] = this.pairings[channel].filter((at) => at >= since);
+    return this.pairings[channel].length;
+  }
+
+  async setLastMatch(id: string, match: MatchRef): Promise<void> {
+    this.lastMatches.set(id, match);
+  }
+
+  async getLastMatch(id: string): Promise<MatchRef | undefined> {
+    return this.lastMatches.get(id);
+  }
+
+  async deleteLastMatch(id: string): Promise<void> {
+    this.lastMatches.delete(id);
+  }
+
+  async suspendCall(call: SuspendedCall): Promise<void> {
+    this.suspendedCalls.set(call.token, call);
+  }
+
+  async takeSuspendedCall(token: string): Promise<SuspendedCall | undefined> {
+    const call = this.suspendedCalls.get(token);
+    this.suspendedCalls.delete(token);
+    return call;
+  }
+
+  async pushRecentMatch(uid: string, match: RecentMatch, limit: number): Promise<void> {
+    const matches = [match, ...(this.recentMatches.get(uid) || [])];
+    this.recentMatches.set(uid, matches.slice(0, limit));
+  }
+
+  async getRecentMatches(uid: string): Promise<RecentMatch[]> {
+    return this.recentMatches.get(uid) || [];
+  }
+
+  // A single process never outlives its own sockets
+  async heartbeat(): Promise<void> {}
+
+  async takeOrphanedUsers(): Promise<string[]> {
+    return [];
+  }
+}
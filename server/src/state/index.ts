@@ -0,0 +1,58 @@
+import { Server } from "socket.io";
+import { createClient } from "redis";
+import { createAdapter } from "@socket.io/redis-adapter";
+import { MatchState } from "./matchState";
+import { InMemoryMatchState } from "./inMemoryMatchState";
+import { RedisClient, RedisMatchState } from "./redisMatchState";
+
+export type { MatchState, WaitingEntry } from "./matchState";
+export { HEARTBEAT_INTERVAL_MS } from "./matchState";
+export { InMemoryMatchState } from "./inMemoryMatchState";
+export { RedisMatchState } from "./redisMatchState";
+
+/**
+ * Connect to REDIS_URL if it is set. Commands issued before the connection
+ * is ready are queued by the client.
+ */
+export function createRedisClient(): RedisClient | null {
+  const url = process.env.REDIS_URL;
+  if (!url) return null;
+
+  const client = createClient({ url });
+  client.on("error", (error) => {
+    console.error("❌ Redis error:", error);
+  });
+  client.connect().catch((error) => {
+    console.error("❌ Failed to connect to Redis:", error);
+  });
+  return client;
+}
+
+/**
+ * Shared Redis state when available, otherwise in-process state that only
+ * supports a single server instance
+ */
+export function createMatchState(redis: RedisClient | null): MatchState {
+  if (redis) {
+    return new RedisMatchState(redis, process.env.REDIS_KEY_PREFIX || "ajnabicam:");
+  }
+
+  console.warn("⚠️ REDIS_URL not set - matching state is local to this instance");
+  return new InMemoryMatchState();
+}
+
+/**
+ * Route Socket.IO emits through Redis so events reach sockets connected to
+ * other instances
+ */
+export function useRedisAdapter(io: Server, redis: RedisClient): void {
+  const subscriber = redis.duplicate();
+  subscriber.on("error", (error) => {
+    console.error("❌ Redis subscriber error:", error);
+  });
+  subscriber.connect().catch((error) => {
+    console.error("❌ Failed to connect Redis subscriber:", error);
+  });
+
+  io.adapter(createAdapter(redis, subscriber));
+}
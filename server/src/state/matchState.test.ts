@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeRedis } from "../test/fakeRedis";
+import { ConnectedUser, SuspendedCall } from "../types";
+import { InMemoryMatchState } from "./inMemoryMatchState";
+import { HEARTBEAT_INTERVAL_MS, MatchState } from "./matchState";
+import { RedisMatchState } from "./redisMatchState";
+
+function user(id: string, uid = `uid-${id}`): ConnectedUser {
+  return {
+    id,
+    uid,
+    premiumTier: null,
+    shadowBanned: false,
+    genderFilter: "any",
+    interests: [],
+    blockedUids: [],
+  };
+}
+
+function suspendedCall(token: string, expiresAt: number): SuspendedCall {
+  return {
+    token,
+    uid: "uid-a",
+    socketId: "a",
+    partnerId: "b",
+    match: { sessionId: "session", partnerId: "b", partnerUid: "uid-b" },
+    callEndsAt: null,
+    expiresAt,
+  };
+}
+
+const backends: [string, () => MatchState][] = [
+  ["InMemoryMatchState", () => new InMemoryMatchState()],
+  ["RedisMatchState", () => new RedisMatchState(new FakeRedis().asClient(), "test:")],
+];
+
+describe.each(backends)("%s", (_name, create) => {
+  let state: MatchState;
+
+  beforeEach(() => {
+    state = create();
+  });
+
+  it("merges user updates and forgets removed users", async () => {
+    await state.addUser(user("a"));
+    await state.updateUser("a", { language: "hi", interests: ["music"] });
+    await state.updateUser("a", { gender: "female" });
+
+    expect(await state.getUser("a")).toMatchObject({
+      language: "hi",
+      interests: ["music"],
+      gender: "female",
+    });
+
+    await state.removeUser("a");
+    await state.updateUser("a", { language: "en" });
+    expect(await state.getUser("a")).toBeUndefined();
+    expect(await state.countUsers()).toBe(0);
+  });
+
+  it("finds every socket an account has open", async () => {
+    await state.addUser(user("a", "alice"));
+    await state.addUser(user("b", "alice"));
+    await state.addUser(user("c", "bob"));
+
+    const sockets = await state.findUsersByUid("alice");
+    expect(sockets.map(({ id }) => id).sort()).toEqual(["a", "b"]);
+  });
+
+  it("lists waiters oldest first and lets only one caller dequeue each", async () => {
+    await state.enqueue("video", "late", 200);
+    await state.enqueue("video", "early", 100);
+    // Queueing again keeps the original position
+    await state.enqueue("video", "early", 300);
+
+    expect(await state.listWaiting("video")).toEqual([
+      { id: "early", enqueuedAt: 100 },
+      { id: "late", enqueuedAt: 200 },
+    ]);
+    expect(await state.isWaiting("text", "early")).toBe(false);
+
+    const claims = await Promise.all([
+      state.dequeue("video", "early"),
+      state.dequeue("video", "early"),
+    ]);
+    expect(claims.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("clears both sides of a pair, but not a partner who moved on", async () => {
+    await state.setPartners("video", "a", "b");
+    expect(await state.countPairs("video")).toBe(1);
+    expect(await state.clearPartner("video", "a")).toBe("b");
+    expect(await state.getPartner("video", "b")).toBeUndefined();
+
+    await state.setPartners("video", "a", "b");
+    await state.setPartners("video", "b", "c");
+    expect(await state.clearPartner("video", "a")).toBe("b");
+    expect(await state.getPartner("video", "b")).toBe("c");
+  });
+
+  it("hands a suspended call to one taker only", async () => {
+    await state.suspendCall(suspendedCall("token", Date.now() + 1000));
+
+    const taken = await Promise.all([
+      state.takeSuspendedCall("token"),
+      state.takeSuspendedCall("token"),
+    ]);
+    expect(taken.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("keeps the newest recent matches up to the limit", async () => {
+    for (const sessionId of ["1", "2", "3"]) {
+      await state.pushRecentMatch("alice", { sessionId, partnerUid: "bob", startedAt: 0 }, 2);
+    }
+
+    const recent = await state.getRecentMatches("alice");
+    expect(recent.map(({ sessionId }) => sessionId)).toEqual(["3", "2"]);
+  });
+
+  it("counts only pairings since the given time", async () => {
+    await state.recordPairing("text", 100);
+    await state.recordPairing("text", 200);
+    await state.recordPairing("text", 300);
+
+    expect(await state.countPairingsSince("text", 200)).toBe(2);
+  });
+});
+
+describe("RedisMatchState across nodes", () => {
+  let redis: FakeRedis;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    redis = new FakeRedis();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const node = (id: string) => new RedisMatchState(redis.asClient(), "test:", id);
+
+  it("hands a crashed node's sockets to one surviving node", async () => {
+    const crashed = node("crashed");
+    const survivors = [node("one"), node("two")];
+    for (const state of [crashed, ...survivors]) await state.heartbeat();
+
+    await crashed.addUser(user("gone"));
+    await survivors[0].addUser(user("here"));
+
+    // The crashed node stops sending heartbeats
+    for (let beat = 0; beat < 3; beat++) {
+      vi.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+      for (const state of survivors) await state.heartbeat();
+    }
+    vi.advanceTimersByTime(1);
+
+    const taken = await Promise.all(survivors.map((state) => state.takeOrphanedUsers()));
+    expect(taken.flat()).toEqual(["gone"]);
+    expect(await survivors[1].takeOrphanedUsers()).toEqual([]);
+  });
+
+  it("leaves the sockets of nodes that keep their heartbeat alone", async () => {
+    const busy = node("busy");
+    const other = node("other");
+    await busy.heartbeat();
+    await busy.addUser(user("a"));
+
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    await busy.heartbeat();
+
+    expect(await other.takeOrphanedUsers()).toEqual([]);
+  });
+
+  it("stops tracking a socket once its node removes it", async () => {
+    const state = node("solo");
+    await state.heartbeat();
+    await state.addUser(user("a"));
+    await state.removeUser("a");
+
+    expect(await state.countUsers()).toBe(0);
+    expect(redis.keys()).not.toContain("test:node:solo:users");
+  });
+});
@@ -0,0 +1,66 @@
+import { Channel, ConnectedUser, MatchRef, RecentMatch, SuspendedCall } from "../types";
+
+// Each node refreshes its heartbeat this often; one that misses a few is
+// presumed down
+export const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+
+export interface WaitingEntry {
+  id: string;
+  enqueuedAt: number;
+}
+
+/**
+ * Matching and session state shared by every server instance.
+ *
+ * Keys are socket ids unless noted. Socket ids are unique across nodes, so
+ * records from different instances never collide.
+ */
+export interface MatchState {
+  addUser(user: ConnectedUser): Promise<void>;
+  getUser(id: string): Promise<ConnectedUser | undefined>;
+  getUsers(ids: string[]): Promise<ConnectedUser[]>;
+  // Merge fields into an existing user; does nothing once the user is removed
+  updateUser(id: string, patch: Partial<ConnectedUser>): Promise<void>;
+  removeUser(id: string): Promise<void>;
+  // Every socket an account has open, on any node
+  findUsersByUid(uid: string): Promise<ConnectedUser[]>;
+  countUsers(): Promise<number>;
+
+  enqueue(channel: Channel, id: string, enqueuedAt: number): Promise<void>;
+  // Only the caller that actually removed the entry gets true, so two nodes
+  // can never claim the same waiting user
+  dequeue(channel: Channel, id: string): Promise<boolean>;
+  isWaiting(channel: Channel, id: string): Promise<boolean>;
+  // Oldest first
+  listWaiting(channel: Channel): Promise<WaitingEntry[]>;
+
+  setPartners(channel: Channel, a: string, b: string): Promise<void>;
+  getPartner(channel: Channel, id: string): Promise<string | undefined>;
+  // Remove both sides of a pair, returning the partner if there was one
+  clearPartner(channel: Channel, id: string): Promise<string | undefined>;
+  countPairs(channel: Channel): Promise<number>;
+
+  // Pairing timestamps, used to estimate how quickly a queue is moving
+  recordPairing(channel: Channel, at: number): Promise<void>;
+  // Also forgets pairings older than `since`
+  countPairingsSince(channel: Channel, since: number): Promise<number>;
+
+  setLastMatch(id: string, match: MatchRef): Promise<void>;
+  getLastMatch(id: string): Promise<MatchRef | undefined>;
+  deleteLastMatch(id: string): Promise<void>;
+
+  // Keyed on resume token. Like dequeue, only one caller can take a call,
+  // so a resume and its grace timer never both do.
+  suspendCall(call: SuspendedCall): Promise<void>;
+  takeSuspendedCall(token: string): Promise<SuspendedCall | undefined>;
+
+  // Keyed on uid, newest first, capped at `limit`
+  pushRecentMatch(uid: string, match: RecentMatch, limit: number): Promise<void>;
+  getRecentMatches(uid: string): Promise<RecentMatch[]>;
+
+  // Mark this node's sockets as live, every HEARTBEAT_INTERVAL_MS
+  heartbeat(): Promise<void>;
+  // Sockets left behind by nodes that went down without disconnecting
+  // them. Each is handed to one caller only, to clean up as a disconnect.
+  takeOrphanedUsers(): Promise<string[]>;
+}
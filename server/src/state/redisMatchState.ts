@@ -0,0 +1,229 @@
+import { randomUUID } from "crypto";
+import { createClient } from "redis";
+import { Channel, ConnectedUser, MatchRef, RecentMatch, SuspendedCall } from "../types";
+import { HEARTBEAT_INTERVAL_MS, MatchState, WaitingEntry } from "./matchState";
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+// Recent match lists outlive their sockets, so let idle ones expire
+const RECENT_MATCHES_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Held calls are ended by a timer on the node that held them; this only
+// clears ones left behind by a node that went down first
+const SUSPENDED_CALL_LINGER_MS = 60 * 1000;
+// A node whose heartbeat key has been gone this long is presumed down
+const NODE_TTL_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+/**
+ * Redis-backed MatchState so several server instances can share one
+ * matching pool.
+ *
+ * Users are stored as hashes with one JSON-encoded field per property, so
+ * concurrent partial updates to the same user never overwrite each other.
+ * Waiting queues are sorted sets scored by enqueue time; ZREM is atomic,
+ * which is what makes dequeue safe to race across nodes.
+ *
+ * Each node also lists the sockets it added, next to a heartbeat key that
+ * expires unless refreshed. A node that crashes stops refreshing it, and
+ * the next node to notice takes over its sockets' cleanup.
+ */
+export class RedisMatchState implements MatchState {
+  constructor(
+    private readonly redis: RedisClient,
+    private readonly prefix = "ajnabicam:",
+    private readonly nodeId: string = randomUUID(),
+  ) {}
+
+  private key(...parts: string[]): string {
+    return this.prefix + parts.join(":");
+  }
+
+  async addUser(user: ConnectedUser): Promise<void> {
+    await this.redis
+      .multi()
+      .hSet(this.key("user", user.id), encodeFields(user))
+      .sAdd(this.key("users"), user.id)
+      .sAdd(this.key("uid", user.uid), user.id)
+      .sAdd(this.key("node", this.nodeId, "users"), user.id)
+      .exec();
+  }
+
+  async getUser(id: string): Promise<ConnectedUser | undefined> {
+    return decodeUser(await this.redis.hGetAll(this.key("user", id)));
+  }
+
+  async getUsers(ids: string[]): Promise<ConnectedUser[]> {
+    const users = await Promise.all(ids.map((id) => this.getUser(id)));
+    return users.filter((user): user is ConnectedUser => Boolean(user));
+  }
+
+  async updateUser(id: string, patch: Partial<ConnectedUser>): Promise<void> {
+    const fields = encodeFields({ ...patch, id });
+    delete fields.id;
+    if (Object.keys(fields).length === 0) return;
+
+    const key = this.key("user", id);
+    if (await this.redis.exists(key)) {
+      await this.redis.hSet(key, fields);
+    }
+  }
+
+  async removeUser(id: string): Promise<void> {
+    const user = await this.getUser(id);
+    const transaction = this.redis
+      .multi()
+      .del(this.key("user", id))
+      .sRem(this.key("users"), id)
+      .sRem(this.key("node", this.nodeId, "users"), id);
+    if (user) {
+      transaction.sRem(this.key("uid", user.uid), id);
+    }
+    await transaction.exec();
+  }
+
+  async findUsersByUid(uid: string): Promise<ConnectedUser[]> {
+    return this.getUsers(await this.redis.sMembers(this.key("uid", uid)));
+  }
+
+  async countUsers(): Promise<number> {
+    return this.redis.sCard(this.key("users"));
+  }
+
+  async enqueue(channel: Channel, id: string, enqueuedAt: number): Promise<void> {
+    await this.redis.zAdd(
+      this.key("waiting", channel),
+      { score: enqueuedAt, value: id },
+      { NX: true },
+    );
+  }
+
+  async dequeue(channel: Channel, id: string): Promise<boolean> {
+    return (await this.redis.zRem(this.key("waiting", channel), id)) === 1;
+  }
+
+  async isWaiting(channel: Channel, id: string): Promise<boolean> {
+    return (await this.redis.zScore(this.key("waiting", channel), id)) !== null;
+  }
+
+  async listWaiting(channel: Channel): Promise<WaitingEntry[]> {
+    const entries = await this.redis.zRangeWithScores(this.key("waiting", channel), 0, -1);
+    return entries.map(({ value, score }) => ({ id: value, enqueuedAt: score }));
+  }
+
+  async setPartners(channel: Channel, a: string, b: string): Promise<void> {
+    await this.redis.hSet(this.key("partners", channel), { [a]: b, [b]: a });
+  }
+
+  async getPartner(channel: Channel, id: string): Promise<string | undefined> {
+    return (await this.redis.hGet(this.key("partners", channel), id)) ?? undefined;
+  }
+
+  async clearPartner(channel: Channel, id: string): Promise<string | undefined> {
+    const key = this.key("partners", channel);
+    const partnerId = await this.redis.hGet(key, id);
+    if (!partnerId) return undefined;
+
+    // Leave the partner alone if they have already moved on to someone else
+    const partnersPartner = await this.redis.hGet(key, partnerId);
+    await this.redis.hDel(key, partnersPartner === id ? [id, partnerId] : [id]);
+    return partnerId;
+  }
+
+  async countPairs(channel: Channel): Promise<number> {
+    return (await this.redis.hLen(this.key("partners", channel))) / 2;
+  }
+
+  async recordPairing(channel: Channel, at: number): Promise<void> {
+    await this.redis.zAdd(this.key("pairings", channel), {
+      score: at,
+      value: `${at}:${randomUUID()}`,
+    });
+  }
+
+  async countPairingsSince(channel: Channel, since: number): Promise<number> {
+    const key = this.key("pairings", channel);
+    await this.redis.zRemRangeByScore(key, "-inf", `(${since}`);
+    return this.redis.zCard(key);
+  }
+
+  async setLastMatch(id: string, match: MatchRef): Promise<void> {
+    await this.redis.hSet(this.key("lastMatches"), id, JSON.stringify(match));
+  }
+
+  async getLastMatch(id: string): Promise<MatchRef | undefined> {
+    const value = await this.redis.hGet(this.key("lastMatches"), id);
+    return value ? JSON.parse(value) : undefined;
+  }
+
+  async deleteLastMatch(id: string): Promise<void> {
+    await this.redis.hDel(this.key("lastMatches"), id);
+  }
+
+  async suspendCall(call: SuspendedCall): Promise<void> {
+    await this.redis.set(this.key("suspendedCall", call.token), JSON.stringify(call), {
+      PXAT: call.expiresAt + SUSPENDED_CALL_LINGER_MS,
+    });
+  }
+
+  async takeSuspendedCall(token: string): Promise<SuspendedCall | undefined> {
+    const value = await this.redis.getDel(this.key("suspendedCall", token));
+    return value ? JSON.parse(value) : undefined;
+  }
+
+  async pushRecentMatch(uid: string, match: RecentMatch, limit: number): Promise<void> {
+    const key = this.key("recentMatches", uid);
+    await this.redis
+      .multi()
+      .lPush(key, JSON.stringify(match))
+      .lTrim(key, 0, limit - 1)
+      .expire(key, RECENT_MATCHES_TTL_SECONDS)
+      .exec();
+  }
+
+  async getRecentMatches(uid: string): Promise<RecentMatch[]> {
+    const values = await this.redis.lRange(this.key("recentMatches", uid), 0, -1);
+    return values.map((value) => JSON.parse(value));
+  }
+
+  async heartbeat(): Promise<void> {
+    await this.redis
+      .multi()
+      .set(this.key("node", this.nodeId), Date.now().toString(), { PX: NODE_TTL_MS })
+      .sAdd(this.key("nodes"), this.nodeId)
+      .exec();
+  }
+
+  async takeOrphanedUsers(): Promise<string[]> {
+    const orphaned: string[] = [];
+    for (const node of await this.redis.sMembers(this.key("nodes"))) {
+      if (node === this.nodeId || (await this.redis.exists(this.key("node", node)))) continue;
+      // Whichever node removes it from the set cleans up after it
+      if ((await this.redis.sRem(this.key("nodes"), node)) !== 1) continue;
+
+      const usersKey = this.key("node", node, "users");
+      orphaned.push(...(await this.redis.sMembers(usersKey)));
+      await this.redis.del(usersKey);
+    }
+    return orphaned;
+  }
+}
+
+function encodeFields(values: Partial<ConnectedUser>): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const [field, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      fields[field] = JSON.stringify(value);
+    }
+  }
+  return fields;
+}
+
+// A hash without an id is either missing or a leftover partial write
+function decodeUser(fields: Record<string, string>): ConnectedUser | undefined {
+  if (!fields.id) return undefined;
+
+  const user: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    user[field] = JSON.parse(value);
+  }
+  return user as unknown as ConnectedUser;
+}
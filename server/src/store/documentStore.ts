@@ -0,0 +1,143 @@
+/**
+ * Minimal document storage used for durable server-side records.
+ *
+ * Collections and documents mirror Firestore so the production store can be
+ * a thin wrapper, while development and tests use the in-memory store.
+ */
+export interface QueryOptions {
+  // Sorted descending, newest first for timestamp fields
+  orderByDesc?: string;
+  limit?: number;
+}
+
+/**
+ * Reads and writes that commit together. As in Firestore, every read must
+ * happen before the first write.
+ */
+export interface DocumentTransaction {
+  get<T>(collection: string, id: string): Promise<T | null>;
+  set<T extends object>(collection: string, id: string, data: T): void;
+  update(collection: string, id: string, data: object): void;
+}
+
+export interface DocumentStore {
+  get<T>(collection: string, id: string): Promise<T | null>;
+  set<T extends object>(collection: string, id: string, data: T): Promise<void>;
+  // Shallow merge into an existing document, creating it if missing
+  update(collection: string, id: string, data: object): Promise<void>;
+  delete(collection: string, id: string): Promise<void>;
+  where<T>(
+    collection: string,
+    field: string,
+    value: unknown,
+    options?: QueryOptions,
+  ): Promise<T[]>;
+  list<T>(collection: string, options?: QueryOptions): Promise<T[]>;
+  // `fn` may be retried on contention, so it must not have side effects
+  runTransaction<R>(fn: (transaction: DocumentTransaction) => Promise<R>): Promise<R>;
+}
+
+/**
+ * Apply QueryOptions to documents already held in memory
+ */
+function applyOptions(docs: object[], options: QueryOptions = {}): object[] {
+  let result = docs;
+  const { orderByDesc, limit } = options;
+
+  if (orderByDesc) {
+    // Numbers and strings order; documents with anything else there go last
+    const value = (doc: object): number | string | null => {
+      const field = (doc as Record<string, unknown>)[orderByDesc];
+      return typeof field === "number" || typeof field === "string" ? field : null;
+    };
+    result = [...result].sort((a, b) => {
+      const x = value(a);
+      const y = value(b);
+      if (x === y) return 0;
+      if (x === null) return 1;
+      if (y === null) return -1;
+      return x < y ? 1 : x > y ? -1 : 0;
+    });
+  }
+  if (limit !== undefined) {
+    result = result.slice(0, limit);
+  }
+  return result;
+}
+
+export class InMemoryDocumentStore implements DocumentStore {
+  private collections = new Map<string, Map<string, object>>();
+  // Transactions run one at a time, which is all the isolation they need here
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+
+  private collection(name: string): Map<string, object> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new Map();
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+
+  async get<T>(collection: string, id: string): Promise<T | null> {
+    const data = this.collection(collection).get(id);
+    return data ? (structuredClone(data) as T) : null;
+  }
+
+  async set<T extends object>(
+    collection: string,
+    id: string,
+    data: T,
+  ): Promise<void> {
+    this.collection(collection).set(id, structuredClone(data));
+  }
+
+  async update(collection: string, id: string, data: object): Promise<void> {
+    const existing = this.collection(collection).get(id) || {};
+    this.collection(collection).set(id, { ...existing, ...structuredClone(data) });
+  }
+
+  async delete(collection: string, id: string): Promise<void> {
+    this.collection(collection).delete(id);
+  }
+
+  async where<T>(
+    collection: string,
+    field: string,
+    value: unknown,
+    options?: QueryOptions,
+  ): Promise<T[]> {
+    const matches = Array.from(this.collection(collection).values()).filter(
+      (data) => (data as Record<string, unknown>)[field] === value,
+    );
+    return applyOptions(matches, options).map((data) => structuredClone(data) as T);
+  }
+
+  async list<T>(collection: string, options?: QueryOptions): Promise<T[]> {
+    const docs = Array.from(this.collection(collection).values());
+    return applyOptions(docs, options).map((data) => structuredClone(data) as T);
+  }
+
+  runTransaction<R>(fn: (transaction: DocumentTransaction) => Promise<R>): Promise<R> {
+    const run = async () => {
+      const writes: Array<() => Promise<void>> = [];
+      const result = await fn({
+        get: (collection, id) => this.get(collection, id),
+        set: (collection, id, data) => {
+          writes.push(() => this.set(collection, id, data));
+        },
+        update: (collection, id, data) => {
+          writes.push(() => this.update(collection, id, data));
+        },
+      });
+      for (const write of writes) {
+        await write();
+      }
+      return result;
+    };
+
+    const result = this.transactionQueue.then(run);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+}
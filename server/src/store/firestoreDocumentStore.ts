@@ -0,0 +1,76 @@
+import { App } from "firebase-admin/app";
+import { Firestore, Query, getFirestore } from "firebase-admin/firestore";
+import { DocumentStore, DocumentTransaction, QueryOptions } from "./documentStore";
+
+function applyOptions(query: Query, options: QueryOptions = {}): Query {
+  let result = query;
+  if (options.orderByDesc) {
+    result = result.orderBy(options.orderByDesc, "desc");
+  }
+  if (options.limit !== undefined) {
+    result = result.limit(options.limit);
+  }
+  return result;
+}
+
+export class FirestoreDocumentStore implements DocumentStore {
+  private db: Firestore;
+
+  constructor(app: App) {
+    this.db = getFirestore(app);
+  }
+
+  async get<T>(collection: string, id: string): Promise<T | null> {
+    const snapshot = await this.db.collection(collection).doc(id).get();
+    return snapshot.exists ? (snapshot.data() as T) : null;
+  }
+
+  async set<T extends object>(
+    collection: string,
+    id: string,
+    data: T,
+  ): Promise<void> {
+    await this.db.collection(collection).doc(id).set(data);
+  }
+
+  async update(collection: string, id: string, data: object): Promise<void> {
+    await this.db.collection(collection).doc(id).set(data, { merge: true });
+  }
+
+  async delete(collection: string, id: string): Promise<void> {
+    await this.db.collection(collection).doc(id).delete();
+  }
+
+  async where<T>(
+    collection: string,
+    field: string,
+    value: unknown,
+    options?: QueryOptions,
+  ): Promise<T[]> {
+    const query = this.db.collection(collection).where(field, "==", value);
+    const snapshot = await applyOptions(query, options).get();
+    return snapshot.docs.map((doc) => doc.data() as T);
+  }
+
+  async list<T>(collection: string, options?: QueryOptions): Promise<T[]> {
+    const snapshot = await applyOptions(this.db.collection(collection), options).get();
+    return snapshot.docs.map((doc) => doc.data() as T);
+  }
+
+  runTransaction<R>(fn: (transaction: DocumentTransaction) => Promise<R>): Promise<R> {
+    return this.db.runTransaction((transaction) =>
+      fn({
+        get: async <T>(collection: string, id: string) => {
+          const snapshot = await transaction.get(this.db.collection(collection).doc(id));
+          return snapshot.exists ? (snapshot.data() as T) : null;
+        },
+        set: (collection, id, data) => {
+          transaction.set(this.db.collection(collection).doc(id), data);
+        },
+        update: (collection, id, data) => {
+          transaction.set(this.db.collection(collection).doc(id), data, { merge: true });
+        },
+      }),
+    );
+  }
+}
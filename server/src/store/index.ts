@@ -0,0 +1,20 @@
+import { getFirebaseAdminApp } from "../lib/firebaseAdmin";
+import { DocumentStore, InMemoryDocumentStore } from "./documentStore";
+import { FirestoreDocumentStore } from "./firestoreDocumentStore";
+
+export { DocumentStore, DocumentTransaction, InMemoryDocumentStore } from "./documentStore";
+
+/**
+ * Use Firestore when Firebase Admin is configured, otherwise keep records
+ * in memory (they are lost on restart)
+ */
+export function createDocumentStore(): DocumentStore {
+  const app = getFirebaseAdminApp();
+  if (app) {
+    console.log("✅ Using Firestore document store");
+    return new FirestoreDocumentStore(app);
+  }
+
+  console.warn("⚠️ Using in-memory document store - records will not persist");
+  return new InMemoryDocumentStore();
+}
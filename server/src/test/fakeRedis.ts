@@ -0,0 +1,261 @@
+import { RedisClient } from "../state/redisMatchState";
+
+interface Values {
+  string: string;
+  hash: Map<string, string>;
+  set: Set<string>;
+  zset: Map<string, number>;
+  list: string[];
+}
+
+type Value = { [T in keyof Values]: { type: T; value: Values[T] } }[keyof Values];
+
+type Members = string | string[];
+
+type Command = (...args: unknown[]) => Promise<unknown>;
+
+const toArray = (members: Members) => (Array.isArray(members) ? members : [members]);
+
+function parseBound(bound: string): { value: number; exclusive: boolean } {
+  const exclusive = bound.startsWith("(");
+  const raw = exclusive ? bound.slice(1) : bound;
+  const value = raw === "-inf" ? -Infinity : raw === "+inf" ? Infinity : Number(raw);
+  return { value, exclusive };
+}
+
+/**
+ * Just enough of the node-redis client for RedisMatchState, kept in memory
+ * so its tests need no Redis server. Expiry follows Date.now(), so fake
+ * timers move it along. MULTI runs its commands in order, which is as
+ * atomic as a single-threaded fake needs to be.
+ */
+export class FakeRedis {
+  private readonly data = new Map<string, Value>();
+  private readonly expiresAt = new Map<string, number>();
+
+  asClient(): RedisClient {
+    return this as unknown as RedisClient;
+  }
+
+  keys(): string[] {
+    return [...this.data.keys()].filter((key) => this.read(key) !== undefined);
+  }
+
+  private read(key: string): Value | undefined {
+    const expiresAt = this.expiresAt.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.data.delete(key);
+      this.expiresAt.delete(key);
+    }
+    return this.data.get(key);
+  }
+
+  private get<T extends keyof Values>(key: string, type: T, create: () => Values[T]): Values[T] {
+    const existing = this.read(key);
+    if (existing) {
+      if (existing.type !== type) throw new Error(`WRONGTYPE ${key} is a ${existing.type}`);
+      return existing.value as Values[T];
+    }
+    const value = create();
+    this.data.set(key, { type, value } as Value);
+    return value;
+  }
+
+  // Empty collections do not exist in Redis
+  private prune(key: string) {
+    const entry = this.data.get(key);
+    if (!entry || entry.type === "string") return;
+
+    const size = Array.isArray(entry.value) ? entry.value.length : entry.value.size;
+    if (size === 0) {
+      this.data.delete(key);
+      this.expiresAt.delete(key);
+    }
+  }
+
+  async del(key: string): Promise<number> {
+    const existed = this.read(key) !== undefined;
+    this.data.delete(key);
+    this.expiresAt.delete(key);
+    return existed ? 1 : 0;
+  }
+
+  async exists(key: string): Promise<number> {
+    return this.read(key) ? 1 : 0;
+  }
+
+  async expire(key: string, seconds: number): Promise<number> {
+    if (!this.read(key)) return 0;
+    this.expiresAt.set(key, Date.now() + seconds * 1000);
+    return 1;
+  }
+
+  async set(key: string, value: string, options: { PX?: number; PXAT?: number } = {}) {
+    this.data.set(key, { type: "string", value });
+    this.expiresAt.delete(key);
+    if (options.PX !== undefined) this.expiresAt.set(key, Date.now() + options.PX);
+    if (options.PXAT !== undefined) this.expiresAt.set(key, options.PXAT);
+    return "OK";
+  }
+
+  async getDel(key: string): Promise<string | null> {
+    const entry = this.read(key);
+    if (!entry || entry.type !== "string") return null;
+    await this.del(key);
+    return entry.value;
+  }
+
+  async hSet(key: string, field: string | Record<string, string>, value?: string) {
+    const hash = this.get(key, "hash", () => new Map());
+    const fields = typeof field === "string" ? { [field]: value as string } : field;
+    let added = 0;
+    for (const [name, fieldValue] of Object.entries(fields)) {
+      if (!hash.has(name)) added++;
+      hash.set(name, fieldValue);
+    }
+    return added;
+  }
+
+  async hGet(key: string, field: string): Promise<string | null> {
+    const entry = this.read(key);
+    return entry?.type === "hash" ? (entry.value.get(field) ?? null) : null;
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    const entry = this.read(key);
+    return entry?.type === "hash" ? Object.fromEntries(entry.value) : {};
+  }
+
+  async hDel(key: string, fields: Members): Promise<number> {
+    const hash = this.get(key, "hash", () => new Map());
+    const removed = toArray(fields).filter((field) => hash.delete(field)).length;
+    this.prune(key);
+    return removed;
+  }
+
+  async hLen(key: string): Promise<number> {
+    const entry = this.read(key);
+    return entry?.type === "hash" ? entry.value.size : 0;
+  }
+
+  async sAdd(key: string, members: Members): Promise<number> {
+    const set = this.get(key, "set", () => new Set());
+    return toArray(members).filter((member) => !set.has(member) && set.add(member)).length;
+  }
+
+  async sRem(key: string, members: Members): Promise<number> {
+    const set = this.get(key, "set", () => new Set());
+    const removed = toArray(members).filter((member) => set.delete(member)).length;
+    this.prune(key);
+    return removed;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    const entry = this.read(key);
+    return entry?.type === "set" ? [...entry.value] : [];
+  }
+
+  async sCard(key: string): Promise<number> {
+    return (await this.sMembers(key)).length;
+  }
+
+  async zAdd(
+    key: string,
+    members: { score: number; value: string } | { score: number; value: string }[],
+    options: { NX?: boolean } = {},
+  ): Promise<number> {
+    const zset = this.get(key, "zset", () => new Map());
+    let added = 0;
+    for (const { score, value } of Array.isArray(members) ? members : [members]) {
+      if (zset.has(value) && options.NX) continue;
+      if (!zset.has(value)) added++;
+      zset.set(value, score);
+    }
+    return added;
+  }
+
+  async zRem(key: string, members: Members): Promise<number> {
+    const zset = this.get(key, "zset", () => new Map());
+    const removed = toArray(members).filter((member) => zset.delete(member)).length;
+    this.prune(key);
+    return removed;
+  }
+
+  async zScore(key: string, member: string): Promise<number | null> {
+    const entry = this.read(key);
+    return entry?.type === "zset" ? (entry.value.get(member) ?? null) : null;
+  }
+
+  async zCard(key: string): Promise<number> {
+    const entry = this.read(key);
+    return entry?.type === "zset" ? entry.value.size : 0;
+  }
+
+  async zRangeWithScores(key: string, start: number, stop: number) {
+    const entry = this.read(key);
+    if (entry?.type !== "zset") return [];
+    const sorted = [...entry.value]
+      .map(([value, score]) => ({ value, score }))
+      .sort((a, b) => a.score - b.score || a.value.localeCompare(b.value));
+    return sorted.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  async zRemRangeByScore(key: string, min: string, max: string): Promise<number> {
+    const entry = this.read(key);
+    if (entry?.type !== "zset") return 0;
+    const low = parseBound(min);
+    const high = parseBound(max);
+
+    let removed = 0;
+    for (const [member, score] of entry.value) {
+      const aboveLow = low.exclusive ? score > low.value : score >= low.value;
+      const belowHigh = high.exclusive ? score < high.value : score <= high.value;
+      if (aboveLow && belowHigh && entry.value.delete(member)) removed++;
+    }
+    this.prune(key);
+    return removed;
+  }
+
+  async lPush(key: string, values: Members): Promise<number> {
+    const list = this.get(key, "list", () => []);
+    list.unshift(...toArray(values).reverse());
+    return list.length;
+  }
+
+  async lTrim(key: string, start: number, stop: number): Promise<string> {
+    const entry = this.read(key);
+    if (entry?.type === "list") {
+      entry.value.splice(0, entry.value.length, ...entry.value.slice(start, stop + 1));
+      this.prune(key);
+    }
+    return "OK";
+  }
+
+  async lRange(key: string, start: number, stop: number): Promise<string[]> {
+    const entry = this.read(key);
+    if (entry?.type !== "list") return [];
+    return entry.value.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  multi() {
+    const queued: (() => Promise<unknown>)[] = [];
+    const transaction: Record<string, unknown> = {
+      exec: async () => {
+        const results = [];
+        for (const command of queued) results.push(await command());
+        return results;
+      },
+    };
+    const proxy: Record<string, unknown> = new Proxy(transaction, {
+      get: (target, name: string) =>
+        name in target
+          ? target[name]
+          : (...args: unknown[]) => {
+              const command = (this as unknown as Record<string, Command>)[name];
+              queued.push(() => command.apply(this, args));
+              return proxy;
+            },
+    });
+    return proxy;
+  }
+}
@@ -0,0 +1,69 @@
+import { PremiumTier } from "./config/catalog";
+import { FeatureUnlocks } from "./config/entitlements";
+
+export type Gender = "male" | "female" | "other";
+export type GenderFilter = "any" | "male" | "female";
+
+/**
+ * Everything the server knows about a connected socket
+ */
+export interface ConnectedUser {
+  id: string;
+  // Verified Firebase uid, shared by every socket the same account opens
+  uid: string;
+  // Null without an active plan; features are checked against config/entitlements
+  premiumTier: PremiumTier | null;
+  // Features bought in the coin shop, on top of the plan
+  featureUnlocks?: FeatureUnlocks;
+  // Shadow-banned users are only ever matched with each other
+  shadowBanned: boolean;
+  genderFilter: GenderFilter;
+  gender?: Gender;
+  language?: string;
+  interests: string[];
+  // Calls with a voice-only user are recorded as voice sessions
+  voiceOnly?: boolean;
+  // Uids this account has blocked, kept on the record so any node can check
+  blockedUids: string[];
+  // Used to avoid rematching the same two users back-to-back
+  lastPartnerUid?: string;
+  lastMatchedAt?: number;
+  // When the current video call runs out of time, shared by both partners;
+  // null when it is unlimited or over
+  callEndsAt?: number | null;
+  // Lets a new socket take over this one's video call after a network drop
+  resumeToken?: string;
+}
+
+export type Channel = "video" | "text";
+
+/**
+ * The current or most recent match of a socket
+ */
+export interface MatchRef {
+  sessionId: string;
+  partnerId: string;
+  partnerUid: string;
+}
+
+/**
+ * A video call one side dropped out of, held open for a grace window so it
+ * can resume from a new socket. Keyed on that side's resume token.
+ */
+export interface SuspendedCall {
+  token: string;
+  uid: string;
+  // The socket that dropped, which the partner is still paired with
+  socketId: string;
+  partnerId: string;
+  match: MatchRef;
+  callEndsAt: number | null;
+  lastMatchedAt?: number;
+  expiresAt: number;
+}
+
+export interface RecentMatch {
+  sessionId: string;
+  partnerUid: string;
+  startedAt: number;
+}